@@ -21,8 +21,10 @@ import { z } from "zod";
 import {
   connectUrl,
   connectSitemap,
+  connectCrawl,
   connectFolder,
   connectPdf,
+  connectRepo,
 } from "./tools/connect.js";
 
 import {
@@ -58,6 +60,8 @@ import {
   runCleanup,
 } from "./tools/utilities.js";
 
+import { pipelineRun } from "./tools/pipeline.js";
+
 import {
   classifyQuery,
   ClassifyQueryInputSchema,
@@ -72,17 +76,28 @@ import {
   debugQuery,
   DebugQueryInputSchema,
 } from "./tools/debug.js";
+import {
+  evalSetSave,
+  evalRun,
+  evalList,
+  EvalSetSaveSchema,
+  EvalRunSchema,
+  EvalListSchema,
+} from "./tools/eval.js";
+import { evalGenerate, EvalGenerateBaseSchema, EvalGenerateSchema } from "./tools/eval-generate.js";
 
 import {
   projectCreate,
   projectList,
   projectGet,
+  projectSetRetrieval,
   projectDelete,
   projectAddSource,
   projectRemoveSource,
   projectBuild,
   projectBuildStatus,
   projectQuery,
+  projectDebugQuery,
   projectExport,
   projectDeploy,
   projectServe,
@@ -93,21 +108,27 @@ import {
 
 import {
   librarianAudit,
-  librarianAssessQuality,
+  librarianAssess,
+  librarianQuery,
+  librarianHistory,
   formatAuditResponse,
   formatQualityResponse,
   initLibrarian,
   getServerInfo,
   LibrarianAuditSchema,
   LibrarianAssessSchema,
+  LibrarianQuerySchema,
+  LibrarianHistorySchema,
 } from "./tools/librarian.js";
 
 // Schemas
 import {
   ConnectUrlSchema,
   ConnectSitemapSchema,
+  ConnectCrawlSchema,
   ConnectFolderSchema,
   ConnectPdfSchema,
+  ConnectRepoSchema,
   ExtractPdfSchema,
   ExtractHtmlSchema,
   ExtractDocumentSchema,
@@ -126,12 +147,14 @@ import {
   RunListSchema,
   RunDiffSchema,
   RunCleanupSchema,
+  PipelineRunSchema,
 } from "./schemas.js";
 
 import {
   ProjectCreateSchema,
   ProjectListSchema,
   ProjectGetSchema,
+  ProjectSetRetrievalSchema,
   ProjectDeleteSchema,
   ProjectAddSourceSchema,
   ProjectAddSourceBaseSchema,
@@ -140,6 +163,7 @@ import {
   ProjectBuildSchema,
   ProjectBuildStatusSchema,
   ProjectQuerySchema,
+  ProjectDebugQuerySchema,
   ProjectExportSchema,
   ProjectDeploySchema,
   ProjectServeSchema,
@@ -190,6 +214,18 @@ server.tool(
   }
 );
 
+server.tool(
+  "indexfoundry_connect_crawl",
+  "Crawl a site by following links from a start URL, for sites without a sitemap. Bounded by max_depth and max_pages, scoped to the start URL's origin or allowed_domains, and filtered by include/exclude regexes. URLs are normalized (fragments and tracking parameters dropped, <link rel=canonical> honored) so pages are fetched once. Saves the parent → child link graph to raw/crawl_graph.json.",
+  ConnectCrawlSchema.shape,
+  async (args) => {
+    const result = await connectCrawl(args as z.infer<typeof ConnectCrawlSchema>);
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
 server.tool(
   "indexfoundry_connect_folder",
   "Load files from a local folder using glob patterns. Validates file sizes and content types.",
@@ -214,13 +250,25 @@ server.tool(
   }
 );
 
+server.tool(
+  "indexfoundry_connect_repo",
+  "Read files from a local git repository (path or file:// URL) at a branch, tag or commit, filtered by path glob. Records the commit SHA and per-file blob hashes in the raw manifest; re-running at a new commit only writes changed files. Chunks from these files cite path@commit.",
+  ConnectRepoSchema.shape,
+  async (args) => {
+    const result = await connectRepo(args as z.infer<typeof ConnectRepoSchema>);
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
 // ============================================================================
 // PHASE 2: EXTRACT TOOLS
 // ============================================================================
 
 server.tool(
   "indexfoundry_extract_pdf",
-  "Extract text from PDF files, producing page-by-page JSONL output. Handles multi-column layouts and embedded fonts.",
+  "Extract text from PDF files, producing page-by-page JSONL output. Pages with an empty text layer are OCR'd automatically (tesseract.js); mode 'ocr' OCRs every scanned page. Per-page OCR confidence is recorded in .pages.jsonl.",
   ExtractPdfSchema.shape,
   async (args) => {
     const result = await extractPdf(args as z.infer<typeof ExtractPdfSchema>);
@@ -244,7 +292,7 @@ server.tool(
 
 server.tool(
   "indexfoundry_extract_document",
-  "Generic document extractor for markdown, plain text, CSV, and JSON files. Normalizes encoding and line endings.",
+  "Generic document extractor for markdown, plain text, CSV, JSON, and DOCX files. DOCX headings and tables become markdown, comments and footnotes are emitted as separate sections, and core properties (title, author, modified) are recorded in the report. Normalizes encoding and line endings.",
   ExtractDocumentSchema.shape,
   async (args) => {
     const result = await extractDocument(args as z.infer<typeof ExtractDocumentSchema>);
@@ -284,7 +332,7 @@ server.tool(
 
 server.tool(
   "indexfoundry_normalize_dedupe",
-  "Deduplicate chunks by exact content hash or fuzzy similarity (simhash). Preserves the first occurrence and tracks duplicates.",
+  "Deduplicate chunks by exact content hash or fuzzy similarity (simhash, or minhash with LSH banding for large corpora). Preserves the first occurrence and writes a report listing each duplicate cluster with its kept and dropped chunks.",
   NormalizeDedupeSchema.shape,
   async (args) => {
     const result = await normalizeDedupe(args as z.infer<typeof NormalizeDedupeSchema>);
@@ -300,7 +348,7 @@ server.tool(
 
 server.tool(
   "indexfoundry_index_embed",
-  "Generate vector embeddings for chunks using OpenAI or local models. Batch processing with retry logic and rate limiting.",
+  "Generate vector embeddings for chunks using OpenAI (or an OpenAI-compatible gateway via base_url), Ollama, or local models. Batch processing with retry logic and rate limiting.",
   IndexEmbedSchema.shape,
   async (args) => {
     const result = await indexEmbed(args as z.infer<typeof IndexEmbedSchema>);
@@ -312,7 +360,7 @@ server.tool(
 
 server.tool(
   "indexfoundry_index_upsert",
-  "Upsert vectors to a vector database. Supports local file-based storage and external providers (Pinecone, Weaviate, Qdrant, Milvus, Chroma).",
+  "Upsert vectors to a vector database. Supports local file-based storage, Qdrant and Chroma (collection created with the embedding dimension and distance; namespace and insert/upsert/replace modes honored).",
   IndexUpsertSchema.shape,
   async (args) => {
     const result = await indexUpsert(args as z.infer<typeof IndexUpsertSchema>);
@@ -324,7 +372,7 @@ server.tool(
 
 server.tool(
   "indexfoundry_index_build_profile",
-  "Define retrieval configuration: top_k, hybrid search settings, reranking, metadata filters, and scoring adjustments.",
+  "Define retrieval configuration: top_k, hybrid search settings, reranking (lexical offline or a cross_encoder HTTP endpoint, applied by serve_query, the run server and debug_query), metadata filters, and scoring adjustments.",
   IndexBuildProfileSchema.shape,
   async (args) => {
     const result = await indexBuildProfile(args as z.infer<typeof IndexBuildProfileSchema>);
@@ -352,7 +400,7 @@ server.tool(
 
 server.tool(
   "indexfoundry_serve_start",
-  "Start an HTTP search API server for a run. Loads vectors and chunks into memory, serves semantic/hybrid/keyword search endpoints.",
+  "Start an HTTP search API server for a run. Loads vectors and chunks into memory, serves semantic/hybrid/keyword search endpoints. Enforces rate_limit (429 + Retry-After), cors_origins (403 for other origins) and the profile's security.require_auth (API key via Authorization: Bearer or X-API-Key); rejections are logged to the run's events.ndjson.",
   ServeStartSchema.shape,
   async (args) => {
     const result = await serveStart(args as z.infer<typeof ServeStartSchema>);
@@ -388,7 +436,7 @@ server.tool(
 
 server.tool(
   "indexfoundry_serve_query",
-  "Query a running search server directly (without HTTP). Supports semantic, keyword, and hybrid search modes.",
+  "Query a running search server directly (without HTTP). Supports semantic, keyword, and hybrid search modes. filters takes an expression such as { \"position.page\": { \"gte\": 3 }, \"or\": [...] } with eq/neq/gt/gte/lt/lte/in/contains, validated against the profile's allowed_filters. mmr: { lambda } diversifies results so near-duplicate chunks don't crowd out others.",
   ServeQuerySchema.shape,
   async (args) => {
     const result = await serveQuery(args as z.infer<typeof ServeQuerySchema>);
@@ -398,6 +446,22 @@ server.tool(
   }
 );
 
+// ============================================================================
+// PIPELINE ORCHESTRATION
+// ============================================================================
+
+server.tool(
+  "indexfoundry_pipeline_run",
+  "Run the full pipeline (connect → extract → normalize → index → optional serve) in one call. Each phase's outputs feed the next, every phase is recorded in the run manifest, and partial results are returned on failure. Set stop_on_error=false to continue past failed phases.",
+  PipelineRunSchema.shape,
+  async (args) => {
+    const result = await pipelineRun(args as z.infer<typeof PipelineRunSchema>);
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
 // ============================================================================
 // UTILITY TOOLS
 // ============================================================================
@@ -542,6 +606,27 @@ RETURNS: { manifest, sources[], path } - full project state`,
   }
 );
 
+server.tool(
+  "indexfoundry_project_set_retrieval",
+  `⚖️ Configure how a project ranks hybrid search results.
+
+SETTINGS (stored in project.json):
+- alpha: semantic weight (1 = pure semantic, 0 = pure keyword), default 0.7
+- fusion_method: rrf (rank-based, default), weighted_sum (raw scores) or convex (min-max normalized scores)
+- rrf_k: RRF rank constant, default 60
+- anchor_boost: boost for chunks containing identifiers (D40, SRD52, 5000) or quoted terms from the query, default 0.5
+
+These settings drive project_query, the chat search and exported servers identically.
+Re-run project_export to apply them to an existing deployment.`,
+  ProjectSetRetrievalSchema.shape,
+  async (args) => {
+    const result = await projectSetRetrieval(args as z.infer<typeof ProjectSetRetrievalSchema>);
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
 server.tool(
   "indexfoundry_project_delete",
   `🗑️ Delete a project and all its data. Requires confirm: true for safety.`,
@@ -565,6 +650,7 @@ SOURCE TYPES (use exactly one per source):
 - sitemap_url: Crawl all pages in sitemap.xml
 - folder_path: Local folder with text/markdown/PDF files
 - pdf_path: Single PDF file (local path or URL)
+- repo_path: Local git repository (path or file:// URL) at \`ref\`; rebuilds only re-extract changed files
 
 MODES:
 - Single: Provide one source directly in parameters
@@ -753,7 +839,11 @@ PREREQUISITES: project_build must have processed sources
 MODES:
 - keyword: Fast exact-match search
 - semantic: Embedding similarity (requires query embedding)
-- hybrid: Combines keyword + semantic with RRF fusion
+- hybrid: Combines keyword + semantic using the project's retrieval settings (project_set_retrieval)
+
+FILTERS: filter_tags (any/all via filter_tags_mode), filter_sources and filters (expression with eq/neq/gt/gte/lt/lte/in/contains and and/or/not) are applied before top_k
+RERANK: rerank: { provider: "lexical" } or { provider: "cross_encoder", endpoint } reorders the first top_k_to_rerank results
+MMR: mmr: { lambda: 0.5 } drops near-duplicate chunks (e.g. the same page from several doc versions) in favor of different ones
 
 USE WHEN: You want to test search quality before deploying`,
   ProjectQuerySchema.shape,
@@ -942,6 +1032,87 @@ server.tool(
   }
 );
 
+server.tool(
+  "indexfoundry_project_debug_query",
+  `🔍 Debug a project query: trace filter, embed, search and fuse steps over the project's chunks and vectors.
+
+Each result reports its keyword (BM25) and semantic ranks separately, so a miss can be traced to one side of the hybrid ranking.
+Pass expected chunk_ids/doc_ids to get precision, recall and where each missing chunk ranked (or whether a filter removed it).
+export_report writes the report to projects/<project_id>/debug/.`,
+  ProjectDebugQuerySchema.shape,
+  async (args) => {
+    const result = await projectDebugQuery(args as z.infer<typeof ProjectDebugQuerySchema>);
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+// ============================================================================
+// EVALUATION TOOLS
+// ============================================================================
+
+server.tool(
+  "indexfoundry_eval_set_save",
+  `📋 Save a named query set of golden questions for a project or run.
+
+Each query lists the chunk_ids and/or doc_ids it should retrieve (for projects, doc_id is the source_id).
+Saving under an existing name replaces its queries. Give queries stable ids so evaluations can be compared.`,
+  EvalSetSaveSchema.shape,
+  async (args) => {
+    const result = await evalSetSave(args as z.infer<typeof EvalSetSaveSchema>);
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+server.tool(
+  "indexfoundry_eval_run",
+  `📏 Evaluate a query set: precision@k, recall@k, MRR and nDCG@k per query and on average.
+
+Projects are queried through project_query; runs through serve_query (start the run's server first).
+Each report is saved with a timestamp and compared to the previous one: delta holds the aggregate change and regressions lists queries whose metrics dropped.`,
+  EvalRunSchema.shape,
+  async (args) => {
+    const result = await evalRun(args as z.infer<typeof EvalRunSchema>);
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+server.tool(
+  "indexfoundry_eval_list",
+  "📊 List a project's or run's query sets with their recent evaluation scores, newest first.",
+  EvalListSchema.shape,
+  async (args) => {
+    const result = await evalList(args as z.infer<typeof EvalListSchema>);
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+server.tool(
+  "indexfoundry_eval_generate",
+  `🧪 Generate a synthetic eval set from a project's chunks.
+
+Samples chunks stratified by source and section and writes questions each chunk answers; the chunk is the expected answer.
+GENERATORS:
+- template (default, offline): "What does <section> say about <term>?" from chunk headings and distinctive terms
+- llm: OpenAI-compatible chat completions (base_url, model, api_key_env); failed chunks fall back to templates
+
+The set is saved like eval_set_save; run it with eval_run.`,
+  EvalGenerateBaseSchema.shape,
+  async (args) => {
+    const result = await evalGenerate(args as z.infer<typeof EvalGenerateSchema>);
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
 // ============================================================================
 // LIBRARIAN PROTOCOL TOOLS (ADR-007)
 // ============================================================================
@@ -979,7 +1150,7 @@ RETURNS: State audit with health status, issues, and recommendations`,
     const result = await librarianAudit(args as z.infer<typeof LibrarianAuditSchema>);
     if (result.success) {
       return {
-        content: [{ type: "text", text: formatAuditResponse(result.audit) }],
+        content: [{ type: "text", text: formatAuditResponse(result.audit, result.audit_log_error) }],
       };
     }
     return {
@@ -1015,16 +1186,80 @@ USE WHEN:
 - Before returning answers to users
 - To decide if re-indexing is needed
 
+Pass project_id to record the assessment in the project's audit log.
+
 RETURNS: Quality assessment with scores, thresholds, and recommendations`,
   LibrarianAssessSchema.shape,
   async (args) => {
-    const result = librarianAssessQuality(args as z.infer<typeof LibrarianAssessSchema>);
+    const result = await librarianAssess(args as z.infer<typeof LibrarianAssessSchema>);
     return {
       content: [{ type: "text", text: formatQualityResponse(result) }],
     };
   }
 );
 
+server.tool(
+  "indexfoundry_librarian_query",
+  `🧭 [LIBRARIAN PROTOCOL] Query a project with the full Librarian protocol in one call.
+
+WHAT THIS DOES:
+1. Audits project state (librarian_audit)
+2. Classifies the query (classify_query)
+3. Picks mode and top_k from the classification (hybrid if confidence is low)
+4. Retrieves with project_query
+5. Assesses quality on cosine similarity (librarian_assess)
+6. Retries with another mode and doubled top_k while quality is poor
+
+RETRY ORDER:
+- hybrid → semantic → keyword
+- semantic → hybrid → keyword
+- keyword → hybrid → semantic
+
+USE WHEN:
+- Answering questions from a project without orchestrating each step
+- You want results plus an audit of how they were obtained
+
+RETURNS: Best attempt's results, audit block (state_valid, classification,
+quality_assessment, steps_executed) and a per-step trail`,
+  LibrarianQuerySchema.shape,
+  async (args) => {
+    const result = await librarianQuery(args as z.infer<typeof LibrarianQuerySchema>);
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+server.tool(
+  "indexfoundry_librarian_history",
+  `🗂️ [LIBRARIAN PROTOCOL] Query a project's librarian audit log.
+
+Every librarian_audit, librarian_query and librarian_assess (with project_id)
+is appended to projects/<id>/librarian/audit.jsonl.
+
+FILTERS:
+- since / until (ISO timestamps) or days (last N days)
+- operations: state_check, query, ...
+- quality_levels: excellent, good, marginal, poor
+
+AGGREGATES (over the time range and operations):
+- answers and their quality levels, poor_share, avg_score
+- poor_answer_sources: sources cited most often in answers rated poor
+
+USE WHEN:
+- Reporting how the knowledge base answered over time
+- Finding sources behind poor answers
+
+RETURNS: Aggregates and matching entries, newest first`,
+  LibrarianHistorySchema.shape,
+  async (args) => {
+    const result = await librarianHistory(args as z.infer<typeof LibrarianHistorySchema>);
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
 server.tool(
   "indexfoundry_get_server_info",
   `ℹ️ Get IndexFoundry server installation information.
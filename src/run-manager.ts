@@ -40,6 +40,11 @@ const DEFAULT_CONFIG: IndexFoundryConfig = {
       timeout_ms: 30000,
       max_file_size_mb: 50,
       user_agent: "IndexFoundry/1.0",
+      respect_robots_txt: true,
+      host_delay_ms: 1000,
+      max_retries: 3,
+      retry_base_ms: 1000,
+      max_retry_wait_ms: 60000,
     },
     extract: {
       pdf_extractor: "pdf-parse",
@@ -290,7 +295,12 @@ export class RunManager {
   getServedDir(runId: string): string {
     return path.join(this.getRunDir(runId), "served");
   }
-  
+
+  /** HTTP revalidation cache shared by all runs */
+  getHttpCachePath(): string {
+    return path.join(this.baseDir, "http_cache.json");
+  }
+
   // --------------------------------------------------------------------------
   // Run Queries
   // --------------------------------------------------------------------------
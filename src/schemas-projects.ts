@@ -6,6 +6,8 @@
  */
 
 import { z } from "zod";
+import { RerankerConfigSchema, MmrOptionsSchema, GitRefSchema } from "./schemas.js";
+import { DebugQueryInputSchema } from "./tools/debug.js";
 
 // ============================================================================
 // Validation Helpers
@@ -68,9 +70,14 @@ const safeTag = z.string()
 // ============================================================================
 
 export const EmbeddingModelSchema = z.object({
-  provider: z.enum(["openai", "cohere", "sentence-transformers", "local"]),
+  provider: z.enum(["openai", "ollama", "cohere", "sentence-transformers", "local"]),
   model_name: z.string().min(1).max(128),
   dimensions: z.number().int().min(64).max(4096).optional(),
+  base_url: z.string()
+    .url()
+    .max(512)
+    .optional()
+    .describe("API root: OpenAI-compatible gateway (e.g. https://gateway.internal/v1) or Ollama host (default http://localhost:11434)"),
   api_key_env: z.string()
     .min(1)
     .max(64)
@@ -78,6 +85,17 @@ export const EmbeddingModelSchema = z.object({
     .default("OPENAI_API_KEY"),
 });
 
+export const ProjectRetrievalSchema = z.object({
+  alpha: z.number().min(0).max(1).default(0.7)
+    .describe("Hybrid semantic weight (1 = pure semantic, 0 = pure keyword)"),
+  fusion_method: z.enum(["rrf", "weighted_sum", "convex"]).default("rrf")
+    .describe("rrf: reciprocal rank fusion; weighted_sum: raw scores; convex: min-max normalized scores"),
+  rrf_k: z.number().int().min(1).max(1000).default(60)
+    .describe("RRF rank constant"),
+  anchor_boost: z.number().min(0).max(5).default(0.5)
+    .describe("Boost for chunks containing identifiers or quoted terms from the query, as a share of the best score (0 disables)"),
+});
+
 export const ProjectCreateSchema = z.object({
   project_id: safeProjectId,
   name: z.string().min(1).max(256, "Name must be 256 characters or less"),
@@ -91,6 +109,14 @@ export const ProjectCreateSchema = z.object({
     max_chars: z.number().int().min(100).max(10000).default(1500),
     overlap_chars: z.number().int().min(0).max(500).default(150),
   }).default({}),
+  retrieval: ProjectRetrievalSchema.default({})
+    .describe("Hybrid ranking used by project_query, chat and exported servers"),
+});
+
+export const ProjectSetRetrievalSchema = z.object({
+  project_id: safeProjectId,
+  retrieval: ProjectRetrievalSchema.partial()
+    .describe("Settings to change; omitted settings keep their current values"),
 });
 
 export const ProjectListSchema = z.object({
@@ -106,7 +132,7 @@ export const ProjectDeleteSchema = z.object({
   confirm: z.boolean().describe("Must be true to delete"),
 });
 
-export const SourceType = z.enum(["url", "sitemap", "folder", "pdf", "text"]);
+export const SourceType = z.enum(["url", "sitemap", "folder", "pdf", "text", "repo"]);
 
 // ============================================================================
 // Batch Source Item Schema (ADR-005)
@@ -118,6 +144,8 @@ const BatchSourceItemBaseSchema = z.object({
   sitemap_url: safeUrl.optional(),
   folder_path: safeFilePath.optional(),
   pdf_path: z.string().min(1).max(4096).optional(),
+  repo_path: safeFilePath.optional(),
+  ref: GitRefSchema.optional(),
   glob: safeGlob.optional(),
   include_patterns: z.array(z.string().max(256)).max(50).optional(),
   exclude_patterns: z.array(z.string().max(256)).max(50).optional(),
@@ -128,12 +156,12 @@ const BatchSourceItemBaseSchema = z.object({
 
 /**
  * BatchSourceItemSchema - validates each batch item has exactly one source type
- * ADR-005: Each batch item must have exactly one of: url, sitemap_url, folder_path, pdf_path
+ * ADR-005: Each batch item must have exactly one of: url, sitemap_url, folder_path, pdf_path, repo_path
  */
 export const BatchSourceItemSchema = BatchSourceItemBaseSchema.refine((data) => {
-  const sources = [data.url, data.sitemap_url, data.folder_path, data.pdf_path].filter(Boolean);
+  const sources = [data.url, data.sitemap_url, data.folder_path, data.pdf_path, data.repo_path].filter(Boolean);
   return sources.length === 1;
-}, "Each batch item must have exactly one source type (url, sitemap_url, folder_path, or pdf_path)");
+}, "Each batch item must have exactly one source type (url, sitemap_url, folder_path, pdf_path, or repo_path)");
 
 // ============================================================================
 // Project Add Source Schema (with batch support)
@@ -148,11 +176,15 @@ export const ProjectAddSourceBaseSchema = z.object({
   sitemap_url: safeUrl.optional(),
   folder_path: safeFilePath.optional(),
   pdf_path: z.string().min(1).max(4096).optional(), // Can be URL or path
+  repo_path: safeFilePath.optional().describe("Local git repository path or file:// URL"),
 
   // Options
+  ref: GitRefSchema.optional().describe("Repo sources: branch, tag or commit to index (default HEAD)"),
   glob: safeGlob,
-  include_patterns: z.array(z.string().max(256)).max(50).optional(),
-  exclude_patterns: z.array(z.string().max(256)).max(50).optional(),
+  include_patterns: z.array(z.string().max(256)).max(50).optional()
+    .describe("Folder and repo sources: regexes over file paths relative to the folder or repo root; a file must match one"),
+  exclude_patterns: z.array(z.string().max(256)).max(50).optional()
+    .describe("Folder and repo sources: regexes over relative file paths to skip"),
   max_pages: z.number().int().min(1).max(500).default(100), // Reduced max for safety
 
   // Metadata
@@ -168,7 +200,7 @@ export const ProjectAddSourceBaseSchema = z.object({
  * ADR-005: Either single source params OR batch array, not both
  */
 export const ProjectAddSourceSchema = ProjectAddSourceBaseSchema.refine((data) => {
-  const hasSingleSource = [data.url, data.sitemap_url, data.folder_path, data.pdf_path].some(Boolean);
+  const hasSingleSource = [data.url, data.sitemap_url, data.folder_path, data.pdf_path, data.repo_path].some(Boolean);
   const hasBatch = data.batch && data.batch.length > 0;
   
   // Cannot have both single source and batch
@@ -184,7 +216,7 @@ export const ProjectAddSourceSchema = ProjectAddSourceBaseSchema.refine((data) =
   // If batch, validate each item has exactly one source type
   if (hasBatch) {
     for (const item of data.batch!) {
-      const sources = [item.url, item.sitemap_url, item.folder_path, item.pdf_path].filter(Boolean);
+      const sources = [item.url, item.sitemap_url, item.folder_path, item.pdf_path, item.repo_path].filter(Boolean);
       if (sources.length !== 1) {
         return false;
       }
@@ -192,7 +224,7 @@ export const ProjectAddSourceSchema = ProjectAddSourceBaseSchema.refine((data) =
   }
   
   return true;
-}, "Either provide a single source (url, sitemap_url, folder_path, pdf_path) OR a batch array, not both. Each batch item must have exactly one source type.");
+}, "Either provide a single source (url, sitemap_url, folder_path, pdf_path, repo_path) OR a batch array, not both. Each batch item must have exactly one source type.");
 
 // Refined schema for runtime validation (exactly one source required - for non-batch calls)
 export const ProjectAddSourceSchemaRefined = ProjectAddSourceBaseSchema.refine((data) => {
@@ -201,9 +233,9 @@ export const ProjectAddSourceSchemaRefined = ProjectAddSourceBaseSchema.refine((
     return true;
   }
   // Otherwise require exactly one source
-  const sources = [data.url, data.sitemap_url, data.folder_path, data.pdf_path].filter(Boolean);
+  const sources = [data.url, data.sitemap_url, data.folder_path, data.pdf_path, data.repo_path].filter(Boolean);
   return sources.length === 1;
-}, "Exactly one source (url, sitemap_url, folder_path, or pdf_path) must be provided");
+}, "Exactly one source (url, sitemap_url, folder_path, pdf_path, or repo_path) must be provided");
 
 // ============================================================================
 // Project Remove Source Schema (ADR-005)
@@ -304,10 +336,32 @@ export const ProjectQuerySchema = z.object({
   query: z.string().min(1).max(4096, "Query must be 4096 characters or less"),
   mode: z.enum(["semantic", "keyword", "hybrid"]).default("hybrid"),
   top_k: z.number().int().min(1).max(100).default(10),
-  filter_tags: z.array(safeTag).max(20).optional(),
+  filter_tags: z.array(safeTag).max(20).optional()
+    .describe("Only return chunks whose source carries these tags"),
+  filter_tags_mode: z.enum(["any", "all"]).default("any")
+    .describe("any: chunk has at least one of filter_tags; all: chunk has every tag"),
   filter_sources: z.array(z.string().max(64)).max(50).optional(),
+  filters: z.record(z.unknown()).optional()
+    .describe("Filter expression over chunk fields, e.g. { \"position.index\": { \"lt\": 3 } } or { \"or\": [...] }; operators: eq, neq, gt, gte, lt, lte, in, contains"),
+  rerank: RerankerConfigSchema.extend({ enabled: z.boolean().default(true) }).optional()
+    .describe("Rerank the first top_k_to_rerank results (lexical offline, or a cross_encoder endpoint)"),
+  mmr: MmrOptionsSchema.optional()
+    .describe("Diversify results with Maximal Marginal Relevance so near-duplicate chunks don't fill top_k"),
 });
 
+export const ProjectDebugQuerySchema = ProjectQuerySchema.pick({
+  project_id: true,
+  query: true,
+  mode: true,
+  filter_tags: true,
+  filter_tags_mode: true,
+  filter_sources: true,
+  filters: true,
+}).extend({
+  expected: DebugQueryInputSchema.shape.expected,
+  options: DebugQueryInputSchema.shape.options,
+}).strict();
+
 export const ProjectExportSchema = z.object({
   project_id: safeProjectId,
 
@@ -378,6 +432,8 @@ export const ProjectServeStatusSchema = z.object({
 // ============================================================================
 
 export type ProjectCreateInput = z.infer<typeof ProjectCreateSchema>;
+export type ProjectSetRetrievalInput = z.infer<typeof ProjectSetRetrievalSchema>;
+export type ProjectRetrieval = z.infer<typeof ProjectRetrievalSchema>;
 export type ProjectListInput = z.infer<typeof ProjectListSchema>;
 export type ProjectGetInput = z.infer<typeof ProjectGetSchema>;
 export type ProjectDeleteInput = z.infer<typeof ProjectDeleteSchema>;
@@ -385,6 +441,7 @@ export type ProjectDeleteInput = z.infer<typeof ProjectDeleteSchema>;
 export type ProjectAddSourceInput = z.input<typeof ProjectAddSourceSchema>;
 export type ProjectBuildInput = z.infer<typeof ProjectBuildSchema>;
 export type ProjectQueryInput = z.infer<typeof ProjectQuerySchema>;
+export type ProjectDebugQueryInput = z.infer<typeof ProjectDebugQuerySchema>;
 export type ProjectExportInput = z.infer<typeof ProjectExportSchema>;
 export type ProjectDeployInput = z.infer<typeof ProjectDeploySchema>;
 export type ProjectServeInput = z.infer<typeof ProjectServeSchema>;
@@ -415,6 +472,8 @@ export interface ProjectManifest {
     max_chars: number;
     overlap_chars: number;
   };
+  /** Missing in manifests created before retrieval settings existed */
+  retrieval?: ProjectRetrieval;
   stats: {
     sources_count: number;
     chunks_count: number;
@@ -425,16 +484,27 @@ export interface ProjectManifest {
 
 export interface SourceRecord {
   source_id: string;
-  type: "url" | "sitemap" | "folder" | "pdf" | "text";
+  type: "url" | "sitemap" | "folder" | "pdf" | "text" | "repo";
   uri: string;
   source_name?: string;
   tags: string[];
+  /** Folder and repo sources: file selection applied at build time */
+  glob?: string;
+  include_patterns?: string[];
+  exclude_patterns?: string[];
+  /** Repo sources: ref as requested, and the commit it resolved to at the last build */
+  ref?: string;
+  commit?: string;
   added_at: string;
   processed_at?: string;
   status: "pending" | "processing" | "completed" | "failed";
   error?: string;
   stats?: {
     files_fetched: number;
+    /** Pages skipped as unchanged since the last build (304 or same content hash) */
+    files_unchanged?: number;
+    /** Sitemap pages robots.txt does not allow us to fetch */
+    files_disallowed?: number;
     chunks_created: number;
     vectors_created: number;
   };
@@ -17,6 +17,9 @@ import { z } from "zod";
 export const RunIdSchema = z.string().uuid().describe("Run directory identifier");
 export const ForceSchema = z.boolean().default(false).describe("Re-run even if output exists");
 export const UrlSchema = z.string().url().describe("Valid URL");
+export const GitRefSchema = z.string().min(1).max(256)
+  .regex(/^[^-\s][^\s]*$/, "Ref must not start with '-' or contain whitespace")
+  .describe("Branch, tag or commit");
 
 // ============================================================================
 // Phase 1: Connect Schemas
@@ -50,6 +53,26 @@ export const ConnectSitemapInputSchema = z.object({
   force: ForceSchema
 }).strict();
 
+export const ConnectCrawlInputSchema = z.object({
+  run_id: RunIdSchema,
+  start_url: UrlSchema.describe("Page to start crawling from"),
+  max_depth: z.number().int().min(0).max(10).default(2)
+    .describe("Maximum link hops from start_url (0 = start page only)"),
+  max_pages: z.number().int().min(1).max(10000).default(100)
+    .describe("Maximum pages to fetch"),
+  allowed_domains: z.array(z.string()).optional()
+    .describe("Hostnames to crawl (empty = same origin as start_url)"),
+  include_patterns: z.array(z.string()).optional()
+    .describe("Regex patterns for discovered URLs to include"),
+  exclude_patterns: z.array(z.string()).optional()
+    .describe("Regex patterns for discovered URLs to exclude"),
+  concurrency: z.number().int().min(1).max(10).default(3)
+    .describe("Parallel fetch count"),
+  timeout_ms: z.number().int().min(1000).max(60000).default(30000)
+    .describe("Per-page request timeout in milliseconds"),
+  force: ForceSchema
+}).strict();
+
 export const ConnectFolderInputSchema = z.object({
   run_id: RunIdSchema,
   path: z.string().describe("Absolute path to folder"),
@@ -68,6 +91,20 @@ export const ConnectPdfInputSchema = z.object({
   force: ForceSchema
 }).strict();
 
+export const ConnectRepoInputSchema = z.object({
+  run_id: RunIdSchema,
+  repo: z.string().min(1).describe("Local git repository path or file:// URL"),
+  ref: GitRefSchema.default("HEAD")
+    .describe("Branch, tag or commit to read"),
+  glob: z.string().default("**/*")
+    .describe("Glob over repo-relative paths (e.g., 'docs/**/*.md')"),
+  exclude_patterns: z.array(z.string()).optional()
+    .describe("Regex patterns over repo-relative paths to exclude"),
+  max_file_size_mb: z.number().min(0.1).max(500).default(50)
+    .describe("Skip files larger than this"),
+  force: ForceSchema
+}).strict();
+
 // ============================================================================
 // Phase 2: Extract Schemas
 // ============================================================================
@@ -173,7 +210,7 @@ export const NormalizeDedupeInputSchema = z.object({
   method: z.enum(["exact", "simhash", "minhash"]).default("exact")
     .describe("Deduplication method"),
   similarity_threshold: z.number().min(0.8).max(1.0).default(0.95)
-    .describe("For fuzzy methods: minimum similarity to consider duplicate"),
+    .describe("For fuzzy methods: minimum similarity to consider duplicate (minhash: exact Jaccard over 3-word shingles)"),
   scope: z.enum(["global", "per_document"]).default("global")
     .describe("Dedupe across all docs or within each doc"),
   force: ForceSchema
@@ -187,10 +224,12 @@ export const IndexEmbedInputSchema = z.object({
   run_id: RunIdSchema,
   chunks_path: z.string().default("normalized/chunks.jsonl"),
   model: z.object({
-    provider: z.enum(["openai", "cohere", "sentence-transformers", "local"])
-      .describe("Embedding provider"),
+    provider: z.enum(["openai", "ollama", "cohere", "sentence-transformers", "local"])
+      .describe("Embedding provider ('openai' also covers OpenAI-compatible gateways via base_url)"),
     model_name: z.string()
-      .describe("Model identifier (e.g., 'text-embedding-3-small')"),
+      .describe("Model identifier (e.g., 'text-embedding-3-small', 'nomic-embed-text')"),
+    base_url: z.string().url().optional()
+      .describe("API root: OpenAI-compatible gateway (e.g., 'https://gateway.internal/v1') or Ollama host (default 'http://localhost:11434')"),
     dimensions: z.number().int().optional()
       .describe("Override output dimensions if model supports"),
     api_key_env: z.string().default("OPENAI_API_KEY")
@@ -225,11 +264,33 @@ export const IndexUpsertInputSchema = z.object({
     .describe("Chunk fields to store as vector metadata"),
   store_text: z.boolean().default(true)
     .describe("Store chunk text in vector metadata"),
-  upsert_mode: z.enum(["insert", "upsert", "replace"]).default("upsert"),
+  upsert_mode: z.enum(["insert", "upsert", "replace"]).default("upsert")
+    .describe("insert skips existing vectors, upsert overwrites them, replace clears the collection (or namespace) first"),
+  distance: z.enum(["cosine", "dot", "euclidean"]).default("cosine")
+    .describe("Distance metric used when creating a new collection"),
   batch_size: z.number().int().min(1).max(1000).default(100),
   force: ForceSchema
 }).strict();
 
+export const RerankerConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  provider: z.enum(["lexical", "cross_encoder"]).default("lexical")
+    .describe("lexical: offline term coverage/proximity; cross_encoder: HTTP rerank endpoint"),
+  model: z.string().optional()
+    .describe("Cross-encoder model name sent to the endpoint"),
+  endpoint: z.string().url().optional()
+    .describe("Rerank endpoint (POST { model, query, documents }), e.g. http://localhost:8787/rerank"),
+  api_key_env: z.string().regex(/^[A-Z0-9_]+$/).optional()
+    .describe("Environment variable with a bearer token for the endpoint"),
+  top_k_to_rerank: z.number().int().min(1).max(500).default(50)
+    .describe("First-stage candidates passed to the reranker")
+});
+
+export const MmrOptionsSchema = z.object({
+  lambda: z.number().min(0).max(1).default(0.5)
+    .describe("1 = pure relevance, 0 = maximum diversity")
+});
+
 export const IndexBuildProfileInputSchema = z.object({
   run_id: RunIdSchema,
   retrieval_config: z.object({
@@ -241,18 +302,17 @@ export const IndexBuildProfileInputSchema = z.object({
         .describe("Weight for semantic vs keyword (1=pure semantic)"),
       fusion_method: z.enum(["rrf", "weighted_sum"]).default("rrf")
     }).optional(),
-    reranker: z.object({
-      enabled: z.boolean().default(false),
-      model: z.string().optional(),
-      top_k_to_rerank: z.number().int().default(50)
-    }).optional()
+    reranker: RerankerConfigSchema.optional()
   }),
   allowed_filters: z.array(z.object({
     field: z.string(),
     operators: z.array(z.enum(["eq", "neq", "gt", "gte", "lt", "lte", "in", "contains"]))
   })).optional().describe("Filterable metadata fields"),
   security: z.object({
-    require_auth: z.boolean().default(false),
+    require_auth: z.boolean().default(false)
+      .describe("Require an API key on every serve_start endpoint except /health"),
+    api_key_env: z.string().regex(/^[A-Z0-9_]+$/).default("INDEXFOUNDRY_API_KEY")
+      .describe("Environment variable holding accepted API keys (comma-separated)"),
     allowed_namespaces: z.array(z.string()).optional()
   }).optional()
 }).strict();
@@ -284,11 +344,12 @@ export const ServeStartInputSchema = z.object({
   run_id: RunIdSchema,
   host: z.string().default("127.0.0.1"),
   port: z.number().int().min(1024).max(65535).default(8080),
-  cors_origins: z.array(z.string()).optional(),
+  cors_origins: z.array(z.string()).optional()
+    .describe("Allowed browser origins; requests from other origins get 403 (default: any)"),
   rate_limit: z.object({
-    requests_per_minute: z.number().int().default(60),
-    burst: z.number().int().default(10)
-  }).optional(),
+    requests_per_minute: z.number().int().min(1).default(60),
+    burst: z.number().int().min(1).default(10)
+  }).optional().describe("Per-client token bucket; excess requests get 429 with Retry-After"),
   log_requests: z.boolean().default(true)
 }).strict();
 
@@ -314,7 +375,9 @@ export const ServeQueryInputSchema = z.object({
   alpha: z.number().min(0).max(1).optional()
     .describe("Hybrid search weight (1=pure semantic, 0=pure keyword)"),
   filters: z.record(z.unknown()).optional()
-    .describe("Metadata filters to apply"),
+    .describe("Filter expression: { field: value }, { field: { gte: 3 } } or and/or/not over dotted fields like position.page"),
+  mmr: MmrOptionsSchema.optional()
+    .describe("Diversify results with Maximal Marginal Relevance over the stored embeddings"),
   include_text: z.boolean().default(true)
     .describe("Include chunk text in results"),
   expand_context: z.object({
@@ -374,6 +437,10 @@ export const PipelineRunInputSchema = z.object({
   
   index: z.object({
     embedding_model: z.string().default("text-embedding-3-small"),
+    embedding_provider: z.enum(["openai", "ollama", "cohere", "sentence-transformers", "local"]).default("openai")
+      .describe("Embedding provider for embedding_model"),
+    embedding_base_url: z.string().url().optional()
+      .describe("API root for the embedding provider (OpenAI-compatible gateway or Ollama host)"),
     vector_db: z.object({
       provider: z.enum(["milvus", "pinecone", "weaviate", "qdrant", "chroma", "local"]),
       collection: z.string(),
@@ -425,8 +492,10 @@ export const RunCleanupInputSchema = z.object({
 
 export type ConnectUrlInput = z.infer<typeof ConnectUrlInputSchema>;
 export type ConnectSitemapInput = z.infer<typeof ConnectSitemapInputSchema>;
+export type ConnectCrawlInput = z.infer<typeof ConnectCrawlInputSchema>;
 export type ConnectFolderInput = z.infer<typeof ConnectFolderInputSchema>;
 export type ConnectPdfInput = z.infer<typeof ConnectPdfInputSchema>;
+export type ConnectRepoInput = z.infer<typeof ConnectRepoInputSchema>;
 export type ExtractPdfInput = z.infer<typeof ExtractPdfInputSchema>;
 export type ExtractHtmlInput = z.infer<typeof ExtractHtmlInputSchema>;
 export type ExtractDocumentInput = z.infer<typeof ExtractDocumentInputSchema>;
@@ -453,8 +522,10 @@ export type RunCleanupInput = z.infer<typeof RunCleanupInputSchema>;
 
 export const ConnectUrlSchema = ConnectUrlInputSchema;
 export const ConnectSitemapSchema = ConnectSitemapInputSchema;
+export const ConnectCrawlSchema = ConnectCrawlInputSchema;
 export const ConnectFolderSchema = ConnectFolderInputSchema;
 export const ConnectPdfSchema = ConnectPdfInputSchema;
+export const ConnectRepoSchema = ConnectRepoInputSchema;
 export const ExtractPdfSchema = ExtractPdfInputSchema;
 export const ExtractHtmlSchema = ExtractHtmlInputSchema;
 export const ExtractDocumentSchema = ExtractDocumentInputSchema;
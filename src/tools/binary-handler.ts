@@ -11,6 +11,7 @@
 
 import * as cheerio from "cheerio";
 import pdfParse from "pdf-parse";
+import { extractPdfTextWithOcr, type OcrRecognizer } from "./pdf-ocr.js";
 
 // ============================================================================
 // Type Definitions
@@ -43,6 +44,8 @@ export interface ExtractTextOptions {
   maxSizeBytes?: number;
   /** @internal Inject a custom PDF parser (for testing) */
   _pdfParser?: PdfParseFunction;
+  /** @internal Inject a custom OCR engine for scanned PDFs (for testing) */
+  _ocrRecognizer?: OcrRecognizer;
 }
 
 /**
@@ -53,8 +56,8 @@ export interface ExtractTextResult {
   text: string;
   /** The original Content-Type header from the response */
   contentType: string;
-  /** Which extractor was used: 'html', 'pdf', 'plain', or 'jina' (for JS-rendered pages) */
-  extractorUsed: 'html' | 'pdf' | 'plain' | 'jina';
+  /** Which extractor was used: 'html', 'pdf', 'ocr' (scanned PDFs), 'plain', or 'jina' (for JS-rendered pages) */
+  extractorUsed: 'html' | 'pdf' | 'ocr' | 'plain' | 'jina';
 }
 
 // ============================================================================
@@ -289,7 +292,7 @@ async function fetchViaJinaReader(url: string, timeoutMs: number = JINA_TIMEOUT_
 export async function extractTextFromResponse(
   options: ExtractTextOptions
 ): Promise<ExtractTextResult> {
-  const { url, response, maxSizeBytes = DEFAULT_MAX_SIZE_BYTES, _pdfParser } = options;
+  const { url, response, maxSizeBytes = DEFAULT_MAX_SIZE_BYTES, _pdfParser, _ocrRecognizer } = options;
   
   // Get content-type from headers
   const contentTypeHeader = response.headers.get('content-type');
@@ -321,7 +324,7 @@ export async function extractTextFromResponse(
   // Route to appropriate extractor
   switch (extractorType) {
     case 'pdf':
-      return extractPdf(buffer, contentTypeHeader || 'application/pdf', url, _pdfParser);
+      return extractPdf(buffer, contentTypeHeader || 'application/pdf', url, _pdfParser, _ocrRecognizer);
     
     case 'html':
       return extractHtml(buffer, contentTypeHeader || 'text/html', url);
@@ -348,7 +351,8 @@ async function extractPdf(
   buffer: Buffer,
   contentType: string,
   url: string,
-  customParser?: PdfParseFunction
+  customParser?: PdfParseFunction,
+  ocrRecognizer?: OcrRecognizer
 ): Promise<ExtractTextResult> {
   try {
     // Use injected parser if provided (for testing), otherwise use pdf-parse
@@ -357,8 +361,20 @@ async function extractPdf(
     const text = pdfData.text.trim();
     
     if (text.length < 50) {
+      // Likely scanned/image-based: OCR the pages that have no text layer
+      const ocr = await extractPdfTextWithOcr(buffer, { _recognizer: ocrRecognizer })
+        .catch(() => ({ text: "", ocr_pages: 0 }));
+      
+      if (ocr.ocr_pages > 0 && ocr.text.length >= 50) {
+        return {
+          text: ocr.text,
+          contentType,
+          extractorUsed: 'ocr',
+        };
+      }
+      
       throw new Error(
-        `PDF has insufficient extractable text (may require OCR). ` +
+        `PDF has insufficient extractable text (OCR found no readable page images). ` +
         `URL: ${url}, extracted ${text.length} characters`
       );
     }
@@ -0,0 +1,251 @@
+/**
+ * IndexFoundry-MCP: BM25 Keyword Index
+ *
+ * Okapi BM25 over project chunks. The inverted index (term -> chunk -> term
+ * frequency, plus chunk lengths) is persisted as data/bm25.json next to
+ * chunks.jsonl and updated incrementally as sources are added or removed.
+ *
+ * Tokens are lowercase runs of letters and digits, matching the local
+ * embedding provider. The exported project server carries a copy of the
+ * tokenizer and scoring so its keyword search ranks identically.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+import * as fs from "fs/promises";
+import { pathExists } from "../utils.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Term frequency saturation */
+export const BM25_K1 = 1.2;
+
+/** Document length normalization */
+export const BM25_B = 0.75;
+
+/** File format version; bump when the serialized shape changes */
+export const BM25_INDEX_VERSION = 1;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Bm25Hit {
+  chunk_id: string;
+  score: number;
+}
+
+/** On-disk representation of the index */
+export interface SerializedBm25Index {
+  version: number;
+  k1: number;
+  b: number;
+  doc_lengths: Record<string, number>;
+  postings: Record<string, Record<string, number>>;
+}
+
+// ============================================================================
+// Tokenization
+// ============================================================================
+
+/**
+ * Split text into lowercase letter/digit tokens.
+ */
+export function tokenizeBm25(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+export class Bm25Index {
+  readonly k1: number;
+  readonly b: number;
+  private readonly postings = new Map<string, Map<string, number>>();
+  private readonly docLengths = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(params: { k1?: number; b?: number } = {}) {
+    this.k1 = params.k1 ?? BM25_K1;
+    this.b = params.b ?? BM25_B;
+  }
+
+  /**
+   * Build an index over a set of chunks.
+   */
+  static build(chunks: Iterable<{ chunk_id: string; text: string }>): Bm25Index {
+    const index = new Bm25Index();
+    for (const chunk of chunks) {
+      index.add(chunk.chunk_id, chunk.text);
+    }
+    return index;
+  }
+
+  static fromJSON(data: SerializedBm25Index): Bm25Index {
+    if (data.version !== BM25_INDEX_VERSION) {
+      throw new Error(`Unsupported BM25 index version: ${data.version}`);
+    }
+    const index = new Bm25Index({ k1: data.k1, b: data.b });
+    for (const [chunkId, length] of Object.entries(data.doc_lengths)) {
+      index.docLengths.set(chunkId, length);
+      index.totalLength += length;
+    }
+    for (const [term, docs] of Object.entries(data.postings)) {
+      index.postings.set(term, new Map(Object.entries(docs)));
+    }
+    return index;
+  }
+
+  /** Number of indexed chunks */
+  get size(): number {
+    return this.docLengths.size;
+  }
+
+  has(chunkId: string): boolean {
+    return this.docLengths.has(chunkId);
+  }
+
+  /**
+   * Index a chunk, replacing any previous entry with the same ID.
+   */
+  add(chunkId: string, text: string): void {
+    if (this.has(chunkId)) {
+      this.removeMany(new Set([chunkId]));
+    }
+
+    const tokens = tokenizeBm25(text);
+    const counts = new Map<string, number>();
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+
+    for (const [term, tf] of counts) {
+      let docs = this.postings.get(term);
+      if (!docs) {
+        docs = new Map();
+        this.postings.set(term, docs);
+      }
+      docs.set(chunkId, tf);
+    }
+
+    this.docLengths.set(chunkId, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * Remove chunks from the index.
+   *
+   * @returns Number of chunks removed
+   */
+  removeMany(chunkIds: Set<string>): number {
+    let removed = 0;
+    for (const chunkId of chunkIds) {
+      const length = this.docLengths.get(chunkId);
+      if (length === undefined) continue;
+      this.docLengths.delete(chunkId);
+      this.totalLength -= length;
+      removed++;
+    }
+    if (removed === 0) return 0;
+
+    for (const [term, docs] of this.postings) {
+      for (const chunkId of chunkIds) {
+        docs.delete(chunkId);
+      }
+      if (docs.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Rank chunks for a query. Only chunks containing at least one query
+   * term are returned; `filter` restricts candidates before truncation.
+   *
+   * @example
+   * ```typescript
+   * const index = Bm25Index.build(chunks);
+   * index.search("solar inverter", 5);
+   * // [{ chunk_id: "...", score: 3.21 }, ...]
+   * ```
+   */
+  search(query: string, topK: number, filter?: (chunkId: string) => boolean): Bm25Hit[] {
+    const docCount = this.docLengths.size;
+    if (docCount === 0) return [];
+
+    const avgLength = this.totalLength / docCount || 1;
+    const scores = new Map<string, number>();
+
+    // Repeated query terms count once
+    for (const term of new Set(tokenizeBm25(query))) {
+      const docs = this.postings.get(term);
+      if (!docs) continue;
+
+      const idf = Math.log(1 + (docCount - docs.size + 0.5) / (docs.size + 0.5));
+      for (const [chunkId, tf] of docs) {
+        if (filter && !filter(chunkId)) continue;
+        const length = this.docLengths.get(chunkId) ?? 0;
+        const norm = tf + this.k1 * (1 - this.b + this.b * (length / avgLength));
+        scores.set(chunkId, (scores.get(chunkId) || 0) + idf * (tf * (this.k1 + 1)) / norm);
+      }
+    }
+
+    return Array.from(scores, ([chunk_id, score]) => ({ chunk_id, score }))
+      .sort((a, b) => b.score - a.score || a.chunk_id.localeCompare(b.chunk_id))
+      .slice(0, topK);
+  }
+
+  toJSON(): SerializedBm25Index {
+    return {
+      version: BM25_INDEX_VERSION,
+      k1: this.k1,
+      b: this.b,
+      doc_lengths: Object.fromEntries(this.docLengths),
+      postings: Object.fromEntries(
+        Array.from(this.postings, ([term, docs]) => [term, Object.fromEntries(docs)])
+      ),
+    };
+  }
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Load a persisted index, or null if the file does not exist.
+ */
+export async function loadBm25Index(filePath: string): Promise<Bm25Index | null> {
+  if (!(await pathExists(filePath))) return null;
+  const data = JSON.parse(await fs.readFile(filePath, "utf-8")) as SerializedBm25Index;
+  return Bm25Index.fromJSON(data);
+}
+
+export async function saveBm25Index(filePath: string, index: Bm25Index): Promise<void> {
+  await fs.writeFile(filePath, JSON.stringify(index), "utf-8");
+}
+
+/**
+ * Load the persisted index for a chunk set, rebuilding it when it is
+ * missing, unreadable or out of sync with the chunks (e.g. projects built
+ * before the index existed, or an interrupted build).
+ */
+export async function loadBm25IndexFor(
+  filePath: string,
+  chunks: Array<{ chunk_id: string; text: string }>
+): Promise<{ index: Bm25Index; rebuilt: boolean }> {
+  try {
+    const index = await loadBm25Index(filePath);
+    if (index && index.size === chunks.length && chunks.every(c => index.has(c.chunk_id))) {
+      return { index, rebuilt: false };
+    }
+  } catch {
+    // Corrupt or outdated file; rebuilt below
+  }
+  return { index: Bm25Index.build(chunks), rebuilt: true };
+}
@@ -0,0 +1,281 @@
+/**
+ * IndexFoundry-MCP: Chroma Vector Store
+ *
+ * Minimal client for the Chroma HTTP API (v2), used by indexUpsert and by
+ * the search server. Collections live in the default tenant and database.
+ *
+ * Record IDs are the chunk IDs, prefixed with the namespace when one is
+ * set so several namespaces can share a collection. Chunk text is stored
+ * as the Chroma document.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_HOST = "localhost";
+const DEFAULT_PORT = 8000;
+const DEFAULT_TENANT = "default_tenant";
+const DEFAULT_DATABASE = "default_database";
+const REQUEST_TIMEOUT_MS = 30000;
+
+/** Metadata keys reserved by IndexFoundry (not user metadata) */
+export const CHROMA_CHUNK_ID_KEY = "chunk_id";
+export const CHROMA_NAMESPACE_KEY = "namespace";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Chroma HNSW space names */
+export type ChromaSpace = "cosine" | "ip" | "l2";
+
+export type ChromaMetadataValue = string | number | boolean;
+
+export interface ChromaConnection {
+  host?: string;
+  port?: number;
+  api_key_env?: string;
+}
+
+export interface ChromaCollection {
+  id: string;
+  name: string;
+  dimension?: number | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+export interface ChromaRecords {
+  ids: string[];
+  embeddings: number[][];
+  metadatas: Array<Record<string, ChromaMetadataValue>>;
+  documents?: string[];
+}
+
+export interface ChromaQueryMatch {
+  id: string;
+  distance: number;
+  document?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+export type ChromaWhere = Record<string, unknown>;
+
+export class ChromaError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "ChromaError";
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Resolve the HTTP base URL. `host` may be a bare hostname or a full URL.
+ */
+export function chromaBaseUrl(connection: ChromaConnection): string {
+  const host = connection.host || DEFAULT_HOST;
+  const url = new URL(host.includes("://") ? host : `http://${host}`);
+  if (connection.port) {
+    url.port = String(connection.port);
+  } else if (!host.includes("://")) {
+    url.port = String(DEFAULT_PORT);
+  }
+  return url.toString().replace(/\/$/, "");
+}
+
+/**
+ * Record ID for a chunk within a namespace.
+ */
+export function chromaRecordId(chunkId: string, namespace?: string): string {
+  return namespace ? `${namespace}:${chunkId}` : chunkId;
+}
+
+/**
+ * Chroma metadata only accepts scalar values: drop nulls and serialize
+ * objects and arrays as JSON.
+ */
+export function toChromaMetadata(metadata: Record<string, unknown>): Record<string, ChromaMetadataValue> {
+  const result: Record<string, ChromaMetadataValue> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (value === null || value === undefined) continue;
+    result[key] = typeof value === "string" || typeof value === "number" || typeof value === "boolean"
+      ? value
+      : JSON.stringify(value);
+  }
+  return result;
+}
+
+/**
+ * Translate equality filters (and an optional namespace) into a Chroma
+ * `where` clause. Array values match any of their elements. `chunkIds`
+ * restricts results to chunks already selected by a richer filter expression.
+ */
+export function chromaWhere(
+  filters?: Record<string, unknown>,
+  namespace?: string,
+  chunkIds?: string[]
+): ChromaWhere | undefined {
+  const clauses: ChromaWhere[] = [];
+
+  if (namespace) {
+    clauses.push({ [CHROMA_NAMESPACE_KEY]: { $eq: namespace } });
+  }
+
+  for (const [key, value] of Object.entries(filters ?? {})) {
+    if (Array.isArray(value)) {
+      clauses.push({ [key]: { $in: value } });
+    } else if (value !== undefined) {
+      clauses.push({ [key]: { $eq: value } });
+    }
+  }
+
+  if (chunkIds) {
+    clauses.push({ [CHROMA_CHUNK_ID_KEY]: { $in: chunkIds } });
+  }
+
+  if (clauses.length === 0) return undefined;
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+/**
+ * Convert a Chroma distance to a similarity score (higher is better).
+ * cosine and ip distances are 1 - similarity; l2 is squared distance.
+ */
+export function chromaDistanceToScore(distance: number, space: ChromaSpace): number {
+  return space === "l2" ? 1 / (1 + distance) : 1 - distance;
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export class ChromaClient {
+  readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(connection: ChromaConnection) {
+    this.baseUrl = chromaBaseUrl(connection);
+    this.apiKey = connection.api_key_env ? process.env[connection.api_key_env] : undefined;
+  }
+
+  private get collectionsPath(): string {
+    return `/api/v2/tenants/${DEFAULT_TENANT}/databases/${DEFAULT_DATABASE}/collections`;
+  }
+
+  /**
+   * Get a collection by name, or null if it does not exist.
+   */
+  async getCollection(name: string): Promise<ChromaCollection | null> {
+    return this.request<ChromaCollection>(
+      "GET",
+      `${this.collectionsPath}/${encodeURIComponent(name)}`,
+      undefined,
+      { allowNotFound: true }
+    );
+  }
+
+  async createCollection(name: string, space: ChromaSpace): Promise<ChromaCollection> {
+    const collection = await this.request<ChromaCollection>("POST", this.collectionsPath, {
+      name,
+      metadata: { "hnsw:space": space },
+      get_or_create: false,
+    });
+    if (!collection) throw new ChromaError(`Chroma returned no collection for ${name}`);
+    return collection;
+  }
+
+  async deleteCollection(name: string): Promise<void> {
+    await this.request("DELETE", `${this.collectionsPath}/${encodeURIComponent(name)}`);
+  }
+
+  /**
+   * Return the subset of record IDs that already exist in the collection.
+   */
+  async existingIds(collectionId: string, ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) return new Set();
+    const result = await this.request<{ ids: string[] }>(
+      "POST",
+      `${this.collectionsPath}/${collectionId}/get`,
+      { ids, include: [] }
+    );
+    return new Set(result?.ids ?? []);
+  }
+
+  async upsert(collectionId: string, records: ChromaRecords): Promise<void> {
+    await this.request("POST", `${this.collectionsPath}/${collectionId}/upsert`, records);
+  }
+
+  async deleteWhere(collectionId: string, where: ChromaWhere): Promise<void> {
+    await this.request("POST", `${this.collectionsPath}/${collectionId}/delete`, { where });
+  }
+
+  async query(
+    collectionId: string,
+    embedding: number[],
+    nResults: number,
+    where?: ChromaWhere
+  ): Promise<ChromaQueryMatch[]> {
+    const result = await this.request<{
+      ids: string[][];
+      distances?: number[][] | null;
+      documents?: Array<Array<string | null>> | null;
+      metadatas?: Array<Array<Record<string, unknown> | null>> | null;
+    }>("POST", `${this.collectionsPath}/${collectionId}/query`, {
+      query_embeddings: [embedding],
+      n_results: nResults,
+      where,
+      include: ["documents", "metadatas", "distances"],
+    });
+
+    const ids = result?.ids[0] ?? [];
+    return ids.map((id, i) => ({
+      id,
+      distance: result?.distances?.[0]?.[i] ?? 0,
+      document: result?.documents?.[0]?.[i],
+      metadata: result?.metadatas?.[0]?.[i],
+    }));
+  }
+
+  private async request<T>(
+    method: string,
+    pathname: string,
+    body?: unknown,
+    options: { allowNotFound?: boolean } = {}
+  ): Promise<T | null> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers["Authorization"] = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl}${pathname}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.status === 404 && options.allowNotFound) {
+      return null;
+    }
+
+    const text = await response.text();
+    let data: unknown = null;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      // Non-JSON body (e.g. proxy error page); reported below
+    }
+
+    if (!response.ok) {
+      const error = data as { error?: string; message?: string } | null;
+      const detail = error?.message || error?.error || text.slice(0, 200);
+      throw new ChromaError(`Chroma ${method} ${pathname} failed (${response.status}): ${detail}`, response.status);
+    }
+
+    return data as T;
+  }
+}
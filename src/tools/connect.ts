@@ -1,7 +1,7 @@
 /**
  * IndexFoundry-MCP: Connect Tools (Phase 1)
  *
- * Fetchers for various content sources: URLs, sitemaps, folders, PDFs.
+ * Fetchers for various content sources: URLs, sitemaps, crawls, folders, PDFs, git repos.
  * All tools are idempotent and produce deterministic outputs.
  *
  * Copyright (c) 2024 vario.automation
@@ -11,13 +11,16 @@
 import * as path from "path";
 import * as fs from "fs/promises";
 import { XMLParser } from "fast-xml-parser";
+import * as cheerio from "cheerio";
 import { glob } from "glob";
-import type { RawArtifact, ToolError } from "../types.js";
+import type { RawArtifact, CrawlGraph, CrawlNode, ToolError } from "../types.js";
 import type { 
   ConnectUrlInput, 
   ConnectSitemapInput, 
+  ConnectCrawlInput,
   ConnectFolderInput,
-  ConnectPdfInput 
+  ConnectPdfInput,
+  ConnectRepoInput
 } from "../schemas.js";
 import { 
   sha256, 
@@ -26,11 +29,15 @@ import {
   extensionFromContentType,
   contentTypeFromExtension,
   appendJsonl,
+  readJsonl,
   writeJson,
   createToolError,
   now,
 } from "../utils.js";
 import { getRunManager } from "../run-manager.js";
+import { politeFetcher, RobotsDisallowedError } from "./politeness.js";
+import { openHttpCache, conditionalHeaders, responseValidators, isUnchangedSince, type HttpCacheEntry } from "./http-cache.js";
+import { resolveRepoPath, resolveCommit, listRepoFiles, readRepoBlob, selectRepoFiles } from "./git-repo.js";
 
 // ============================================================================
 // Connect URL
@@ -46,10 +53,21 @@ export interface ConnectUrlResult {
     fetched_at: string;
   };
   skipped?: boolean;
+  /** Unchanged since the cached fetch: 304, same content hash, or sitemap lastmod */
+  unchanged?: boolean;
   error?: string;
 }
 
-export async function connectUrl(input: ConnectUrlInput): Promise<ConnectUrlResult | ToolError> {
+/**
+ * Fetch a URL into the run's raw/ directory. options.recordManifest: false
+ * leaves the raw_manifest.jsonl entry to the caller (connectCrawl records
+ * only the pages it keeps); options.flushCache: false leaves writing the
+ * HTTP cache to the caller (connectSitemap and connectCrawl flush once).
+ */
+export async function connectUrl(
+  input: ConnectUrlInput,
+  options: { lastmod?: string; recordManifest?: boolean; flushCache?: boolean } = {}
+): Promise<ConnectUrlResult | ToolError> {
   const manager = getRunManager();
   const config = manager.getConfig();
   
@@ -76,47 +94,84 @@ export async function connectUrl(input: ConnectUrlInput): Promise<ConnectUrlResu
       });
     }
     
-    // Fetch the URL
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), input.timeout_ms);
-    
-    const headers: Record<string, string> = {
-      "User-Agent": config.defaults.connect.user_agent,
-      ...input.headers,
-    };
-    
-    let response: Response;
-    try {
-      response = await fetch(input.url, {
-        headers,
-        signal: controller.signal,
-      });
-    } finally {
-      clearTimeout(timeout);
+    // Revalidate against the last fetch, as long as its body is still on disk
+    const httpCache = openHttpCache(manager.getHttpCachePath());
+    let cached = input.force ? undefined : await httpCache.get(input.url);
+    if (cached && !(cached.body_path && await pathExists(cached.body_path))) {
+      cached = undefined;
     }
     
-    if (!response.ok) {
-      return createToolError("FETCH_FAILED", `HTTP ${response.status}: ${response.statusText}`, {
-        details: { url: input.url, status: response.status },
-        recoverable: response.status >= 500,
-        suggestion: response.status >= 500 ? "Retry later" : "Check URL validity",
-      });
+    let buffer: Buffer;
+    let contentType: string;
+    let validators: Pick<HttpCacheEntry, "etag" | "last_modified"> = { etag: cached?.etag, last_modified: cached?.last_modified };
+    let unchanged = false;
+    
+    if (cached && isUnchangedSince(cached, options.lastmod)) {
+      // Sitemap says the page hasn't changed: no request at all
+      buffer = await fs.readFile(cached.body_path!);
+      contentType = cached.content_type;
+      unchanged = true;
+    } else {
+      // Fetch the URL (robots.txt, per-host delay and 429/503 backoff)
+      let response: Response;
+      try {
+        response = await politeFetcher.fetch(input.url, {
+          headers: { ...conditionalHeaders(cached), ...input.headers },
+          timeout_ms: input.timeout_ms,
+        }, config.defaults.connect);
+      } catch (err) {
+        if (err instanceof RobotsDisallowedError) {
+          return robotsError(err);
+        }
+        throw err;
+      }
+      
+      if (response.status === 304 && cached) {
+        buffer = await fs.readFile(cached.body_path!);
+        contentType = cached.content_type;
+        validators = responseValidators(response, cached);
+        unchanged = true;
+      } else if (!response.ok) {
+        return createToolError("FETCH_FAILED", `HTTP ${response.status}: ${response.statusText}`, {
+          details: { url: input.url, status: response.status },
+          recoverable: response.status >= 500,
+          suggestion: response.status >= 500 ? "Retry later" : "Check URL validity",
+        });
+      } else {
+        buffer = Buffer.from(await response.arrayBuffer());
+        contentType = response.headers.get("content-type") || "application/octet-stream";
+        validators = responseValidators(response);
+        unchanged = cached?.sha256 === sha256(buffer);
+      }
     }
     
     // Get content
-    const buffer = Buffer.from(await response.arrayBuffer());
-    const contentType = response.headers.get("content-type") || "application/octet-stream";
     const hash = sha256(buffer);
     const ext = extensionFromContentType(contentType);
     const filename = `${hash}${ext}`;
     const outputPath = path.join(rawDir, filename);
+    const remember = async () => {
+      await httpCache.set({
+        url: input.url,
+        ...validators,
+        sha256: hash,
+        content_type: contentType,
+        size_bytes: buffer.length,
+        lastmod: options.lastmod ?? cached?.lastmod,
+        body_path: outputPath,
+        fetched_at: now(),
+      });
+      if (options.flushCache !== false) await httpCache.flush();
+    };
     
     // Check if already exists (idempotency)
     if (await pathExists(outputPath) && !input.force) {
+      await remember();
       const stats = await fs.stat(outputPath);
       return {
         success: true,
         skipped: true,
+        unchanged: unchanged || undefined,
         artifact: {
           path: `raw/${filename}`,
           sha256: hash,
@@ -139,6 +194,7 @@ export async function connectUrl(input: ConnectUrlInput): Promise<ConnectUrlResu
     
     // Write to disk
     await fs.writeFile(outputPath, buffer);
+    await remember();
     
     // Record in raw manifest
     const artifact: RawArtifact = {
@@ -150,10 +206,13 @@ export async function connectUrl(input: ConnectUrlInput): Promise<ConnectUrlResu
       local_path: `raw/${filename}`,
     };
     
-    await appendJsonl(path.join(rawDir, "raw_manifest.jsonl"), [artifact]);
+    if (options.recordManifest !== false) {
+      await appendJsonl(path.join(rawDir, "raw_manifest.jsonl"), [artifact]);
+    }
     
     return {
       success: true,
+      unchanged: unchanged || undefined,
       artifact: {
         path: `raw/${filename}`,
         sha256: hash,
@@ -179,6 +238,14 @@ export async function connectUrl(input: ConnectUrlInput): Promise<ConnectUrlResu
   }
 }
 
+function robotsError(err: RobotsDisallowedError): ToolError {
+  return createToolError("ROBOTS_DISALLOWED", err.message, {
+    details: { url: err.url, robots_url: err.robots_url },
+    recoverable: false,
+    suggestion: "Ask the site owner to allow IndexFoundry, or disable respect_robots_txt in config if you have permission",
+  });
+}
+
 // ============================================================================
 // Connect Sitemap
 // ============================================================================
@@ -189,11 +256,16 @@ export interface ConnectSitemapResult {
   urls_fetched: number;
   urls_skipped: number;
   urls_failed: number;
+  /** URLs robots.txt does not allow us to fetch */
+  urls_disallowed: number;
+  /** Pages unchanged since the cached fetch (304, same hash, or <lastmod>) */
+  urls_unchanged: number;
   artifacts: Array<{
     url: string;
     path: string;
     sha256: string;
   }>;
+  disallowed_urls: string[];
   errors: Array<{ url: string; error: string }>;
 }
 
@@ -203,9 +275,15 @@ export async function connectSitemap(input: ConnectSitemapInput): Promise<Connec
   
   try {
     // Fetch sitemap XML
-    const response = await fetch(input.sitemap_url, {
-      headers: { "User-Agent": config.defaults.connect.user_agent },
-    });
+    let response: Response;
+    try {
+      response = await politeFetcher.fetch(input.sitemap_url, {}, config.defaults.connect);
+    } catch (err) {
+      if (err instanceof RobotsDisallowedError) {
+        return robotsError(err);
+      }
+      throw err;
+    }
     
     if (!response.ok) {
       return createToolError("FETCH_FAILED", `Failed to fetch sitemap: HTTP ${response.status}`, {
@@ -217,8 +295,9 @@ export async function connectSitemap(input: ConnectSitemapInput): Promise<Connec
     const parser = new XMLParser({ ignoreAttributes: false });
     const parsed = parser.parse(xml);
     
-    // Extract URLs from sitemap
+    // Extract URLs from sitemap, with <lastmod> where given
     let urls: string[] = [];
+    const lastmods = new Map<string, string>();
     
     // Handle both regular sitemaps and sitemap indexes
     if (parsed.sitemapindex?.sitemap) {
@@ -232,6 +311,9 @@ export async function connectSitemap(input: ConnectSitemapInput): Promise<Connec
         ? parsed.urlset.url 
         : [parsed.urlset.url];
       urls = urlEntries.map((u: { loc: string }) => u.loc);
+      for (const entry of urlEntries as Array<{ loc: string; lastmod?: string | number }>) {
+        if (entry.lastmod !== undefined) lastmods.set(entry.loc, String(entry.lastmod));
+      }
     }
     
     // Apply include/exclude patterns
@@ -257,63 +339,324 @@ export async function connectSitemap(input: ConnectSitemapInput): Promise<Connec
       urls_fetched: 0,
       urls_skipped: 0,
       urls_failed: 0,
+      urls_disallowed: 0,
+      urls_unchanged: 0,
       artifacts: [],
+      disallowed_urls: [],
       errors: [],
     };
     
     // Fetch URLs with concurrency control
-    const queue = [...urls];
-    const inFlight: Promise<void>[] = [];
-    
-    const fetchOne = async (url: string): Promise<void> => {
+    await runWithConcurrency(urls, input.concurrency, async (url) => {
       const urlResult = await connectUrl({
         run_id: input.run_id,
         url,
         allowed_domains: input.allowed_domains,
         timeout_ms: 30000,
         force: input.force,
-      });
+      }, { lastmod: lastmods.get(url), flushCache: false });
       
-      if ("isError" in urlResult) {
+      if ("isError" in urlResult && urlResult.code === "ROBOTS_DISALLOWED") {
+        result.urls_disallowed++;
+        result.disallowed_urls.push(url);
+      } else if ("isError" in urlResult) {
         result.urls_failed++;
         result.errors.push({ url, error: urlResult.message });
-      } else if (urlResult.skipped) {
-        result.urls_skipped++;
-        result.artifacts.push({
-          url,
-          path: urlResult.artifact.path,
-          sha256: urlResult.artifact.sha256,
-        });
       } else {
-        result.urls_fetched++;
+        if (urlResult.unchanged) {
+          result.urls_unchanged++;
+        } else if (urlResult.skipped) {
+          result.urls_skipped++;
+        } else {
+          result.urls_fetched++;
+        }
         result.artifacts.push({
           url,
           path: urlResult.artifact.path,
           sha256: urlResult.artifact.sha256,
         });
       }
+    });
+    await openHttpCache(manager.getHttpCachePath()).flush();
+    
+    return result;
+  } catch (err) {
+    return createToolError("FETCH_FAILED", `Failed to process sitemap: ${err}`, {
+      recoverable: true,
+    });
+  }
+}
+
+/**
+ * Run a worker over items with at most `concurrency` in flight.
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  const queue = [...items];
+  const inFlight: Promise<void>[] = [];
+  
+  while (queue.length > 0 || inFlight.length > 0) {
+    // Fill up to concurrency limit
+    while (queue.length > 0 && inFlight.length < concurrency) {
+      const item = queue.shift()!;
+      const promise = worker(item).then(() => {
+        const idx = inFlight.indexOf(promise);
+        if (idx >= 0) inFlight.splice(idx, 1);
+      });
+      inFlight.push(promise);
+    }
+    
+    // Wait for at least one to complete
+    if (inFlight.length > 0) {
+      await Promise.race(inFlight);
+    }
+  }
+}
+
+// ============================================================================
+// Connect Crawl
+// ============================================================================
+
+/** Query parameters that only track the visit (besides utm_*) */
+const TRACKING_PARAMS = new Set(["gclid", "dclid", "fbclid", "msclkid", "yclid", "mc_cid", "mc_eid", "_ga", "_gl"]);
+
+/**
+ * Normalize a URL for crawl de-duplication: resolve against base, drop the
+ * fragment and tracking parameters, sort the query. Returns null for
+ * non-http(s) links.
+ */
+export function canonicalizeUrl(url: string, base?: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, base);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return null;
+  }
+  
+  parsed.hash = "";
+  for (const key of [...parsed.searchParams.keys()]) {
+    const lower = key.toLowerCase();
+    if (lower.startsWith("utm_") || TRACKING_PARAMS.has(lower)) {
+      parsed.searchParams.delete(key);
+    }
+  }
+  parsed.searchParams.sort();
+  return parsed.href;
+}
+
+/**
+ * Canonical URL and normalized links of an HTML page.
+ */
+function parseCrawlPage(html: string, pageUrl: string): { canonical: string | null; links: string[] } {
+  const $ = cheerio.load(html);
+  const base = canonicalizeUrl($("base[href]").attr("href") ?? pageUrl, pageUrl) ?? pageUrl;
+  
+  const canonicalHref = $('link[rel~="canonical"]').attr("href");
+  const canonical = canonicalHref ? canonicalizeUrl(canonicalHref, base) : null;
+  
+  const links = new Set<string>();
+  $("a[href]").each((_, el) => {
+    const link = canonicalizeUrl($(el).attr("href")!, base);
+    if (link) links.add(link);
+  });
+  
+  return { canonical, links: [...links] };
+}
+
+export interface ConnectCrawlResult {
+  success: boolean;
+  start_url: string;
+  /** Unique in-scope URLs found, including the start URL */
+  urls_discovered: number;
+  urls_fetched: number;
+  urls_skipped: number;
+  urls_failed: number;
+  /** Pages whose canonical URL was already kept */
+  urls_duplicate: number;
+  /** URLs robots.txt does not allow us to fetch */
+  urls_disallowed: number;
+  max_depth_reached: number;
+  graph_path: string;
+  artifacts: Array<{
+    url: string;
+    path: string;
+    sha256: string;
+    depth: number;
+  }>;
+  disallowed_urls: string[];
+  errors: Array<{ url: string; error: string }>;
+}
+
+export async function connectCrawl(input: ConnectCrawlInput): Promise<ConnectCrawlResult | ToolError> {
+  const manager = getRunManager();
+  
+  // Ensure run exists with full infrastructure
+  await manager.ensureRun(input.run_id);
+  const runDir = manager.getRunDir(input.run_id);
+  
+  const startUrl = canonicalizeUrl(input.start_url);
+  if (!startUrl) {
+    return createToolError("INVALID_INPUT", `Cannot crawl ${input.start_url}`, {
+      recoverable: false,
+      suggestion: "Use an http or https start URL",
+    });
+  }
+  
+  try {
+    // Scope: allowed domains if given, otherwise the start URL's origin
+    const origin = new URL(startUrl).origin;
+    const inScope = (url: string): boolean => {
+      const parsed = new URL(url);
+      return input.allowed_domains?.length
+        ? input.allowed_domains.includes(parsed.hostname)
+        : parsed.origin === origin;
     };
+    const includes = (input.include_patterns ?? []).map(p => new RegExp(p));
+    const excludes = (input.exclude_patterns ?? []).map(p => new RegExp(p));
+    const wanted = (url: string): boolean =>
+      inScope(url) &&
+      (includes.length === 0 || includes.some(r => r.test(url))) &&
+      !excludes.some(r => r.test(url));
     
-    while (queue.length > 0 || inFlight.length > 0) {
-      // Fill up to concurrency limit
-      while (queue.length > 0 && inFlight.length < input.concurrency) {
-        const url = queue.shift()!;
-        const promise = fetchOne(url).then(() => {
-          const idx = inFlight.indexOf(promise);
-          if (idx >= 0) inFlight.splice(idx, 1);
-        });
-        inFlight.push(promise);
+    const graph: CrawlGraph = { start_url: startUrl, crawled_at: now(), nodes: [], edges: [] };
+    const result: ConnectCrawlResult = {
+      success: true,
+      start_url: startUrl,
+      urls_discovered: 1,
+      urls_fetched: 0,
+      urls_skipped: 0,
+      urls_failed: 0,
+      urls_duplicate: 0,
+      urls_disallowed: 0,
+      max_depth_reached: 0,
+      graph_path: "raw/crawl_graph.json",
+      artifacts: [],
+      disallowed_urls: [],
+      errors: [],
+    };
+    
+    // URLs queued or fetched, plus canonical URLs already claimed by a kept page
+    const seen = new Set<string>([startUrl]);
+    const kept = new Map<string, string>();
+    
+    let level = [startUrl];
+    for (let depth = 0; level.length > 0; depth++) {
+      level = level.slice(0, input.max_pages - graph.nodes.length);
+      if (level.length === 0) break;
+      result.max_depth_reached = depth;
+      
+      // Fetch the level concurrently, then settle it in sorted order
+      const pages = new Map<string, { node: CrawlNode; canonical: string; links: string[]; artifact?: RawArtifact }>();
+      await runWithConcurrency(level, input.concurrency, async (url) => {
+        const node: CrawlNode = { url, depth, status: "failed" };
+        const urlResult = await connectUrl({
+          run_id: input.run_id,
+          url,
+          allowed_domains: input.allowed_domains,
+          timeout_ms: input.timeout_ms,
+          force: input.force,
+        }, { recordManifest: false, flushCache: false });
+        
+        if ("isError" in urlResult) {
+          if (urlResult.code === "ROBOTS_DISALLOWED") node.status = "disallowed";
+          node.error = urlResult.message;
+          pages.set(url, { node, canonical: url, links: [] });
+          return;
+        }
+        
+        node.status = urlResult.skipped ? "skipped" : "fetched";
+        node.path = urlResult.artifact.path;
+        node.sha256 = urlResult.artifact.sha256;
+        
+        let page: { canonical: string | null; links: string[] } = { canonical: null, links: [] };
+        if (/html/.test(urlResult.artifact.content_type)) {
+          const html = await fs.readFile(path.join(runDir, urlResult.artifact.path), "utf-8");
+          page = parseCrawlPage(html, url);
+        }
+        // New bodies go into the raw manifest once the page is known not to be a duplicate
+        const artifact: RawArtifact | undefined = urlResult.skipped ? undefined : {
+          uri: url,
+          sha256: urlResult.artifact.sha256,
+          fetched_at: urlResult.artifact.fetched_at,
+          size_bytes: urlResult.artifact.size_bytes,
+          content_type: urlResult.artifact.content_type,
+          local_path: urlResult.artifact.path,
+        };
+        pages.set(url, { node, canonical: page.canonical ?? url, links: page.links, artifact });
+      });
+      
+      // Self-canonical pages claim their URL before pages pointing at them
+      const settled = [...pages.values()].sort((a, b) =>
+        Number(a.canonical !== a.node.url) - Number(b.canonical !== b.node.url) || a.node.url.localeCompare(b.node.url)
+      );
+      const next: string[] = [];
+      const recorded: RawArtifact[] = [];
+      for (const { node, canonical, links, artifact } of settled) {
+        graph.nodes.push(node);
+        
+        if (node.status === "disallowed") {
+          result.urls_disallowed++;
+          result.disallowed_urls.push(node.url);
+          continue;
+        }
+        if (node.status === "failed") {
+          result.urls_failed++;
+          result.errors.push({ url: node.url, error: node.error ?? "Fetch failed" });
+          continue;
+        }
+        
+        if (canonical !== node.url) {
+          node.canonical_url = canonical;
+        }
+        const owner = kept.get(canonical);
+        if (owner) {
+          node.status = "duplicate";
+          node.duplicate_of = owner;
+          result.urls_duplicate++;
+          continue;
+        }
+        kept.set(canonical, node.url);
+        seen.add(canonical);
+        
+        if (node.status === "skipped") {
+          result.urls_skipped++;
+        } else {
+          result.urls_fetched++;
+        }
+        result.artifacts.push({ url: node.url, path: node.path!, sha256: node.sha256!, depth });
+        if (artifact) recorded.push(artifact);
+        
+        for (const link of links) {
+          if (link === node.url || !wanted(link)) continue;
+          graph.edges.push({ from: node.url, to: link });
+          if (!seen.has(link)) {
+            seen.add(link);
+            result.urls_discovered++;
+            if (depth < input.max_depth) next.push(link);
+          }
+        }
       }
       
-      // Wait for at least one to complete
-      if (inFlight.length > 0) {
-        await Promise.race(inFlight);
+      if (recorded.length > 0) {
+        await appendJsonl(path.join(runDir, "raw", "raw_manifest.jsonl"), recorded);
       }
+      
+      // Pages claimed as another page's canonical URL are not fetched again
+      level = next.filter(url => !kept.has(url)).sort();
     }
     
+    await writeJson(path.join(runDir, result.graph_path), graph);
+    await openHttpCache(manager.getHttpCachePath()).flush();
+    
     return result;
   } catch (err) {
-    return createToolError("FETCH_FAILED", `Failed to process sitemap: ${err}`, {
+    return createToolError("FETCH_FAILED", `Failed to crawl ${startUrl}: ${err}`, {
       recoverable: true,
     });
   }
@@ -585,3 +928,159 @@ export async function connectPdf(input: ConnectPdfInput): Promise<ConnectPdfResu
     });
   }
 }
+
+// ============================================================================
+// Connect Repo
+// ============================================================================
+
+export interface ConnectRepoResult {
+  success: boolean;
+  repo: string;
+  ref: string;
+  commit: string;
+  /** Commit this run last read from the same repository, if any */
+  previous_commit?: string;
+  files_matched: number;
+  files_changed: number;
+  files_unchanged: number;
+  files_skipped: number;
+  files_failed: number;
+  /** Paths read at previous_commit that are gone or no longer match */
+  removed_paths: string[];
+  artifacts: Array<{
+    repo_path: string;
+    path: string;
+    sha256: string;
+    blob_sha: string;
+    size_bytes: number;
+    /** False when the blob is the same as at previous_commit */
+    changed: boolean;
+  }>;
+  errors: Array<{ path: string; error: string }>;
+}
+
+export async function connectRepo(input: ConnectRepoInput): Promise<ConnectRepoResult | ToolError> {
+  const manager = getRunManager();
+  
+  // Ensure run exists with full infrastructure
+  await manager.ensureRun(input.run_id);
+  const runDir = manager.getRunDir(input.run_id);
+  const rawDir = manager.getRawDir(input.run_id);
+  
+  let root: string;
+  let commit: string;
+  try {
+    root = resolveRepoPath(input.repo);
+    commit = await resolveCommit(root, input.ref);
+  } catch (err) {
+    return createToolError("FETCH_FAILED", `Failed to open repository: ${err instanceof Error ? err.message : err}`, {
+      recoverable: false,
+      suggestion: "Pass a local clone (path or file:// URL) and a ref that exists in it",
+    });
+  }
+  
+  try {
+    const files = selectRepoFiles(await listRepoFiles(root, commit), {
+      glob: input.glob,
+      exclude_patterns: input.exclude_patterns,
+    });
+    
+    // Artifacts recorded for this repository at the commit last read into this run
+    const manifestPath = path.join(rawDir, "raw_manifest.jsonl");
+    const recorded = (await pathExists(manifestPath) ? await readJsonl<RawArtifact>(manifestPath) : [])
+      .filter(a => a.repo?.root === root);
+    const previousCommit = recorded.at(-1)?.repo?.commit;
+    const previous = new Map(recorded
+      .filter(a => a.repo?.commit === previousCommit)
+      .map(a => [a.repo!.path, a]));
+    
+    const result: ConnectRepoResult = {
+      success: true,
+      repo: root,
+      ref: input.ref,
+      commit,
+      previous_commit: previousCommit,
+      files_matched: files.length,
+      files_changed: 0,
+      files_unchanged: 0,
+      files_skipped: 0,
+      files_failed: 0,
+      removed_paths: [],
+      artifacts: [],
+      errors: [],
+    };
+    
+    const maxBytes = input.max_file_size_mb * 1024 * 1024;
+    const records: RawArtifact[] = [];
+    
+    for (const file of files) {
+      try {
+        // Skip large files
+        if (file.size_bytes > maxBytes) {
+          result.files_skipped++;
+          result.errors.push({ path: file.path, error: `File exceeds max size of ${input.max_file_size_mb}MB` });
+          continue;
+        }
+        
+        // Unchanged blobs reuse their raw file, so extractors hit their cache
+        const prior = previous.get(file.path);
+        const unchanged = !input.force && prior?.repo?.blob_sha === file.blob_sha &&
+          await pathExists(path.join(runDir, prior.local_path));
+        
+        let hash: string;
+        let localPath: string;
+        if (unchanged) {
+          hash = prior!.sha256;
+          localPath = prior!.local_path;
+          result.files_unchanged++;
+        } else {
+          const content = await readRepoBlob(root, file.blob_sha, maxBytes);
+          hash = sha256(content);
+          localPath = `raw/${hash}${path.extname(file.path)}`;
+          if (input.force || !await pathExists(path.join(runDir, localPath))) {
+            await fs.writeFile(path.join(runDir, localPath), content);
+          }
+          result.files_changed++;
+        }
+        
+        // Record every file at a new commit so chunks cite the current one
+        if (!unchanged || commit !== previousCommit) {
+          records.push({
+            uri: `file://${path.join(root, file.path)}`,
+            sha256: hash,
+            fetched_at: now(),
+            size_bytes: file.size_bytes,
+            content_type: contentTypeFromExtension(path.extname(file.path)),
+            local_path: localPath,
+            repo: { root, ref: input.ref, commit, path: file.path, blob_sha: file.blob_sha },
+          });
+        }
+        
+        result.artifacts.push({
+          repo_path: file.path,
+          path: localPath,
+          sha256: hash,
+          blob_sha: file.blob_sha,
+          size_bytes: file.size_bytes,
+          changed: !unchanged,
+        });
+      } catch (err) {
+        result.files_failed++;
+        result.errors.push({ path: file.path, error: String(err) });
+      }
+    }
+    
+    if (records.length > 0) {
+      await appendJsonl(manifestPath, records);
+    }
+    
+    const current = new Set(files.map(f => f.path));
+    result.removed_paths = [...previous.keys()].filter(p => !current.has(p));
+    
+    return result;
+  } catch (err) {
+    return createToolError("FETCH_FAILED", `Failed to read repository: ${err}`, {
+      recoverable: false,
+    });
+  }
+}
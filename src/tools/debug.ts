@@ -22,10 +22,18 @@ import * as path from 'path';
 import type { DocumentChunk } from '../types.js';
 import {
   readJsonl,
+  readJson,
+  pathExists,
   createToolError,
   generateMockEmbedding,
   cosineSimilarity,
 } from '../utils.js';
+import {
+  createReranker,
+  rerankCandidates,
+  rerankTraceStep,
+  type RerankerConfig,
+} from './rerank.js';
 
 // ============================================================================
 // Type Definitions
@@ -57,12 +65,18 @@ export interface DebugResultItem {
   chunk_id: string;
   /** Parent document identifier */
   doc_id: string;
-  /** Cosine similarity score [0, 1] */
+  /** Cosine similarity [0, 1] for runs; the final ranking score for projects */
   score: number;
   /** First 200 characters of chunk text */
   text_preview: string;
   /** Chunk metadata */
   metadata: Record<string, unknown>;
+  /** Rank among keyword (BM25) matches; project debugging only, absent if no match */
+  keyword_rank?: number;
+  /** Rank by cosine similarity; project debugging only, absent if the chunk has no vector */
+  semantic_rank?: number;
+  /** Cosine similarity to the query; project debugging only */
+  semantic_score?: number;
 }
 
 /**
@@ -193,7 +207,7 @@ export type DebugQueryInput = z.infer<typeof DebugQueryInputSchema>;
  * @param details - Step-specific details
  * @returns Formatted trace step object
  */
-function recordStep(
+export function recordStep(
   stepName: string,
   startTime: number,
   details: Record<string, unknown>
@@ -214,7 +228,7 @@ function recordStep(
  * @param expected - Expected chunk_ids, doc_ids, and/or keywords
  * @returns Comparison metrics and item lists
  */
-function compareResults(
+export function compareResults(
   results: DebugResultItem[],
   expected: { chunk_ids?: string[]; doc_ids?: string[]; keywords?: string[] }
 ): DebugComparison {
@@ -269,13 +283,14 @@ function compareResults(
  *
  * @param results - Retrieval results with scores
  * @param comparison - Optional comparison with expected results
+ * @param scores - Similarity scores to analyze (defaults to the result scores)
  * @returns Diagnostic analysis with suggestions
  */
-function generateDiagnostics(
+export function generateDiagnostics(
   results: DebugResultItem[],
-  comparison?: DebugComparison
+  comparison?: DebugComparison,
+  scores: number[] = results.map(r => r.score)
 ): DebugDiagnostics {
-  const scores = results.map(r => r.score);
 
   // Calculate score distribution
   const sortedScores = [...scores].sort((a, b) => a - b);
@@ -289,11 +304,11 @@ function generateDiagnostics(
   let issue: string | undefined;
 
   // Identify issues based on results
-  if (scores.length === 0) {
+  if (results.length === 0) {
     issue = 'No results returned';
     suggestions.push('Check if embeddings exist for the run');
     suggestions.push('Try a broader query');
-  } else if (max < 0.5) {
+  } else if (scores.length > 0 && max < 0.5) {
     issue = 'All similarity scores are low';
     suggestions.push('Consider using a different embedding model');
     suggestions.push('Check if content is properly chunked');
@@ -322,13 +337,13 @@ function generateDiagnostics(
 }
 
 /**
- * Export debug report to a JSON file in the run's debug directory.
+ * Export debug report to a JSON file in the run's (or project's) debug directory.
  *
  * @param result - Debug query result to export
- * @param runDir - Run directory path
+ * @param runDir - Run or project directory path
  * @returns Path to the exported report file
  */
-async function exportReport(
+export async function exportReport(
   result: DebugQueryResult,
   runDir: string
 ): Promise<string> {
@@ -391,6 +406,7 @@ export async function debugQuery(input: DebugQueryInput): Promise<DebugQueryResu
   const indexedDir = path.join(runsDir, 'indexed');
   const chunksPath = path.join(normalizedDir, 'chunks.jsonl');
   const embeddingsPath = path.join(indexedDir, 'embeddings.jsonl');
+  const profilePath = path.join(indexedDir, 'retrieval_profile.json');
 
   // Step 1: Load chunks and embeddings
   const loadStartTime = Date.now();
@@ -446,6 +462,14 @@ export async function debugQuery(input: DebugQueryInput): Promise<DebugQueryResu
     model: 'mock-embedding',
   }));
 
+  // The run's retrieval profile decides whether a rerank stage follows search
+  let rerankerConfig: RerankerConfig | undefined;
+  if (await pathExists(profilePath)) {
+    const profile = await readJson<{ retrieval?: { reranker?: RerankerConfig } }>(profilePath);
+    rerankerConfig = profile.retrieval?.reranker?.enabled ? profile.retrieval.reranker : undefined;
+  }
+  const firstStageK = rerankerConfig ? Math.max(topK, rerankerConfig.top_k_to_rerank) : topK;
+
   // Step 3: Search for similar chunks
   const searchStartTime = Date.now();
   const scoredChunks = chunksWithEmbeddings.map(cwe => ({
@@ -456,8 +480,8 @@ export async function debugQuery(input: DebugQueryInput): Promise<DebugQueryResu
   // Sort by score descending
   scoredChunks.sort((a, b) => b.score - a.score);
 
-  // Take top_k results
-  const topResults = scoredChunks.slice(0, topK);
+  // Take top_k results (or the reranker's window)
+  let topResults = scoredChunks.slice(0, firstStageK);
 
   trace.push(recordStep('search', searchStartTime, {
     total_candidates: chunksWithEmbeddings.length,
@@ -467,17 +491,25 @@ export async function debugQuery(input: DebugQueryInput): Promise<DebugQueryResu
     min_score: topResults[topResults.length - 1]?.score ?? 0,
   }));
 
-  // Add rerank step for verbose trace level
-  if (traceLevel === 'verbose') {
-    const rerankStartTime = Date.now();
-    // In a real implementation, this might apply cross-encoder reranking
-    trace.push(recordStep('rerank', rerankStartTime, {
+  // Step 4: Rerank with the profile's reranker, recording rank changes
+  if (rerankerConfig) {
+    const reranker = createReranker(rerankerConfig);
+    if ('isError' in reranker) {
+      throw reranker;
+    }
+    const outcome = await rerankCandidates(query, topResults, reranker, rerankerConfig.top_k_to_rerank,
+      item => ({ id: item.chunk.chunk_id, text: item.chunk.content.text }));
+    topResults = outcome.results;
+    trace.push(rerankTraceStep(outcome));
+  } else if (traceLevel === 'verbose') {
+    trace.push(recordStep('rerank', Date.now(), {
       reranker: 'none',
       scores_adjusted: false,
     }));
   }
+  topResults = topResults.slice(0, topK);
 
-  // Step 4: Build result items
+  // Step 5: Build result items
   const results: DebugResultItem[] = topResults.map((item, index) => ({
     rank: index + 1,
     chunk_id: item.chunk.chunk_id,
@@ -487,13 +519,13 @@ export async function debugQuery(input: DebugQueryInput): Promise<DebugQueryResu
     metadata: item.chunk.metadata as Record<string, unknown>,
   }));
 
-  // Step 5: Compare with expected (if provided)
+  // Step 6: Compare with expected (if provided)
   let comparison: DebugComparison | undefined;
   if (expected && (expected.chunk_ids?.length || expected.doc_ids?.length || expected.keywords?.length)) {
     comparison = compareResults(results, expected);
   }
 
-  // Step 6: Generate diagnostics
+  // Step 7: Generate diagnostics
   const diagnostics = generateDiagnostics(results, comparison);
 
   // Build result object
@@ -514,7 +546,7 @@ export async function debugQuery(input: DebugQueryInput): Promise<DebugQueryResu
     result.comparison = comparison;
   }
 
-  // Step 7: Export report (if requested)
+  // Step 8: Export report (if requested)
   if (exportReportOption) {
     result.report_path = await exportReport(result, runsDir);
   }
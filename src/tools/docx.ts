@@ -0,0 +1,555 @@
+/**
+ * IndexFoundry-MCP: DOCX Parser
+ *
+ * Converts Office Open XML word-processing documents to markdown.
+ * Headings become ATX headings, tables become markdown tables, and comments
+ * and footnotes are emitted as separate trailing sections. Core document
+ * properties (title, author, modified) are returned alongside the text.
+ *
+ * DOCX files are zip archives; the archive is read directly with zlib so no
+ * additional dependency is required.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+import { inflateRawSync } from "zlib";
+import { XMLParser } from "fast-xml-parser";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DOCX_EXTRACTOR_VERSION = "1.0.0";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/** Default cap on one inflated archive entry (50MB) */
+const DEFAULT_MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+
+/** Footnote types that are layout artifacts rather than content */
+const NON_CONTENT_FOOTNOTE_TYPES = new Set([
+  "separator",
+  "continuationSeparator",
+  "continuationNotice",
+]);
+
+/** Elements whose text must not appear in the output */
+const SKIPPED_ELEMENTS = new Set([
+  "w:pPr",
+  "w:rPr",
+  "w:del",
+  "w:delText",
+  "w:instrText",
+  "w:moveFrom",
+]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DocxProperties {
+  title?: string;
+  author?: string;
+  modified?: string;
+}
+
+export interface DocxComment {
+  id: string;
+  author?: string;
+  date?: string;
+  text: string;
+}
+
+export interface DocxFootnote {
+  id: string;
+  text: string;
+}
+
+export interface DocxExtraction {
+  /** Markdown text including trailing Footnotes / Comments sections */
+  text: string;
+  properties: DocxProperties;
+  headings: number;
+  tables: number;
+  comments: DocxComment[];
+  footnotes: DocxFootnote[];
+  warnings: string[];
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localOffset: number;
+}
+
+/** Node shape produced by fast-xml-parser with preserveOrder enabled */
+type XmlNode = Record<string, unknown>;
+
+interface ParseContext {
+  headingStyles: Map<string, number>;
+  drawings: number;
+}
+
+// ============================================================================
+// Zip Reading
+// ============================================================================
+
+function readZipDirectory(buffer: Buffer): Map<string, ZipEntry> {
+  // End of central directory record is at least 22 bytes and may be
+  // followed by a comment of up to 64KB
+  let eocd = -1;
+  const searchStart = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let i = buffer.length - 22; i >= searchStart; i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Not a zip archive (end of central directory not found)");
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  const directoryOffset = buffer.readUInt32LE(eocd + 16);
+  if (directoryOffset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("Corrupt zip central directory");
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer.toString("utf-8", offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, {
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localOffset: buffer.readUInt32LE(offset + 42),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Read one entry, inflating at most its declared size so a crafted archive
+ * cannot expand past maxBytes.
+ */
+function readZipEntry(buffer: Buffer, entry: ZipEntry, maxBytes: number): Buffer {
+  if (entry.uncompressedSize > maxBytes) {
+    throw new Error(`Zip entry of ${entry.uncompressedSize} bytes exceeds the ${maxBytes} byte limit`);
+  }
+  const offset = entry.localOffset;
+  if (buffer.readUInt32LE(offset) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error("Corrupt zip local header");
+  }
+  const nameLength = buffer.readUInt16LE(offset + 26);
+  const extraLength = buffer.readUInt16LE(offset + 28);
+  const start = offset + 30 + nameLength + extraLength;
+  const data = buffer.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case 0:
+      return Buffer.from(data);
+    case 8:
+      try {
+        return inflateRawSync(data, { maxOutputLength: Math.max(1, entry.uncompressedSize) });
+      } catch (err) {
+        if (err instanceof RangeError) {
+          throw new Error(`Zip entry inflates past its declared size of ${entry.uncompressedSize} bytes`);
+        }
+        throw err;
+      }
+    default:
+      throw new Error(`Unsupported zip compression method: ${entry.method}`);
+  }
+}
+
+// ============================================================================
+// XML Helpers
+// ============================================================================
+
+const xmlParser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  trimValues: false,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+function parseXml(xml: string): XmlNode[] {
+  return xmlParser.parse(xml) as XmlNode[];
+}
+
+function tagOf(node: XmlNode): string | undefined {
+  return Object.keys(node).find(key => key !== ":@");
+}
+
+function childrenOf(node: XmlNode): XmlNode[] {
+  const tag = tagOf(node);
+  const value = tag ? node[tag] : undefined;
+  return Array.isArray(value) ? (value as XmlNode[]) : [];
+}
+
+function attrOf(node: XmlNode, name: string): string | undefined {
+  const attrs = node[":@"] as Record<string, string> | undefined;
+  return attrs?.[name];
+}
+
+function findChild(nodes: XmlNode[], tag: string): XmlNode | undefined {
+  return nodes.find(n => tagOf(n) === tag);
+}
+
+function findAll(nodes: XmlNode[], tag: string): XmlNode[] {
+  return nodes.filter(n => tagOf(n) === tag);
+}
+
+/** Concatenated raw text of a node, used for simple property elements */
+function plainText(node: XmlNode): string {
+  return childrenOf(node)
+    .map(child => ("#text" in child ? String(child["#text"]) : plainText(child)))
+    .join("");
+}
+
+// ============================================================================
+// Document Conversion
+// ============================================================================
+
+/**
+ * Build a styleId → heading level map from styles.xml.
+ * Style IDs are localized in non-English documents, so the style name
+ * ("heading 1", "Title") is used when available.
+ */
+function readHeadingStyles(stylesXml: string | undefined): Map<string, number> {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+
+  const root = findChild(parseXml(stylesXml), "w:styles");
+  if (!root) return levels;
+
+  for (const style of findAll(childrenOf(root), "w:style")) {
+    const styleId = attrOf(style, "w:styleId");
+    if (!styleId) continue;
+
+    const children = childrenOf(style);
+    const name = findChild(children, "w:name");
+    const styleName = name ? (attrOf(name, "w:val") ?? "") : "";
+
+    const headingMatch = styleName.match(/^heading\s*(\d)$/i);
+    if (headingMatch) {
+      levels.set(styleId, parseInt(headingMatch[1], 10));
+    } else if (/^title$/i.test(styleName)) {
+      levels.set(styleId, 1);
+    }
+  }
+
+  return levels;
+}
+
+function headingLevel(pPr: XmlNode | undefined, ctx: ParseContext): number | undefined {
+  if (!pPr) return undefined;
+  const props = childrenOf(pPr);
+
+  const pStyle = findChild(props, "w:pStyle");
+  const styleId = pStyle ? attrOf(pStyle, "w:val") : undefined;
+  if (styleId) {
+    const mapped = ctx.headingStyles.get(styleId);
+    if (mapped !== undefined) return mapped;
+
+    const byId = styleId.match(/^Heading(\d)$/i);
+    if (byId) return parseInt(byId[1], 10);
+    if (/^Title$/i.test(styleId)) return 1;
+  }
+
+  const outline = findChild(props, "w:outlineLvl");
+  const outlineVal = outline ? attrOf(outline, "w:val") : undefined;
+  if (outlineVal !== undefined && /^\d$/.test(outlineVal) && outlineVal !== "9") {
+    return parseInt(outlineVal, 10) + 1;
+  }
+
+  return undefined;
+}
+
+/**
+ * Collect inline text from runs, hyperlinks, insertions, and fields.
+ * Footnote and comment references become inline markers that match
+ * the trailing sections.
+ */
+function inlineText(nodes: XmlNode[], ctx: ParseContext): string {
+  let text = "";
+
+  for (const node of nodes) {
+    const tag = tagOf(node);
+    if (!tag || tag === "#text" || SKIPPED_ELEMENTS.has(tag)) continue;
+
+    switch (tag) {
+      case "w:t":
+        text += plainText(node);
+        break;
+      case "w:tab":
+        text += "\t";
+        break;
+      case "w:br":
+      case "w:cr":
+        text += "\n";
+        break;
+      case "w:noBreakHyphen":
+        text += "-";
+        break;
+      case "w:footnoteReference":
+        text += `[^${attrOf(node, "w:id")}]`;
+        break;
+      case "w:commentReference":
+        text += `[comment ${attrOf(node, "w:id")}]`;
+        break;
+      case "w:drawing":
+      case "w:pict":
+        ctx.drawings++;
+        break;
+      default:
+        text += inlineText(childrenOf(node), ctx);
+    }
+  }
+
+  return text;
+}
+
+function paragraphToMarkdown(paragraph: XmlNode, ctx: ParseContext): { text: string; heading: boolean } {
+  const children = childrenOf(paragraph);
+  const pPr = findChild(children, "w:pPr");
+  const text = inlineText(children, ctx).trim();
+
+  if (!text) return { text: "", heading: false };
+
+  const level = headingLevel(pPr, ctx);
+  if (level !== undefined) {
+    return { text: `${"#".repeat(Math.min(Math.max(level, 1), 6))} ${text}`, heading: true };
+  }
+
+  const numPr = pPr ? findChild(childrenOf(pPr), "w:numPr") : undefined;
+  if (numPr) {
+    const ilvl = findChild(childrenOf(numPr), "w:ilvl");
+    const depth = parseInt((ilvl && attrOf(ilvl, "w:val")) ?? "0", 10) || 0;
+    return { text: `${"  ".repeat(depth)}- ${text}`, heading: false };
+  }
+
+  return { text, heading: false };
+}
+
+/** Flatten a table cell (including nested tables) to a single line */
+function cellText(cell: XmlNode, ctx: ParseContext): string {
+  const parts: string[] = [];
+  const walk = (nodes: XmlNode[]) => {
+    for (const node of nodes) {
+      const tag = tagOf(node);
+      if (tag === "w:p") {
+        const text = inlineText(childrenOf(node), ctx).trim();
+        if (text) parts.push(text);
+      } else if (tag && tag !== "#text" && tag !== "w:tcPr") {
+        walk(childrenOf(node));
+      }
+    }
+  };
+  walk(childrenOf(cell));
+
+  return parts.join(" ").replace(/\s*\n\s*/g, " ").replace(/\|/g, "\\|");
+}
+
+function tableToMarkdown(table: XmlNode, ctx: ParseContext): string {
+  const rows = findAll(childrenOf(table), "w:tr").map(row =>
+    findAll(childrenOf(row), "w:tc").map(cell => cellText(cell, ctx))
+  );
+  if (rows.length === 0) return "";
+
+  const width = Math.max(...rows.map(r => r.length));
+  if (width === 0) return "";
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill("")];
+
+  const lines = [
+    `| ${pad(rows[0]).join(" | ")} |`,
+    `| ${Array(width).fill("---").join(" | ")} |`,
+    ...rows.slice(1).map(row => `| ${pad(row).join(" | ")} |`),
+  ];
+  return lines.join("\n");
+}
+
+function bodyToBlocks(
+  nodes: XmlNode[],
+  ctx: ParseContext,
+  counts: { headings: number; tables: number }
+): string[] {
+  const blocks: string[] = [];
+
+  for (const node of nodes) {
+    switch (tagOf(node)) {
+      case "w:p": {
+        const paragraph = paragraphToMarkdown(node, ctx);
+        if (paragraph.text) {
+          blocks.push(paragraph.text);
+          if (paragraph.heading) counts.headings++;
+        }
+        break;
+      }
+      case "w:tbl": {
+        const table = tableToMarkdown(node, ctx);
+        if (table) {
+          blocks.push(table);
+          counts.tables++;
+        }
+        break;
+      }
+      case "w:sdt": {
+        const content = findChild(childrenOf(node), "w:sdtContent");
+        if (content) blocks.push(...bodyToBlocks(childrenOf(content), ctx, counts));
+        break;
+      }
+      case "w:ins":
+      case "w:customXml":
+        blocks.push(...bodyToBlocks(childrenOf(node), ctx, counts));
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+function noteText(note: XmlNode, ctx: ParseContext): string {
+  return findAll(childrenOf(note), "w:p")
+    .map(p => inlineText(childrenOf(p), ctx).trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+function readFootnotes(xml: string | undefined, ctx: ParseContext): DocxFootnote[] {
+  if (!xml) return [];
+  const root = findChild(parseXml(xml), "w:footnotes");
+  if (!root) return [];
+
+  return findAll(childrenOf(root), "w:footnote")
+    .filter(note => !NON_CONTENT_FOOTNOTE_TYPES.has(attrOf(note, "w:type") ?? ""))
+    .map(note => ({ id: attrOf(note, "w:id") ?? "", text: noteText(note, ctx) }))
+    .filter(note => note.text);
+}
+
+function readComments(xml: string | undefined, ctx: ParseContext): DocxComment[] {
+  if (!xml) return [];
+  const root = findChild(parseXml(xml), "w:comments");
+  if (!root) return [];
+
+  return findAll(childrenOf(root), "w:comment")
+    .map(comment => ({
+      id: attrOf(comment, "w:id") ?? "",
+      author: attrOf(comment, "w:author"),
+      date: attrOf(comment, "w:date"),
+      text: noteText(comment, ctx),
+    }))
+    .filter(comment => comment.text);
+}
+
+function readCoreProperties(xml: string | undefined): DocxProperties {
+  if (!xml) return {};
+  const root = findChild(parseXml(xml), "cp:coreProperties");
+  if (!root) return {};
+
+  const children = childrenOf(root);
+  const value = (tag: string): string | undefined => {
+    const node = findChild(children, tag);
+    const text = node ? plainText(node).trim() : "";
+    return text || undefined;
+  };
+
+  return {
+    title: value("dc:title"),
+    author: value("dc:creator"),
+    modified: value("dcterms:modified"),
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Extract markdown text, notes, and core properties from a DOCX buffer.
+ *
+ * @param buffer - Raw DOCX file bytes
+ * @param options.maxEntryBytes - Largest inflated size accepted for one archive entry
+ * @returns Markdown text with trailing Footnotes/Comments sections and metadata
+ * @throws {Error} When the buffer is not a readable DOCX archive
+ *
+ * @example
+ * ```typescript
+ * const docx = parseDocx(await fs.readFile("report.docx"));
+ * console.log(docx.properties.title, docx.tables);
+ * ```
+ */
+export function parseDocx(buffer: Buffer, options: { maxEntryBytes?: number } = {}): DocxExtraction {
+  const maxEntryBytes = options.maxEntryBytes ?? DEFAULT_MAX_ENTRY_BYTES;
+  const entries = readZipDirectory(buffer);
+  const read = (name: string): string | undefined => {
+    const entry = entries.get(name);
+    return entry ? readZipEntry(buffer, entry, maxEntryBytes).toString("utf-8") : undefined;
+  };
+
+  const documentXml = read("word/document.xml");
+  if (!documentXml) {
+    throw new Error("Missing word/document.xml (not a word-processing document)");
+  }
+
+  const ctx: ParseContext = {
+    headingStyles: readHeadingStyles(read("word/styles.xml")),
+    drawings: 0,
+  };
+
+  const documentRoot = findChild(parseXml(documentXml), "w:document");
+  const body = documentRoot ? findChild(childrenOf(documentRoot), "w:body") : undefined;
+  const counts = { headings: 0, tables: 0 };
+  const blocks = body ? bodyToBlocks(childrenOf(body), ctx, counts) : [];
+
+  const footnotes = readFootnotes(read("word/footnotes.xml"), ctx);
+  const comments = readComments(read("word/comments.xml"), ctx);
+
+  if (footnotes.length > 0) {
+    blocks.push("## Footnotes");
+    blocks.push(footnotes.map(note => `[^${note.id}]: ${note.text}`).join("\n"));
+  }
+
+  if (comments.length > 0) {
+    blocks.push("## Comments");
+    blocks.push(comments.map(comment => {
+      const attribution = [comment.author, comment.date].filter(Boolean).join(", ");
+      return `- [comment ${comment.id}]${attribution ? ` (${attribution})` : ""}: ${comment.text}`;
+    }).join("\n"));
+  }
+
+  const warnings: string[] = [];
+  if (ctx.drawings > 0) {
+    warnings.push(`${ctx.drawings} embedded image(s) skipped`);
+  }
+  if (blocks.length === 0) {
+    warnings.push("Document contains no extractable text");
+  }
+
+  return {
+    text: blocks.join("\n\n"),
+    properties: readCoreProperties(read("docProps/core.xml")),
+    headings: counts.headings,
+    tables: counts.tables,
+    comments,
+    footnotes,
+    warnings,
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * IndexFoundry-MCP: Remote Embedding Endpoints
+ *
+ * HTTP clients for embedding APIs: OpenAI and OpenAI-compatible gateways
+ * (POST {base_url}/embeddings with a batch of inputs) and Ollama's native
+ * API (POST {base_url}/api/embeddings, one prompt per request).
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const OPENAI_DEFAULT_BASE_URL = "https://api.openai.com/v1";
+export const OLLAMA_DEFAULT_BASE_URL = "http://localhost:11434";
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RemoteEmbeddingProvider = "openai" | "ollama";
+
+export interface EmbeddingEndpointConfig {
+  provider: RemoteEmbeddingProvider;
+  model_name: string;
+  /** Override the API root (OpenAI-compatible gateway or Ollama host) */
+  base_url?: string;
+  /** Bearer token; optional for Ollama and self-hosted gateways */
+  api_key?: string;
+  /** Requested output dimensions (OpenAI text-embedding-3 models only) */
+  dimensions?: number;
+  timeout_ms?: number;
+}
+
+export interface EmbeddingResponse {
+  embeddings: number[][];
+  /** Tokens billed, when the endpoint reports usage */
+  total_tokens: number;
+}
+
+/**
+ * Non-2xx response from an embedding endpoint. `status` lets callers
+ * react to rate limiting (429).
+ */
+export class EmbeddingHttpError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "EmbeddingHttpError";
+  }
+}
+
+// ============================================================================
+// Endpoint Resolution
+// ============================================================================
+
+/**
+ * Whether a provider is served by these HTTP endpoints.
+ */
+export function isRemoteEmbeddingProvider(provider: string): provider is RemoteEmbeddingProvider {
+  return provider === "openai" || provider === "ollama";
+}
+
+/**
+ * Resolve the embeddings URL for a provider and optional base URL.
+ *
+ * @example
+ * ```typescript
+ * embeddingsUrl("openai");                            // https://api.openai.com/v1/embeddings
+ * embeddingsUrl("openai", "https://gw.internal/v1");  // https://gw.internal/v1/embeddings
+ * embeddingsUrl("ollama");                            // http://localhost:11434/api/embeddings
+ * ```
+ */
+export function embeddingsUrl(provider: RemoteEmbeddingProvider, baseUrl?: string): string {
+  if (provider === "ollama") {
+    return `${(baseUrl || OLLAMA_DEFAULT_BASE_URL).replace(/\/+$/, "")}/api/embeddings`;
+  }
+  return `${(baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, "")}/embeddings`;
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+/**
+ * Embed texts through an OpenAI-compatible or Ollama endpoint.
+ * Results are returned in input order.
+ *
+ * @throws {EmbeddingHttpError} On non-2xx responses
+ * @throws {Error} On timeouts or malformed responses
+ */
+export async function requestEmbeddings(
+  config: EmbeddingEndpointConfig,
+  texts: string[]
+): Promise<EmbeddingResponse> {
+  if (texts.length === 0) {
+    return { embeddings: [], total_tokens: 0 };
+  }
+
+  if (config.provider === "ollama") {
+    // Ollama's /api/embeddings takes a single prompt per request
+    const embeddings: number[][] = [];
+    for (const text of texts) {
+      const data = await postJson<{ embedding?: number[] }>(config, {
+        model: config.model_name,
+        prompt: text,
+      });
+      if (!Array.isArray(data.embedding) || data.embedding.length === 0) {
+        throw new Error(`Ollama returned no embedding for model ${config.model_name}`);
+      }
+      embeddings.push(data.embedding);
+    }
+    return { embeddings, total_tokens: 0 };
+  }
+
+  const data = await postJson<{
+    data?: Array<{ embedding: number[]; index: number }>;
+    usage?: { total_tokens?: number };
+  }>(config, {
+    model: config.model_name,
+    input: texts,
+    ...(config.dimensions ? { dimensions: config.dimensions } : {}),
+  });
+
+  if (!Array.isArray(data.data) || data.data.length !== texts.length) {
+    throw new Error(`Embedding endpoint returned ${data.data?.length ?? 0} embeddings for ${texts.length} inputs`);
+  }
+
+  const sorted = [...data.data].sort((a, b) => a.index - b.index);
+  return {
+    embeddings: sorted.map(d => d.embedding),
+    total_tokens: data.usage?.total_tokens ?? 0,
+  };
+}
+
+async function postJson<T>(config: EmbeddingEndpointConfig, body: unknown): Promise<T> {
+  const url = embeddingsUrl(config.provider, config.base_url);
+  const timeoutMs = config.timeout_ms ?? DEFAULT_TIMEOUT_MS;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.api_key) headers["Authorization"] = `Bearer ${config.api_key}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (err) {
+    if (err instanceof Error && (err.name === "TimeoutError" || err.name === "AbortError")) {
+      throw new Error(`Embedding request to ${url} timed out after ${timeoutMs / 1000}s`);
+    }
+    throw err;
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    throw new EmbeddingHttpError(
+      `${config.provider === "ollama" ? "Ollama" : "OpenAI"} API error ${response.status}: ${errorText}`,
+      response.status
+    );
+  }
+
+  return await response.json() as T;
+}
@@ -0,0 +1,412 @@
+/**
+ * IndexFoundry-MCP: Synthetic Evaluation Sets
+ *
+ * Samples chunks from a project's data/chunks.jsonl, stratified by source and
+ * section, writes questions each chunk answers and saves them as an eval set
+ * with the source chunk as the expected answer.
+ *
+ * Generators:
+ * - template: offline. Sections come from chunk metadata (section/heading)
+ *   or markdown headings found with parseHeadingLevel; key terms are the
+ *   chunk's most distinctive words (tf × idf over the project). Questions
+ *   follow templates such as "What does <section> say about <term>?"
+ * - llm: an OpenAI-compatible chat completions endpoint. Chunks the endpoint
+ *   fails on fall back to templates.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+import { z } from "zod";
+import type { ToolError } from "../types.js";
+import type { ChunkRecord } from "../schemas-projects.js";
+import {
+  pathExists,
+  readJsonl,
+  sha256,
+  parseHeadingLevel,
+  createToolError,
+} from "../utils.js";
+import { getProjectPaths } from "./projects.js";
+import { evalSetSave, EvalSetSaveSchema, EVAL_SET_MAX_QUERIES, type EvalSetSaveResult } from "./eval.js";
+import { tokenizeBm25 } from "./bm25.js";
+import { OPENAI_DEFAULT_BASE_URL } from "./embedding-endpoints.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Timeout for one question-generation request */
+const LLM_TIMEOUT_MS = 60000;
+
+/** Characters of chunk text sent to the LLM */
+const LLM_MAX_CHUNK_CHARS = 4000;
+
+/** Words never used as key terms */
+const STOPWORDS = new Set([
+  "about", "above", "after", "again", "also", "among", "been", "before", "being", "below",
+  "between", "both", "could", "does", "doing", "down", "during", "each", "every", "from",
+  "further", "have", "having", "here", "into", "itself", "just", "more", "most", "much",
+  "must", "only", "other", "over", "same", "should", "some", "such", "than", "that",
+  "their", "them", "then", "there", "these", "they", "this", "those", "through", "under",
+  "until", "upon", "very", "were", "what", "when", "where", "which", "while", "will",
+  "with", "within", "without", "would", "your", "yours",
+]);
+
+const SECTION_TEMPLATES = [
+  (section: string, term: string) => `What does ${section} say about ${term}?`,
+  (section: string, term: string) => `How is ${term} described in ${section}?`,
+  (section: string, term: string) => `According to ${section}, what should I know about ${term}?`,
+];
+
+const TERM_TEMPLATES = [
+  (term: string) => `What does the documentation say about ${term}?`,
+  (term: string) => `How is ${term} described?`,
+  (term: string) => `What should I know about ${term}?`,
+];
+
+// ============================================================================
+// Schema Definition
+// ============================================================================
+
+export const EvalGenerateBaseSchema = z.object({
+  project_id: z.string().min(1).max(64).regex(/^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/),
+  name: EvalSetSaveSchema.shape.name,
+  description: z.string().max(1024).optional(),
+  count: z.number().int().min(1).max(500).default(20)
+    .describe("Chunks to sample"),
+  questions_per_chunk: z.number().int().min(1).max(5).default(1),
+  min_chars: z.number().int().min(0).max(10000).default(200)
+    .describe("Skip chunks shorter than this"),
+  filter_sources: z.array(z.string().max(64)).max(50).optional()
+    .describe("Only sample chunks from these sources"),
+  seed: z.number().int().default(0)
+    .describe("Sampling seed; the same seed samples the same chunks"),
+  generator: z.object({
+    provider: z.enum(["template", "llm"]).default("template")
+      .describe("template: offline heading/keyphrase templates; llm: OpenAI-compatible chat completions"),
+    base_url: z.string().url().optional()
+      .describe("Chat completions base URL (default https://api.openai.com/v1)"),
+    model: z.string().optional()
+      .describe("Chat model (default OPENAI_MODEL or gpt-5-nano-2025-08-07)"),
+    api_key_env: z.string().regex(/^[A-Z0-9_]+$/).default("OPENAI_API_KEY")
+      .describe("Environment variable with the API key"),
+  }).default({}),
+}).strict();
+
+const TOO_MANY_QUESTIONS = `count × questions_per_chunk must not exceed ${EVAL_SET_MAX_QUERIES}, the most queries a set holds`;
+
+/** The generated set must fit in one saved query set */
+export const EvalGenerateSchema = EvalGenerateBaseSchema.refine(
+  input => input.count * input.questions_per_chunk <= EVAL_SET_MAX_QUERIES,
+  { message: TOO_MANY_QUESTIONS, path: ["count"] }
+);
+
+export type EvalGenerateInput = z.infer<typeof EvalGenerateSchema>;
+
+export interface EvalGenerateResult extends EvalSetSaveResult {
+  generator: "template" | "llm";
+  chunks_sampled: number;
+  /** Sampled chunks per source_id */
+  sources: Record<string, number>;
+  /** Chunks that fell back to templates because the LLM request failed */
+  llm_fallbacks?: number;
+  llm_error?: string;
+  /** First few generated questions */
+  preview: Array<{ query: string; chunk_id: string; section?: string }>;
+}
+
+interface SampledChunk {
+  chunk: ChunkRecord;
+  section?: string;
+}
+
+// ============================================================================
+// Sections and Terms
+// ============================================================================
+
+function headingText(line: string): string {
+  return line.replace(/^#{1,6}\s+/, "").trim();
+}
+
+/**
+ * Section of each chunk: metadata.section / metadata.heading when present,
+ * else a heading the chunk starts with, else the last heading seen earlier
+ * in the same source.
+ */
+export function chunkSections(chunks: ChunkRecord[]): Map<string, string | undefined> {
+  const ordered = [...chunks].sort((a, b) =>
+    a.source_id.localeCompare(b.source_id) || a.position.index - b.position.index);
+  const sections = new Map<string, string | undefined>();
+  let source: string | undefined;
+  let carried: string | undefined;
+
+  for (const chunk of ordered) {
+    if (chunk.source_id !== source) {
+      source = chunk.source_id;
+      carried = undefined;
+    }
+    const headings = chunk.text.split("\n")
+      .filter(line => parseHeadingLevel(line.trim()) !== null)
+      .map(line => headingText(line.trim()))
+      .filter(Boolean);
+    const explicit = [chunk.metadata.section, chunk.metadata.heading]
+      .find((v): v is string => typeof v === "string" && v.trim().length > 0);
+    const startsWithHeading = parseHeadingLevel(chunk.text.trimStart()) !== null;
+
+    sections.set(chunk.chunk_id, explicit
+      ? headingText(explicit)
+      : startsWithHeading ? headings[0] : carried ?? headings[0]);
+    if (headings.length > 0) {
+      carried = headings[headings.length - 1];
+    }
+  }
+  return sections;
+}
+
+/**
+ * Most distinctive words of a chunk (tf × idf over the project), skipping
+ * stopwords, numbers, heading lines and words of the section title.
+ */
+export function keyTerms(text: string, section: string | undefined, documentFrequency: Map<string, number>, totalChunks: number, limit: number): string[] {
+  const body = text.split("\n").filter(line => parseHeadingLevel(line.trim()) === null).join("\n");
+  const excluded = new Set(section ? tokenizeBm25(section) : []);
+  const counts = new Map<string, number>();
+  for (const token of tokenizeBm25(body)) {
+    if (token.length < 4 || STOPWORDS.has(token) || excluded.has(token) || /^\d+$/.test(token)) continue;
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+
+  return Array.from(counts.entries())
+    .map(([term, tf]) => ({ term, score: tf * Math.log(1 + totalChunks / (documentFrequency.get(term) || 1)) }))
+    .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+    .slice(0, limit)
+    .map(t => t.term);
+}
+
+/**
+ * Template questions for a chunk; at most `count`, possibly fewer when the
+ * chunk has few distinctive terms.
+ */
+export function templateQuestions(section: string | undefined, terms: string[], count: number): string[] {
+  const questions = terms.slice(0, count).map((term, i) => section
+    ? SECTION_TEMPLATES[i % SECTION_TEMPLATES.length](section, term)
+    : TERM_TEMPLATES[i % TERM_TEMPLATES.length](term));
+  if (questions.length < count && section) {
+    questions.push(`What is covered in ${section}?`);
+  }
+  return questions;
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+/**
+ * Pick up to `count` chunks, round-robin across sources and, within each
+ * source, across sections. Order within a section is a seeded hash, so the
+ * same seed picks the same chunks.
+ */
+export function sampleStratified(chunks: ChunkRecord[], sections: Map<string, string | undefined>, count: number, seed: number): SampledChunk[] {
+  const bySource = new Map<string, Map<string, ChunkRecord[]>>();
+  for (const chunk of chunks) {
+    const section = sections.get(chunk.chunk_id) ?? "";
+    const sourceSections = bySource.get(chunk.source_id) ?? new Map<string, ChunkRecord[]>();
+    bySource.set(chunk.source_id, sourceSections);
+    sourceSections.set(section, [...(sourceSections.get(section) ?? []), chunk]);
+  }
+
+  const rank = (chunk: ChunkRecord) => sha256(`${seed}:${chunk.chunk_id}`);
+  const roundRobin = <T>(queues: T[][]): T[] => {
+    const out: T[] = [];
+    for (let i = 0; queues.some(q => i < q.length); i++) {
+      for (const queue of queues) {
+        if (i < queue.length) out.push(queue[i]);
+      }
+    }
+    return out;
+  };
+
+  const perSource = [...bySource.keys()].sort().map(sourceId => {
+    const sourceSections = bySource.get(sourceId)!;
+    return roundRobin([...sourceSections.keys()].sort().map(section =>
+      [...sourceSections.get(section)!].sort((a, b) => rank(a).localeCompare(rank(b)))));
+  });
+
+  return roundRobin(perSource)
+    .slice(0, count)
+    .map(chunk => ({ chunk, section: sections.get(chunk.chunk_id) }));
+}
+
+// ============================================================================
+// LLM Generator
+// ============================================================================
+
+/**
+ * Ask a chat completions endpoint for questions the chunk answers, one per
+ * line.
+ */
+async function llmQuestions(
+  sample: SampledChunk,
+  count: number,
+  config: EvalGenerateInput["generator"]
+): Promise<string[]> {
+  const apiKey = process.env[config.api_key_env];
+  const endpoint = `${(config.base_url || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, "")}/chat/completions`;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      model: config.model || process.env.OPENAI_MODEL || "gpt-5-nano-2025-08-07",
+      messages: [
+        {
+          role: "system",
+          content: `Write ${count} distinct question(s) a user might ask that the given passage answers. ` +
+            "Questions must be answerable from the passage alone. Reply with one question per line and nothing else.",
+        },
+        {
+          role: "user",
+          content: `${sample.section ? `Section: ${sample.section}\n\n` : ""}${sample.chunk.text.slice(0, LLM_MAX_CHUNK_CHARS)}`,
+        },
+      ],
+    }),
+    signal: AbortSignal.timeout(LLM_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    throw new Error(`Chat completions error ${response.status}: ${errorText}`);
+  }
+
+  const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+  const questions = (data.choices?.[0]?.message?.content ?? "")
+    .split("\n")
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+    .filter(line => line.length > 0)
+    .slice(0, count);
+  if (questions.length === 0) {
+    throw new Error("Chat completions returned no questions");
+  }
+  return questions;
+}
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+/**
+ * Generate a synthetic eval set from a project's chunks and save it with
+ * evalSetSave. Each question expects the chunk it was written from.
+ */
+export async function evalGenerate(input: EvalGenerateInput): Promise<EvalGenerateResult | ToolError> {
+  const paths = getProjectPaths(input.project_id);
+
+  // Tool calls are validated against the base shape, so check before any LLM call
+  if (input.count * input.questions_per_chunk > EVAL_SET_MAX_QUERIES) {
+    return createToolError("INVALID_INPUT", TOO_MANY_QUESTIONS, {
+      details: { count: input.count, questions_per_chunk: input.questions_per_chunk },
+      recoverable: true,
+      suggestion: "Lower count or questions_per_chunk",
+    });
+  }
+
+  if (!(await pathExists(paths.manifest))) {
+    return createToolError("NOT_FOUND", `Project '${input.project_id}' not found`, {
+      recoverable: false,
+    });
+  }
+  if (!(await pathExists(paths.chunks))) {
+    return createToolError("NOT_BUILT", `Project '${input.project_id}' has no chunks`, {
+      recoverable: true,
+      suggestion: "Run indexfoundry_project_build first",
+    });
+  }
+
+  try {
+    const chunks = await readJsonl<ChunkRecord>(paths.chunks);
+    const sections = chunkSections(chunks);
+    const candidates = chunks.filter(c =>
+      c.text.trim().length >= input.min_chars &&
+      (!input.filter_sources || input.filter_sources.includes(c.source_id)));
+    if (candidates.length === 0) {
+      return createToolError("EMPTY_CONTENT", "No chunks match min_chars and filter_sources", {
+        recoverable: true,
+        suggestion: "Lower min_chars or widen filter_sources",
+      });
+    }
+
+    const documentFrequency = new Map<string, number>();
+    for (const chunk of chunks) {
+      for (const term of new Set(tokenizeBm25(chunk.text))) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    }
+
+    const samples = sampleStratified(candidates, sections, input.count, input.seed);
+    const queries: Array<{ id: string; query: string; expected: { chunk_ids: string[] } }> = [];
+    const preview: EvalGenerateResult["preview"] = [];
+    let llmFallbacks = 0;
+    let llmError: string | undefined;
+
+    for (const sample of samples) {
+      let questions: string[] | undefined;
+      if (input.generator.provider === "llm") {
+        try {
+          questions = await llmQuestions(sample, input.questions_per_chunk, input.generator);
+        } catch (err) {
+          llmFallbacks++;
+          llmError ??= err instanceof Error ? err.message : String(err);
+        }
+      }
+      questions ??= templateQuestions(sample.section,
+        keyTerms(sample.chunk.text, sample.section, documentFrequency, chunks.length, input.questions_per_chunk),
+        input.questions_per_chunk);
+
+      questions.forEach((query, i) => {
+        queries.push({
+          id: input.questions_per_chunk > 1 ? `${sample.chunk.chunk_id}-${i + 1}` : sample.chunk.chunk_id,
+          query,
+          expected: { chunk_ids: [sample.chunk.chunk_id] },
+        });
+        if (preview.length < 5) {
+          preview.push({ query, chunk_id: sample.chunk.chunk_id, section: sample.section });
+        }
+      });
+    }
+
+    if (queries.length === 0) {
+      return createToolError("EMPTY_CONTENT", "No questions could be generated from the sampled chunks", {
+        recoverable: true,
+        suggestion: "Sample longer chunks (raise min_chars) or use generator.provider: 'llm'",
+      });
+    }
+
+    const saved = await evalSetSave(EvalSetSaveSchema.parse({
+      project_id: input.project_id,
+      name: input.name,
+      description: input.description ?? `Synthetic questions from ${samples.length} chunks (${input.generator.provider}, seed ${input.seed})`,
+      queries,
+    }));
+    if ("isError" in saved) return saved;
+
+    const sources: Record<string, number> = {};
+    for (const sample of samples) {
+      sources[sample.chunk.source_id] = (sources[sample.chunk.source_id] || 0) + 1;
+    }
+
+    return {
+      ...saved,
+      generator: input.generator.provider,
+      chunks_sampled: samples.length,
+      sources,
+      ...(input.generator.provider === "llm" ? { llm_fallbacks: llmFallbacks, llm_error: llmError } : {}),
+      preview,
+    };
+  } catch (err) {
+    return createToolError("EVAL_FAILED", `Failed to generate eval set: ${err}`, {
+      recoverable: true,
+    });
+  }
+}
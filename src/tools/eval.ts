@@ -0,0 +1,570 @@
+/**
+ * IndexFoundry-MCP: Retrieval Evaluation
+ *
+ * Stores named query sets (golden question → expected chunks/documents) per
+ * project or run, runs them through the same retrieval path as project_query
+ * and serve_query, and scores each ranking with precision@k, recall@k, MRR
+ * and nDCG@k. Every evaluation is saved with a timestamp and compared to the
+ * previous one for the same set, so regressions between builds are visible.
+ *
+ * Relevance is binary: a result is relevant when its chunk_id is expected,
+ * or when its doc_id is expected and no earlier result already matched that
+ * document. Each expected item is credited once, so recall and nDCG stay
+ * within [0, 1] when a document has many chunks.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+import { z } from "zod";
+import * as path from "path";
+import type { DocumentChunk, ToolError } from "../types.js";
+import {
+  ensureDir,
+  pathExists,
+  readJson,
+  readJsonl,
+  writeJson,
+  listFiles,
+  createToolError,
+  now,
+} from "../utils.js";
+import { getRunManager } from "../run-manager.js";
+import { ServeQuerySchema } from "../schemas.js";
+import { ProjectQuerySchema } from "../schemas-projects.js";
+import { projectQuery, getProjectPaths } from "./projects.js";
+import { serveQuery } from "./serve.js";
+import type { DebugComparison } from "./debug.js";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Expected results for one golden question */
+export interface EvalExpected {
+  chunk_ids?: string[];
+  doc_ids?: string[];
+}
+
+/** A golden question in a query set */
+export interface EvalQuery {
+  /** Stable identifier used to match queries across evaluations */
+  id: string;
+  query: string;
+  expected: EvalExpected;
+  /** Pre-computed embedding for run semantic/hybrid search */
+  query_vector?: number[];
+}
+
+/** A named query set stored under evals/sets/<name>.json */
+export interface EvalSet {
+  name: string;
+  description?: string;
+  created_at: string;
+  updated_at: string;
+  queries: EvalQuery[];
+}
+
+/** Ranking metrics for one query, or their mean over a set */
+export interface EvalMetrics {
+  precision_at_k: number;
+  recall_at_k: number;
+  mrr: number;
+  ndcg_at_k: number;
+}
+
+/** Scored ranking for one query */
+export interface EvalQueryResult extends EvalMetrics, Pick<DebugComparison, "expected_found" | "expected_missing"> {
+  id: string;
+  query: string;
+  /** 1-based rank of the first relevant result; null if none in the top k */
+  first_relevant_rank: number | null;
+  /** Retrieved chunk IDs in rank order */
+  retrieved: string[];
+}
+
+/** A metric that dropped for a query since the previous evaluation */
+export interface EvalRegression {
+  id: string;
+  metric: keyof EvalMetrics;
+  before: number;
+  after: number;
+}
+
+/** An evaluation report, saved under evals/results/<set>/<timestamp>.json */
+export interface EvalReport {
+  set: string;
+  target: { project_id: string } | { run_id: string };
+  evaluated_at: string;
+  k: number;
+  mode: "semantic" | "keyword" | "hybrid";
+  queries: EvalQueryResult[];
+  aggregate: EvalMetrics;
+  /** Previous evaluation of the same set, if any */
+  previous?: { evaluated_at: string; aggregate: EvalMetrics };
+  /** aggregate minus previous aggregate */
+  delta?: EvalMetrics;
+  /** Per-query metric drops since the previous evaluation */
+  regressions: EvalRegression[];
+}
+
+// ============================================================================
+// Schema Definitions
+// ============================================================================
+
+/** Either a project or a run owns a query set; exactly one must be given */
+const EvalTargetShape = {
+  project_id: z.string().min(1).max(64).regex(/^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/).optional()
+    .describe("Project that owns the query set"),
+  run_id: z.string().uuid().optional()
+    .describe("Run that owns the query set"),
+};
+
+const EvalSetNameSchema = z.string().min(1).max(64)
+  .regex(/^[a-z0-9][a-z0-9_-]*$/, "Set name must be lowercase alphanumeric with hyphens or underscores")
+  .describe("Query set name");
+
+/** Most queries one set can hold */
+export const EVAL_SET_MAX_QUERIES = 500;
+
+export const EvalSetSaveSchema = z.object({
+  ...EvalTargetShape,
+  name: EvalSetNameSchema,
+  description: z.string().max(1024).optional(),
+  queries: z.array(z.object({
+    id: z.string().min(1).max(128).optional()
+      .describe("Stable query ID (defaults to q1, q2, ... by position)"),
+    query: z.string().min(1).max(4096),
+    expected: z.object({
+      chunk_ids: z.array(z.string()).max(100).optional(),
+      doc_ids: z.array(z.string()).max(100).optional(),
+    }).refine(e => (e.chunk_ids?.length ?? 0) + (e.doc_ids?.length ?? 0) > 0, "Expect at least one chunk_id or doc_id"),
+    query_vector: z.array(z.number()).optional()
+      .describe("Pre-computed embedding for run semantic/hybrid search"),
+  })).min(1).max(EVAL_SET_MAX_QUERIES)
+    .describe("Golden questions with the chunks/documents they should retrieve"),
+}).strict();
+
+export const EvalRunSchema = z.object({
+  ...EvalTargetShape,
+  name: EvalSetNameSchema,
+  k: z.number().int().min(1).max(100).default(10)
+    .describe("Cutoff for precision@k, recall@k and nDCG@k"),
+  mode: z.enum(["semantic", "keyword", "hybrid"]).default("hybrid")
+    .describe("Search mode passed to project_query / serve_query"),
+}).strict();
+
+export const EvalListSchema = z.object({
+  ...EvalTargetShape,
+  name: EvalSetNameSchema.optional()
+    .describe("Only list this set"),
+  history: z.number().int().min(0).max(100).default(5)
+    .describe("Number of most recent evaluations to include per set"),
+}).strict();
+
+export type EvalSetSaveInput = z.infer<typeof EvalSetSaveSchema>;
+export type EvalRunInput = z.infer<typeof EvalRunSchema>;
+export type EvalListInput = z.infer<typeof EvalListSchema>;
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+const METRICS: Array<keyof EvalMetrics> = ["precision_at_k", "recall_at_k", "mrr", "ndcg_at_k"];
+
+/**
+ * Score a ranking against the expected chunks/documents.
+ *
+ * @param retrieved - Results in rank order
+ * @param expected - Expected chunk_ids and/or doc_ids
+ * @param k - Cutoff; results past k are ignored
+ */
+export function scoreRanking(
+  retrieved: Array<{ chunk_id: string; doc_id?: string }>,
+  expected: EvalExpected,
+  k: number
+): EvalMetrics & Pick<EvalQueryResult, "expected_found" | "expected_missing" | "first_relevant_rank"> {
+  const expectedChunks = new Set(expected.chunk_ids ?? []);
+  const expectedDocs = new Set(expected.doc_ids ?? []);
+  const totalExpected = expectedChunks.size + expectedDocs.size;
+  const found: string[] = [];
+  const credited = new Set<string>();
+
+  let dcg = 0;
+  let firstRank: number | null = null;
+  retrieved.slice(0, k).forEach((r, i) => {
+    let match: string | undefined;
+    if (expectedChunks.has(r.chunk_id) && !credited.has(`chunk:${r.chunk_id}`)) {
+      match = `chunk:${r.chunk_id}`;
+      found.push(r.chunk_id);
+    } else if (r.doc_id !== undefined && expectedDocs.has(r.doc_id) && !credited.has(`doc:${r.doc_id}`)) {
+      match = `doc:${r.doc_id}`;
+      found.push(r.doc_id);
+    }
+    if (match) {
+      credited.add(match);
+      dcg += 1 / Math.log2(i + 2);
+      firstRank ??= i + 1;
+    }
+  });
+
+  let idcg = 0;
+  for (let i = 0; i < Math.min(totalExpected, k); i++) {
+    idcg += 1 / Math.log2(i + 2);
+  }
+
+  return {
+    precision_at_k: credited.size / k,
+    recall_at_k: totalExpected > 0 ? credited.size / totalExpected : 0,
+    mrr: firstRank ? 1 / firstRank : 0,
+    ndcg_at_k: idcg > 0 ? dcg / idcg : 0,
+    first_relevant_rank: firstRank,
+    expected_found: found,
+    expected_missing: [
+      ...[...expectedChunks].filter(id => !credited.has(`chunk:${id}`)),
+      ...[...expectedDocs].filter(id => !credited.has(`doc:${id}`)),
+    ],
+  };
+}
+
+/** Mean of each metric over per-query results */
+function meanMetrics(results: EvalMetrics[]): EvalMetrics {
+  const mean = (metric: keyof EvalMetrics) =>
+    results.length > 0 ? results.reduce((sum, r) => sum + r[metric], 0) / results.length : 0;
+  return {
+    precision_at_k: mean("precision_at_k"),
+    recall_at_k: mean("recall_at_k"),
+    mrr: mean("mrr"),
+    ndcg_at_k: mean("ndcg_at_k"),
+  };
+}
+
+/**
+ * Compare against the previous evaluation. Per-query regressions are only
+ * reported when both evaluations used the same k and mode.
+ */
+function compareReports(
+  current: Pick<EvalReport, "queries" | "aggregate" | "k" | "mode">,
+  previous: EvalReport
+): Pick<EvalReport, "previous" | "delta" | "regressions"> {
+  const delta = Object.fromEntries(
+    METRICS.map(m => [m, current.aggregate[m] - previous.aggregate[m]])
+  ) as unknown as EvalMetrics;
+
+  const regressions: EvalRegression[] = [];
+  if (current.k === previous.k && current.mode === previous.mode) {
+    const before = new Map(previous.queries.map(q => [q.id, q]));
+    for (const q of current.queries) {
+      const prev = before.get(q.id);
+      if (!prev) continue;
+      for (const metric of METRICS) {
+        if (q[metric] < prev[metric] - 1e-9) {
+          regressions.push({ id: q.id, metric, before: prev[metric], after: q[metric] });
+        }
+      }
+    }
+  }
+
+  return {
+    previous: { evaluated_at: previous.evaluated_at, aggregate: previous.aggregate },
+    delta,
+    regressions,
+  };
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+interface EvalTarget {
+  target: EvalReport["target"];
+  /** Directory holding sets/ and results/ */
+  dir: string;
+}
+
+/**
+ * Resolve the project or run that owns the query sets.
+ */
+async function resolveTarget(input: { project_id?: string; run_id?: string }): Promise<EvalTarget | ToolError> {
+  if (!!input.project_id === !!input.run_id) {
+    return createToolError("INVALID_INPUT", "Provide exactly one of project_id or run_id", {
+      recoverable: true,
+    });
+  }
+
+  if (input.project_id) {
+    const paths = getProjectPaths(input.project_id);
+    if (!(await pathExists(paths.manifest))) {
+      return createToolError("NOT_FOUND", `Project '${input.project_id}' not found`, {
+        recoverable: false,
+      });
+    }
+    return { target: { project_id: input.project_id }, dir: paths.evals };
+  }
+
+  const runDir = getRunManager().getRunDir(input.run_id!);
+  if (!(await pathExists(runDir))) {
+    return createToolError("RUN_NOT_FOUND", `Run '${input.run_id}' not found`, {
+      recoverable: false,
+    });
+  }
+  return { target: { run_id: input.run_id! }, dir: path.join(runDir, "evals") };
+}
+
+function setPath(dir: string, name: string): string {
+  return path.join(dir, "sets", `${name}.json`);
+}
+
+function resultsDir(dir: string, name: string): string {
+  return path.join(dir, "results", name);
+}
+
+/** Saved report file names for a set, oldest first */
+async function listReports(dir: string, name: string): Promise<string[]> {
+  const resultDir = resultsDir(dir, name);
+  if (!(await pathExists(resultDir))) return [];
+  return (await listFiles(resultDir)).filter(f => f.endsWith(".json"));
+}
+
+// ============================================================================
+// Eval Set Save
+// ============================================================================
+
+export interface EvalSetSaveResult {
+  success: true;
+  name: string;
+  queries: number;
+  path: string;
+  created: boolean;
+}
+
+/**
+ * Create or replace a named query set.
+ */
+export async function evalSetSave(input: EvalSetSaveInput): Promise<EvalSetSaveResult | ToolError> {
+  const resolved = await resolveTarget(input);
+  if ("isError" in resolved) return resolved;
+
+  const queries: EvalQuery[] = input.queries.map((q, i) => ({
+    id: q.id ?? `q${i + 1}`,
+    query: q.query,
+    expected: q.expected,
+    ...(q.query_vector ? { query_vector: q.query_vector } : {}),
+  }));
+  const ids = queries.map(q => q.id);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate) {
+    return createToolError("INVALID_INPUT", `Duplicate query id '${duplicate}'`, {
+      recoverable: true,
+      suggestion: "Give each query a unique id so results can be compared across evaluations",
+    });
+  }
+
+  try {
+    const filePath = setPath(resolved.dir, input.name);
+    const existing = await pathExists(filePath) ? await readJson<EvalSet>(filePath) : null;
+    const set: EvalSet = {
+      name: input.name,
+      description: input.description,
+      created_at: existing?.created_at ?? now(),
+      updated_at: now(),
+      queries,
+    };
+    await ensureDir(path.dirname(filePath));
+    await writeJson(filePath, set);
+
+    return {
+      success: true,
+      name: input.name,
+      queries: queries.length,
+      path: filePath,
+      created: existing === null,
+    };
+  } catch (err) {
+    return createToolError("EVAL_FAILED", `Failed to save query set: ${err}`, {
+      recoverable: true,
+    });
+  }
+}
+
+// ============================================================================
+// Eval Run
+// ============================================================================
+
+export interface EvalRunResult extends EvalReport {
+  success: true;
+  report_path: string;
+}
+
+/**
+ * Run a query set through project_query (projects) or serve_query (runs)
+ * and save the scored report. Runs need a server started with serve_start.
+ */
+export async function evalRun(input: EvalRunInput): Promise<EvalRunResult | ToolError> {
+  const resolved = await resolveTarget(input);
+  if ("isError" in resolved) return resolved;
+
+  const filePath = setPath(resolved.dir, input.name);
+  if (!(await pathExists(filePath))) {
+    return createToolError("EVAL_NOT_FOUND", `Query set '${input.name}' not found`, {
+      recoverable: false,
+      suggestion: "Save it first with indexfoundry_eval_set_save",
+    });
+  }
+
+  try {
+    const set = await readJson<EvalSet>(filePath);
+    const retrieve = await retrieverFor(resolved.target, input);
+    const queries: EvalQueryResult[] = [];
+
+    for (const q of set.queries) {
+      const retrieved = await retrieve(q);
+      if ("isError" in retrieved) return retrieved;
+      queries.push({
+        id: q.id,
+        query: q.query,
+        ...scoreRanking(retrieved, q.expected, input.k),
+        retrieved: retrieved.map(r => r.chunk_id),
+      });
+    }
+
+    const report: EvalReport = {
+      set: set.name,
+      target: resolved.target,
+      evaluated_at: now(),
+      k: input.k,
+      mode: input.mode,
+      queries,
+      aggregate: meanMetrics(queries),
+      regressions: [],
+    };
+
+    const previousFiles = await listReports(resolved.dir, input.name);
+    if (previousFiles.length > 0) {
+      const previous = await readJson<EvalReport>(
+        path.join(resultsDir(resolved.dir, input.name), previousFiles[previousFiles.length - 1]));
+      Object.assign(report, compareReports(report, previous));
+    }
+
+    const reportPath = path.join(resultsDir(resolved.dir, input.name),
+      `${report.evaluated_at.replace(/[:.]/g, "-")}.json`);
+    await ensureDir(path.dirname(reportPath));
+    await writeJson(reportPath, report);
+
+    return { success: true, ...report, report_path: reportPath };
+  } catch (err) {
+    return createToolError("EVAL_FAILED", `Evaluation failed: ${err}`, {
+      recoverable: true,
+    });
+  }
+}
+
+type Retrieved = Array<{ chunk_id: string; doc_id?: string }>;
+
+/**
+ * Build the retrieval function for a target. Project results use the source
+ * as doc_id; run results are mapped to their chunk's doc_id.
+ */
+async function retrieverFor(
+  target: EvalReport["target"],
+  input: EvalRunInput
+): Promise<(q: EvalQuery) => Promise<Retrieved | ToolError>> {
+  if ("project_id" in target) {
+    return async q => {
+      const result = await projectQuery(ProjectQuerySchema.parse({
+        project_id: target.project_id,
+        query: q.query,
+        mode: input.mode,
+        top_k: input.k,
+      }));
+      if ("isError" in result) return result;
+      return result.results.map(r => ({ chunk_id: r.chunk_id, doc_id: r.source_id }));
+    };
+  }
+
+  const chunksPath = path.join(getRunManager().getNormalizedDir(target.run_id), "chunks.jsonl");
+  const docIds = await pathExists(chunksPath)
+    ? new Map((await readJsonl<DocumentChunk>(chunksPath)).map(c => [c.chunk_id, c.doc_id]))
+    : new Map<string, string>();
+
+  return async q => {
+    const result = await serveQuery(ServeQuerySchema.parse({
+      run_id: target.run_id,
+      query: q.query,
+      query_vector: q.query_vector,
+      mode: input.mode,
+      top_k: input.k,
+      include_text: false,
+    }));
+    if ("isError" in result) return result;
+    return result.results.map(r => ({ chunk_id: r.chunk_id, doc_id: docIds.get(r.chunk_id) }));
+  };
+}
+
+// ============================================================================
+// Eval List
+// ============================================================================
+
+export interface EvalListResult {
+  success: true;
+  sets: Array<{
+    name: string;
+    description?: string;
+    queries: number;
+    updated_at: string;
+    /** Most recent evaluations, newest first */
+    history: Array<{ evaluated_at: string; k: number; mode: string; aggregate: EvalMetrics; regressions: number; path: string }>;
+  }>;
+}
+
+/**
+ * List query sets with their recent evaluation history.
+ */
+export async function evalList(input: EvalListInput): Promise<EvalListResult | ToolError> {
+  const resolved = await resolveTarget(input);
+  if ("isError" in resolved) return resolved;
+
+  try {
+    const setsDir = path.join(resolved.dir, "sets");
+    const names = await pathExists(setsDir)
+      ? (await listFiles(setsDir)).filter(f => f.endsWith(".json")).map(f => f.slice(0, -".json".length))
+      : [];
+    if (input.name && !names.includes(input.name)) {
+      return createToolError("EVAL_NOT_FOUND", `Query set '${input.name}' not found`, {
+        recoverable: false,
+      });
+    }
+
+    const sets: EvalListResult["sets"] = [];
+    for (const name of input.name ? [input.name] : names) {
+      const set = await readJson<EvalSet>(setPath(resolved.dir, name));
+      const files = (await listReports(resolved.dir, name)).reverse().slice(0, input.history);
+      const history: EvalListResult["sets"][number]["history"] = [];
+      for (const file of files) {
+        const reportPath = path.join(resultsDir(resolved.dir, name), file);
+        const report = await readJson<EvalReport>(reportPath);
+        history.push({
+          evaluated_at: report.evaluated_at,
+          k: report.k,
+          mode: report.mode,
+          aggregate: report.aggregate,
+          regressions: report.regressions.length,
+          path: reportPath,
+        });
+      }
+      sets.push({
+        name: set.name,
+        description: set.description,
+        queries: set.queries.length,
+        updated_at: set.updated_at,
+        history,
+      });
+    }
+
+    return { success: true, sets };
+  } catch (err) {
+    return createToolError("EVAL_FAILED", `Failed to list query sets: ${err}`, {
+      recoverable: true,
+    });
+  }
+}
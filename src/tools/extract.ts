@@ -21,14 +21,17 @@ import {
   sha256,
   pathExists,
   ensureDir,
-  appendJsonl,
+  writeJsonl,
+  readJsonl,
   writeJson,
   readJson,
   normalizeText,
   createToolError,
   now,
 } from "../utils.js";
-import { getRunManager } from "../run-manager.js";
+import { getRunManager, type RunManager } from "../run-manager.js";
+import { extractPdfPages, OCR_ENGINE } from "./pdf-ocr.js";
+import { parseDocx, DOCX_EXTRACTOR_VERSION, type DocxProperties } from "./docx.js";
 
 // ============================================================================
 // Constants
@@ -56,8 +59,10 @@ export interface ExtractPdfResult {
   extraction_report: ExtractionReport;
 }
 
-export async function extractPdf(input: ExtractPdfInput): Promise<ExtractPdfResult | ToolError> {
-  const manager = getRunManager();
+export async function extractPdf(
+  input: ExtractPdfInput,
+  manager: RunManager = getRunManager()
+): Promise<ExtractPdfResult | ToolError> {
   const runDir = manager.getRunDir(input.run_id);
   
   // Ensure run exists with full infrastructure
@@ -92,6 +97,7 @@ export async function extractPdf(input: ExtractPdfInput): Promise<ExtractPdfResu
         pages_empty: 0,
         chars_extracted: 0,
       }));
+      const cachedPages = await readJsonl<PageExtraction>(pagesPath).catch(() => []);
       
       return {
         success: true,
@@ -102,60 +108,51 @@ export async function extractPdf(input: ExtractPdfInput): Promise<ExtractPdfResu
         stats: {
           pages_processed: report.pages_processed,
           pages_empty: report.pages_empty,
-          pages_ocr_fallback: 0,
+          pages_ocr_fallback: cachedPages.filter(p => p.ocr_used).length,
           chars_extracted: report.chars_extracted,
         },
         extraction_report: report,
       };
     }
     
-    // Import pdf-parse dynamically
-    const pdfParse = (await import("pdf-parse")).default;
-    
-    // Parse PDF
-    const data = await pdfParse(pdfContent, {
-      // Limit page range if specified
-      max: input.page_range?.end,
+    // Extract per-page text; empty pages (or all pages in ocr mode) are OCR'd
+    const extraction = await extractPdfPages(pdfContent, {
+      mode: input.mode,
+      language: input.ocr_language,
+      pageRange: input.page_range,
     });
     
-    // Process pages - pdf-parse gives us full text, we need to approximate pages
-    const fullText = normalizeText(data.text);
-    const pageCount = data.numpages;
-    
-    // Split text into approximate pages (heuristic: look for page markers or split evenly)
-    const pages: PageExtraction[] = [];
-    const avgCharsPerPage = Math.ceil(fullText.length / pageCount);
+    if (input.mode === "ocr" && extraction.ocr_attempted > 0 && extraction.ocr_failed === extraction.ocr_attempted) {
+      return createToolError("OCR_FAILED", `OCR produced no text for ${input.pdf_path}`, {
+        details: { warnings: extraction.warnings },
+        recoverable: true,
+        suggestion: `Check that tesseract language data for '${input.ocr_language}' is available, or retry with mode 'layout'`,
+      });
+    }
     
-    let offset = 0;
-    for (let i = 1; i <= pageCount; i++) {
-      // Skip pages before range
-      if (input.page_range && i < input.page_range.start) {
-        offset += avgCharsPerPage;
-        continue;
-      }
-      
-      // Stop after range
-      if (input.page_range && i > input.page_range.end) {
-        break;
-      }
-      
-      // Extract page text (approximate)
-      const pageText = fullText.slice(offset, offset + avgCharsPerPage);
-      offset += avgCharsPerPage;
-      
-      const page: PageExtraction = {
-        page: i,
-        text: pageText,
-        char_count: pageText.length,
-        is_empty: pageText.trim().length === 0,
-        ocr_used: false,
+    const pages: PageExtraction[] = extraction.pages.map(p => {
+      const text = normalizeText(p.text);
+      return {
+        page: p.page,
+        text,
+        char_count: text.length,
+        is_empty: text.trim().length === 0,
+        ocr_used: p.ocr_used,
+        confidence: p.confidence,
       };
-      
-      pages.push(page);
+    });
+    
+    // Pages are separated by blank-line runs so by_page chunking can split them
+    const fullText = pages.map(p => p.text).join("\n\n\n\n");
+    const ocrPages = pages.filter(p => p.ocr_used).length;
+    
+    const warnings = [...extraction.warnings];
+    if (ocrPages > 0 && input.mode !== "ocr") {
+      warnings.push(`${ocrPages} page(s) had no text layer and were OCR'd`);
     }
     
     // Write pages JSONL
-    await appendJsonl(pagesPath, pages);
+    await writeJsonl(pagesPath, pages);
     
     // Write full text
     const fullTextPath = path.join(extractedDir, `${pdfHash}.txt`);
@@ -163,9 +160,11 @@ export async function extractPdf(input: ExtractPdfInput): Promise<ExtractPdfResu
     
     // Generate report
     const report: ExtractionReport = {
-      extractor_version: `pdf-parse@${PDF_PARSE_VERSION}`,
+      extractor_version: ocrPages > 0
+        ? `pdf-parse@${PDF_PARSE_VERSION}+${OCR_ENGINE}`
+        : `pdf-parse@${PDF_PARSE_VERSION}`,
       mode_used: input.mode,
-      warnings: [],
+      warnings,
       pages_processed: pages.length,
       pages_empty: pages.filter(p => p.is_empty).length,
       chars_extracted: fullText.length,
@@ -182,7 +181,7 @@ export async function extractPdf(input: ExtractPdfInput): Promise<ExtractPdfResu
       stats: {
         pages_processed: pages.length,
         pages_empty: pages.filter(p => p.is_empty).length,
-        pages_ocr_fallback: 0,
+        pages_ocr_fallback: ocrPages,
         chars_extracted: fullText.length,
       },
       extraction_report: report,
@@ -213,8 +212,10 @@ export interface ExtractHtmlResult {
   extraction_report: ExtractionReport;
 }
 
-export async function extractHtml(input: ExtractHtmlInput): Promise<ExtractHtmlResult | ToolError> {
-  const manager = getRunManager();
+export async function extractHtml(
+  input: ExtractHtmlInput,
+  manager: RunManager = getRunManager()
+): Promise<ExtractHtmlResult | ToolError> {
   const runDir = manager.getRunDir(input.run_id);
   
   // Ensure run exists with full infrastructure
@@ -393,12 +394,17 @@ export interface ExtractDocumentResult {
     chars_extracted: number;
     format_detected: string;
     rows_processed?: number;
+    tables_found?: number;
+    comments_found?: number;
+    footnotes_found?: number;
   };
   extraction_report: ExtractionReport;
 }
 
-export async function extractDocument(input: ExtractDocumentInput): Promise<ExtractDocumentResult | ToolError> {
-  const manager = getRunManager();
+export async function extractDocument(
+  input: ExtractDocumentInput,
+  manager: RunManager = getRunManager()
+): Promise<ExtractDocumentResult | ToolError> {
   const runDir = manager.getRunDir(input.run_id);
   
   // Ensure run exists with full infrastructure
@@ -462,6 +468,9 @@ export async function extractDocument(input: ExtractDocumentInput): Promise<Extr
     
     let text = "";
     let rowsProcessed: number | undefined;
+    let docxStats: { tables: number; comments: number; footnotes: number } | undefined;
+    let documentProperties: DocxProperties | undefined;
+    let extractorVersion = "1.0.0";
     const warnings: string[] = [];
     
     switch (format) {
@@ -511,13 +520,30 @@ export async function extractDocument(input: ExtractDocumentInput): Promise<Extr
         }
         break;
         
-      case "docx":
-        // DOCX extraction requires additional library
-        // For now, return an error suggesting to use a different extractor
-        return createToolError("PARSE_ERROR", "DOCX extraction not yet implemented", {
-          recoverable: false,
-          suggestion: "Convert DOCX to PDF or use external tool",
-        });
+      case "docx": {
+        let docx;
+        try {
+          docx = parseDocx(content, {
+            maxEntryBytes: manager.getConfig().defaults.connect.max_file_size_mb * 1024 * 1024,
+          });
+        } catch (err) {
+          return createToolError("PARSE_ERROR", `Failed to parse DOCX: ${err instanceof Error ? err.message : err}`, {
+            recoverable: false,
+            suggestion: "Ensure the file is a valid .docx (Office Open XML) document; legacy .doc is not supported",
+          });
+        }
+        
+        text = normalizeText(docx.text);
+        warnings.push(...docx.warnings);
+        extractorVersion = DOCX_EXTRACTOR_VERSION;
+        documentProperties = docx.properties;
+        docxStats = {
+          tables: docx.tables,
+          comments: docx.comments.length,
+          footnotes: docx.footnotes.length,
+        };
+        break;
+      }
         
       default:
         text = normalizeText(content.toString("utf-8"));
@@ -528,12 +554,13 @@ export async function extractDocument(input: ExtractDocumentInput): Promise<Extr
     
     // Generate report
     const report: ExtractionReport = {
-      extractor_version: "1.0.0",
+      extractor_version: extractorVersion,
       mode_used: format,
       warnings,
       pages_processed: 1,
       pages_empty: text.trim().length === 0 ? 1 : 0,
       chars_extracted: text.length,
+      document_properties: documentProperties,
     };
     
     await writeJson(path.join(extractedDir, `${hash}.report.json`), report);
@@ -547,6 +574,9 @@ export async function extractDocument(input: ExtractDocumentInput): Promise<Extr
         chars_extracted: text.length,
         format_detected: format,
         rows_processed: rowsProcessed,
+        tables_found: docxStats?.tables,
+        comments_found: docxStats?.comments,
+        footnotes_found: docxStats?.footnotes,
       },
       extraction_report: report,
     };
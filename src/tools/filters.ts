@@ -0,0 +1,301 @@
+/**
+ * IndexFoundry-MCP: Metadata Filter Expressions
+ *
+ * A small filter language shared by serve_query, the run server's search
+ * routes and project_query. Expressions are JSON objects:
+ *
+ *   { "source.type": "pdf" }                          equality shorthand
+ *   { "metadata.tags": ["a", "b"] }                   in shorthand
+ *   { "position.page": { "gte": 3, "lt": 10 } }       operators (ANDed)
+ *   { "and": [...] }, { "or": [...] }, { "not": {...} }
+ *
+ * Several keys in one object are ANDed. Fields are dotted paths resolved by
+ * the caller, so each search surface decides what a record looks like.
+ * Expressions are compiled once, checked against a retrieval profile's
+ * allowed_filters, and then evaluated per record.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+import type { ToolError } from "../types.js";
+import { createToolError } from "../utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const FILTER_OPERATORS = ["eq", "neq", "gt", "gte", "lt", "lte", "in", "contains"] as const;
+
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+export type FilterNode =
+  | { type: "and"; children: FilterNode[] }
+  | { type: "or"; children: FilterNode[] }
+  | { type: "not"; child: FilterNode }
+  | { type: "condition"; field: string; op: FilterOperator; value: unknown };
+
+/** One entry of a retrieval profile's allowed_filters */
+export interface AllowedFilter {
+  field: string;
+  operators: string[];
+}
+
+/** Looks up a dotted field path on the record being filtered */
+export type FieldResolver = (field: string) => unknown;
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+/**
+ * Parse a filter expression and check it against allowed_filters.
+ *
+ * @param expression - Raw expression from tool input or a request body
+ * @param allowed - Profile allowlist; undefined allows every field and operator
+ * @returns Compiled filter, null for an empty expression, or a ToolError
+ *
+ * @example
+ * ```typescript
+ * const filter = compileFilter({ "position.page": { gte: 3 } }, profile.filters);
+ * if (filter && "isError" in filter) return filter;
+ * ```
+ */
+export function compileFilter(
+  expression: unknown,
+  allowed?: AllowedFilter[]
+): FilterNode | null | ToolError {
+  if (expression === undefined || expression === null) return null;
+
+  let node: FilterNode | null;
+  try {
+    node = parseExpression(expression, "filters");
+  } catch (err) {
+    return createToolError("FILTER_INVALID", err instanceof Error ? err.message : String(err), {
+      recoverable: true,
+      suggestion: `Use { field: value }, { field: { op: value } } with op in ${FILTER_OPERATORS.join(", ")}, or and/or/not`,
+    });
+  }
+
+  if (node && allowed) {
+    const violation = findDisallowed(node, allowed);
+    if (violation) return violation;
+  }
+  return node;
+}
+
+function parseExpression(expression: unknown, at: string): FilterNode | null {
+  if (!isPlainObject(expression)) {
+    throw new Error(`${at} must be an object`);
+  }
+
+  const children: FilterNode[] = [];
+  for (const [key, value] of Object.entries(expression)) {
+    if (key === "and" || key === "or") {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new Error(`${at}.${key} must be a non-empty array of expressions`);
+      }
+      const parts = value
+        .map((part, i) => parseExpression(part, `${at}.${key}[${i}]`))
+        .filter((part): part is FilterNode => part !== null);
+      if (parts.length > 0) {
+        children.push({ type: key, children: parts });
+      }
+    } else if (key === "not") {
+      const child = parseExpression(value, `${at}.not`);
+      if (!child) {
+        throw new Error(`${at}.not must not be empty`);
+      }
+      children.push({ type: "not", child });
+    } else {
+      children.push(...parseField(key, value, `${at}.${key}`));
+    }
+  }
+
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type: "and", children };
+}
+
+function parseField(field: string, value: unknown, at: string): FilterNode[] {
+  if (!/^[A-Za-z0-9_$-]+(\.[A-Za-z0-9_$-]+)*$/.test(field)) {
+    throw new Error(`Invalid field path '${field}'`);
+  }
+
+  if (Array.isArray(value)) {
+    return [condition(field, "in", value, at)];
+  }
+  if (!isPlainObject(value)) {
+    return [condition(field, "eq", value, at)];
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) {
+    throw new Error(`${at} has no operators`);
+  }
+  return entries.map(([op, operand]) => {
+    if (!(FILTER_OPERATORS as readonly string[]).includes(op)) {
+      throw new Error(`Unknown operator '${op}' at ${at}; expected one of ${FILTER_OPERATORS.join(", ")}`);
+    }
+    return condition(field, op as FilterOperator, operand, `${at}.${op}`);
+  });
+}
+
+function condition(field: string, op: FilterOperator, value: unknown, at: string): FilterNode {
+  if (op === "in") {
+    if (!Array.isArray(value) || !value.every(isScalar)) {
+      throw new Error(`${at} must be an array of strings, numbers or booleans`);
+    }
+  } else if (op === "gt" || op === "gte" || op === "lt" || op === "lte") {
+    if (typeof value !== "number" && typeof value !== "string") {
+      throw new Error(`${at} must be a number or string`);
+    }
+  } else if (!isScalar(value) && value !== null) {
+    throw new Error(`${at} must be a string, number, boolean or null`);
+  }
+  return { type: "condition", field, op, value };
+}
+
+/**
+ * First condition whose field or operator the allowlist does not permit.
+ */
+function findDisallowed(node: FilterNode, allowed: AllowedFilter[]): ToolError | null {
+  switch (node.type) {
+    case "and":
+    case "or":
+      for (const child of node.children) {
+        const violation = findDisallowed(child, allowed);
+        if (violation) return violation;
+      }
+      return null;
+    case "not":
+      return findDisallowed(node.child, allowed);
+    case "condition": {
+      const rule = allowed.find(a => a.field === node.field);
+      if (!rule) {
+        return createToolError("FILTER_NOT_ALLOWED",
+          `Filtering on '${node.field}' is not allowed by the retrieval profile`, {
+          recoverable: true,
+          suggestion: allowed.length > 0
+            ? `Filterable fields: ${allowed.map(a => a.field).join(", ")}`
+            : "The retrieval profile allows no filters",
+          details: { field: node.field, allowed_fields: allowed.map(a => a.field) },
+        });
+      }
+      if (!rule.operators.includes(node.op)) {
+        return createToolError("FILTER_NOT_ALLOWED",
+          `Operator '${node.op}' is not allowed on '${node.field}'`, {
+          recoverable: true,
+          suggestion: `Allowed operators for ${node.field}: ${rule.operators.join(", ")}`,
+          details: { field: node.field, operator: node.op, allowed_operators: rule.operators },
+        });
+      }
+      return null;
+    }
+  }
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Evaluate a compiled filter against one record.
+ *
+ * Comparisons (gt/gte/lt/lte) only match values of the same type, so ISO
+ * dates compare as strings. `in` and `contains` treat array fields as
+ * sets; `contains` on a string field is a substring match.
+ */
+export function matchesFilter(node: FilterNode, resolve: FieldResolver): boolean {
+  switch (node.type) {
+    case "and":
+      return node.children.every(child => matchesFilter(child, resolve));
+    case "or":
+      return node.children.some(child => matchesFilter(child, resolve));
+    case "not":
+      return !matchesFilter(node.child, resolve);
+    case "condition":
+      return matchesCondition(node.op, resolve(node.field), node.value);
+  }
+}
+
+function matchesCondition(op: FilterOperator, actual: unknown, expected: unknown): boolean {
+  switch (op) {
+    case "eq":
+      return valuesEqual(actual, expected);
+    case "neq":
+      return !valuesEqual(actual, expected);
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      if (typeof actual !== typeof expected || (typeof actual !== "number" && typeof actual !== "string")) {
+        return false;
+      }
+      const a = actual as number | string;
+      const e = expected as number | string;
+      if (op === "gt") return a > e;
+      if (op === "gte") return a >= e;
+      if (op === "lt") return a < e;
+      return a <= e;
+    }
+    case "in": {
+      const options = expected as unknown[];
+      return Array.isArray(actual)
+        ? actual.some(item => options.includes(item))
+        : options.includes(actual);
+    }
+    case "contains":
+      if (Array.isArray(actual)) return actual.includes(expected);
+      if (typeof actual === "string") return actual.includes(String(expected));
+      return false;
+  }
+}
+
+function valuesEqual(actual: unknown, expected: unknown): boolean {
+  if (expected === null) return actual === null || actual === undefined;
+  return actual === expected;
+}
+
+/**
+ * Resolve a dotted path through nested objects.
+ */
+export function getFieldPath(record: unknown, field: string): unknown {
+  let current: unknown = record;
+  for (const part of field.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+// ============================================================================
+// Pushdown
+// ============================================================================
+
+/**
+ * Flatten a filter that only ANDs eq/in conditions on top-level fields into
+ * the `{ field: value | values[] }` map that vector databases accept
+ * natively. Returns null for anything richer.
+ */
+export function toEqualityMap(node: FilterNode): Record<string, unknown> | null {
+  const conditions = node.type === "and" ? node.children : [node];
+  const map: Record<string, unknown> = {};
+  for (const c of conditions) {
+    if (c.type !== "condition" || (c.op !== "eq" && c.op !== "in") || c.value === null) return null;
+    if (c.field.includes(".") || c.field in map) return null;
+    map[c.field] = c.value;
+  }
+  return map;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isScalar(value: unknown): value is string | number | boolean {
+  return typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+}
@@ -0,0 +1,168 @@
+/**
+ * IndexFoundry-MCP: Hybrid Score Fusion
+ *
+ * Combines semantic and keyword rankings for project search. The same
+ * functions (copied verbatim into exported servers) drive project_query,
+ * the chat search helpers and the generated server, so a project ranks the
+ * same everywhere for the same retrieval settings.
+ *
+ * Fusion methods:
+ * - rrf: alpha / (k + semantic rank) + (1 - alpha) / (k + keyword rank)
+ * - weighted_sum: alpha * cosine + (1 - alpha) * keyword score (best = 1)
+ * - convex: like weighted_sum after min-max scaling both score lists to [0, 1]
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FusionMethod = "rrf" | "weighted_sum" | "convex";
+
+/** Project-level hybrid retrieval settings (ProjectManifest.retrieval) */
+export interface RetrievalSettings {
+  /** Semantic weight: 1 = pure semantic, 0 = pure keyword */
+  alpha: number;
+  fusion_method: FusionMethod;
+  /** RRF rank constant; larger values flatten the rank curve */
+  rrf_k: number;
+  /** Share of the best fused score added per anchor term a chunk contains */
+  anchor_boost: number;
+}
+
+export interface ScoredChunk {
+  chunk_id: string;
+  score: number;
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  alpha: 0.7,
+  fusion_method: "rrf",
+  rrf_k: 60,
+  anchor_boost: 0.5,
+};
+
+/**
+ * Fill in defaults for manifests written before retrieval settings existed.
+ */
+export function resolveRetrievalSettings(settings?: Partial<RetrievalSettings>): RetrievalSettings {
+  return { ...DEFAULT_RETRIEVAL_SETTINGS, ...settings };
+}
+
+// ============================================================================
+// Fusion
+// ============================================================================
+
+/**
+ * Fuse semantic and keyword scores into one ranking.
+ *
+ * Either list may be partial; chunks missing from a list contribute nothing
+ * for it. Ties are broken by chunk_id so every caller ranks identically
+ * regardless of input order.
+ *
+ * @param semantic - Cosine similarities
+ * @param keyword - Keyword scores scaled so the best match is 1
+ */
+export function fuseHybrid(
+  semantic: ScoredChunk[],
+  keyword: ScoredChunk[],
+  settings: RetrievalSettings
+): ScoredChunk[] {
+  const { alpha, fusion_method, rrf_k } = settings;
+  const byScore = (a: ScoredChunk, b: ScoredChunk) =>
+    b.score - a.score || (a.chunk_id < b.chunk_id ? -1 : a.chunk_id > b.chunk_id ? 1 : 0);
+  const scaled = (list: ScoredChunk[]): Map<string, number> => {
+    if (fusion_method === "rrf") {
+      return new Map([...list].sort(byScore).map((r, i) => [r.chunk_id, 1 / (rrf_k + i + 1)]));
+    }
+    if (fusion_method === "weighted_sum" || list.length === 0) {
+      return new Map(list.map(r => [r.chunk_id, r.score]));
+    }
+    // A loop, not Math.min(...scores): lists can exceed the argument limit
+    let min = Infinity;
+    let max = -Infinity;
+    for (const r of list) {
+      min = Math.min(min, r.score);
+      max = Math.max(max, r.score);
+    }
+    const range = max - min;
+    return new Map(list.map(r => [r.chunk_id, range > 0 ? (r.score - min) / range : 1]));
+  };
+
+  const semanticScores = scaled(semantic);
+  const keywordScores = scaled(keyword);
+  const ids = new Set([...semanticScores.keys(), ...keywordScores.keys()]);
+
+  return Array.from(ids)
+    .map(chunk_id => ({
+      chunk_id,
+      score: alpha * (semanticScores.get(chunk_id) ?? 0) + (1 - alpha) * (keywordScores.get(chunk_id) ?? 0),
+    }))
+    .sort(byScore);
+}
+
+// ============================================================================
+// Anchor Terms
+// ============================================================================
+
+/**
+ * Identifier-like terms in a query (room numbers such as D40, codes such as
+ * SRD52, long numbers, quoted phrases) that should be matched literally.
+ */
+export function detectAnchorTerms(query: string): string[] {
+  const patterns = [
+    /\b([A-Z]\d{1,3})\b/g,           // Room numbers: A1, D40, B108
+    /\b([A-Z]{2,3}\d{1,4})\b/g,      // Codes: SRD52, CR10
+    /\b(\d{3,})\b/g,                  // Long numbers: 300, 5000
+    /"([^"]+)"/g,                     // Quoted terms: "myrmarch"
+  ];
+
+  const anchors: string[] = [];
+  for (const pattern of patterns) {
+    let match;
+    while ((match = pattern.exec(query)) !== null) {
+      anchors.push(match[1] || match[0]);
+    }
+  }
+  return [...new Set(anchors)];
+}
+
+/**
+ * Boost results that contain anchor terms. An anchor used as a label
+ * ("D40." or "D40:") counts fully, a plain mention counts half; each match
+ * adds `boost` times the best score so the boost means the same for every
+ * fusion method.
+ */
+export function applyAnchorBoost<T extends { score: number }>(
+  results: T[],
+  anchors: string[],
+  boost: number,
+  textOf: (result: T) => string
+): T[] {
+  if (anchors.length === 0 || boost <= 0 || results.length === 0) return results;
+
+  const unit = Math.abs(results.reduce((best, r) => Math.max(best, r.score), -Infinity)) || 1;
+  const labels = anchors.map(anchor =>
+    new RegExp(`\\b${anchor.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*[.:)]`, "i"));
+
+  return results
+    .map((result, i) => {
+      const text = textOf(result);
+      const lower = text.toLowerCase();
+      let matches = 0;
+      anchors.forEach((anchor, a) => {
+        if (lower.includes(anchor.toLowerCase())) {
+          matches += labels[a].test(text) ? 1 : 0.5;
+        }
+      });
+      return { result: { ...result, score: result.score + unit * boost * matches }, i };
+    })
+    .sort((a, b) => b.result.score - a.result.score || a.i - b.i)
+    .map(entry => entry.result);
+}
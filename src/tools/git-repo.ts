@@ -0,0 +1,117 @@
+/**
+ * IndexFoundry-MCP: Git Repository Access
+ *
+ * Reads files straight from git objects at a resolved commit, so any branch,
+ * tag or commit can be ingested without a checkout. Used by connect_repo and
+ * by project repo sources.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { fileURLToPath } from "url";
+import * as path from "path";
+import { Minimatch } from "minimatch";
+
+const execFileAsync = promisify(execFile);
+
+/** Output limit for git commands that list trees */
+const GIT_LIST_MAX_BUFFER = 64 * 1024 * 1024;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RepoFile {
+  /** Repo-relative path with forward slashes */
+  path: string;
+  /** Git blob object ID */
+  blob_sha: string;
+  size_bytes: number;
+}
+
+// ============================================================================
+// Repository Resolution
+// ============================================================================
+
+/**
+ * Resolve a local path or file:// URL to an absolute repository path.
+ * Remote URLs are rejected: repositories must be cloned locally first.
+ */
+export function resolveRepoPath(repo: string): string {
+  if (repo.startsWith("file://")) {
+    return fileURLToPath(repo);
+  }
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(repo) || /^[^/\\]+@[^:]+:/.test(repo)) {
+    throw new Error(`Only local paths and file:// URLs are supported, got ${repo}`);
+  }
+  return path.resolve(repo);
+}
+
+async function git(repoPath: string, args: string[], maxBuffer = GIT_LIST_MAX_BUFFER): Promise<string> {
+  const { stdout } = await execFileAsync("git", ["-C", repoPath, ...args], { maxBuffer, encoding: "utf-8" });
+  return stdout;
+}
+
+/**
+ * Resolve a branch, tag or commit to its full commit SHA.
+ */
+export async function resolveCommit(repoPath: string, ref: string): Promise<string> {
+  try {
+    return (await git(repoPath, ["rev-parse", "--verify", "--quiet", "--end-of-options", `${ref}^{commit}`])).trim();
+  } catch {
+    throw new Error(`Cannot resolve ref '${ref}' in ${repoPath}`);
+  }
+}
+
+/**
+ * List regular files (blobs) in a commit's tree. Symlinks and submodules
+ * are skipped.
+ */
+export async function listRepoFiles(repoPath: string, commit: string): Promise<RepoFile[]> {
+  const output = await git(repoPath, ["ls-tree", "-r", "-l", "-z", "--full-tree", commit]);
+  const files: RepoFile[] = [];
+  for (const entry of output.split("\0")) {
+    // <mode> SP <type> SP <object> SP+ <size> TAB <path>
+    const match = entry.match(/^(\d+) (\w+) ([0-9a-f]+) +(\d+|-)\t(.+)$/s);
+    if (!match || match[2] !== "blob" || match[1] === "120000") continue;
+    files.push({ path: match[5], blob_sha: match[3], size_bytes: Number(match[4]) });
+  }
+  return files.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+}
+
+/**
+ * Read a blob's raw bytes.
+ */
+export async function readRepoBlob(repoPath: string, blobSha: string, maxBytes: number): Promise<Buffer> {
+  const { stdout } = await execFileAsync("git", ["-C", repoPath, "cat-file", "blob", blobSha], {
+    maxBuffer: maxBytes + 1,
+    encoding: "buffer",
+  });
+  return stdout;
+}
+
+// ============================================================================
+// Path Selection
+// ============================================================================
+
+/**
+ * Files matching the glob and include patterns and no exclude pattern.
+ * The glob is matched with minimatch, as the glob package does for folder
+ * sources; include/exclude patterns are regexes over the repo-relative path.
+ */
+export function selectRepoFiles(
+  files: RepoFile[],
+  options: { glob?: string; include_patterns?: string[]; exclude_patterns?: string[] }
+): RepoFile[] {
+  const glob = new Minimatch(options.glob || "**/*");
+  const include = (options.include_patterns ?? []).map(p => new RegExp(p));
+  const exclude = (options.exclude_patterns ?? []).map(p => new RegExp(p));
+  return files.filter(f =>
+    glob.match(f.path) &&
+    (include.length === 0 || include.some(r => r.test(f.path))) &&
+    !exclude.some(r => r.test(f.path))
+  );
+}
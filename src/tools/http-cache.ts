@@ -0,0 +1,178 @@
+/**
+ * IndexFoundry-MCP: HTTP Revalidation Cache
+ *
+ * Persistent per-URL record of the validators (ETag, Last-Modified), content
+ * hash and sitemap <lastmod> of the last fetch, so re-fetches can be sent as
+ * conditional requests and unchanged documents skipped. Used by connect_url,
+ * connect_sitemap (one cache per runs base directory) and project builds
+ * (one cache per project).
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { pathExists } from "../utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HttpCacheEntry {
+  url: string;
+  etag?: string;
+  last_modified?: string;
+  /** SHA256 of the last body */
+  sha256: string;
+  content_type: string;
+  size_bytes: number;
+  /** Sitemap <lastmod> the page was last fetched at */
+  lastmod?: string;
+  /** Local copy of the last body, when the caller keeps one */
+  body_path?: string;
+  /** Project sources: the source the page was indexed for */
+  source_id?: string;
+  fetched_at: string;
+}
+
+interface HttpCacheFile {
+  version: 1;
+  entries: Record<string, HttpCacheEntry>;
+}
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+/**
+ * If-None-Match / If-Modified-Since headers revalidating a cached entry
+ * (none without an entry or validators).
+ */
+export function conditionalHeaders(entry: HttpCacheEntry | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry?.etag) headers["If-None-Match"] = entry.etag;
+  if (entry?.last_modified) headers["If-Modified-Since"] = entry.last_modified;
+  return headers;
+}
+
+/**
+ * Validators a response carries. A 304 may omit them, so the cached ones
+ * are kept for any the response doesn't send.
+ */
+export function responseValidators(
+  response: Response,
+  previous?: HttpCacheEntry
+): Pick<HttpCacheEntry, "etag" | "last_modified"> {
+  return {
+    etag: response.headers.get("etag") ?? previous?.etag,
+    last_modified: response.headers.get("last-modified") ?? previous?.last_modified,
+  };
+}
+
+/**
+ * Whether a sitemap <lastmod> shows the page unchanged since it was cached.
+ * Unparseable or missing dates never count as unchanged.
+ */
+export function isUnchangedSince(entry: HttpCacheEntry | undefined, lastmod: string | undefined): boolean {
+  if (!entry?.lastmod || !lastmod) return false;
+  const current = Date.parse(lastmod);
+  const cached = Date.parse(entry.lastmod);
+  return !Number.isNaN(current) && !Number.isNaN(cached) && current <= cached;
+}
+
+// ============================================================================
+// Cache Store
+// ============================================================================
+
+/** Entries kept per cache file; the least recently fetched go first */
+export const MAX_HTTP_CACHE_ENTRIES = 50_000;
+
+/**
+ * Cache entries in one JSON file, loaded on first use. set() only updates
+ * memory; flush() writes the file once per batch, chained so concurrent
+ * callers sharing an instance never interleave on disk.
+ *
+ * @example
+ * ```typescript
+ * const cache = openHttpCache(path.join(baseDir, "http_cache.json"));
+ * const entry = await cache.get(url);
+ * const response = await fetch(url, { headers: conditionalHeaders(entry) });
+ * await cache.set({ url, ... });
+ * await cache.flush();
+ * ```
+ */
+export class HttpCache {
+  private entries: Promise<Map<string, HttpCacheEntry>> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+  private dirty = false;
+
+  constructor(readonly filePath: string, private readonly maxEntries = MAX_HTTP_CACHE_ENTRIES) {}
+
+  async get(url: string): Promise<HttpCacheEntry | undefined> {
+    return (await this.load()).get(url);
+  }
+
+  /** Record entries in memory; flush() persists them */
+  async set(...entries: HttpCacheEntry[]): Promise<void> {
+    const map = await this.load();
+    for (const entry of entries) {
+      map.set(entry.url, entry);
+    }
+    this.dirty ||= entries.length > 0;
+  }
+
+  /**
+   * Write the cache if anything changed since the last flush. Entries whose
+   * local body is gone are dropped, and the oldest beyond maxEntries evicted.
+   */
+  async flush(): Promise<void> {
+    if (!this.dirty) return this.writes;
+    this.dirty = false;
+    const map = await this.load();
+    const write = this.writes.then(async () => {
+      for (const [url, entry] of map) {
+        if (entry.body_path && !(await pathExists(entry.body_path))) map.delete(url);
+      }
+      if (map.size > this.maxEntries) {
+        const oldest = [...map.values()]
+          .sort((a, b) => a.fetched_at.localeCompare(b.fetched_at))
+          .slice(0, map.size - this.maxEntries);
+        for (const entry of oldest) map.delete(entry.url);
+      }
+      const file: HttpCacheFile = { version: 1, entries: Object.fromEntries(map) };
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(file), "utf-8");
+    });
+    this.writes = write.catch(() => {
+      this.dirty = true;
+    });
+    return write;
+  }
+
+  private load(): Promise<Map<string, HttpCacheEntry>> {
+    this.entries ??= (async () => {
+      if (!(await pathExists(this.filePath))) return new Map();
+      try {
+        const file = JSON.parse(await fs.readFile(this.filePath, "utf-8")) as HttpCacheFile;
+        return new Map(Object.entries(file.entries ?? {}));
+      } catch {
+        // A corrupt cache only costs full re-fetches
+        return new Map();
+      }
+    })();
+    return this.entries;
+  }
+}
+
+const openCaches = new Map<string, HttpCache>();
+
+/** The shared cache instance for a file */
+export function openHttpCache(filePath: string): HttpCache {
+  let cache = openCaches.get(filePath);
+  if (!cache) {
+    cache = new HttpCache(filePath);
+    openCaches.set(filePath, cache);
+  }
+  return cache;
+}
@@ -32,6 +32,25 @@ import {
   timed,
 } from "../utils.js";
 import { getRunManager } from "../run-manager.js";
+import { requestEmbeddings } from "./embedding-endpoints.js";
+import {
+  QdrantClient,
+  qdrantFilter,
+  qdrantPointId,
+  QDRANT_CHUNK_ID_KEY,
+  QDRANT_NAMESPACE_KEY,
+  QDRANT_TEXT_KEY,
+  type QdrantPoint,
+} from "./qdrant.js";
+import {
+  ChromaClient,
+  chromaRecordId,
+  chromaWhere,
+  toChromaMetadata,
+  CHROMA_CHUNK_ID_KEY,
+  CHROMA_NAMESPACE_KEY,
+  type ChromaMetadataValue,
+} from "./chroma.js";
 
 // ============================================================================
 // Index Embed
@@ -80,9 +99,9 @@ export async function indexEmbed(input: IndexEmbedInput): Promise<IndexEmbedResu
       });
     }
     
-    // Get API key
+    // Get API key (local and Ollama embeddings need none)
     const apiKey = process.env[input.model.api_key_env];
-    if (!apiKey && input.model.provider !== "local") {
+    if (!apiKey && input.model.provider !== "local" && input.model.provider !== "ollama") {
       return createToolError("EMBED_ERROR", 
         `API key not found in environment variable: ${input.model.api_key_env}`, {
         recoverable: false,
@@ -145,10 +164,19 @@ export async function indexEmbed(input: IndexEmbedInput): Promise<IndexEmbedResu
               texts, 
               input.model.model_name, 
               apiKey!,
-              input.model.dimensions
+              input.model.dimensions,
+              input.model.base_url
             );
             break;
             
+          case "ollama":
+            embeddings = (await requestEmbeddings({
+              provider: "ollama",
+              model_name: input.model.model_name,
+              base_url: input.model.base_url,
+            }, texts)).embeddings;
+            break;
+            
           case "local":
             // Generate deterministic placeholder embeddings for testing
             embeddings = texts.map((text, idx) => {
@@ -231,12 +259,15 @@ export interface IndexUpsertResult {
     vectors_sent: number;
     vectors_inserted: number;
     vectors_updated: number;
+    vectors_skipped: number;
     vectors_failed: number;
     duration_ms: number;
   };
   vector_manifest: VectorManifest;
 }
 
+type UpsertStats = IndexUpsertResult["stats"];
+
 export async function indexUpsert(input: IndexUpsertInput): Promise<IndexUpsertResult | ToolError> {
   const manager = getRunManager();
   const runDir = manager.getRunDir(input.run_id);
@@ -271,15 +302,16 @@ export async function indexUpsert(input: IndexUpsertInput): Promise<IndexUpsertR
       chunkMap.set(chunk.chunk_id, chunk);
     }
     
-    const stats = {
+    const stats: UpsertStats = {
       vectors_sent: 0,
       vectors_inserted: 0,
       vectors_updated: 0,
+      vectors_skipped: 0,
       vectors_failed: 0,
       duration_ms: 0,
     };
     
-    const { duration_ms } = await timed(async () => {
+    const { result: providerError, duration_ms } = await timed(async (): Promise<ToolError | undefined> => {
       // Process based on provider
       switch (input.provider) {
         case "local":
@@ -295,19 +327,10 @@ export async function indexUpsert(input: IndexUpsertInput): Promise<IndexUpsertR
             const chunk = chunkMap.get(embedding.chunk_id);
             if (!chunk) continue;
             
-            // Extract metadata fields
-            const metadata: Record<string, unknown> = {};
-            for (const field of input.metadata_fields) {
-              const value = getNestedField(chunk, field);
-              if (value !== undefined) {
-                metadata[field.replace(/\./g, "_")] = value;
-              }
-            }
-            
             localDb.push({
               id: embedding.chunk_id,
               vector: embedding.vector,
-              metadata,
+              metadata: buildVectorMetadata(chunk, input.metadata_fields),
               text: input.store_text ? chunk.content.text : undefined,
             });
             
@@ -325,17 +348,21 @@ export async function indexUpsert(input: IndexUpsertInput): Promise<IndexUpsertR
               created_at: now(),
             }
           );
-          break;
+          return undefined;
+          
+        case "qdrant":
+          return upsertQdrant(input, embeddings, chunkMap, stats);
           
         case "chroma":
+          return upsertChroma(input, embeddings, chunkMap, stats);
+          
         case "pinecone":
         case "weaviate":
-        case "qdrant":
         case "milvus":
           // External DB upsert would go here
           // For now, return error indicating not implemented
           return createToolError("DB_ERROR", 
-            `Vector DB provider ${input.provider} not yet implemented. Use 'local' for testing.`, {
+            `Vector DB provider ${input.provider} not yet implemented. Use 'local', 'qdrant' or 'chroma'.`, {
             recoverable: false,
             suggestion: "Use provider: 'local' for file-based storage",
           });
@@ -348,16 +375,27 @@ export async function indexUpsert(input: IndexUpsertInput): Promise<IndexUpsertR
       }
     });
     
+    if (providerError) {
+      return providerError;
+    }
+    
     stats.duration_ms = duration_ms;
     
     // Create manifest
     const manifest: VectorManifest = {
       collection: input.connection.collection,
       namespace: input.connection.namespace,
+      provider: input.provider,
+      distance: input.distance,
+      connection: input.provider === "local" ? undefined : {
+        host: input.connection.host,
+        port: input.connection.port,
+        api_key_env: input.connection.api_key_env,
+      },
       model_used: embeddings[0]?.model || "unknown",
       dimensions: embeddings[0]?.dimensions || 0,
       metadata_schema: input.metadata_fields,
-      vectors_count: stats.vectors_inserted,
+      vectors_count: stats.vectors_inserted + stats.vectors_updated,
       created_at: now(),
     };
     
@@ -365,7 +403,7 @@ export async function indexUpsert(input: IndexUpsertInput): Promise<IndexUpsertR
     await writeJson(path.join(indexedDir, "upsert_stats.json"), stats);
     
     return {
-      success: true,
+      success: stats.vectors_failed === 0,
       stats,
       vector_manifest: manifest,
     };
@@ -376,6 +414,221 @@ export async function indexUpsert(input: IndexUpsertInput): Promise<IndexUpsertR
   }
 }
 
+/** A vector store's side of the shared batch loop in upsertBatches */
+interface VectorStoreWriter<R extends { id: string }> {
+  /** Store name for error messages */
+  name: string;
+  baseUrl: string;
+  /** IDs among these the collection already holds */
+  existingIds(ids: string[]): Promise<Set<string>>;
+  write(records: R[]): Promise<void>;
+}
+
+function missingApiKeyError(input: IndexUpsertInput): ToolError | undefined {
+  const envVar = input.connection.api_key_env;
+  if (!envVar || process.env[envVar]) return undefined;
+  return createToolError("DB_ERROR", `API key not found in environment variable: ${envVar}`, {
+    recoverable: false,
+    suggestion: `Set ${envVar} environment variable`,
+  });
+}
+
+function dimensionMismatchError(store: string, collection: string, existing: number, dimensions: number): ToolError {
+  return createToolError("DB_ERROR",
+    `${store} collection ${collection} has dimension ${existing}, but embeddings have ${dimensions}`, {
+    recoverable: false,
+    suggestion: "Use upsert_mode: 'replace' without a namespace to recreate the collection, or choose another collection name",
+  });
+}
+
+/**
+ * Write records in batches of input.batch_size, counting inserts, updates,
+ * skips (insert mode) and failed batches in stats. Errors only when every
+ * batch failed.
+ */
+async function upsertBatches<R extends { id: string }>(
+  input: IndexUpsertInput,
+  records: R[],
+  stats: UpsertStats,
+  store: VectorStoreWriter<R>
+): Promise<ToolError | undefined> {
+  const failures: string[] = [];
+  for (let i = 0; i < records.length; i += input.batch_size) {
+    const batch = records.slice(i, i + input.batch_size);
+    stats.vectors_sent += batch.length;
+    
+    try {
+      const present = await store.existingIds(batch.map(r => r.id));
+      const toWrite = input.upsert_mode === "insert" ? batch.filter(r => !present.has(r.id)) : batch;
+      
+      if (toWrite.length > 0) {
+        await store.write(toWrite);
+      }
+      
+      const updated = toWrite.filter(r => present.has(r.id)).length;
+      stats.vectors_updated += updated;
+      stats.vectors_inserted += toWrite.length - updated;
+      stats.vectors_skipped += batch.length - toWrite.length;
+    } catch (err) {
+      stats.vectors_failed += batch.length;
+      failures.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+  
+  if (records.length > 0 && stats.vectors_failed === records.length) {
+    return createToolError("DB_ERROR", `All ${store.name} upsert batches failed: ${failures[0]}`, {
+      details: { failures },
+      recoverable: true,
+      suggestion: `Check that ${store.name} is reachable at ${store.baseUrl}`,
+    });
+  }
+  
+  return undefined;
+}
+
+const QDRANT_DISTANCES = {
+  cosine: "Cosine",
+  dot: "Dot",
+  euclidean: "Euclid",
+} as const;
+
+/**
+ * Upsert embeddings into a Qdrant collection, creating it if needed.
+ * Failed batches are counted in stats; the run only errors when nothing
+ * could be written.
+ */
+async function upsertQdrant(
+  input: IndexUpsertInput,
+  embeddings: EmbeddingRecord[],
+  chunkMap: Map<string, DocumentChunk>,
+  stats: UpsertStats
+): Promise<ToolError | undefined> {
+  const client = new QdrantClient(input.connection);
+  const collection = input.connection.collection;
+  const namespace = input.connection.namespace;
+  const dimensions = embeddings[0]?.vector.length ?? 0;
+  const distance = QDRANT_DISTANCES[input.distance];
+  
+  const keyError = missingApiKeyError(input);
+  if (keyError) return keyError;
+  
+  let existing = await client.getCollection(collection);
+  
+  if (input.upsert_mode === "replace") {
+    if (namespace) {
+      if (existing) await client.deletePoints(collection, qdrantFilter(undefined, namespace)!);
+    } else if (existing) {
+      await client.deleteCollection(collection);
+      existing = null;
+    }
+  }
+  
+  if (!existing) {
+    await client.createCollection(collection, dimensions, distance);
+  } else if (existing.size !== dimensions) {
+    return dimensionMismatchError("Qdrant", collection, existing.size, dimensions);
+  }
+  
+  const points: QdrantPoint[] = [];
+  for (const embedding of embeddings) {
+    const chunk = chunkMap.get(embedding.chunk_id);
+    if (!chunk) continue;
+    
+    const payload: Record<string, unknown> = {
+      ...buildVectorMetadata(chunk, input.metadata_fields),
+      [QDRANT_CHUNK_ID_KEY]: chunk.chunk_id,
+    };
+    if (namespace) payload[QDRANT_NAMESPACE_KEY] = namespace;
+    if (input.store_text) payload[QDRANT_TEXT_KEY] = chunk.content.text;
+    
+    points.push({ id: qdrantPointId(chunk.chunk_id, namespace), vector: embedding.vector, payload });
+  }
+  
+  return upsertBatches(input, points, stats, {
+    name: "Qdrant",
+    baseUrl: client.baseUrl,
+    // A fresh (or just-cleared) collection has nothing to look up
+    existingIds: async ids => existing ? client.existingIds(collection, ids) : new Set<string>(),
+    write: batch => client.upsertPoints(collection, batch),
+  });
+}
+
+const CHROMA_SPACES = {
+  cosine: "cosine",
+  dot: "ip",
+  euclidean: "l2",
+} as const;
+
+/**
+ * Upsert embeddings into a Chroma collection, creating it if needed.
+ * Chunk text is stored as the Chroma document when store_text is set.
+ */
+async function upsertChroma(
+  input: IndexUpsertInput,
+  embeddings: EmbeddingRecord[],
+  chunkMap: Map<string, DocumentChunk>,
+  stats: UpsertStats
+): Promise<ToolError | undefined> {
+  const client = new ChromaClient(input.connection);
+  const name = input.connection.collection;
+  const namespace = input.connection.namespace;
+  const dimensions = embeddings[0]?.vector.length ?? 0;
+  
+  const keyError = missingApiKeyError(input);
+  if (keyError) return keyError;
+  
+  let collection = await client.getCollection(name);
+  let isNew = false;
+  
+  if (input.upsert_mode === "replace" && collection) {
+    if (namespace) {
+      await client.deleteWhere(collection.id, chromaWhere(undefined, namespace)!);
+    } else {
+      await client.deleteCollection(name);
+      collection = null;
+    }
+  }
+  
+  if (!collection) {
+    collection = await client.createCollection(name, CHROMA_SPACES[input.distance]);
+    isNew = true;
+  } else if (collection.dimension && collection.dimension !== dimensions) {
+    return dimensionMismatchError("Chroma", name, collection.dimension, dimensions);
+  }
+  
+  const records: Array<{ id: string; embedding: number[]; metadata: Record<string, ChromaMetadataValue>; document: string }> = [];
+  for (const embedding of embeddings) {
+    const chunk = chunkMap.get(embedding.chunk_id);
+    if (!chunk) continue;
+    
+    const metadata = toChromaMetadata({
+      ...buildVectorMetadata(chunk, input.metadata_fields),
+      [CHROMA_CHUNK_ID_KEY]: chunk.chunk_id,
+      [CHROMA_NAMESPACE_KEY]: namespace,
+    });
+    
+    records.push({
+      id: chromaRecordId(chunk.chunk_id, namespace),
+      embedding: embedding.vector,
+      metadata,
+      document: chunk.content.text,
+    });
+  }
+  
+  const collectionId = collection.id;
+  return upsertBatches(input, records, stats, {
+    name: "Chroma",
+    baseUrl: client.baseUrl,
+    existingIds: async ids => isNew ? new Set<string>() : client.existingIds(collectionId, ids),
+    write: batch => client.upsert(collectionId, {
+      ids: batch.map(r => r.id),
+      embeddings: batch.map(r => r.embedding),
+      metadatas: batch.map(r => r.metadata),
+      documents: input.store_text ? batch.map(r => r.document) : undefined,
+    }),
+  });
+}
+
 // ============================================================================
 // Index Build Profile
 // ============================================================================
@@ -433,6 +686,21 @@ function normalizeVector(vec: number[]): number[] {
   return vec.map(v => v / norm);
 }
 
+/**
+ * Extract the configured chunk fields as flat vector metadata
+ * ("source.uri" is stored as "source_uri").
+ */
+export function buildVectorMetadata(chunk: DocumentChunk, fields: string[]): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = getNestedField(chunk, field);
+    if (value !== undefined) {
+      metadata[field.replace(/\./g, "_")] = value;
+    }
+  }
+  return metadata;
+}
+
 function getNestedField(obj: unknown, path: string): unknown {
   const parts = path.split(".");
   let current: unknown = obj;
@@ -450,16 +718,20 @@ async function embedWithOpenAI(
   texts: string[],
   model: string,
   apiKey: string,
-  dimensions?: number
+  dimensions?: number,
+  baseUrl?: string
 ): Promise<number[][]> {
   const OpenAI = (await import("openai")).default;
   
-  const client = new OpenAI({ apiKey });
+  // baseURL targets OpenAI-compatible gateways; undefined keeps the default
+  const client = new OpenAI({ apiKey, baseURL: baseUrl });
   
+  // Plain float arrays: not every compatible gateway supports base64 output
   const response = await client.embeddings.create({
     model,
     input: texts,
     dimensions,
+    encoding_format: "float",
   });
   
   // Sort by index to maintain order
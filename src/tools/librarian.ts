@@ -17,13 +17,21 @@
 import { z } from "zod";
 import * as fs from "fs";
 import * as path from "path";
+import { randomUUID } from "crypto";
 import {
   LibrarianStateAudit,
   LibrarianQualityAssessment,
   LibrarianThresholds,
+  LibrarianAuditTrail,
+  LibrarianQueryResult,
   DEFAULT_LIBRARIAN_THRESHOLDS,
   QueryClassification,
+  ToolError,
 } from "../types.js";
+import { createToolError, ensureDir, appendJsonl, pathExists, readJsonl } from "../utils.js";
+import { ProjectQuerySchema } from "../schemas-projects.js";
+import { projectQuery } from "./projects.js";
+import { classifyQuery, type ClassifyQueryResult, type SearchMode } from "./classify.js";
 
 // ============================================================================
 // Schema for Librarian Audit Tool
@@ -51,6 +59,9 @@ export type LibrarianAuditInput = z.infer<typeof LibrarianAuditSchema>;
 // ============================================================================
 
 export const LibrarianAssessSchema = z.object({
+  project_id: z.string().min(1).max(64).regex(/^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/).optional()
+    .describe("Project the results came from; the assessment is recorded in its audit log"),
+  
   query: z.string().min(1).max(4096)
     .describe("Query that was executed"),
   
@@ -71,6 +82,66 @@ export const LibrarianAssessSchema = z.object({
 
 export type LibrarianAssessInput = z.infer<typeof LibrarianAssessSchema>;
 
+// ============================================================================
+// Schema for Librarian Query Tool
+// ============================================================================
+
+export const LibrarianQuerySchema = ProjectQuerySchema.pick({
+  project_id: true,
+  query: true,
+  filter_tags: true,
+  filter_tags_mode: true,
+  filter_sources: true,
+  filters: true,
+}).extend({
+  mode: z.enum(["semantic", "keyword", "hybrid"]).optional()
+    .describe("Search mode; defaults to the classifier's suggestion"),
+  
+  top_k: z.number().int().min(1).max(100).optional()
+    .describe("Results to return; defaults to the classifier's suggestion for the query's complexity"),
+  
+  max_retries: z.number().int().min(0).max(2).default(1)
+    .describe("Retries with a different mode and a larger top_k while quality is poor"),
+  
+  thresholds: LibrarianAuditSchema.shape.thresholds,
+});
+
+export type LibrarianQueryInput = z.infer<typeof LibrarianQuerySchema>;
+
+// ============================================================================
+// Schema for Librarian History Tool
+// ============================================================================
+
+const TRAIL_OPERATIONS = ["state_check", "query", "classify", "debug", "repair", "deploy"] as const;
+const QUALITY_LEVELS = ["excellent", "good", "marginal", "poor"] as const;
+
+export const LibrarianHistorySchema = z.object({
+  project_id: LibrarianAuditSchema.shape.project_id,
+  
+  since: z.string().datetime().optional()
+    .describe("Only entries at or after this ISO timestamp"),
+  
+  until: z.string().datetime().optional()
+    .describe("Only entries before this ISO timestamp"),
+  
+  days: z.number().int().min(1).max(3650).optional()
+    .describe("Only entries from the last N days (combined with since, the later bound wins)"),
+  
+  operations: z.array(z.enum(TRAIL_OPERATIONS)).optional()
+    .describe("Only these operations"),
+  
+  quality_levels: z.array(z.enum(QUALITY_LEVELS)).optional()
+    .describe("Only entries whose quality assessment has one of these levels (aggregates ignore this)"),
+  
+  limit: z.number().int().min(0).max(1000).default(50)
+    .describe("Maximum entries returned, newest first"),
+  
+  top_sources: z.number().int().min(1).max(100).default(10)
+    .describe("Number of sources to list in poor_answer_sources"),
+});
+
+export type LibrarianHistoryInput = z.infer<typeof LibrarianHistorySchema>;
+
 // ============================================================================
 // Helper: Get projects directory
 // ============================================================================
@@ -81,12 +152,60 @@ export function initLibrarian(baseDir: string): void {
   projectsDir = path.join(baseDir, "projects");
 }
 
+// ============================================================================
+// Audit Trail Log
+// ============================================================================
+
+function auditLogPath(projectId: string): string {
+  return path.join(projectsDir, projectId, "librarian", "audit.jsonl");
+}
+
+/** Outcome of recording an operation, merged into that operation's result */
+export interface AuditLogStatus {
+  /** Why the audit log entry could not be written; the operation itself succeeded */
+  audit_log_error?: string;
+}
+
+/**
+ * Append entries to the project's audit log. A write failure doesn't fail the
+ * operation being recorded; it is returned for the caller's result instead.
+ */
+async function appendAuditTrail(projectId: string, entries: LibrarianAuditTrail[]): Promise<AuditLogStatus> {
+  if (entries.length === 0) return {};
+  const logPath = auditLogPath(projectId);
+  try {
+    await ensureDir(path.dirname(logPath));
+    await appendJsonl(logPath, entries);
+    return {};
+  } catch (error) {
+    return { audit_log_error: `Failed to write audit log ${logPath}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
 // ============================================================================
 // Librarian Audit Implementation
 // ============================================================================
 
 export async function librarianAudit(
   input: LibrarianAuditInput
+): Promise<({ success: true; audit: LibrarianStateAudit } & AuditLogStatus) | { success: false; error: string; code: string }> {
+  const started = Date.now();
+  const result = await auditProjectState(input);
+  if (!result.success) return result;
+  const logged = await appendAuditTrail(input.project_id, [{
+    timestamp: new Date(started).toISOString(),
+    operation: "state_check",
+    project_id: input.project_id,
+    success: result.audit.is_healthy,
+    duration_ms: Date.now() - started,
+    state_audit: result.audit,
+    actions_taken: result.audit.is_healthy ? [] : result.audit.issues,
+  }]);
+  return { ...result, ...logged };
+}
+
+async function auditProjectState(
+  input: LibrarianAuditInput
 ): Promise<{ success: true; audit: LibrarianStateAudit } | { success: false; error: string; code: string }> {
   const { project_id, include_recommendations } = input;
   const thresholds = input.thresholds ?? DEFAULT_LIBRARIAN_THRESHOLDS;
@@ -366,11 +485,395 @@ export function librarianAssessQuality(
   };
 }
 
+/**
+ * Assess results and, when they came from a project, record the assessment
+ * in that project's audit log.
+ */
+export async function librarianAssess(input: LibrarianAssessInput): Promise<LibrarianQualityAssessment & AuditLogStatus> {
+  const started = Date.now();
+  const assessment = librarianAssessQuality(input);
+  if (input.project_id && fs.existsSync(path.join(projectsDir, input.project_id))) {
+    const sourceIds = input.results.flatMap(r => r.source_id ? [r.source_id] : []);
+    const logged = await appendAuditTrail(input.project_id, [{
+      timestamp: new Date(started).toISOString(),
+      operation: "query",
+      project_id: input.project_id,
+      success: assessment.quality_level !== "poor",
+      duration_ms: Date.now() - started,
+      quality_assessment: assessment,
+      actions_taken: ["assessed externally retrieved results"],
+      metadata: { result_count: input.results.length, source_ids: [...new Set(sourceIds)], chosen: true },
+    }]);
+    return { ...assessment, ...logged };
+  }
+  return assessment;
+}
+
+// ============================================================================
+// Librarian Query Implementation
+// ============================================================================
+
+export interface LibrarianQueryResponse extends LibrarianQueryResult, AuditLogStatus {
+  project_id: string;
+  /** Mode and top_k of the attempt whose results are returned */
+  mode: SearchMode;
+  top_k: number;
+  /** One entry per step, in order */
+  trail: LibrarianAuditTrail[];
+}
+
+/** Modes tried after the first one, in order */
+const RETRY_MODES: Record<SearchMode, SearchMode[]> = {
+  hybrid: ["semantic", "keyword"],
+  semantic: ["hybrid", "keyword"],
+  keyword: ["hybrid", "semantic"],
+};
+
+const QUALITY_RANK: Record<LibrarianQualityAssessment["quality_level"], number> = {
+  poor: 0,
+  marginal: 1,
+  good: 2,
+  excellent: 3,
+};
+
+/**
+ * Map classify_query output onto the Librarian's classification record.
+ */
+export function toQueryClassification(result: ClassifyQueryResult): QueryClassification {
+  return {
+    query_type: result.classification.type,
+    complexity: result.complexity === "medium" ? "moderate" : result.complexity,
+    needs_retrieval: result.needs_retrieval,
+    confidence: result.confidence,
+    suggested_mode: result.retrieval_hints?.suggested_mode ?? "hybrid",
+    reasoning: result.reasoning,
+  };
+}
+
+/**
+ * Run the full Librarian protocol for one query: audit the project, classify
+ * the query, retrieve with the suggested mode and top_k, assess quality, and
+ * retry with another mode and a doubled top_k while quality stays poor.
+ *
+ * Quality is assessed on cosine similarity rather than the ranking score,
+ * since RRF and BM25 scores are not on the 0-1 scale the thresholds assume.
+ */
+export async function librarianQuery(input: LibrarianQueryInput): Promise<LibrarianQueryResponse | ToolError> {
+  const started = Date.now();
+  const thresholds = input.thresholds ?? DEFAULT_LIBRARIAN_THRESHOLDS;
+  const queryId = randomUUID();
+  const steps: string[] = [];
+  const trail: LibrarianAuditTrail[] = [];
+  const record = (entry: Omit<LibrarianAuditTrail, "timestamp" | "project_id">, stepStart: number) => {
+    trail.push({
+      timestamp: new Date(stepStart).toISOString(),
+      project_id: input.project_id,
+      ...entry,
+      metadata: { query_id: queryId, ...entry.metadata },
+    });
+  };
+  
+  // Step 1: State check
+  let stepStart = Date.now();
+  const audited = await auditProjectState({ project_id: input.project_id, include_recommendations: true, thresholds });
+  if (!audited.success) {
+    return createToolError(audited.code === "PROJECT_NOT_FOUND" ? "PROJECT_NOT_FOUND" : "QUERY_FAILED", audited.error, {
+      recoverable: audited.code !== "PROJECT_NOT_FOUND",
+    });
+  }
+  const audit = audited.audit;
+  steps.push("state_check");
+  record({
+    operation: "state_check",
+    success: audit.is_healthy,
+    duration_ms: Date.now() - stepStart,
+    state_audit: audit,
+    actions_taken: audit.is_healthy ? [] : audit.issues,
+  }, stepStart);
+  
+  // Step 2: Classify
+  stepStart = Date.now();
+  const classified = await classifyQuery({ query: input.query, options: { include_confidence: true, include_reasoning: true, threshold: 0.5 } });
+  const classification = toQueryClassification(classified);
+  const confident = classification.confidence >= thresholds.classification_confidence;
+  const mode: SearchMode = input.mode ?? (confident ? classification.suggested_mode : "hybrid");
+  const topK = input.top_k ?? classified.retrieval_hints?.suggested_top_k ?? 7;
+  steps.push("classify");
+  record({
+    operation: "classify",
+    success: true,
+    duration_ms: Date.now() - stepStart,
+    classification,
+    actions_taken: [
+      `mode=${mode}${input.mode ? " (requested)" : confident ? "" : " (low classification confidence)"}`,
+      `top_k=${topK}${input.top_k ? " (requested)" : ""}`,
+    ],
+  }, stepStart);
+  
+  const recommendations: string[] = [];
+  if (!classification.needs_retrieval) {
+    recommendations.push(`Query looks ${classification.query_type} and may not need retrieval`);
+  }
+  
+  // Nothing to search: report the audit instead of querying
+  if (audit.total_chunks === 0) {
+    steps.push("retrieval_skipped");
+    const logged = await appendAuditTrail(input.project_id, trail);
+    return {
+      success: false,
+      project_id: input.project_id,
+      mode,
+      top_k: topK,
+      results: [],
+      audit: {
+        state_valid: audit.is_healthy,
+        classification,
+        quality_assessment: librarianAssessQuality({ query: input.query, results: [] }),
+        total_duration_ms: Date.now() - started,
+        steps_executed: steps,
+      },
+      recommendations: [...audit.recommendations, ...recommendations],
+      trail,
+      ...logged,
+    };
+  }
+  
+  // Steps 3+: Query and assess, retrying with other strategies while poor
+  const strategies = [mode, ...RETRY_MODES[mode]]
+    .slice(0, input.max_retries + 1)
+    .map((m, i) => ({ mode: m, top_k: Math.min(100, topK * 2 ** i) }));
+  
+  let best: {
+    mode: SearchMode;
+    top_k: number;
+    results: LibrarianQueryResult["results"];
+    assessment: LibrarianQualityAssessment;
+    entry: LibrarianAuditTrail;
+  } | undefined;
+  
+  for (const [i, strategy] of strategies.entries()) {
+    stepStart = Date.now();
+    const queried = await projectQuery(ProjectQuerySchema.parse({
+      project_id: input.project_id,
+      query: input.query,
+      mode: strategy.mode,
+      top_k: strategy.top_k,
+      filter_tags: input.filter_tags,
+      filter_tags_mode: input.filter_tags_mode,
+      filter_sources: input.filter_sources,
+      filters: input.filters,
+    }));
+    if ("isError" in queried) {
+      steps.push(`${i === 0 ? "query" : "retry"}:${strategy.mode}@${strategy.top_k}`);
+      record({
+        operation: "query",
+        success: false,
+        duration_ms: Date.now() - stepStart,
+        actions_taken: [`${i === 0 ? "queried" : "retried"} with mode=${strategy.mode}, top_k=${strategy.top_k}`],
+        metadata: { attempt: i, error: queried.message, code: queried.code },
+      }, stepStart);
+      await appendAuditTrail(input.project_id, trail);
+      return queried;
+    }
+    
+    const assessment = librarianAssessQuality({
+      query: input.query,
+      results: queried.results.map(r => ({
+        chunk_id: r.chunk_id,
+        score: Math.min(1, Math.max(0, r.semantic_score ?? 0)),
+      })),
+      thresholds,
+    });
+    steps.push(`${i === 0 ? "query" : "retry"}:${strategy.mode}@${strategy.top_k}`, `assess:${assessment.quality_level}`);
+    record({
+      operation: "query",
+      success: assessment.quality_level !== "poor",
+      duration_ms: Date.now() - stepStart,
+      quality_assessment: assessment,
+      actions_taken: [`${i === 0 ? "queried" : "retried"} with mode=${strategy.mode}, top_k=${strategy.top_k}`],
+      metadata: {
+        attempt: i,
+        result_count: queried.results.length,
+        source_ids: [...new Set(queried.results.map(r => r.source_id))],
+        chosen: false,
+      },
+    }, stepStart);
+    
+    const better = !best ||
+      QUALITY_RANK[assessment.quality_level] > QUALITY_RANK[best.assessment.quality_level] ||
+      (assessment.quality_level === best.assessment.quality_level && assessment.avg_score > best.assessment.avg_score);
+    if (better) {
+      best = {
+        mode: strategy.mode,
+        top_k: strategy.top_k,
+        results: queried.results.map(r => ({
+          chunk_id: r.chunk_id,
+          score: r.score,
+          text: r.text,
+          source_id: r.source_id,
+          metadata: r.metadata,
+        })),
+        assessment,
+        entry: trail[trail.length - 1],
+      };
+    }
+    if (assessment.quality_level !== "poor") {
+      break;
+    }
+  }
+  
+  // strategies always holds the first attempt
+  const chosen = best!;
+  chosen.entry.metadata = { ...chosen.entry.metadata, chosen: true };
+  const logged = await appendAuditTrail(input.project_id, trail);
+  if (!audit.is_healthy) {
+    recommendations.push(...audit.recommendations);
+  }
+  recommendations.push(...chosen.assessment.recommendations);
+  
+  return {
+    success: true,
+    project_id: input.project_id,
+    mode: chosen.mode,
+    top_k: chosen.top_k,
+    results: chosen.results,
+    audit: {
+      state_valid: audit.is_healthy,
+      classification,
+      quality_assessment: chosen.assessment,
+      total_duration_ms: Date.now() - started,
+      steps_executed: steps,
+    },
+    recommendations,
+    trail,
+    ...logged,
+  };
+}
+
+// ============================================================================
+// Librarian History Implementation
+// ============================================================================
+
+export interface LibrarianHistoryResult {
+  success: true;
+  project_id: string;
+  log_path: string;
+  since?: string;
+  until?: string;
+  /** Entries matching the time range and operations */
+  total_entries: number;
+  aggregates: {
+    by_operation: Record<string, number>;
+    /** Answers given: assessed query attempts whose results were returned */
+    answers: number;
+    by_quality: Record<LibrarianQualityAssessment["quality_level"], number>;
+    /** Share of answers rated poor (0 when there are none) */
+    poor_share: number;
+    avg_score: number | null;
+    /** Sources cited most often in answers rated poor */
+    poor_answer_sources: Array<{ source_id: string; count: number }>;
+  };
+  /** Matching entries, newest first, up to limit */
+  entries: LibrarianAuditTrail[];
+}
+
+/**
+ * Query a project's audit log by time range, operation and quality level,
+ * with aggregates over the answers in range.
+ */
+export async function librarianHistory(input: LibrarianHistoryInput): Promise<LibrarianHistoryResult | ToolError> {
+  if (!fs.existsSync(path.join(projectsDir, input.project_id))) {
+    return createToolError("PROJECT_NOT_FOUND", `Project '${input.project_id}' not found`, {
+      recoverable: false,
+    });
+  }
+  
+  const logPath = auditLogPath(input.project_id);
+  const fromDays = input.days !== undefined ? Date.now() - input.days * 24 * 60 * 60 * 1000 : undefined;
+  const fromSince = input.since !== undefined ? Date.parse(input.since) : undefined;
+  const from = Math.max(fromDays ?? -Infinity, fromSince ?? -Infinity);
+  const to = input.until !== undefined ? Date.parse(input.until) : Infinity;
+  
+  let log: LibrarianAuditTrail[];
+  try {
+    log = await pathExists(logPath) ? await readJsonl<LibrarianAuditTrail>(logPath) : [];
+  } catch (error) {
+    return createToolError("READ_FAILED", `Could not read audit log: ${error instanceof Error ? error.message : String(error)}`, {
+      recoverable: false,
+    });
+  }
+  
+  const inRange = log.filter(entry => {
+    const time = Date.parse(entry.timestamp);
+    return time >= from && time < to &&
+      (!input.operations?.length || input.operations.includes(entry.operation));
+  });
+  
+  // Aggregate over answers: a librarian_query logs one entry per attempt and
+  // marks the attempt it returned as chosen
+  const byOperation: Record<string, number> = {};
+  const byQuality: LibrarianHistoryResult["aggregates"]["by_quality"] = { excellent: 0, good: 0, marginal: 0, poor: 0 };
+  const poorSources = new Map<string, number>();
+  let answers = 0;
+  let scoreSum = 0;
+  for (const entry of inRange) {
+    byOperation[entry.operation] = (byOperation[entry.operation] ?? 0) + 1;
+    const assessment = entry.quality_assessment;
+    if (entry.operation !== "query" || !assessment || entry.metadata?.chosen === false) continue;
+    answers++;
+    scoreSum += assessment.avg_score;
+    byQuality[assessment.quality_level]++;
+    if (assessment.quality_level === "poor") {
+      const sourceIds = Array.isArray(entry.metadata?.source_ids) ? entry.metadata.source_ids as string[] : [];
+      for (const id of sourceIds) {
+        poorSources.set(id, (poorSources.get(id) ?? 0) + 1);
+      }
+    }
+  }
+  
+  const entries = inRange
+    .filter(entry => !input.quality_levels?.length ||
+      (entry.quality_assessment !== undefined && input.quality_levels.includes(entry.quality_assessment.quality_level)))
+    .reverse()
+    .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+    .slice(0, input.limit);
+  
+  return {
+    success: true,
+    project_id: input.project_id,
+    log_path: logPath,
+    since: Number.isFinite(from) ? new Date(from).toISOString() : undefined,
+    until: input.until,
+    total_entries: inRange.length,
+    aggregates: {
+      by_operation: byOperation,
+      answers,
+      by_quality: byQuality,
+      poor_share: answers > 0 ? byQuality.poor / answers : 0,
+      avg_score: answers > 0 ? scoreSum / answers : null,
+      poor_answer_sources: [...poorSources.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, input.top_sources)
+        .map(([source_id, count]) => ({ source_id, count })),
+    },
+    entries,
+  };
+}
+
 // ============================================================================
 // Utility: Format audit for tool response
 // ============================================================================
 
-export function formatAuditResponse(audit: LibrarianStateAudit): string {
+/** Section reporting an audit log entry that could not be written */
+function pushAuditLogError(lines: string[], auditLogError: string | undefined): void {
+  if (!auditLogError) return;
+  lines.push("### Audit Log");
+  lines.push("");
+  lines.push(`- ❌ ${auditLogError}`);
+  lines.push("");
+}
+
+export function formatAuditResponse(audit: LibrarianStateAudit, auditLogError?: string): string {
   const lines: string[] = [];
   
   // Header
@@ -411,6 +914,8 @@ export function formatAuditResponse(audit: LibrarianStateAudit): string {
     }
     lines.push("");
   }
+
+  pushAuditLogError(lines, auditLogError);
   
   return lines.join("\n");
 }
@@ -419,7 +924,7 @@ export function formatAuditResponse(audit: LibrarianStateAudit): string {
 // Utility: Format quality assessment for tool response
 // ============================================================================
 
-export function formatQualityResponse(assessment: LibrarianQualityAssessment): string {
+export function formatQualityResponse(assessment: LibrarianQualityAssessment & AuditLogStatus): string {
   const lines: string[] = [];
   
   const qualityEmoji = {
@@ -471,6 +976,8 @@ export function formatQualityResponse(assessment: LibrarianQualityAssessment): s
     }
     lines.push("");
   }
+
+  pushAuditLogError(lines, assessment.audit_log_error);
   
   return lines.join("\n");
 }
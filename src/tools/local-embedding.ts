@@ -0,0 +1,81 @@
+/**
+ * IndexFoundry-MCP: Local Embedding Provider
+ *
+ * Offline, deterministic text embeddings via feature hashing. Each text is
+ * split into lowercase word tokens; every word and every character trigram
+ * of the padded word ("#word#") is hashed into one of `dimensions` buckets
+ * with a hash-derived sign. Counts are log-scaled and the vector is L2
+ * normalized, so cosine similarity reflects shared vocabulary and
+ * sub-word overlap (plurals, inflections, typos).
+ *
+ * No model files or network access are needed, which makes the provider
+ * suitable for air-gapped builds and tests. The exported project server
+ * carries an identical copy of embedLocal so query vectors match build
+ * vectors.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Dimension used when the embedding model does not set one */
+export const LOCAL_EMBEDDING_DEFAULT_DIMENSIONS = 384;
+
+/** Version tag recorded with vectors; bump when the algorithm changes */
+export const LOCAL_EMBEDDING_VERSION = "hash-v1";
+
+// ============================================================================
+// Embedding
+// ============================================================================
+
+/**
+ * Embed text with signed feature hashing over words and character trigrams.
+ *
+ * @param text - Text to embed
+ * @param dimensions - Output vector length
+ * @returns L2-normalized vector (all zeros for text without word characters)
+ *
+ * @example
+ * ```typescript
+ * const a = embedLocal("solar panel output", 384);
+ * const b = embedLocal("solar panels", 384);
+ * cosineSimilarity(a, b); // high: shared word and trigrams
+ * ```
+ */
+export function embedLocal(text: string, dimensions: number = LOCAL_EMBEDDING_DEFAULT_DIMENSIONS): number[] {
+  const counts = new Map<number, number>();
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+  const addFeature = (feature: string, weight: number) => {
+    // 32-bit FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      hash ^= feature.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hash >>>= 0;
+    const bucket = hash % dimensions;
+    const sign = (Math.imul(hash, 0x9e3779b1) >>> 31) === 1 ? -1 : 1;
+    counts.set(bucket, (counts.get(bucket) || 0) + sign * weight);
+  };
+
+  for (const word of words) {
+    addFeature("w:" + word, 1);
+    const padded = "#" + word + "#";
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature("c:" + padded.slice(i, i + 3), 0.5);
+    }
+  }
+
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [bucket, value] of counts) {
+    // Sublinear scaling keeps frequent terms from dominating
+    vector[bucket] = Math.sign(value) * Math.log1p(Math.abs(value));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
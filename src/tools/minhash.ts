@@ -0,0 +1,306 @@
+/**
+ * IndexFoundry-MCP: MinHash / LSH Near-Duplicate Detection
+ *
+ * Near-duplicate detection for chunk deduplication. Each text is reduced to
+ * a set of word shingles, summarized by a MinHash signature, and indexed with
+ * LSH banding so only likely matches are compared. Candidates are verified
+ * with the exact Jaccard similarity of their shingle sets, so the threshold
+ * is a real Jaccard threshold rather than an estimate.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Number of hash permutations per signature */
+export const MINHASH_NUM_PERM = 128;
+
+/** Words per shingle */
+export const MINHASH_SHINGLE_SIZE = 3;
+
+/** Fixed seed so signatures (and therefore dedupe results) are deterministic */
+const PERMUTATION_SEED = 0x9e3779b9;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LshParams {
+  bands: number;
+  rows: number;
+}
+
+export interface NearDuplicateItem {
+  id: string;
+  text: string;
+  /** Items are only compared within the same partition (e.g. per document) */
+  partition?: string;
+}
+
+export interface NearDuplicateCluster {
+  kept: string;
+  dropped: Array<{ id: string; jaccard: number }>;
+}
+
+export interface NearDuplicateResult {
+  clusters: NearDuplicateCluster[];
+  /** IDs of items to keep, in input order */
+  kept: string[];
+  params: LshParams & { num_perm: number; shingle_size: number };
+  /** Candidate pairs verified with exact Jaccard */
+  candidates_checked: number;
+}
+
+// ============================================================================
+// Hashing
+// ============================================================================
+
+/** 32-bit FNV-1a over a string */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Murmur3 finalizer, used to spread shingle hashes before permuting */
+function fmix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * Deterministic (a, b) coefficients for the permutation family
+ * h_i(x) = a_i * x + b_i (mod 2^32), with odd a_i.
+ */
+function permutationCoefficients(numPerm: number): { a: Uint32Array; b: Uint32Array } {
+  const a = new Uint32Array(numPerm);
+  const b = new Uint32Array(numPerm);
+  let state = PERMUTATION_SEED;
+  for (let i = 0; i < numPerm; i++) {
+    state = fmix32(state + 0x6d2b79f5);
+    a[i] = state | 1;
+    state = fmix32(state + 0x6d2b79f5);
+    b[i] = state;
+  }
+  return { a, b };
+}
+
+// ============================================================================
+// Shingles, Signatures, Similarity
+// ============================================================================
+
+/**
+ * Hash the word k-shingles of a text into a sorted, de-duplicated array.
+ * Texts shorter than k words produce a single shingle of all their words.
+ *
+ * @param text - Input text
+ * @param size - Words per shingle
+ * @returns Sorted unique shingle hashes
+ */
+export function shingleHashes(text: string, size: number = MINHASH_SHINGLE_SIZE): Uint32Array {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length === 0) return new Uint32Array(0);
+
+  const hashes: number[] = [];
+  const count = Math.max(1, words.length - size + 1);
+  for (let i = 0; i < count; i++) {
+    hashes.push(fmix32(fnv1a(words.slice(i, i + size).join(" "))));
+  }
+
+  const sorted = Uint32Array.from(hashes).sort();
+  let unique = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    if (i === 0 || sorted[i] !== sorted[i - 1]) sorted[unique++] = sorted[i];
+  }
+  return sorted.slice(0, unique);
+}
+
+/**
+ * Compute the MinHash signature of a shingle set.
+ */
+export function minhashSignature(
+  shingles: Uint32Array,
+  coefficients: { a: Uint32Array; b: Uint32Array }
+): Uint32Array {
+  const numPerm = coefficients.a.length;
+  const signature = new Uint32Array(numPerm).fill(0xffffffff);
+
+  for (let s = 0; s < shingles.length; s++) {
+    const x = shingles[s];
+    for (let i = 0; i < numPerm; i++) {
+      const h = (Math.imul(coefficients.a[i], x) + coefficients.b[i]) >>> 0;
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Exact Jaccard similarity of two sorted unique hash arrays.
+ */
+export function jaccardSimilarity(a: Uint32Array, b: Uint32Array): number {
+  if (a.length === 0 && b.length === 0) return 1;
+
+  let i = 0;
+  let j = 0;
+  let intersection = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      intersection++;
+      i++;
+      j++;
+    } else if (a[i] < b[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return intersection / (a.length + b.length - intersection);
+}
+
+/**
+ * Choose LSH bands × rows for a Jaccard threshold by minimizing the
+ * combined false-positive and false-negative probability mass of the
+ * S-curve 1 - (1 - s^r)^b. Candidates are verified exactly afterwards,
+ * so false positives only cost a comparison while false negatives leave
+ * duplicates behind; misses are weighted accordingly.
+ *
+ * @param threshold - Jaccard threshold in (0, 1]
+ * @param numPerm - Signature length
+ * @returns Bands and rows with bands * rows <= numPerm
+ */
+export function optimalLshParams(threshold: number, numPerm: number = MINHASH_NUM_PERM): LshParams {
+  const steps = 100;
+  const probability = (s: number, bands: number, rows: number) =>
+    1 - Math.pow(1 - Math.pow(s, rows), bands);
+
+  const area = (from: number, to: number, f: (s: number) => number) => {
+    if (to <= from) return 0;
+    const width = (to - from) / steps;
+    let total = 0;
+    for (let k = 0; k < steps; k++) total += f(from + (k + 0.5) * width) * width;
+    return total;
+  };
+
+  let best: LshParams = { bands: numPerm, rows: 1 };
+  let bestError = Infinity;
+
+  for (let bands = 1; bands <= numPerm; bands++) {
+    const maxRows = Math.floor(numPerm / bands);
+    for (let rows = 1; rows <= maxRows; rows++) {
+      const falsePositive = area(0, threshold, s => probability(s, bands, rows));
+      const falseNegative = area(threshold, 1, s => 1 - probability(s, bands, rows));
+      const error = 0.05 * falsePositive + 0.95 * falseNegative;
+      if (error < bestError) {
+        bestError = error;
+        best = { bands, rows };
+      }
+    }
+  }
+
+  return best;
+}
+
+// ============================================================================
+// Near-Duplicate Clustering
+// ============================================================================
+
+/**
+ * Cluster near-duplicate texts with MinHash + LSH.
+ *
+ * Items are processed in input order. Each item is compared only against
+ * previously kept items that share at least one LSH band bucket; if the
+ * exact shingle Jaccard with the best such item reaches the threshold, the
+ * item is dropped into that item's cluster, otherwise it is kept.
+ *
+ * @param items - Texts to deduplicate (order determines which copy is kept)
+ * @param threshold - Minimum Jaccard similarity to treat as duplicate
+ * @returns Clusters with kept/dropped IDs and the LSH parameters used
+ *
+ * @example
+ * ```typescript
+ * const { kept, clusters } = findNearDuplicates(
+ *   chunks.map(c => ({ id: c.chunk_id, text: c.content.text })),
+ *   0.9
+ * );
+ * ```
+ */
+export function findNearDuplicates(items: NearDuplicateItem[], threshold: number): NearDuplicateResult {
+  const numPerm = MINHASH_NUM_PERM;
+  const { bands, rows } = optimalLshParams(threshold, numPerm);
+  const coefficients = permutationCoefficients(numPerm);
+
+  const buckets = new Map<string, number[]>();
+  const keptShingles = new Map<number, Uint32Array>();
+  const clusters = new Map<number, NearDuplicateCluster>();
+  const kept: string[] = [];
+  let candidatesChecked = 0;
+
+  for (let index = 0; index < items.length; index++) {
+    const item = items[index];
+    const shingles = shingleHashes(item.text);
+    const partition = item.partition ?? "";
+
+    const signature = minhashSignature(shingles, coefficients);
+    const bandKeys: string[] = [];
+    for (let band = 0; band < bands; band++) {
+      const slice = signature.subarray(band * rows, (band + 1) * rows);
+      bandKeys.push(`${partition}\u0000${band}\u0000${slice.join(",")}`);
+    }
+
+    // Gather candidate kept items sharing any band bucket
+    const candidates = new Set<number>();
+    for (const key of bandKeys) {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.forEach(candidate => candidates.add(candidate));
+    }
+
+    let bestMatch = -1;
+    let bestSimilarity = 0;
+    for (const candidate of candidates) {
+      candidatesChecked++;
+      const similarity = jaccardSimilarity(shingles, keptShingles.get(candidate)!);
+      if (similarity >= threshold && (similarity > bestSimilarity || bestMatch < 0)) {
+        bestMatch = candidate;
+        bestSimilarity = similarity;
+      }
+    }
+
+    if (bestMatch >= 0) {
+      let cluster = clusters.get(bestMatch);
+      if (!cluster) {
+        cluster = { kept: items[bestMatch].id, dropped: [] };
+        clusters.set(bestMatch, cluster);
+      }
+      cluster.dropped.push({ id: item.id, jaccard: Math.round(bestSimilarity * 10000) / 10000 });
+      continue;
+    }
+
+    kept.push(item.id);
+    keptShingles.set(index, shingles);
+    for (const key of bandKeys) {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    }
+  }
+
+  return {
+    clusters: [...clusters.entries()].sort((a, b) => a[0] - b[0]).map(([, cluster]) => cluster),
+    kept,
+    params: { bands, rows, num_perm: numPerm, shingle_size: MINHASH_SHINGLE_SIZE },
+    candidates_checked: candidatesChecked,
+  };
+}
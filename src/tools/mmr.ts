@@ -0,0 +1,134 @@
+/**
+ * IndexFoundry-MCP: Maximal Marginal Relevance
+ *
+ * Diversifies ranked search results so near-duplicate chunks (the same
+ * passage from several versions of a document) don't crowd out everything
+ * else. Each pick maximizes
+ *
+ *   lambda * relevance - (1 - lambda) * max similarity to the picks so far
+ *
+ * Similarity is the cosine of stored embeddings; candidates without an
+ * embedding (remote vector stores, keyword-only indexes) are compared by
+ * token overlap instead.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+import { cosineSimilarity } from "../utils.js";
+import { tokenizeBm25 } from "./bm25.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Balance between relevance (1) and diversity (0) when none is given */
+export const MMR_DEFAULT_LAMBDA = 0.5;
+
+/** Candidates considered per requested result */
+export const MMR_POOL_MULTIPLIER = 4;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** MMR options accepted by query tools; present means enabled */
+export interface MmrOptions {
+  lambda: number;
+}
+
+export interface MmrCandidateView {
+  /** Stored embedding, if the index has one for this candidate */
+  vector?: number[];
+  text: string;
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Number of first-stage candidates to retrieve so MMR has alternatives to
+ * choose from.
+ */
+export function mmrPoolSize(topK: number): number {
+  return topK * MMR_POOL_MULTIPLIER;
+}
+
+interface PreparedCandidate {
+  vector?: number[];
+  tokens: Set<string>;
+}
+
+/**
+ * Similarity of two candidates in [0, 1]: embedding cosine when both have a
+ * non-empty vector of the same length, token-set Jaccard otherwise.
+ */
+function similarity(a: PreparedCandidate, b: PreparedCandidate): number {
+  if (a.vector?.length && b.vector && a.vector.length === b.vector.length) {
+    return Math.max(0, cosineSimilarity(a.vector, b.vector));
+  }
+  if (a.tokens.size === 0 || b.tokens.size === 0) return 0;
+  let shared = 0;
+  for (const token of a.tokens) {
+    if (b.tokens.has(token)) shared++;
+  }
+  return shared / (a.tokens.size + b.tokens.size - shared);
+}
+
+/**
+ * Pick `topK` candidates by Maximal Marginal Relevance.
+ *
+ * Candidates keep their original scores; only the order changes. Relevance
+ * is each score relative to the best one (negative scores count as 0) so
+ * lambda means the same thing for cosine, BM25 and RRF scores. lambda = 1
+ * reproduces the input order.
+ *
+ * @example
+ * ```typescript
+ * const diverse = mmrSelect(hits, 10, 0.5,
+ *   hit => ({ vector: vectorsById.get(hit.id), text: hit.text ?? "" }));
+ * ```
+ */
+export function mmrSelect<T extends { score: number }>(
+  candidates: T[],
+  topK: number,
+  lambda: number,
+  describe: (candidate: T) => MmrCandidateView
+): T[] {
+  if (candidates.length <= 1 || lambda >= 1) {
+    return candidates.slice(0, topK);
+  }
+
+  const prepared: PreparedCandidate[] = candidates.map(candidate => {
+    const view = describe(candidate);
+    return { vector: view.vector, tokens: new Set(tokenizeBm25(view.text)) };
+  });
+  const top = Math.max(...candidates.map(c => c.score));
+  const relevance = candidates.map(c => top > 0 ? Math.max(0, c.score) / top : 1);
+
+  // Highest similarity of each remaining candidate to anything selected
+  const maxSimilarity = new Array<number>(candidates.length).fill(0);
+  const remaining = new Set(candidates.map((_, i) => i));
+  const selected: number[] = [];
+
+  while (selected.length < topK && remaining.size > 0) {
+    let best = -1;
+    let bestValue = Number.NEGATIVE_INFINITY;
+    for (const i of remaining) {
+      const value = lambda * relevance[i] - (1 - lambda) * maxSimilarity[i];
+      if (value > bestValue) {
+        best = i;
+        bestValue = value;
+      }
+    }
+
+    selected.push(best);
+    remaining.delete(best);
+    for (const i of remaining) {
+      maxSimilarity[i] = Math.max(maxSimilarity[i], similarity(prepared[i], prepared[best]));
+    }
+  }
+
+  return selected.map(i => candidates[i]);
+}
@@ -10,7 +10,7 @@
 
 import * as path from "path";
 import * as fs from "fs/promises";
-import type { DocumentChunk, ToolError } from "../types.js";
+import type { DocumentChunk, ExtractionReport, RawArtifact, RepoProvenance, ToolError } from "../types.js";
 import type { 
   NormalizeChunkInput, 
   NormalizeEnrichInput, 
@@ -24,6 +24,7 @@ import {
   readJsonl,
   appendJsonl,
   writeJson,
+  readJson,
   normalizeText,
   estimateTokens,
   hashConfig,
@@ -33,6 +34,7 @@ import {
   getParentContext,
 } from "../utils.js";
 import { getRunManager } from "../run-manager.js";
+import { findNearDuplicates } from "./minhash.js";
 
 // ============================================================================
 // Normalize Chunk
@@ -417,6 +419,7 @@ export async function normalizeChunk(input: NormalizeChunkInput): Promise<Normal
     let totalChars = 0;
     
     const allChunks: DocumentChunk[] = [];
+    const repoArtifacts = await loadRepoArtifacts(path.join(manager.getRawDir(input.run_id), "raw_manifest.jsonl"));
     
     // Process each input file
     for (const inputPath of input.input_paths.sort()) {
@@ -431,6 +434,20 @@ export async function normalizeChunk(input: NormalizeChunkInput): Promise<Normal
       const normalizedContent = normalizeText(content);
       const docHash = sha256(normalizedContent);
       
+      // Carry document-level properties (e.g. DOCX title/author) onto chunks
+      const report = await readExtractionReport(fullPath);
+      const sourceType = report?.mode_used === "docx" ? "docx" : detectSourceType(inputPath);
+      const documentMetadata = extractionMetadata(report);
+      
+      // Files read from a git repository cite path@commit instead of the run path
+      const repo = repoArtifacts.get(path.basename(inputPath).split(".")[0]);
+      const source = repo
+        ? { type: "repo" as const, uri: `${repo.path}@${repo.commit}` }
+        : { type: sourceType, uri: inputPath };
+      if (repo) {
+        documentMetadata.custom = { ...documentMetadata.custom, repo_path: repo.path, commit: repo.commit, blob_sha: repo.blob_sha };
+      }
+      
       documentsProcessed++;
       
       // Check if using hierarchical strategy
@@ -476,8 +493,7 @@ export async function normalizeChunk(input: NormalizeChunkInput): Promise<Normal
             parent_context: result.parentContext,
             
             source: {
-              type: detectSourceType(inputPath),
-              uri: inputPath,
+              ...source,
               retrieved_at: now(),
               content_hash: docHash,
             },
@@ -496,6 +512,7 @@ export async function normalizeChunk(input: NormalizeChunkInput): Promise<Normal
             
             metadata: {
               content_type: detectContentType(inputPath),
+              ...documentMetadata,
             },
           };
           
@@ -586,8 +603,7 @@ export async function normalizeChunk(input: NormalizeChunkInput): Promise<Normal
             hierarchy_level: 0, // Non-hierarchical chunks get level 0
             
             source: {
-              type: detectSourceType(inputPath),
-              uri: inputPath,
+              ...source,
               retrieved_at: now(),
               content_hash: docHash,
             },
@@ -606,6 +622,7 @@ export async function normalizeChunk(input: NormalizeChunkInput): Promise<Normal
             
             metadata: {
               content_type: detectContentType(inputPath),
+              ...documentMetadata,
             },
           };
           
@@ -861,7 +878,9 @@ export async function normalizeDedupe(input: NormalizeDedupeInput): Promise<Norm
       kept: string;
       removed: string[];
       method: string;
+      similarities?: number[];   // minhash: exact Jaccard of each removed chunk vs kept
     }> = [];
+    let lshReport: Record<string, number> | undefined;
     
     // Track seen content
     const seen = new Map<string, DocumentChunk>();
@@ -932,6 +951,32 @@ export async function normalizeDedupe(input: NormalizeDedupeInput): Promise<Norm
           uniqueChunks.push(chunk);
         }
       }
+    } else if (input.method === "minhash") {
+      // MinHash + LSH banding; candidates are verified with exact shingle Jaccard
+      const result = findNearDuplicates(
+        chunks.map(chunk => ({
+          id: chunk.chunk_id,
+          text: chunk.content.text,
+          partition: input.scope === "per_document" ? chunk.doc_id : undefined,
+        })),
+        input.similarity_threshold
+      );
+      
+      const keptIds = new Set(result.kept);
+      uniqueChunks.push(...chunks.filter(chunk => keptIds.has(chunk.chunk_id)));
+      
+      for (const cluster of result.clusters) {
+        stats.duplicate_groups++;
+        stats.duplicates_removed += cluster.dropped.length;
+        duplicateReport.push({
+          kept: cluster.kept,
+          removed: cluster.dropped.map(d => d.id),
+          method: "minhash",
+          similarities: cluster.dropped.map(d => d.jaccard),
+        });
+      }
+      
+      lshReport = { ...result.params, candidates_checked: result.candidates_checked };
     }
     
     stats.output_chunks = uniqueChunks.length;
@@ -947,6 +992,7 @@ export async function normalizeDedupe(input: NormalizeDedupeInput): Promise<Norm
       method: input.method,
       scope: input.scope,
       threshold: input.similarity_threshold,
+      lsh: lshReport,
       stats,
       groups: duplicateReport,
     });
@@ -968,6 +1014,52 @@ export async function normalizeDedupe(input: NormalizeDedupeInput): Promise<Norm
 // Helper Functions
 // ============================================================================
 
+/**
+ * Load the extraction report written next to an extracted text file
+ * (extracted/<hash>.txt → extracted/<hash>.report.json), if present.
+ */
+async function readExtractionReport(textPath: string): Promise<ExtractionReport | null> {
+  const reportPath = textPath.replace(/\.(txt|md)$/, ".report.json");
+  if (reportPath === textPath || !await pathExists(reportPath)) {
+    return null;
+  }
+  return readJson<ExtractionReport>(reportPath).catch(() => null);
+}
+
+/**
+ * Load repository provenance from a raw manifest, keyed by raw content hash
+ * (which extractors use to name their output). Later entries win.
+ */
+async function loadRepoArtifacts(manifestPath: string): Promise<Map<string, RepoProvenance>> {
+  const artifacts = new Map<string, RepoProvenance>();
+  if (!await pathExists(manifestPath)) {
+    return artifacts;
+  }
+  for (const artifact of await readJsonl<RawArtifact>(manifestPath)) {
+    if (artifact.repo) artifacts.set(artifact.sha256, artifact.repo);
+  }
+  return artifacts;
+}
+
+/**
+ * Map document properties from an extraction report to chunk metadata.
+ * Title goes to metadata.title; author and modified go to metadata.custom.
+ */
+function extractionMetadata(report: ExtractionReport | null): Partial<DocumentChunk["metadata"]> {
+  const props = report?.document_properties;
+  if (!props) return {};
+  
+  const metadata: Partial<DocumentChunk["metadata"]> = {};
+  if (props.title) metadata.title = props.title;
+  
+  const custom: Record<string, unknown> = {};
+  if (props.author) custom.author = props.author;
+  if (props.modified) custom.modified = props.modified;
+  if (Object.keys(custom).length > 0) metadata.custom = custom;
+  
+  return metadata;
+}
+
 function detectSourceType(filePath: string): DocumentChunk["source"]["type"] {
   const ext = path.extname(filePath).toLowerCase();
   const mapping: Record<string, DocumentChunk["source"]["type"]> = {
@@ -0,0 +1,374 @@
+/**
+ * IndexFoundry-MCP: PDF Page Extraction with OCR
+ *
+ * Extracts text page by page using the pdf.js build bundled with pdf-parse,
+ * and runs tesseract.js OCR on pages whose text layer is empty (or on every
+ * page in "ocr" mode).
+ *
+ * Pages are rasterized from their embedded image XObjects: scanned PDFs
+ * store each page as one (or a few) full-page images, which are decoded by
+ * pdf.js and handed to tesseract as grayscale PGM bitmaps at their native
+ * scan resolution. Vector-only pages without a text layer have nothing to
+ * rasterize and are reported in warnings.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+import { createRequire } from "module";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const OCR_ENGINE = "tesseract.js@7";
+
+/** pdf.js build shipped inside pdf-parse (same one pdf-parse uses by default) */
+const PDFJS_BUILD = "pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js";
+
+/** pdf.js ImageKind values */
+const IMAGE_KIND_GRAYSCALE_1BPP = 1;
+const IMAGE_KIND_RGB_24BPP = 2;
+const IMAGE_KIND_RGBA_32BPP = 3;
+
+/** Images smaller than this (in either dimension) are logos/bullets, not scans */
+const MIN_OCR_IMAGE_DIMENSION = 32;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OcrResult {
+  text: string;
+  /** Recognition confidence in [0, 1] */
+  confidence: number;
+}
+
+/**
+ * OCR function signature for dependency injection (testing).
+ * Receives a binary PGM image and a tesseract language code.
+ */
+export type OcrRecognizer = (image: Buffer, language: string) => Promise<OcrResult>;
+
+export interface PdfPageText {
+  page: number;
+  text: string;
+  ocr_used: boolean;
+  confidence?: number;
+}
+
+export interface ExtractPdfPagesOptions {
+  /** "ocr" OCRs every page; other modes OCR only pages with an empty text layer */
+  mode?: "layout" | "plain" | "ocr";
+  /** Tesseract language code (default: "eng") */
+  language?: string;
+  /** 1-indexed inclusive page range */
+  pageRange?: { start: number; end: number };
+  /** Disable the automatic OCR fallback for empty pages */
+  disableOcrFallback?: boolean;
+  /** @internal Inject a custom OCR engine (for testing) */
+  _recognizer?: OcrRecognizer;
+}
+
+export interface ExtractPdfPagesResult {
+  numpages: number;
+  pages: PdfPageText[];
+  /** Pages where OCR was attempted */
+  ocr_attempted: number;
+  /** Pages where OCR was attempted but produced no text */
+  ocr_failed: number;
+  warnings: string[];
+}
+
+/** Decoded image as produced by pdf.js (data layout depends on kind) */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  kind: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+interface PdfJsPage {
+  getTextContent(): Promise<{ items: Array<{ str: string; transform: number[] }> }>;
+  getOperatorList(): Promise<{ fnArray: number[]; argsArray: unknown[][] }>;
+  objs: { get(id: string): unknown };
+  cleanup(): void;
+}
+
+interface PdfJsDocument {
+  numPages: number;
+  getPage(pageNumber: number): Promise<PdfJsPage>;
+  destroy(): unknown;
+}
+
+interface PdfJsModule {
+  disableWorker: boolean;
+  OPS: Record<string, number>;
+  getDocument(source: { data: Uint8Array; nativeImageDecoderSupport: string }): PromiseLike<PdfJsDocument>;
+}
+
+// ============================================================================
+// pdf.js Helpers
+// ============================================================================
+
+let pdfjs: PdfJsModule | null = null;
+
+function loadPdfJs(): PdfJsModule {
+  if (!pdfjs) {
+    const require = createRequire(import.meta.url);
+    pdfjs = require(PDFJS_BUILD) as PdfJsModule;
+    pdfjs.disableWorker = true;
+  }
+  return pdfjs;
+}
+
+/**
+ * Join text items into lines the same way pdf-parse does (new line whenever
+ * the baseline y-coordinate changes).
+ */
+async function pageTextLayer(page: PdfJsPage): Promise<string> {
+  const content = await page.getTextContent();
+  let text = "";
+  let lastY: number | undefined;
+
+  for (const item of content.items) {
+    const y = item.transform[5];
+    text += lastY === undefined || lastY === y ? item.str : "\n" + item.str;
+    lastY = y;
+  }
+
+  return text;
+}
+
+/**
+ * Collect decoded images painted on a page, in paint order.
+ */
+async function pageImages(page: PdfJsPage, ops: Record<string, number>): Promise<DecodedImage[]> {
+  const operatorList = await page.getOperatorList();
+  const images: DecodedImage[] = [];
+
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const fn = operatorList.fnArray[i];
+    const args = operatorList.argsArray[i];
+    let image: unknown;
+
+    if (fn === ops.paintImageXObject || fn === ops.paintJpegXObject) {
+      try {
+        image = page.objs.get(args[0] as string);
+      } catch {
+        continue; // Not resolved (e.g. unsupported encoding)
+      }
+    } else if (fn === ops.paintInlineImageXObject) {
+      image = args[0];
+    } else {
+      continue;
+    }
+
+    const candidate = image as Partial<DecodedImage> | undefined;
+    if (
+      candidate?.data &&
+      typeof candidate.width === "number" &&
+      typeof candidate.height === "number" &&
+      candidate.width >= MIN_OCR_IMAGE_DIMENSION &&
+      candidate.height >= MIN_OCR_IMAGE_DIMENSION
+    ) {
+      images.push(candidate as DecodedImage);
+    }
+  }
+
+  return images;
+}
+
+/**
+ * Convert a decoded pdf.js image to a binary PGM (P5) grayscale bitmap,
+ * a format Leptonica (and therefore tesseract) reads natively.
+ */
+export function imageToPgm(image: DecodedImage): Buffer {
+  const { width, height, kind, data } = image;
+  const pixels = Buffer.alloc(width * height);
+
+  if (kind === IMAGE_KIND_GRAYSCALE_1BPP) {
+    const rowBytes = Math.ceil(width / 8);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        pixels[y * width + x] = bit ? 255 : 0;
+      }
+    }
+  } else {
+    const channels = kind === IMAGE_KIND_RGBA_32BPP ? 4 : kind === IMAGE_KIND_RGB_24BPP ? 3 : 1;
+    for (let i = 0; i < width * height; i++) {
+      const o = i * channels;
+      pixels[i] = channels === 1
+        ? data[o]
+        : Math.round(0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2]);
+    }
+  }
+
+  return Buffer.concat([Buffer.from(`P5\n${width} ${height}\n255\n`, "ascii"), pixels]);
+}
+
+// ============================================================================
+// OCR Engine
+// ============================================================================
+
+interface OcrSession {
+  recognize: OcrRecognizer;
+  terminate(): Promise<void>;
+}
+
+/**
+ * Lazily start a tesseract.js worker on first use and reuse it for every
+ * page of the document.
+ */
+function createTesseractSession(): OcrSession {
+  let workerPromise: Promise<import("tesseract.js").Worker> | null = null;
+  let workerLanguage = "";
+
+  return {
+    async recognize(image, language) {
+      if (!workerPromise || workerLanguage !== language) {
+        if (workerPromise) await (await workerPromise).terminate();
+        const { createWorker } = await import("tesseract.js");
+        workerLanguage = language;
+        workerPromise = createWorker(language);
+      }
+      const worker = await workerPromise;
+      const { data } = await worker.recognize(image);
+      return { text: data.text, confidence: data.confidence / 100 };
+    },
+    async terminate() {
+      if (workerPromise) {
+        const worker = await workerPromise.catch(() => null);
+        await worker?.terminate();
+        workerPromise = null;
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Extract text from each PDF page, using OCR where the text layer is empty.
+ *
+ * @param buffer - Raw PDF bytes
+ * @param options - Mode, OCR language, page range
+ * @returns Per-page text with OCR usage and confidence
+ * @throws {Error} When the PDF cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * const { pages } = await extractPdfPages(await fs.readFile("scan.pdf"));
+ * const ocrPages = pages.filter(p => p.ocr_used);
+ * ```
+ */
+export async function extractPdfPages(
+  buffer: Buffer,
+  options: ExtractPdfPagesOptions = {}
+): Promise<ExtractPdfPagesResult> {
+  const lib = loadPdfJs();
+  const mode = options.mode ?? "layout";
+  const language = options.language ?? "eng";
+  const session: OcrSession = options._recognizer
+    ? { recognize: options._recognizer, terminate: async () => {} }
+    : createTesseractSession();
+
+  // Copy into a standalone Uint8Array: pooled Node buffers share an
+  // ArrayBuffer with unrelated data, which pdf.js misreads.
+  const doc = await lib.getDocument({
+    data: new Uint8Array(buffer),
+    nativeImageDecoderSupport: "none",
+  });
+
+  const result: ExtractPdfPagesResult = {
+    numpages: doc.numPages,
+    pages: [],
+    ocr_attempted: 0,
+    ocr_failed: 0,
+    warnings: [],
+  };
+  const noImagePages: number[] = [];
+
+  try {
+    const start = Math.max(1, options.pageRange?.start ?? 1);
+    const end = Math.min(doc.numPages, options.pageRange?.end ?? doc.numPages);
+
+    for (let pageNumber = start; pageNumber <= end; pageNumber++) {
+      const page = await doc.getPage(pageNumber);
+      const textLayer = await pageTextLayer(page).catch(() => "");
+      const needsOcr = mode === "ocr" || (!options.disableOcrFallback && textLayer.trim().length === 0);
+
+      let pageText: PdfPageText = { page: pageNumber, text: textLayer, ocr_used: false };
+
+      if (needsOcr) {
+        const images = await pageImages(page, lib.OPS).catch(() => []);
+
+        if (images.length === 0) {
+          noImagePages.push(pageNumber);
+        } else {
+          result.ocr_attempted++;
+          const parts: OcrResult[] = [];
+          for (const image of images) {
+            try {
+              const ocr = await session.recognize(imageToPgm(image), language);
+              if (ocr.text.trim()) parts.push(ocr);
+            } catch (err) {
+              result.warnings.push(`OCR failed on page ${pageNumber}: ${err instanceof Error ? err.message : err}`);
+            }
+          }
+
+          if (parts.length === 0) {
+            result.ocr_failed++;
+          } else {
+            // Character-weighted mean confidence across the page's images
+            const chars = parts.reduce((sum, p) => sum + p.text.length, 0);
+            const confidence = parts.reduce((sum, p) => sum + p.confidence * p.text.length, 0) / chars;
+            pageText = {
+              page: pageNumber,
+              text: parts.map(p => p.text.trim()).join("\n\n"),
+              ocr_used: true,
+              confidence: Math.round(confidence * 1000) / 1000,
+            };
+          }
+        }
+      }
+
+      result.pages.push(pageText);
+      page.cleanup();
+    }
+  } finally {
+    await session.terminate();
+    await doc.destroy();
+  }
+
+  if (noImagePages.length > 0) {
+    result.warnings.push(
+      `No raster images to OCR on page(s) ${noImagePages.join(", ")}`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Extract the full text of a PDF, OCR-ing pages whose text layer is empty.
+ * Convenience wrapper over extractPdfPages for callers that only need text.
+ *
+ * @param buffer - Raw PDF bytes
+ * @param options - Same options as extractPdfPages
+ * @returns Joined page text plus the number of pages that were OCR'd
+ */
+export async function extractPdfTextWithOcr(
+  buffer: Buffer,
+  options: ExtractPdfPagesOptions = {}
+): Promise<{ text: string; numpages: number; ocr_pages: number }> {
+  const result = await extractPdfPages(buffer, options);
+  return {
+    text: result.pages.map(p => p.text.trim()).filter(Boolean).join("\n\n"),
+    numpages: result.numpages,
+    ocr_pages: result.pages.filter(p => p.ocr_used).length,
+  };
+}
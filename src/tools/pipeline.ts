@@ -0,0 +1,608 @@
+/**
+ * IndexFoundry-MCP: Pipeline Orchestration
+ *
+ * Runs the full Connect → Extract → Normalize → Index → Serve pipeline in a
+ * single call, feeding each phase's artifacts into the next and recording
+ * every phase in the run manifest.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+import * as path from "path";
+import { z } from "zod";
+import type {
+  ErrorCode,
+  ErrorRecord,
+  PhaseResult,
+  PipelineResult,
+  RunManifest,
+  ToolError,
+} from "../types.js";
+import {
+  ConnectUrlInputSchema,
+  ConnectSitemapInputSchema,
+  ConnectFolderInputSchema,
+  ConnectPdfInputSchema,
+  ExtractPdfInputSchema,
+  ExtractHtmlInputSchema,
+  ExtractDocumentInputSchema,
+  NormalizeChunkInputSchema,
+  NormalizeEnrichInputSchema,
+  NormalizeDedupeInputSchema,
+  IndexEmbedInputSchema,
+  IndexUpsertInputSchema,
+  ServeStartInputSchema,
+  type PipelineRunInput,
+} from "../schemas.js";
+import {
+  createToolError,
+  generateRunId,
+  now,
+  RunLogger,
+} from "../utils.js";
+import { getRunManager } from "../run-manager.js";
+import { connectUrl, connectSitemap, connectFolder, connectPdf } from "./connect.js";
+import { extractPdf, extractHtml, extractDocument } from "./extract.js";
+import { normalizeChunk, normalizeEnrich, normalizeDedupe } from "./normalize.js";
+import { indexEmbed, indexUpsert } from "./index.js";
+import { serveStart } from "./serve.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type PipelinePhase = keyof RunManifest["phases"];
+
+/**
+ * Mutable bookkeeping handed to each phase body.
+ * Errors recorded here mark the phase as failed in the manifest.
+ */
+interface PhaseContext {
+  errors: ErrorRecord[];
+  inputs: { count: number; hashes: string[] };
+  outputs: { count: number; hashes: string[] };
+}
+
+interface PhaseOutcome<T> {
+  value: T;
+  result: PhaseResult;
+}
+
+interface RawArtifactRef {
+  path: string;
+  sha256: string;
+}
+
+/**
+ * Code recorded for an exception thrown inside a phase body. Schema failures
+ * on a phase's tool input are reported as CONFIG_INVALID instead.
+ */
+const PHASE_ERROR_CODES: Record<PipelinePhase, ErrorCode> = {
+  connect: "FETCH_FAILED",
+  extract: "PARSE_ERROR",
+  normalize: "CHUNK_ERROR",
+  index: "EMBED_ERROR",
+  serve: "SERVE_FAILED",
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isToolError(result: unknown): result is ToolError {
+  return typeof result === "object" && result !== null && "isError" in result;
+}
+
+function toErrorRecord(error: ToolError): ErrorRecord {
+  return {
+    timestamp: now(),
+    code: error.code,
+    message: error.message,
+    details: error.details,
+    recoverable: error.recoverable,
+  };
+}
+
+function exceptionRecord(code: ToolError["code"], err: unknown, details?: unknown): ErrorRecord {
+  return {
+    timestamp: now(),
+    code,
+    message: err instanceof Error ? err.message : String(err),
+    details,
+    recoverable: false,
+  };
+}
+
+function skippedPhase(): PhaseResult {
+  return { status: "skipped", duration_ms: 0, artifacts_created: 0, errors: [] };
+}
+
+/**
+ * Execute one pipeline phase, recording start/completion in the run manifest.
+ * Exceptions thrown by the body are captured as phase errors rather than
+ * aborting the whole pipeline, so partial results are always returned.
+ */
+async function executePhase<T>(
+  runId: string,
+  phase: PipelinePhase,
+  logger: RunLogger,
+  fallback: T,
+  body: (ctx: PhaseContext) => Promise<T>
+): Promise<PhaseOutcome<T>> {
+  const manager = getRunManager();
+  const startTime = Date.now();
+  const ctx: PhaseContext = {
+    errors: [],
+    inputs: { count: 0, hashes: [] },
+    outputs: { count: 0, hashes: [] },
+  };
+
+  await manager.startPhase(runId, phase);
+  await logger.info(phase, "pipeline_run", `Phase ${phase} started`);
+
+  let value = fallback;
+  try {
+    value = await body(ctx);
+  } catch (err) {
+    const code = err instanceof z.ZodError ? "CONFIG_INVALID" : PHASE_ERROR_CODES[phase];
+    ctx.errors.push(exceptionRecord(code, err, { phase }));
+  }
+
+  await manager.completePhase(runId, phase, {
+    inputs: ctx.inputs,
+    outputs: ctx.outputs,
+    errors: ctx.errors,
+  });
+
+  for (const error of ctx.errors) {
+    await logger.error(phase, "pipeline_run", error.message, error.details);
+  }
+  await logger.info(phase, "pipeline_run", `Phase ${phase} finished`, {
+    outputs: ctx.outputs.count,
+    errors: ctx.errors.length,
+  });
+
+  return {
+    value,
+    result: {
+      status: ctx.errors.length > 0 ? "failed" : "completed",
+      duration_ms: Date.now() - startTime,
+      artifacts_created: ctx.outputs.count,
+      errors: ctx.errors.map(e => e.message),
+    },
+  };
+}
+
+// ============================================================================
+// Phase Bodies
+// ============================================================================
+
+async function runConnect(
+  runId: string,
+  input: PipelineRunInput,
+  ctx: PhaseContext
+): Promise<RawArtifactRef[]> {
+  const artifacts = new Map<string, RawArtifactRef>();
+  const add = (ref: RawArtifactRef) => artifacts.set(ref.path, ref);
+
+  ctx.inputs.count = input.connect.sources.length;
+
+  for (const source of input.connect.sources) {
+    try {
+      switch (source.type) {
+        case "url": {
+          const result = await connectUrl(ConnectUrlInputSchema.parse({
+            run_id: runId,
+            url: source.url,
+            allowed_domains: input.connect.allowed_domains,
+            force: input.force,
+          }));
+          if (isToolError(result)) {
+            ctx.errors.push(toErrorRecord(result));
+          } else {
+            add({ path: result.artifact.path, sha256: result.artifact.sha256 });
+          }
+          break;
+        }
+        case "sitemap": {
+          const result = await connectSitemap(ConnectSitemapInputSchema.parse({
+            run_id: runId,
+            sitemap_url: source.url,
+            max_pages: source.max_pages,
+            allowed_domains: input.connect.allowed_domains,
+            force: input.force,
+          }));
+          if (isToolError(result)) {
+            ctx.errors.push(toErrorRecord(result));
+          } else {
+            result.artifacts.forEach(a => add({ path: a.path, sha256: a.sha256 }));
+            for (const e of result.errors) {
+              ctx.errors.push(exceptionRecord("FETCH_FAILED", e.error, { url: e.url }));
+            }
+          }
+          break;
+        }
+        case "folder": {
+          const result = await connectFolder(ConnectFolderInputSchema.parse({
+            run_id: runId,
+            path: source.path,
+            glob: source.glob,
+            force: input.force,
+          }));
+          if (isToolError(result)) {
+            ctx.errors.push(toErrorRecord(result));
+          } else {
+            result.artifacts.forEach(a => add({ path: a.path, sha256: a.sha256 }));
+            for (const e of result.errors) {
+              ctx.errors.push(exceptionRecord("FETCH_FAILED", e.error, { path: e.path }));
+            }
+          }
+          break;
+        }
+        case "pdf": {
+          const result = await connectPdf(ConnectPdfInputSchema.parse({
+            run_id: runId,
+            source: source.source,
+            force: input.force,
+          }));
+          if (isToolError(result)) {
+            ctx.errors.push(toErrorRecord(result));
+          } else {
+            add({ path: result.artifact.path, sha256: result.artifact.sha256 });
+          }
+          break;
+        }
+      }
+    } catch (err) {
+      ctx.errors.push(exceptionRecord("INVALID_INPUT", err, { source }));
+    }
+  }
+
+  const refs = [...artifacts.values()];
+  ctx.outputs = { count: refs.length, hashes: refs.map(r => r.sha256) };
+  return refs;
+}
+
+async function runExtract(
+  runId: string,
+  input: PipelineRunInput,
+  artifacts: RawArtifactRef[],
+  ctx: PhaseContext
+): Promise<string[]> {
+  const textPaths: string[] = [];
+  const pdfMode = input.extract?.pdf_mode ?? "layout";
+  const preserveHeadings = input.extract?.preserve_headings ?? true;
+
+  ctx.inputs = { count: artifacts.length, hashes: artifacts.map(a => a.sha256) };
+
+  for (const artifact of artifacts) {
+    const ext = path.extname(artifact.path).toLowerCase();
+    try {
+      if (ext === ".pdf") {
+        const result = await extractPdf(ExtractPdfInputSchema.parse({
+          run_id: runId,
+          pdf_path: artifact.path,
+          mode: pdfMode,
+          force: input.force,
+        }));
+        if (isToolError(result)) {
+          ctx.errors.push(toErrorRecord(result));
+        } else if (result.artifacts.full_text) {
+          textPaths.push(result.artifacts.full_text);
+        }
+      } else if (ext === ".html" || ext === ".htm") {
+        const result = await extractHtml(ExtractHtmlInputSchema.parse({
+          run_id: runId,
+          html_path: artifact.path,
+          preserve_headings: preserveHeadings,
+          force: input.force,
+        }));
+        if (isToolError(result)) {
+          ctx.errors.push(toErrorRecord(result));
+        } else {
+          textPaths.push(result.artifacts.text_file);
+        }
+      } else {
+        const result = await extractDocument(ExtractDocumentInputSchema.parse({
+          run_id: runId,
+          doc_path: artifact.path,
+          force: input.force,
+        }));
+        if (isToolError(result)) {
+          ctx.errors.push(toErrorRecord(result));
+        } else {
+          textPaths.push(result.artifacts.text_file);
+        }
+      }
+    } catch (err) {
+      ctx.errors.push(exceptionRecord("PARSE_ERROR", err, { path: artifact.path }));
+    }
+  }
+
+  ctx.outputs = {
+    count: textPaths.length,
+    hashes: textPaths.map(p => path.basename(p).split(".")[0]),
+  };
+  return textPaths;
+}
+
+async function runNormalize(
+  runId: string,
+  input: PipelineRunInput,
+  textPaths: string[],
+  ctx: PhaseContext
+): Promise<{ chunksPath: string; chunkCount: number } | null> {
+  ctx.inputs = {
+    count: textPaths.length,
+    hashes: textPaths.map(p => path.basename(p).split(".")[0]),
+  };
+
+  const chunked = await normalizeChunk(NormalizeChunkInputSchema.parse({
+    run_id: runId,
+    input_paths: textPaths,
+    strategy: input.normalize?.chunk_strategy,
+    max_chars: input.normalize?.max_chars,
+    overlap_chars: input.normalize?.overlap_chars,
+    force: input.force,
+  }));
+  if (isToolError(chunked)) {
+    ctx.errors.push(toErrorRecord(chunked));
+    return null;
+  }
+
+  let chunksPath = chunked.output_path;
+  let chunkCount = chunked.stats.chunks_created;
+
+  if (input.normalize?.detect_language ?? true) {
+    const enriched = await normalizeEnrich(NormalizeEnrichInputSchema.parse({
+      run_id: runId,
+      chunks_path: chunksPath,
+      rules: { detect_language: true },
+      force: input.force,
+    }));
+    if (isToolError(enriched)) {
+      ctx.errors.push(toErrorRecord(enriched));
+    } else {
+      chunksPath = enriched.output_path;
+    }
+  }
+
+  if (input.normalize?.dedupe ?? true) {
+    const deduped = await normalizeDedupe(NormalizeDedupeInputSchema.parse({
+      run_id: runId,
+      chunks_path: chunksPath,
+      force: input.force,
+    }));
+    if (isToolError(deduped)) {
+      ctx.errors.push(toErrorRecord(deduped));
+    } else {
+      chunksPath = deduped.output_path;
+      chunkCount = deduped.stats.output_chunks;
+    }
+  }
+
+  ctx.outputs = { count: chunkCount, hashes: [] };
+  return { chunksPath, chunkCount };
+}
+
+async function runIndex(
+  runId: string,
+  input: PipelineRunInput,
+  chunksPath: string,
+  ctx: PhaseContext
+): Promise<number> {
+  ctx.inputs = { count: 1, hashes: [] };
+
+  const embedded = await indexEmbed(IndexEmbedInputSchema.parse({
+    run_id: runId,
+    chunks_path: chunksPath,
+    model: {
+      provider: input.index.embedding_provider,
+      model_name: input.index.embedding_model,
+      base_url: input.index.embedding_base_url,
+    },
+    force: input.force,
+  }));
+  if (isToolError(embedded)) {
+    ctx.errors.push(toErrorRecord(embedded));
+    return 0;
+  }
+  ctx.inputs.count = embedded.stats.chunks_processed;
+
+  const { vector_db } = input.index;
+  const upsertInput = IndexUpsertInputSchema.parse({
+    run_id: runId,
+    embeddings_path: embedded.output_path,
+    chunks_path: chunksPath,
+    provider: vector_db.provider,
+    connection: { ...vector_db.connection, collection: vector_db.collection },
+    force: input.force,
+  });
+  let upserted: Awaited<ReturnType<typeof indexUpsert>>;
+  try {
+    upserted = await indexUpsert(upsertInput);
+  } catch (err) {
+    // Exceptions past embedding come from the vector store, not the embedder
+    ctx.errors.push(exceptionRecord("DB_ERROR", err, { provider: vector_db.provider }));
+    return 0;
+  }
+  if (isToolError(upserted)) {
+    ctx.errors.push(toErrorRecord(upserted));
+    return 0;
+  }
+
+  const indexed = upserted.stats.vectors_inserted + upserted.stats.vectors_updated;
+  ctx.outputs = { count: indexed, hashes: [] };
+  return indexed;
+}
+
+async function runServe(
+  runId: string,
+  input: PipelineRunInput,
+  ctx: PhaseContext
+): Promise<string | undefined> {
+  const result = await serveStart(ServeStartInputSchema.parse({
+    run_id: runId,
+    port: input.serve?.port,
+  }));
+  if (isToolError(result)) {
+    ctx.errors.push(toErrorRecord(result));
+    return undefined;
+  }
+  if (!result.success) {
+    ctx.errors.push(exceptionRecord("SERVE_FAILED", result.message));
+    return undefined;
+  }
+
+  ctx.outputs = { count: 1, hashes: [] };
+  return result.endpoint;
+}
+
+// ============================================================================
+// Pipeline Run
+// ============================================================================
+
+/**
+ * Run every pipeline phase end to end for a single run.
+ *
+ * Each phase's outputs become the next phase's inputs: raw artifacts feed
+ * extraction, extracted text feeds chunking, and the final (enriched and
+ * deduplicated) chunk file feeds embedding and upsert. A phase that records
+ * any error is marked failed; with `stop_on_error` the remaining phases are
+ * skipped, otherwise the pipeline continues with whatever was produced.
+ *
+ * @param input - Pipeline configuration (sources, phase options, index target)
+ * @returns Per-phase results and run summary; status is "partial" when some
+ *   vectors were indexed despite errors and "failed" when none were
+ *
+ * @example
+ * ```typescript
+ * const result = await pipelineRun({
+ *   connect: { sources: [{ type: "folder", path: "./docs" }] },
+ *   index: {
+ *     embedding_model: "text-embedding-3-small",
+ *     embedding_provider: "openai",
+ *     vector_db: { provider: "local", collection: "docs" },
+ *   },
+ *   force: false,
+ *   stop_on_error: true,
+ * });
+ * ```
+ */
+export async function pipelineRun(input: PipelineRunInput): Promise<PipelineResult | ToolError> {
+  const manager = getRunManager();
+  const startTime = Date.now();
+  const runId = input.run_id ?? generateRunId();
+
+  let runDir: string;
+  let logger: RunLogger;
+  try {
+    await manager.ensureRun(runId);
+    ({ runDir, logger } = await manager.getRun(runId));
+  } catch (err) {
+    return createToolError("RUN_NOT_FOUND", `Failed to initialize run: ${err}`, {
+      details: { run_id: runId },
+      recoverable: false,
+    });
+  }
+
+  const phases: PipelineResult["phases"] = {
+    connect: skippedPhase(),
+    extract: skippedPhase(),
+    normalize: skippedPhase(),
+    index: skippedPhase(),
+  };
+  let halted = false;
+  const haltAfter = (result: PhaseResult, producedOutput: boolean) => {
+    if (!producedOutput || (result.status === "failed" && input.stop_on_error)) {
+      halted = true;
+    }
+  };
+
+  // Phase 1: Connect
+  const connect = await executePhase(runId, "connect", logger, [] as RawArtifactRef[],
+    ctx => runConnect(runId, input, ctx));
+  phases.connect = connect.result;
+  haltAfter(connect.result, connect.value.length > 0);
+
+  // Phase 2: Extract
+  let textPaths: string[] = [];
+  if (!halted) {
+    const extract = await executePhase(runId, "extract", logger, [] as string[],
+      ctx => runExtract(runId, input, connect.value, ctx));
+    phases.extract = extract.result;
+    textPaths = extract.value;
+    haltAfter(extract.result, textPaths.length > 0);
+  }
+
+  // Phase 3: Normalize
+  let chunks: { chunksPath: string; chunkCount: number } | null = null;
+  if (!halted) {
+    const normalize = await executePhase(runId, "normalize", logger, null,
+      ctx => runNormalize(runId, input, textPaths, ctx));
+    phases.normalize = normalize.result;
+    chunks = normalize.value;
+    haltAfter(normalize.result, (chunks?.chunkCount ?? 0) > 0);
+  }
+
+  // Phase 4: Index
+  let vectorsIndexed = 0;
+  if (!halted && chunks) {
+    const chunksPath = chunks.chunksPath;
+    const index = await executePhase(runId, "index", logger, 0,
+      ctx => runIndex(runId, input, chunksPath, ctx));
+    phases.index = index.result;
+    vectorsIndexed = index.value;
+    haltAfter(index.result, vectorsIndexed > 0);
+  }
+
+  // Phase 5: Serve (optional)
+  let retrievalEndpoint: string | undefined;
+  if (input.serve?.auto_start) {
+    if (halted) {
+      phases.serve = skippedPhase();
+    } else {
+      const serve = await executePhase(runId, "serve", logger, undefined as string | undefined,
+        ctx => runServe(runId, input, ctx));
+      phases.serve = serve.result;
+      retrievalEndpoint = serve.value;
+    }
+  }
+
+  // Summarize
+  const allPhases = Object.values(phases).filter((p): p is PhaseResult => p !== undefined);
+  const errorCount = allPhases.reduce((sum, p) => sum + p.errors.length, 0);
+  const failed = allPhases.some(p => p.status === "failed");
+  const status: PipelineResult["status"] =
+    vectorsIndexed === 0 ? "failed" : failed ? "partial" : "completed";
+
+  await manager.updateManifest(runId, {
+    totals: {
+      sources_fetched: connect.value.length,
+      documents_extracted: textPaths.length,
+      chunks_created: chunks?.chunkCount ?? 0,
+      vectors_indexed: vectorsIndexed,
+      errors_encountered: errorCount,
+    },
+  });
+  await manager.completeRun(runId, status);
+  await logger.info("pipeline", "pipeline_run", `Pipeline ${status}`, {
+    vectors_indexed: vectorsIndexed,
+    errors: errorCount,
+  });
+
+  return {
+    run_id: runId,
+    status,
+    manifest_path: path.join(runDir, "manifest.json"),
+    phases,
+    summary: {
+      sources_fetched: connect.value.length,
+      chunks_indexed: vectorsIndexed,
+      duration_ms: Date.now() - startTime,
+      errors: errorCount,
+    },
+    retrieval_endpoint: retrievalEndpoint,
+  };
+}
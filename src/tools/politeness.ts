@@ -0,0 +1,310 @@
+/**
+ * IndexFoundry-MCP: Polite Fetching
+ *
+ * robots.txt compliance and per-host politeness for outbound page fetches:
+ * robots.txt is fetched and cached per origin and evaluated for our user
+ * agent, requests to one host are spaced by the configured delay (or the
+ * site's Crawl-delay), and 429/503 responses are retried with exponential
+ * backoff honoring Retry-After.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Cached robots.txt rules are refetched after a day (RFC 9309 §2.4) */
+const ROBOTS_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** robots.txt files are only parsed up to 500 KiB (RFC 9309 §2.5) */
+const ROBOTS_MAX_BYTES = 500 * 1024;
+
+/** Responses that ask us to slow down */
+const RETRYABLE_STATUSES = new Set([429, 503]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PolitenessOptions {
+  /** Sent with every request; its product token selects the robots.txt group */
+  user_agent: string;
+  respect_robots_txt: boolean;
+  /** Minimum gap between requests to one host; a larger Crawl-delay wins */
+  host_delay_ms: number;
+  /** Retries after a 429/503 response */
+  max_retries: number;
+  /** First backoff when the response has no Retry-After; doubles per retry */
+  retry_base_ms: number;
+  /** Longest single wait; a longer Retry-After ends the retries */
+  max_retry_wait_ms: number;
+}
+
+export interface RobotsRules {
+  rules: Array<{ allow: boolean; pattern: string }>;
+  crawl_delay_ms?: number;
+}
+
+/**
+ * A URL robots.txt does not allow our user agent to fetch.
+ */
+export class RobotsDisallowedError extends Error {
+  constructor(public readonly url: string, public readonly robots_url: string) {
+    super(`Disallowed by ${robots_url}: ${url}`);
+    this.name = "RobotsDisallowedError";
+  }
+}
+
+// ============================================================================
+// robots.txt
+// ============================================================================
+
+/**
+ * Product token of a User-Agent header, lowercased
+ * ("IndexFoundry/1.0 (bot)" → "indexfoundry").
+ */
+export function productToken(userAgent: string): string {
+  return userAgent.trim().split(/[\/\s]/)[0].toLowerCase();
+}
+
+/**
+ * Parse robots.txt and keep the rules for one user agent: the groups naming
+ * its product token, or the `*` groups when none do.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const token = productToken(userAgent);
+  const groups: Array<{ agents: string[]; rules: RobotsRules["rules"]; crawl_delay_ms?: number }> = [];
+  let current: (typeof groups)[number] | null = null;
+  let inAgentLines = false;
+
+  for (const rawLine of text.slice(0, ROBOTS_MAX_BYTES).split(/\r?\n|\r/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    const key = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (key === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!current || !inAgentLines) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      inAgentLines = true;
+      continue;
+    }
+
+    inAgentLines = false;
+    if (!current) continue;
+    if ((key === "allow" || key === "disallow") && value) {
+      current.rules.push({ allow: key === "allow", pattern: value });
+    } else if (key === "crawl-delay") {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawl_delay_ms = seconds * 1000;
+    }
+  }
+
+  let matched = groups.filter(g => g.agents.includes(token));
+  if (matched.length === 0) matched = groups.filter(g => g.agents.includes("*"));
+
+  const delays = matched.map(g => g.crawl_delay_ms).filter((d): d is number => d !== undefined);
+  return {
+    rules: matched.flatMap(g => g.rules),
+    crawl_delay_ms: delays.length > 0 ? Math.max(...delays) : undefined,
+  };
+}
+
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Evaluate rules for a URL: the longest matching pattern wins and allow
+ * wins ties. URLs no rule matches are allowed.
+ */
+export function isAllowedByRobots(robots: RobotsRules, url: string): boolean {
+  const parsed = new URL(url);
+  const target = parsed.pathname + parsed.search;
+  if (parsed.pathname === "/robots.txt") return true;
+
+  let best: { allow: boolean; length: number } | null = null;
+  for (const rule of robots.rules) {
+    if (!robotsPatternToRegExp(rule.pattern).test(target)) continue;
+    const length = rule.pattern.length;
+    if (!best || length > best.length || (length === best.length && rule.allow)) {
+      best = { allow: rule.allow, length };
+    }
+  }
+  return best?.allow ?? true;
+}
+
+// ============================================================================
+// Retry-After
+// ============================================================================
+
+/**
+ * Milliseconds to wait from a Retry-After header (delta seconds or an HTTP
+ * date), or null when absent or unparseable.
+ */
+export function parseRetryAfter(header: string | null, nowMs: number = Date.now()): number | null {
+  if (!header) return null;
+  const value = header.trim();
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - nowMs);
+}
+
+// ============================================================================
+// Polite Fetcher
+// ============================================================================
+
+interface HostState {
+  /** Earliest start time for the next request to this host */
+  next_slot: number;
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Fetcher that checks robots.txt and spaces requests per host. State is
+ * shared by every caller of the same instance, so concurrent connectors
+ * still take turns on a host.
+ *
+ * @example
+ * ```typescript
+ * const response = await politeFetcher.fetch(url, { timeout_ms: 30000 }, options);
+ * ```
+ */
+export class PoliteFetcher {
+  private readonly robots = new Map<string, { fetched_at: number; rules: Promise<RobotsRules> }>();
+  private readonly hosts = new Map<string, HostState>();
+
+  /**
+   * Rules for a URL's origin, fetched once per day. A missing robots.txt
+   * (4xx) allows everything; a server error (5xx) disallows everything
+   * (RFC 9309 §2.3.1). Network errors allow, so the page fetch reports them.
+   */
+  async robotsFor(url: string, options: PolitenessOptions): Promise<RobotsRules> {
+    const origin = new URL(url).origin;
+    const key = `${origin} ${productToken(options.user_agent)}`;
+    const cached = this.robots.get(key);
+    if (cached && Date.now() - cached.fetched_at < ROBOTS_CACHE_TTL_MS) {
+      return cached.rules;
+    }
+
+    const rules = (async (): Promise<RobotsRules> => {
+      try {
+        const response = await fetch(`${origin}/robots.txt`, {
+          headers: { "User-Agent": options.user_agent },
+          signal: AbortSignal.timeout(10000),
+        });
+        if (response.status >= 500) {
+          return { rules: [{ allow: false, pattern: "/" }] };
+        }
+        if (!response.ok) {
+          return { rules: [] };
+        }
+        return parseRobotsTxt(await response.text(), options.user_agent);
+      } catch {
+        return { rules: [] };
+      }
+    })();
+    this.robots.set(key, { fetched_at: Date.now(), rules });
+    return rules;
+  }
+
+  /**
+   * Whether robots.txt allows fetching a URL (always true when
+   * respect_robots_txt is off).
+   */
+  async isAllowed(url: string, options: PolitenessOptions): Promise<boolean> {
+    if (!options.respect_robots_txt) return true;
+    return isAllowedByRobots(await this.robotsFor(url, options), url);
+  }
+
+  /**
+   * Fetch a URL politely. Throws RobotsDisallowedError when robots.txt
+   * disallows it. After the last retry the 429/503 response is returned.
+   * The timeout covers each attempt, not the wait for the host's turn.
+   */
+  async fetch(
+    url: string,
+    request: { headers?: Record<string, string>; timeout_ms?: number },
+    options: PolitenessOptions
+  ): Promise<Response> {
+    let delayMs = options.host_delay_ms;
+    if (options.respect_robots_txt) {
+      const robots = await this.robotsFor(url, options);
+      if (!isAllowedByRobots(robots, url)) {
+        throw new RobotsDisallowedError(url, `${new URL(url).origin}/robots.txt`);
+      }
+      delayMs = Math.max(delayMs, robots.crawl_delay_ms ?? 0);
+    }
+
+    const host = new URL(url).host;
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForSlot(host, delayMs);
+      const controller = new AbortController();
+      const timeout = request.timeout_ms ? setTimeout(() => controller.abort(), request.timeout_ms) : undefined;
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          headers: { "User-Agent": options.user_agent, ...request.headers },
+          signal: controller.signal,
+        });
+      } finally {
+        clearTimeout(timeout);
+      }
+      if (!RETRYABLE_STATUSES.has(response.status) || attempt >= options.max_retries) {
+        return response;
+      }
+
+      const waitMs = parseRetryAfter(response.headers.get("retry-after"))
+        ?? options.retry_base_ms * 2 ** attempt;
+      if (waitMs > options.max_retry_wait_ms) {
+        return response;
+      }
+      await response.body?.cancel();
+
+      // The whole host backs off, not just this request
+      const state = this.hostState(host);
+      state.next_slot = Math.max(state.next_slot, Date.now() + waitMs);
+    }
+  }
+
+  /** Forget cached robots.txt rules and host timings */
+  clear(): void {
+    this.robots.clear();
+    this.hosts.clear();
+  }
+
+  private hostState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { next_slot: 0 };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  /** Reserve the host's next request slot and wait for it */
+  private async waitForSlot(host: string, delayMs: number): Promise<void> {
+    const state = this.hostState(host);
+    const slot = Math.max(Date.now(), state.next_slot);
+    state.next_slot = slot + delayMs;
+    if (slot > Date.now()) {
+      await sleep(slot - Date.now());
+    }
+  }
+}
+
+/** Fetcher shared by the connect tools and project builds */
+export const politeFetcher = new PoliteFetcher();
@@ -24,17 +24,63 @@ import { existsSync } from "fs";
 // ESM __dirname equivalent
 const __filename = fileURLToPath(import.meta.url);
 const __toolsDir = pathDirname(__filename);
-import { v4 as uuidv4 } from "uuid";
-import pdfParse from "pdf-parse";
+import { v4 as uuidv4, v5 as uuidv5 } from "uuid";
 import { extractTextFromResponse } from "./binary-handler.js";
+import { politeFetcher, RobotsDisallowedError } from "./politeness.js";
+import { openHttpCache, conditionalHeaders, responseValidators, type HttpCache, type HttpCacheEntry } from "./http-cache.js";
+import { extractPdfTextWithOcr } from "./pdf-ocr.js";
+import { extractPdf, extractHtml, extractDocument } from "./extract.js";
+import { resolveRepoPath, resolveCommit, listRepoFiles, readRepoBlob, selectRepoFiles } from "./git-repo.js";
+import { RunManager, getRunManager } from "../run-manager.js";
+import { ExtractPdfInputSchema, ExtractHtmlInputSchema, ExtractDocumentInputSchema } from "../schemas.js";
+import { embedLocal, LOCAL_EMBEDDING_DEFAULT_DIMENSIONS } from "./local-embedding.js";
+import {
+  requestEmbeddings,
+  isRemoteEmbeddingProvider,
+  EmbeddingHttpError,
+  OPENAI_DEFAULT_BASE_URL,
+  OLLAMA_DEFAULT_BASE_URL,
+  type EmbeddingEndpointConfig,
+} from "./embedding-endpoints.js";
+import {
+  Bm25Index,
+  loadBm25IndexFor,
+  saveBm25Index,
+  BM25_K1,
+  BM25_B,
+  BM25_INDEX_VERSION,
+} from "./bm25.js";
+import { compileFilter, matchesFilter, getFieldPath, type FilterNode } from "./filters.js";
+import {
+  recordStep,
+  compareResults,
+  generateDiagnostics,
+  exportReport,
+  type DebugQueryResult,
+  type DebugResultItem,
+  type DebugTraceStep,
+} from "./debug.js";
+import { createReranker, rerankCandidates } from "./rerank.js";
+import { mmrPoolSize, mmrSelect, MMR_DEFAULT_LAMBDA, MMR_POOL_MULTIPLIER, type MmrOptions } from "./mmr.js";
+import {
+  fuseHybrid,
+  detectAnchorTerms,
+  applyAnchorBoost,
+  resolveRetrievalSettings,
+  DEFAULT_RETRIEVAL_SETTINGS,
+  type RetrievalSettings,
+  type ScoredChunk,
+} from "./fusion.js";
 import {
   ProjectCreateInput,
   ProjectListInput,
   ProjectGetInput,
+  ProjectSetRetrievalInput,
   ProjectDeleteInput,
   ProjectAddSourceInput,
   ProjectBuildInput,
   ProjectQueryInput,
+  ProjectDebugQueryInput,
   ProjectExportInput,
   ProjectDeployInput,
   ProjectServeInput,
@@ -95,8 +141,8 @@ const RATE_LIMIT_DELAY_MS = 100;
 /** Cost per 1M tokens for text-embedding-3-small */
 const EMBEDDING_COST_PER_1M_TOKENS = 0.02;
 
-/** Reciprocal Rank Fusion constant - standard value for balancing keyword and semantic search */
-export const RRF_CONSTANT = 60;
+/** Default Reciprocal Rank Fusion constant; projects can override it with retrieval.rrf_k */
+export const RRF_CONSTANT = DEFAULT_RETRIEVAL_SETTINGS.rrf_k;
 
 // ============================================================================
 // Build Metrics Tracking
@@ -171,7 +217,7 @@ function getProjectDir(projectId: string): string {
   return path.join(projectsBaseDir, projectId);
 }
 
-function getProjectPaths(projectId: string) {
+export function getProjectPaths(projectId: string) {
   const dir = getProjectDir(projectId);
   return {
     root: dir,
@@ -180,6 +226,9 @@ function getProjectPaths(projectId: string) {
     data: path.join(dir, "data"),
     chunks: path.join(dir, "data", "chunks.jsonl"),
     vectors: path.join(dir, "data", "vectors.jsonl"),
+    bm25: path.join(dir, "data", "bm25.json"),
+    http_cache: path.join(dir, "data", "http_cache.json"),
+    evals: path.join(dir, "evals"),
     runs: path.join(dir, "runs"),
     src: path.join(dir, "src"),
   };
@@ -222,6 +271,7 @@ export async function projectCreate(input: ProjectCreateInput): Promise<ProjectC
       updated_at: now(),
       embedding_model: input.embedding_model,
       chunk_config: input.chunk_config,
+      retrieval: resolveRetrievalSettings(input.retrieval),
       stats: {
         sources_count: 0,
         chunks_count: 0,
@@ -341,6 +391,47 @@ export async function projectGet(input: ProjectGetInput): Promise<ProjectGetResu
   }
 }
 
+// ============================================================================
+// Project Set Retrieval
+// ============================================================================
+
+export interface ProjectSetRetrievalResult {
+  success: true;
+  project_id: string;
+  retrieval: RetrievalSettings;
+  message: string;
+}
+
+export async function projectSetRetrieval(input: ProjectSetRetrievalInput): Promise<ProjectSetRetrievalResult | ToolError> {
+  const paths = getProjectPaths(input.project_id);
+  
+  if (!(await pathExists(paths.manifest))) {
+    return createToolError("NOT_FOUND", `Project '${input.project_id}' not found`, {
+      recoverable: false,
+    });
+  }
+  
+  try {
+    const manifest = await readJson<ProjectManifest>(paths.manifest);
+    const retrieval = resolveRetrievalSettings({ ...manifest.retrieval, ...input.retrieval });
+    
+    manifest.retrieval = retrieval;
+    manifest.updated_at = now();
+    await writeJson(paths.manifest, manifest);
+    
+    return {
+      success: true,
+      project_id: input.project_id,
+      retrieval,
+      message: `Retrieval settings updated. Re-export the project to apply them to a deployed server.`,
+    };
+  } catch (err) {
+    return createToolError("UPDATE_FAILED", `Failed to update retrieval settings: ${err}`, {
+      recoverable: true,
+    });
+  }
+}
+
 // ============================================================================
 // Project Delete
 // ============================================================================
@@ -409,14 +500,30 @@ function getSourceTypeAndUri(item: {
   sitemap_url?: string;
   folder_path?: string;
   pdf_path?: string;
+  repo_path?: string;
 }): { type: SourceRecord["type"]; uri: string } | null {
   if (item.url) return { type: "url", uri: item.url };
   if (item.sitemap_url) return { type: "sitemap", uri: item.sitemap_url };
   if (item.folder_path) return { type: "folder", uri: item.folder_path };
   if (item.pdf_path) return { type: "pdf", uri: item.pdf_path };
+  if (item.repo_path) return { type: "repo", uri: item.repo_path };
   return null;
 }
 
+/** File selection (and ref) stored on folder and repo sources and applied at build time */
+function folderPatterns(
+  type: SourceRecord["type"],
+  item: { glob?: string; include_patterns?: string[]; exclude_patterns?: string[]; ref?: string }
+): Pick<SourceRecord, "glob" | "include_patterns" | "exclude_patterns" | "ref"> {
+  if (type !== "folder" && type !== "repo") return {};
+  return {
+    glob: item.glob,
+    include_patterns: item.include_patterns?.length ? item.include_patterns : undefined,
+    exclude_patterns: item.exclude_patterns?.length ? item.exclude_patterns : undefined,
+    ref: type === "repo" ? item.ref ?? "HEAD" : undefined,
+  };
+}
+
 export async function projectAddSource(input: ProjectAddSourceInput): Promise<ProjectAddSourceResult | BatchAddResult | ToolError> {
   const paths = getProjectPaths(input.project_id);
   
@@ -427,7 +534,7 @@ export async function projectAddSource(input: ProjectAddSourceInput): Promise<Pr
   }
   
   // ADR-005: Check for mutual exclusivity
-  const hasSingleSource = Boolean(input.url || input.sitemap_url || input.folder_path || input.pdf_path);
+  const hasSingleSource = Boolean(input.url || input.sitemap_url || input.folder_path || input.pdf_path || input.repo_path);
   const hasBatch = input.batch && input.batch.length > 0;
   
   if (hasSingleSource && hasBatch) {
@@ -437,7 +544,7 @@ export async function projectAddSource(input: ProjectAddSourceInput): Promise<Pr
   }
   
   if (!hasSingleSource && !hasBatch) {
-    return createToolError("NO_SOURCE", "Must provide url, sitemap_url, folder_path, pdf_path, OR batch array", {
+    return createToolError("NO_SOURCE", "Must provide url, sitemap_url, folder_path, pdf_path, repo_path, OR batch array", {
       recoverable: true,
     });
   }
@@ -450,7 +557,7 @@ export async function projectAddSource(input: ProjectAddSourceInput): Promise<Pr
   // Single source mode (original behavior)
   const sourceInfo = getSourceTypeAndUri(input);
   if (!sourceInfo) {
-    return createToolError("NO_SOURCE", "Must provide url, sitemap_url, folder_path, or pdf_path", {
+    return createToolError("NO_SOURCE", "Must provide url, sitemap_url, folder_path, pdf_path, or repo_path", {
       recoverable: true,
     });
   }
@@ -475,6 +582,7 @@ export async function projectAddSource(input: ProjectAddSourceInput): Promise<Pr
       uri,
       source_name: input.source_name,
       tags: input.tags || [],
+      ...folderPatterns(sourceType, input),
       added_at: now(),
       status: "pending",
     };
@@ -574,6 +682,7 @@ async function handleBatchAdd(
         uri,
         source_name: item.source_name,
         tags: item.tags || [],
+        ...folderPatterns(sourceType, item),
         added_at: now(),
         status: "pending",
       };
@@ -747,6 +856,11 @@ export async function projectRemoveSource(input: ProjectRemoveSourceInput): Prom
             }
           }
           await writeJsonl(paths.chunks, remainingChunks);
+          
+          // Keep the keyword index in step with chunks.jsonl
+          const { index: keywordIndex } = await loadBm25IndexFor(paths.bm25, existingChunks);
+          keywordIndex.removeMany(chunkIdsToRemove);
+          await saveBm25Index(paths.bm25, keywordIndex);
         }
       }
       
@@ -841,6 +955,8 @@ export interface ProjectBuildResult {
   chunks_added: number;
   vectors_added: number;
   errors: Array<{ source_id: string; error: string }>;
+  /** Sitemap pages robots.txt does not allow us to fetch */
+  disallowed_urls: Array<{ source_id: string; url: string }>;
   message: string;
   
   /** ADR-006: Progress tracking for chunked builds */
@@ -1007,6 +1123,7 @@ export async function projectBuild(input: ProjectBuildInput): Promise<ProjectBui
       chunks_added: 0,
       vectors_added: 0,
       errors: [],
+      disallowed_urls: [],
       message,
       progress: {
         total_sources: totalSources,
@@ -1048,6 +1165,7 @@ export async function projectBuild(input: ProjectBuildInput): Promise<ProjectBui
       chunks_added: resumedChunks,
       vectors_added: resumedVectors,
       errors: [],
+      disallowed_urls: [],
       message: "",
       progress: {
         total_sources: totalSources,
@@ -1080,16 +1198,20 @@ export async function projectBuild(input: ProjectBuildInput): Promise<ProjectBui
       existingChunks = await readJsonl<ChunkRecord>(paths.chunks);
       // Build hash set for deduplication
       for (const chunk of existingChunks) {
-        if (chunk.metadata?.content_hash) {
-          existingHashes.add(chunk.metadata.content_hash as string);
-        } else {
-          // Generate hash for older chunks without it
-          const hash = sha256(Buffer.from(chunk.text)).slice(0, 16);
-          existingHashes.add(hash);
-        }
+        existingHashes.add(chunkContentHash(chunk));
       }
     }
-    let chunkIndex = existingChunks.length;
+    // Past the highest index, since removed chunks leave gaps
+    let chunkIndex = existingChunks.reduce((max, c) => Math.max(max, c.position.index + 1), 0);
+    let chunksRemoved = 0;
+    let vectorsRemoved = 0;
+
+    // BM25 keyword index, updated incrementally and saved after the loop
+    const { index: keywordIndex, rebuilt: keywordIndexRebuilt } = await loadBm25IndexFor(paths.bm25, existingChunks);
+    let keywordIndexChanged = keywordIndexRebuilt;
+
+    // Validators and hashes of fetched pages, so unchanged ones are skipped on rebuild
+    const httpCache = openHttpCache(paths.http_cache);
 
     // Track completed sources for checkpoint
     const newlyCompletedSourceIds: string[] = [...completedSourceIds];
@@ -1107,7 +1229,52 @@ export async function projectBuild(input: ProjectBuildInput): Promise<ProjectBui
 
         // Fetch content based on type
         const fetchStart = Date.now();
-        const content = await fetchSource(source, paths.runs);
+        let content: FetchedContent[];
+        let cacheEntries: HttpCacheEntry[] = [];
+        let unchangedCount = 0;
+        let disallowedUrls: string[] = [];
+        if (source.type === "repo") {
+          // Only files changed since the last build are fetched; chunks of
+          // changed or deleted files are dropped, the rest move to the new commit
+          const fetched = await fetchRepoSource(source, paths.runs, existingChunks);
+          content = fetched.contents;
+          source.commit = fetched.commit;
+
+          const stale = new Set<string>();
+          existingChunks = existingChunks.filter(chunk => {
+            if (chunk.source_id !== source.source_id) return true;
+            const filePath = chunk.metadata.file_path as string;
+            if (fetched.stale_paths.has(filePath)) {
+              stale.add(chunk.chunk_id);
+              return false;
+            }
+            chunk.metadata.commit = fetched.commit;
+            chunk.metadata.citation = `${filePath}@${fetched.commit}`;
+            return true;
+          });
+          await writeJsonl(paths.chunks, existingChunks);
+
+          if (stale.size > 0) {
+            const vectors = await readJsonl<VectorRecord>(paths.vectors);
+            const remainingVectors = vectors.filter(v => !stale.has(v.chunk_id));
+            await writeJsonl(paths.vectors, remainingVectors);
+            keywordIndex.removeMany(stale);
+            keywordIndexChanged = true;
+            chunksRemoved += stale.size;
+            vectorsRemoved += vectors.length - remainingVectors.length;
+
+            existingHashes.clear();
+            for (const chunk of existingChunks) {
+              existingHashes.add(chunkContentHash(chunk));
+            }
+          }
+        } else {
+          const fetched = await fetchSource(source, paths.runs, httpCache);
+          content = fetched.contents;
+          cacheEntries = fetched.cache_entries;
+          unchangedCount = fetched.unchanged;
+          disallowedUrls = fetched.disallowed;
+        }
         const fetchDuration = Date.now() - fetchStart;
         buildMetrics.phaseTimings[`fetch_${source.source_id}`] = fetchDuration;
         totalFetchTime += fetchDuration;
@@ -1119,7 +1286,8 @@ export async function projectBuild(input: ProjectBuildInput): Promise<ProjectBui
           source.source_id,
           manifest.chunk_config,
           chunkIndex,
-          existingHashes
+          existingHashes,
+          source.tags
         );
         chunkIndex += newChunks.length;
         const chunkDuration = Date.now() - chunkStart;
@@ -1139,18 +1307,28 @@ export async function projectBuild(input: ProjectBuildInput): Promise<ProjectBui
         if (newChunks.length > 0) {
           await appendJsonl(paths.chunks, newChunks);
           await appendJsonl(paths.vectors, embedResult.vectors);
+          for (const chunk of newChunks) {
+            keywordIndex.add(chunk.chunk_id, chunk.text);
+          }
+          keywordIndexChanged = true;
+        }
+        if (cacheEntries.length > 0) {
+          await httpCache.set(...cacheEntries);
         }
 
         // Update source record
         source.status = "completed";
         source.processed_at = now();
         source.stats = {
-          files_fetched: 1,
+          files_fetched: content.length,
+          files_unchanged: unchangedCount,
+          files_disallowed: disallowedUrls.length,
           chunks_created: newChunks.length,
           vectors_created: embedResult.vectors.length,
         };
 
         result.sources_processed++;
+        result.disallowed_urls.push(...disallowedUrls.map(url => ({ source_id: source.source_id, url })));
         result.chunks_added += newChunks.length;
         result.vectors_added += embedResult.vectors.length;
         buildMetrics.sourcesProcessed++;
@@ -1225,9 +1403,14 @@ export async function projectBuild(input: ProjectBuildInput): Promise<ProjectBui
     // Rewrite sources file with updated statuses
     await writeJsonl(paths.sources, allSources);
 
+    if (keywordIndexChanged) {
+      await saveBm25Index(paths.bm25, keywordIndex);
+    }
+    await httpCache.flush();
+
     // Update manifest stats
-    manifest.stats.chunks_count += result.chunks_added - resumedChunks;
-    manifest.stats.vectors_count += result.vectors_added - resumedVectors;
+    manifest.stats.chunks_count += result.chunks_added - resumedChunks - chunksRemoved;
+    manifest.stats.vectors_count += result.vectors_added - resumedVectors - vectorsRemoved;
     manifest.stats.total_tokens += buildMetrics.tokensUsed;
     manifest.updated_at = now();
     await writeJson(paths.manifest, manifest);
@@ -1365,9 +1548,15 @@ export interface ProjectQueryResult {
     text: string;
     source_id: string;
     metadata: Record<string, unknown>;
+    /** Cosine similarity to the query, whatever the ranking mode */
+    semantic_score?: number;
   }>;
   total: number;
   mode: string;
+  /** Reranker applied after first-stage retrieval, if any */
+  reranker?: string;
+  /** MMR lambda, when results were diversified */
+  mmr_lambda?: number;
 }
 
 export async function projectQuery(input: ProjectQueryInput): Promise<ProjectQueryResult | ToolError> {
@@ -1379,6 +1568,16 @@ export async function projectQuery(input: ProjectQueryInput): Promise<ProjectQue
     });
   }
   
+  const filter = compileFilter(input.filters);
+  if (filter && "isError" in filter) {
+    return filter;
+  }
+  
+  const reranker = input.rerank?.enabled ? createReranker(input.rerank) : null;
+  if (reranker && "isError" in reranker) {
+    return reranker;
+  }
+  
   try {
     const manifest = await readJson<ProjectManifest>(paths.manifest);
     
@@ -1394,51 +1593,71 @@ export async function projectQuery(input: ProjectQueryInput): Promise<ProjectQue
     const chunks = await readJsonl<ChunkRecord>(paths.chunks);
     const vectors = await readJsonl<VectorRecord>(paths.vectors);
     
+    // Apply filters before scoring so top_k is filled from matching chunks
+    const candidates = await filterQueryCandidates(chunks, input, filter, paths.sources);
+    
     // Build chunk lookup
-    const chunkMap = new Map(chunks.map(c => [c.chunk_id, c]));
+    const chunkMap = new Map(candidates.map(c => [c.chunk_id, c]));
     
     // Get query embedding
     const queryVector = await embedText(input.query, manifest.embedding_model);
     
-    // Score all vectors
-    let scored: Array<{ chunk_id: string; score: number }> = [];
-    
-    if (input.mode === "semantic" || input.mode === "hybrid") {
-      scored = vectors.map(v => ({
+    // Score all vectors; cosine similarities are reported in every mode
+    const semanticScored = vectors
+      .filter(v => chunkMap.has(v.chunk_id))
+      .map(v => ({
         chunk_id: v.chunk_id,
         score: cosineSimilarity(queryVector, v.embedding),
       }));
+    const semanticScores = new Map(semanticScored.map(s => [s.chunk_id, s.score]));
+    let scored: Array<{ chunk_id: string; score: number }> = [];
+    
+    if (input.mode === "semantic" || input.mode === "hybrid") {
+      scored = semanticScored;
     }
     
     if (input.mode === "keyword" || input.mode === "hybrid") {
-      const queryTerms = input.query.toLowerCase().split(/\s+/);
-      const keywordScores = chunks.map(c => {
-        const text = c.text.toLowerCase();
-        let matches = 0;
-        for (const term of queryTerms) {
-          if (text.includes(term)) matches++;
-        }
-        return {
-          chunk_id: c.chunk_id,
-          score: matches / queryTerms.length,
-        };
-      });
+      const { index: keywordIndex } = await loadBm25IndexFor(paths.bm25, chunks);
+      const keywordScores = keywordIndex.search(input.query, candidates.length, id => chunkMap.has(id));
       
       if (input.mode === "keyword") {
         scored = keywordScores;
       } else {
-        // Hybrid: combine scores
-        const keywordMap = new Map(keywordScores.map(k => [k.chunk_id, k.score]));
-        scored = scored.map(s => ({
-          chunk_id: s.chunk_id,
-          score: s.score * 0.7 + (keywordMap.get(s.chunk_id) || 0) * 0.3,
-        }));
+        // Hybrid: fuse with the project's retrieval settings (BM25 scaled to 0-1 by the best match)
+        const retrieval = resolveRetrievalSettings(manifest.retrieval);
+        scored = applyAnchorBoost(
+          fuseHybrid(scored, normalizeKeywordScores(keywordScores), retrieval),
+          detectAnchorTerms(input.query),
+          retrieval.anchor_boost,
+          s => chunkMap.get(s.chunk_id)?.text ?? ""
+        );
       }
     }
     
-    // Sort and take top_k
+    // Sort and take top_k, reranking and diversifying a larger first-stage
+    // window if requested
     scored.sort((a, b) => b.score - a.score);
-    const topResults = scored.slice(0, input.top_k);
+    const poolSize = Math.max(
+      input.top_k,
+      input.rerank && reranker ? input.rerank.top_k_to_rerank : 0,
+      input.mmr ? mmrPoolSize(input.top_k) : 0
+    );
+    let topResults = scored.slice(0, poolSize);
+    let rerankedBy: string | undefined;
+    
+    if (reranker && input.rerank) {
+      const outcome = await rerankCandidates(input.query, topResults, reranker, input.rerank.top_k_to_rerank,
+        s => ({ id: s.chunk_id, text: chunkMap.get(s.chunk_id)?.text ?? "" }));
+      topResults = outcome.results;
+      rerankedBy = outcome.error ? undefined : outcome.reranker;
+    }
+    
+    if (input.mmr) {
+      const vectorMap = new Map(vectors.map(v => [v.chunk_id, v.embedding]));
+      topResults = mmrSelect(topResults, input.top_k, input.mmr.lambda,
+        s => ({ vector: vectorMap.get(s.chunk_id), text: chunkMap.get(s.chunk_id)?.text ?? "" }));
+    }
+    topResults = topResults.slice(0, input.top_k);
     
     // Build results with chunk data
     const results = topResults
@@ -1446,17 +1665,13 @@ export async function projectQuery(input: ProjectQueryInput): Promise<ProjectQue
         const chunk = chunkMap.get(r.chunk_id);
         if (!chunk) return null;
         
-        // Apply filters
-        if (input.filter_sources && !input.filter_sources.includes(chunk.source_id)) {
-          return null;
-        }
-        
         return {
           chunk_id: r.chunk_id,
           score: r.score,
           text: chunk.text,
           source_id: chunk.source_id,
           metadata: chunk.metadata,
+          semantic_score: semanticScores.get(r.chunk_id),
         };
       })
       .filter((r): r is NonNullable<typeof r> => r !== null);
@@ -1466,6 +1681,8 @@ export async function projectQuery(input: ProjectQueryInput): Promise<ProjectQue
       results,
       total: results.length,
       mode: input.mode,
+      reranker: rerankedBy,
+      mmr_lambda: input.mmr?.lambda,
     };
   } catch (err) {
     return createToolError("QUERY_FAILED", `Query failed: ${err}`, {
@@ -1474,6 +1691,237 @@ export async function projectQuery(input: ProjectQueryInput): Promise<ProjectQue
   }
 }
 
+/**
+ * Chunks passing the query's source, tag and expression filters. Source
+ * tags are only read when a tag or expression filter needs them.
+ */
+async function filterQueryCandidates(
+  chunks: ChunkRecord[],
+  input: Pick<ProjectQueryInput, "filter_sources" | "filter_tags" | "filter_tags_mode">,
+  filter: FilterNode | null,
+  sourcesPath: string
+): Promise<ChunkRecord[]> {
+  const sourceTags = (input.filter_tags?.length || filter) && await pathExists(sourcesPath)
+    ? new Map((await readJsonl<SourceRecord>(sourcesPath)).map(s => [s.source_id, s.tags]))
+    : undefined;
+  
+  return chunks.filter(c => {
+    if (input.filter_sources && !input.filter_sources.includes(c.source_id)) {
+      return false;
+    }
+    if (input.filter_tags?.length && !matchesTagFilter(chunkTags(c, sourceTags), input.filter_tags, input.filter_tags_mode)) {
+      return false;
+    }
+    if (filter) {
+      return matchesFilter(filter, field =>
+        field === "metadata.tags" ? chunkTags(c, sourceTags) : getFieldPath(c, field)
+      );
+    }
+    return true;
+  });
+}
+
+/**
+ * Tags of a chunk. Chunks built before tags were copied into chunk metadata
+ * fall back to their source's current tags.
+ */
+function chunkTags(chunk: ChunkRecord, sourceTags?: Map<string, string[]>): string[] {
+  const tags = chunk.metadata.tags;
+  if (Array.isArray(tags)) {
+    return tags.filter((t): t is string => typeof t === "string");
+  }
+  return sourceTags?.get(chunk.source_id) ?? [];
+}
+
+/**
+ * Match chunk tags against a tag filter: "any" needs one shared tag,
+ * "all" needs every filter tag.
+ */
+function matchesTagFilter(tags: string[], filterTags: string[], mode: "any" | "all"): boolean {
+  return mode === "all"
+    ? filterTags.every(t => tags.includes(t))
+    : filterTags.some(t => tags.includes(t));
+}
+
+// ============================================================================
+// Project Debug Query
+// ============================================================================
+
+/**
+ * Trace a project query through filter, embed, search and fuse, reporting
+ * keyword and semantic ranks separately for each result so misses can be
+ * attributed to one side of the hybrid ranking. Scores match project_query
+ * (without rerank or MMR) for the same mode and filters.
+ */
+export async function projectDebugQuery(input: ProjectDebugQueryInput): Promise<DebugQueryResult | ToolError> {
+  const paths = getProjectPaths(input.project_id);
+  
+  if (!(await pathExists(paths.manifest))) {
+    return createToolError("NOT_FOUND", `Project '${input.project_id}' not found`, {
+      recoverable: false,
+    });
+  }
+  
+  const filter = compileFilter(input.filters);
+  if (filter && "isError" in filter) {
+    return filter;
+  }
+  
+  const topK = input.options?.top_k ?? 10;
+  const traceLevel = input.options?.trace_level ?? "standard";
+  const trace: DebugTraceStep[] = [];
+  
+  try {
+    const manifest = await readJson<ProjectManifest>(paths.manifest);
+    
+    // Step 1: Load chunks and vectors
+    const loadStart = Date.now();
+    const chunks = await pathExists(paths.chunks) ? await readJsonl<ChunkRecord>(paths.chunks) : [];
+    const vectors = await pathExists(paths.vectors) ? await readJsonl<VectorRecord>(paths.vectors) : [];
+    if (traceLevel !== "minimal") {
+      trace.push(recordStep("load", loadStart, {
+        chunks_loaded: chunks.length,
+        vectors_loaded: vectors.length,
+      }));
+    }
+    
+    // Step 2: Filter before scoring, as project_query does
+    const filterStart = Date.now();
+    const candidates = await filterQueryCandidates(chunks, input, filter, paths.sources);
+    const chunkMap = new Map(candidates.map(c => [c.chunk_id, c]));
+    if (traceLevel !== "minimal") {
+      trace.push(recordStep("filter", filterStart, {
+        candidates_before: chunks.length,
+        candidates_after: candidates.length,
+        filter_tags: input.filter_tags ?? [],
+        filter_sources: input.filter_sources ?? [],
+        filters: input.filters ?? null,
+      }));
+    }
+    
+    // Step 3: Embed the query with the project's model
+    const embedStart = Date.now();
+    const queryVector = await embedText(input.query, manifest.embedding_model);
+    trace.push(recordStep("embed", embedStart, {
+      query_length: input.query.length,
+      embedding_dimension: queryVector.length,
+      provider: manifest.embedding_model.provider,
+      model: manifest.embedding_model.model_name,
+    }));
+    
+    // Step 4: Run both searches regardless of mode so every result has both ranks
+    const searchStart = Date.now();
+    const semantic = vectors
+      .filter(v => chunkMap.has(v.chunk_id))
+      .map(v => ({ chunk_id: v.chunk_id, score: cosineSimilarity(queryVector, v.embedding) }))
+      .sort((a, b) => b.score - a.score);
+    const { index: keywordIndex } = await loadBm25IndexFor(paths.bm25, chunks);
+    const keywordHits = keywordIndex.search(input.query, candidates.length, id => chunkMap.has(id));
+    trace.push(recordStep("search", searchStart, {
+      total_candidates: candidates.length,
+      semantic_results: semantic.length,
+      keyword_results: keywordHits.length,
+      max_semantic_score: semantic[0]?.score ?? 0,
+      ...(traceLevel === "verbose" ? {
+        semantic_top: semantic.slice(0, 5),
+        keyword_top: keywordHits.slice(0, 5),
+      } : {}),
+    }));
+    
+    // Step 5: Fuse with the project's retrieval settings
+    const fuseStart = Date.now();
+    const retrieval = resolveRetrievalSettings(manifest.retrieval);
+    const anchors = detectAnchorTerms(input.query);
+    let scored: ScoredChunk[];
+    if (input.mode === "semantic") {
+      scored = semantic;
+    } else if (input.mode === "keyword") {
+      scored = keywordHits;
+    } else {
+      scored = applyAnchorBoost(
+        fuseHybrid(semantic, normalizeKeywordScores(keywordHits), retrieval),
+        anchors,
+        retrieval.anchor_boost,
+        s => chunkMap.get(s.chunk_id)?.text ?? ""
+      );
+    }
+    scored = [...scored].sort((a, b) => b.score - a.score);
+    trace.push(recordStep("fuse", fuseStart, {
+      mode: input.mode,
+      ...(input.mode === "hybrid" ? { ...retrieval, anchor_terms: anchors } : {}),
+      results_fused: scored.length,
+    }));
+    
+    // Step 6: Build result items with per-side ranks
+    const semanticRanks = new Map(semantic.map((s, i) => [s.chunk_id, i + 1]));
+    const semanticScores = new Map(semantic.map(s => [s.chunk_id, s.score]));
+    const keywordRanks = new Map(keywordHits.map((k, i) => [k.chunk_id, i + 1]));
+    const results: DebugResultItem[] = scored.slice(0, topK).map((s, i) => {
+      const chunk = chunkMap.get(s.chunk_id)!;
+      return {
+        rank: i + 1,
+        chunk_id: s.chunk_id,
+        doc_id: chunk.source_id,
+        score: s.score,
+        text_preview: chunk.text.slice(0, 200),
+        metadata: chunk.metadata,
+        keyword_rank: keywordRanks.get(s.chunk_id),
+        semantic_rank: semanticRanks.get(s.chunk_id),
+        semantic_score: semanticScores.get(s.chunk_id),
+      };
+    });
+    
+    // Step 7: Compare with expected and diagnose on cosine similarities
+    const expected = input.expected;
+    const comparison = expected && (expected.chunk_ids?.length || expected.doc_ids?.length || expected.keywords?.length)
+      ? compareResults(results, expected)
+      : undefined;
+    const diagnostics = generateDiagnostics(results, comparison,
+      results.flatMap(r => r.semantic_score === undefined ? [] : [r.semantic_score]));
+    
+    // Explain where each missing expected chunk went
+    const fusedRanks = new Map(scored.map((s, i) => [s.chunk_id, i + 1]));
+    const indexedIds = new Set(chunks.map(c => c.chunk_id));
+    for (const id of expected?.chunk_ids ?? []) {
+      if (!comparison?.expected_missing.includes(id)) continue;
+      if (!indexedIds.has(id)) {
+        diagnostics.suggestions.push(`Expected chunk ${id} is not in the project; rebuild or check the chunk ID`);
+      } else if (!chunkMap.has(id)) {
+        diagnostics.suggestions.push(`Expected chunk ${id} is excluded by the query filters`);
+      } else {
+        const rankOf = (rank?: number) => rank ? `#${rank}` : "unranked";
+        diagnostics.suggestions.push(
+          `Expected chunk ${id} ranks ${rankOf(fusedRanks.get(id))} (keyword ${rankOf(keywordRanks.get(id))}, semantic ${rankOf(semanticRanks.get(id))})`
+        );
+      }
+    }
+    
+    const result: DebugQueryResult = {
+      query: input.query,
+      trace,
+      results,
+      diagnostics,
+    };
+    if (input.options?.include_embeddings) {
+      result.query_embedding = queryVector;
+    }
+    if (comparison) {
+      result.comparison = comparison;
+    }
+    
+    // Step 8: Export the report into the project's debug directory
+    if (input.options?.export_report) {
+      result.report_path = await exportReport(result, paths.root);
+    }
+    
+    return result;
+  } catch (err) {
+    return createToolError("QUERY_FAILED", `Debug query failed: ${err}`, {
+      recoverable: true,
+    });
+  }
+}
+
 // ============================================================================
 // Project Export
 // ============================================================================
@@ -2169,18 +2617,17 @@ async function fetchWithTimeout(
   } = {}
 ): Promise<Response> {
   const { timeoutMs = DEFAULT_TIMEOUT_MS, maxSizeBytes = MAX_FILE_SIZE_BYTES, headers } = options;
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
-    const response = await fetch(url, {
-      signal: controller.signal,
+    // Honors robots.txt, spaces requests per host and backs off on 429/503,
+    // with the user agent and limits configured for connect_* tools
+    const response = await politeFetcher.fetch(url, {
+      timeout_ms: timeoutMs,
       headers: {
-        'User-Agent': 'IndexFoundry/1.0 (RAG indexing bot; +https://github.com/vario-automation)',
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
         ...headers,
       },
-    });
+    }, getRunManager().getConfig().defaults.connect);
 
     // Check Content-Length if available
     const contentLength = response.headers.get('content-length');
@@ -2197,19 +2644,82 @@ async function fetchWithTimeout(
       throw new Error(`Request timed out after ${timeoutMs / 1000}s: ${url}`);
     }
     throw error;
-  } finally {
-    clearTimeout(timeoutId);
   }
 }
 
-async function fetchSource(source: SourceRecord, runsDir: string): Promise<string[]> {
-  const contents: string[] = [];
+/** Text fetched from a source, with provenance copied into its chunks' metadata */
+interface FetchedContent {
+  text: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** Content fetched from a non-repo source */
+interface SourceFetch {
+  contents: FetchedContent[];
+  /** Cache entries to record once the source's chunks are stored */
+  cache_entries: HttpCacheEntry[];
+  /** Pages skipped because they are unchanged since the last build */
+  unchanged: number;
+  /** Sitemap pages robots.txt does not allow us to fetch */
+  disallowed: string[];
+}
+
+/**
+ * Fetch a page for a source, revalidating it against the project's HTTP
+ * cache. `response` is null when the server answers 304 or the body hashes
+ * the same as when this source last indexed it; extraction and embedding
+ * are then skipped. Entries indexed for another source are ignored, so a
+ * re-added source is fetched in full.
+ */
+async function fetchIfChanged(
+  url: string,
+  source: SourceRecord,
+  cache: HttpCache
+): Promise<{ response: Response | null; cache_entry: HttpCacheEntry }> {
+  const entry = await cache.get(url);
+  const cached = entry?.source_id === source.source_id ? entry : undefined;
+  const response = await fetchWithTimeout(url, { headers: conditionalHeaders(cached) });
+
+  if (response.status === 304 && cached) {
+    return { response: null, cache_entry: { ...cached, ...responseValidators(response, cached), fetched_at: now() } };
+  }
+  if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`);
+
+  const buffer = Buffer.from(await response.arrayBuffer());
+  const cacheEntry: HttpCacheEntry = {
+    url,
+    ...responseValidators(response),
+    sha256: sha256(buffer),
+    content_type: response.headers.get('content-type') || 'application/octet-stream',
+    size_bytes: buffer.length,
+    source_id: source.source_id,
+    fetched_at: now(),
+  };
+  if (cached?.sha256 === cacheEntry.sha256) {
+    return { response: null, cache_entry: cacheEntry };
+  }
+  return {
+    response: new Response(buffer, { status: response.status, statusText: response.statusText, headers: response.headers }),
+    cache_entry: cacheEntry,
+  };
+}
+
+async function fetchSource(source: SourceRecord, runsDir: string, cache: HttpCache): Promise<SourceFetch> {
+  const contents: FetchedContent[] = [];
+  const cacheEntries: HttpCacheEntry[] = [];
+  const disallowed: string[] = [];
+  let unchangedCount = 0;
 
   switch (source.type) {
     case "url": {
       console.error(`📥 Fetching URL: ${source.uri}`);
-      const response = await fetchWithTimeout(source.uri);
-      if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      const { response, cache_entry } = await fetchIfChanged(source.uri, source, cache);
+      cacheEntries.push(cache_entry);
+      if (!response) {
+        console.error(`  ⏭️ Unchanged since last build`);
+        unchangedCount++;
+        break;
+      }
 
       // Use unified binary handler for all URL content types (HTML, PDF, plain text)
       const result = await extractTextFromResponse({
@@ -2219,7 +2729,7 @@ async function fetchSource(source: SourceRecord, runsDir: string): Promise<strin
       });
       
       console.error(`  ✅ Extracted ${result.text.length} chars using ${result.extractorUsed} extractor`);
-      contents.push(result.text);
+      contents.push({ text: result.text });
       break;
     }
 
@@ -2228,8 +2738,13 @@ async function fetchSource(source: SourceRecord, runsDir: string): Promise<strin
 
       if (source.uri.startsWith("http")) {
         // Use unified binary handler for HTTP PDFs
-        const response = await fetchWithTimeout(source.uri);
-        if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        const { response, cache_entry } = await fetchIfChanged(source.uri, source, cache);
+        cacheEntries.push(cache_entry);
+        if (!response) {
+          console.error(`  ⏭️ Unchanged since last build`);
+          unchangedCount++;
+          break;
+        }
         
         const result = await extractTextFromResponse({
           url: source.uri,
@@ -2238,7 +2753,7 @@ async function fetchSource(source: SourceRecord, runsDir: string): Promise<strin
         });
         
         console.error(`  ✅ Extracted ${result.text.length} chars using ${result.extractorUsed} extractor`);
-        contents.push(result.text);
+        contents.push({ text: result.text });
       } else {
         // Local PDF files - use pdf-parse directly
         const { readFile, stat } = await import("fs/promises");
@@ -2249,14 +2764,16 @@ async function fetchSource(source: SourceRecord, runsDir: string): Promise<strin
         const pdfBuffer = await readFile(source.uri);
 
         try {
-          const pdfData = await pdfParse(pdfBuffer);
+          // Pages without a text layer (scanned/image-based) are OCR'd
+          const pdfData = await extractPdfTextWithOcr(pdfBuffer);
           const text = pdfData.text.trim();
 
           if (text.length > 50) {
-            console.error(`  ✅ Extracted ${text.length} chars from ${pdfData.numpages} pages (local pdf)`);
-            contents.push(text);
+            const ocrNote = pdfData.ocr_pages > 0 ? `, ${pdfData.ocr_pages} via OCR` : "";
+            console.error(`  ✅ Extracted ${text.length} chars from ${pdfData.numpages} pages (local pdf${ocrNote})`);
+            contents.push({ text });
           } else {
-            throw new Error('PDF has insufficient extractable text (may be scanned/image-based)');
+            throw new Error('PDF has insufficient extractable text (no text layer and OCR found no readable page images)');
           }
         } catch (pdfErr) {
           throw new Error(`PDF extraction failed: ${pdfErr}`);
@@ -2270,31 +2787,61 @@ async function fetchSource(source: SourceRecord, runsDir: string): Promise<strin
       const { readFile, stat } = await import("fs/promises");
       const { glob } = await import("glob");
 
-      const files = await glob("**/*", {
+      let files = (await glob(source.glob || "**/*", {
         cwd: source.uri,
         nodir: true,
-        absolute: true,
         ignore: ['**/node_modules/**', '**/.git/**', '**/dist/**', '**/build/**'],
-      });
+      })).map(f => f.split(path.sep).join("/")).sort();
+
+      // Include/exclude patterns are regexes over the path relative to the folder
+      if (source.include_patterns?.length) {
+        const regexes = source.include_patterns.map(p => new RegExp(p));
+        files = files.filter(f => regexes.some(r => r.test(f)));
+      }
+      if (source.exclude_patterns?.length) {
+        const regexes = source.exclude_patterns.map(p => new RegExp(p));
+        files = files.filter(f => !regexes.some(r => r.test(f)));
+      }
 
       console.error(`Found ${files.length} files (processing max ${MAX_FOLDER_FILES})`);
       let processedCount = 0;
       let skippedCount = 0;
 
-      for (const file of files.slice(0, MAX_FOLDER_FILES)) {
+      // Files go through the run pipeline's extractors in a per-source run
+      const manager = new RunManager(path.dirname(runsDir), {
+        storage: { runs_dir: path.basename(runsDir), max_runs: 100, cleanup_policy: "fifo" },
+      });
+      const runId = uuidv5(`indexfoundry:source:${source.source_id}`, uuidv5.URL);
+      await manager.ensureRun(runId);
+
+      for (const relativePath of files.slice(0, MAX_FOLDER_FILES)) {
         try {
           // Check file size before reading
-          const stats = await stat(file);
+          const filePath = path.join(source.uri, relativePath);
+          const stats = await stat(filePath);
           if (stats.size > MAX_FOLDER_FILE_SIZE_BYTES) {
             skippedCount++;
             continue;
           }
 
-          const content = await readFile(file, "utf-8");
-          contents.push(content);
+          const buffer = await readFile(filePath);
+          const text = await extractFolderFile(manager, runId, buffer, path.extname(relativePath).toLowerCase());
+          if (text === null) {
+            skippedCount++;
+            continue;
+          }
+
+          contents.push({
+            text,
+            metadata: {
+              file_path: relativePath,
+              file_mtime: stats.mtime.toISOString(),
+              file_sha256: sha256(buffer),
+            },
+          });
           processedCount++;
-        } catch {
-          // Skip binary files or unreadable files
+        } catch (err) {
+          console.error(`  ⚠️ Skipped ${relativePath}: ${err}`);
           skippedCount++;
         }
       }
@@ -2317,51 +2864,171 @@ async function fetchSource(source: SourceRecord, runsDir: string): Promise<strin
       let successCount = 0;
       let failCount = 0;
 
+      // Per-host spacing comes from fetchWithTimeout
       for (const url of urls) {
         try {
           console.error(`  📥 Fetching: ${url}`);
-          const pageResponse = await fetchWithTimeout(url);
-          if (pageResponse.ok) {
-            // Use unified binary handler for all page content
-            const result = await extractTextFromResponse({
-              url,
-              response: pageResponse,
-              maxSizeBytes: MAX_FILE_SIZE_BYTES,
-            });
-
-            if (result.text.length > 100) {
-              console.error(`    ✅ ${result.text.length} chars using ${result.extractorUsed}`);
-              contents.push(result.text);
-              successCount++;
-            }
+          const { response: pageResponse, cache_entry } = await fetchIfChanged(url, source, cache);
+          if (!pageResponse) {
+            cacheEntries.push(cache_entry);
+            unchangedCount++;
+            continue;
           }
 
-          // Rate limiting between requests
-          if (RATE_LIMIT_DELAY_MS > 0) {
-            await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY_MS));
+          // Use unified binary handler for all page content
+          const result = await extractTextFromResponse({
+            url,
+            response: pageResponse,
+            maxSizeBytes: MAX_FILE_SIZE_BYTES,
+          });
+          cacheEntries.push(cache_entry);
+
+          if (result.text.length > 100) {
+            console.error(`    ✅ ${result.text.length} chars using ${result.extractorUsed}`);
+            contents.push({ text: result.text });
+            successCount++;
           }
         } catch (err) {
+          if (err instanceof RobotsDisallowedError) {
+            disallowed.push(url);
+            continue;
+          }
           console.error(`    ❌ Failed: ${err}`);
           failCount++;
           // Continue with other URLs
         }
       }
 
-      console.error(`  ✅ Sitemap complete: ${successCount} success, ${failCount} failed`);
+      console.error(`  ✅ Sitemap complete: ${successCount} success, ${unchangedCount} unchanged, ${failCount} failed, ${disallowed.length} disallowed by robots.txt`);
       break;
     }
   }
 
   console.error(`Fetched ${contents.length} content items`);
-  return contents;
+  return { contents, cache_entries: cacheEntries, unchanged: unchangedCount, disallowed };
+}
+
+/** Files fetched from a repo source at its current commit */
+interface RepoFetch {
+  commit: string;
+  /** New or changed files only */
+  contents: FetchedContent[];
+  /** Indexed paths whose blob changed or that are no longer selected */
+  stale_paths: Set<string>;
+}
+
+/**
+ * Read a repo source at its ref. Files whose blob is already indexed for this
+ * source are skipped; the rest go through the same extractors as folder files.
+ */
+async function fetchRepoSource(source: SourceRecord, runsDir: string, indexed: ChunkRecord[]): Promise<RepoFetch> {
+  const ref = source.ref ?? "HEAD";
+  console.error(`Reading repository: ${source.uri} @ ${ref}`);
+  const root = resolveRepoPath(source.uri);
+  const commit = await resolveCommit(root, ref);
+  const files = selectRepoFiles(await listRepoFiles(root, commit), source);
+
+  // Blob each path was indexed at
+  const indexedBlobs = new Map<string, string>();
+  for (const chunk of indexed) {
+    if (chunk.source_id === source.source_id && typeof chunk.metadata.file_path === "string") {
+      indexedBlobs.set(chunk.metadata.file_path, chunk.metadata.blob_sha as string);
+    }
+  }
+  const current = new Map(files.map(f => [f.path, f.blob_sha]));
+  const stalePaths = new Set([...indexedBlobs].filter(([p, blob]) => current.get(p) !== blob).map(([p]) => p));
+
+  const manager = new RunManager(path.dirname(runsDir), {
+    storage: { runs_dir: path.basename(runsDir), max_runs: 100, cleanup_policy: "fifo" },
+  });
+  const runId = uuidv5(`indexfoundry:source:${source.source_id}`, uuidv5.URL);
+  await manager.ensureRun(runId);
+
+  const contents: FetchedContent[] = [];
+  let unchangedCount = 0;
+  let skippedCount = 0;
+  for (const file of files.slice(0, MAX_FOLDER_FILES)) {
+    if (indexedBlobs.get(file.path) === file.blob_sha) {
+      unchangedCount++;
+      continue;
+    }
+    if (file.size_bytes > MAX_FOLDER_FILE_SIZE_BYTES) {
+      skippedCount++;
+      continue;
+    }
+    try {
+      const buffer = await readRepoBlob(root, file.blob_sha, MAX_FOLDER_FILE_SIZE_BYTES);
+      const text = await extractFolderFile(manager, runId, buffer, path.extname(file.path).toLowerCase());
+      if (text === null) {
+        skippedCount++;
+        continue;
+      }
+      contents.push({
+        text,
+        metadata: {
+          file_path: file.path,
+          commit,
+          blob_sha: file.blob_sha,
+          citation: `${file.path}@${commit}`,
+        },
+      });
+    } catch (err) {
+      console.error(`  ⚠️ Skipped ${file.path}: ${err}`);
+      skippedCount++;
+    }
+  }
+
+  console.error(`  ${commit.slice(0, 12)}: ${contents.length} changed, ${unchangedCount} unchanged, ${stalePaths.size} stale, ${skippedCount} skipped`);
+  return { commit, contents, stale_paths: stalePaths };
+}
+
+/**
+ * Extract one folder file with the run pipeline's extractors: PDFs with
+ * extractPdf (OCR for pages without text), HTML with extractHtml, everything
+ * else with extractDocument. Returns null for binary files no extractor reads.
+ */
+async function extractFolderFile(manager: RunManager, runId: string, content: Buffer, ext: string): Promise<string | null> {
+  if (ext !== ".pdf" && ext !== ".docx" && content.includes(0)) {
+    return null;
+  }
+
+  const { writeFile, readFile } = await import("fs/promises");
+  const rawPath = `raw/${sha256(content)}${ext}`;
+  const runDir = manager.getRunDir(runId);
+  if (!(await pathExists(path.join(runDir, rawPath)))) {
+    await writeFile(path.join(runDir, rawPath), content);
+  }
+
+  let textPath: string | undefined;
+  if (ext === ".pdf") {
+    const result = await extractPdf(ExtractPdfInputSchema.parse({ run_id: runId, pdf_path: rawPath }), manager);
+    if ("isError" in result) throw new Error(result.message);
+    textPath = result.artifacts.full_text;
+  } else if (ext === ".html" || ext === ".htm") {
+    const result = await extractHtml(ExtractHtmlInputSchema.parse({ run_id: runId, html_path: rawPath }), manager);
+    if ("isError" in result) throw new Error(result.message);
+    textPath = result.artifacts.text_file;
+  } else {
+    const result = await extractDocument(ExtractDocumentInputSchema.parse({ run_id: runId, doc_path: rawPath }), manager);
+    if ("isError" in result) throw new Error(result.message);
+    textPath = result.artifacts.text_file;
+  }
+
+  return textPath ? readFile(path.join(runDir, textPath), "utf-8") : null;
+}
+
+/** Dedup hash of a chunk; older chunks without one are hashed from their text */
+function chunkContentHash(chunk: ChunkRecord): string {
+  return (chunk.metadata?.content_hash as string | undefined) ?? sha256(Buffer.from(chunk.text)).slice(0, 16);
 }
 
 function chunkContent(
-  contents: string[],
+  contents: FetchedContent[],
   sourceId: string,
   config: { strategy: string; max_chars: number; overlap_chars: number },
   startIndex: number,
-  existingHashes?: Set<string>
+  existingHashes?: Set<string>,
+  tags: string[] = []
 ): ChunkRecord[] {
   const chunks: ChunkRecord[] = [];
   const seenHashes = existingHashes || new Set<string>();
@@ -2370,7 +3037,7 @@ function chunkContent(
   
   for (const content of contents) {
     // Simple recursive chunking
-    const text = content.trim();
+    const text = content.text.trim();
     if (!text) continue;
     
     let pos = 0;
@@ -2402,7 +3069,10 @@ function chunkContent(
           end_char: end,
         },
         metadata: {
+          ...content.metadata,
           content_hash: contentHash,
+          // Source tags travel with the chunk so queries can filter on them
+          tags: [...tags],
         },
         created_at: now(),
       });
@@ -2426,43 +3096,37 @@ function chunkContent(
 }
 
 async function embedText(text: string, model: EmbeddingModel): Promise<number[]> {
-  const apiKey = process.env[model.api_key_env];
-  if (!apiKey) {
-    throw new Error(`API key not found in env: ${model.api_key_env}. Set this environment variable to your API key.`);
+  if (model.provider === "local") {
+    return embedLocal(text, model.dimensions ?? LOCAL_EMBEDDING_DEFAULT_DIMENSIONS);
   }
 
-  if (model.provider === "openai") {
-    console.error(`Embedding text (${text.length} chars) with ${model.model_name}`);
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60s timeout
-
-    try {
-      const response = await fetch("https://api.openai.com/v1/embeddings", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: model.model_name,
-          input: text,
-        }),
-        signal: controller.signal,
-      });
+  const endpoint = embeddingEndpointFor(model);
+  console.error(`Embedding text (${text.length} chars) with ${model.model_name}`);
+  const { embeddings } = await requestEmbeddings(endpoint, [text]);
+  return embeddings[0];
+}
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`OpenAI API error ${response.status}: ${errorText}`);
-      }
+/**
+ * Resolve the HTTP endpoint config for a remote embedding model.
+ * OpenAI (and OpenAI-compatible gateways) require an API key; Ollama does not.
+ */
+function embeddingEndpointFor(model: EmbeddingModel, timeoutMs?: number): EmbeddingEndpointConfig {
+  if (!isRemoteEmbeddingProvider(model.provider)) {
+    throw new Error(`Unsupported embedding provider: ${model.provider}`);
+  }
 
-      const data = await response.json() as { data: Array<{ embedding: number[] }> };
-      return data.data[0].embedding;
-    } finally {
-      clearTimeout(timeoutId);
-    }
+  const apiKey = process.env[model.api_key_env];
+  if (!apiKey && model.provider === "openai") {
+    throw new Error(`API key not found in env: ${model.api_key_env}. Set this environment variable to your API key.`);
   }
 
-  throw new Error(`Unsupported embedding provider: ${model.provider}`);
+  return {
+    provider: model.provider,
+    model_name: model.model_name,
+    base_url: model.base_url,
+    api_key: apiKey,
+    timeout_ms: timeoutMs,
+  };
 }
 
 interface EmbedResult {
@@ -2479,12 +3143,24 @@ async function embedChunks(chunks: ChunkRecord[], model: EmbeddingModel): Promis
     return { vectors, tokensUsed: 0, estimatedCostUsd: 0 };
   }
 
-  const apiKey = process.env[model.api_key_env];
-  if (!apiKey) {
-    throw new Error(`API key not found in env: ${model.api_key_env}. Set this environment variable to your API key.`);
-  }
-
-  // Batch embed for efficiency
+  // Offline feature-hashing embeddings: no API key, no cost
+  if (model.provider === "local") {
+    const dimensions = model.dimensions ?? LOCAL_EMBEDDING_DEFAULT_DIMENSIONS;
+    for (const chunk of chunks) {
+      vectors.push({
+        chunk_id: chunk.chunk_id,
+        embedding: embedLocal(chunk.text, dimensions),
+        model: `${model.provider}/${model.model_name}`,
+        created_at: now(),
+      });
+    }
+    logMetric("embed", `Embedding complete`, { vectors: vectors.length, provider: "local", dimensions });
+    return { vectors, tokensUsed: 0, estimatedCostUsd: 0 };
+  }
+
+  const endpoint = embeddingEndpointFor(model, EMBEDDING_TIMEOUT_MS);
+
+  // Batch embed for efficiency
   const batchSize = 50; // Smaller batches for reliability
   const totalBatches = Math.ceil(chunks.length / batchSize);
   logMetric("embed", `Starting embedding`, { chunks: chunks.length, batches: totalBatches, model: model.model_name });
@@ -2496,70 +3172,36 @@ async function embedChunks(chunks: ChunkRecord[], model: EmbeddingModel): Promis
 
     logMetric("embed", `Processing batch`, { batch: batchNum, total: totalBatches, chunks: batch.length });
 
-    if (model.provider === "openai") {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), EMBEDDING_TIMEOUT_MS);
-
-      try {
-        const response = await fetch("https://api.openai.com/v1/embeddings", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${apiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: model.model_name,
-            input: texts,
-          }),
-          signal: controller.signal,
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          // Check for rate limiting
-          if (response.status === 429) {
-            logMetric("embed", `Rate limited, waiting 60s`, { batch: batchNum });
-            await new Promise(resolve => setTimeout(resolve, 60000));
-            // Retry once
-            i -= batchSize;
-            continue;
-          }
-          throw new Error(`OpenAI API error ${response.status}: ${errorText}`);
-        }
-
-        const data = await response.json() as {
-          data: Array<{ embedding: number[]; index: number }>;
-          usage?: { total_tokens: number };
-        };
+    let response;
+    try {
+      response = await requestEmbeddings(endpoint, texts);
+    } catch (error) {
+      // Check for rate limiting
+      if (error instanceof EmbeddingHttpError && error.status === 429) {
+        logMetric("embed", `Rate limited, waiting 60s`, { batch: batchNum });
+        await new Promise(resolve => setTimeout(resolve, 60000));
+        // Retry once
+        i -= batchSize;
+        continue;
+      }
+      throw error;
+    }
 
-        // Track token usage
-        if (data.usage?.total_tokens) {
-          totalTokens += data.usage.total_tokens;
-        }
+    // Track token usage
+    totalTokens += response.total_tokens;
 
-        for (const item of data.data) {
-          vectors.push({
-            chunk_id: batch[item.index].chunk_id,
-            embedding: item.embedding,
-            model: `${model.provider}/${model.model_name}`,
-            created_at: now(),
-          });
-        }
+    response.embeddings.forEach((embedding, index) => {
+      vectors.push({
+        chunk_id: batch[index].chunk_id,
+        embedding,
+        model: `${model.provider}/${model.model_name}`,
+        created_at: now(),
+      });
+    });
 
-        // Rate limiting between batches
-        if (i + batchSize < chunks.length && RATE_LIMIT_DELAY_MS > 0) {
-          await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY_MS));
-        }
-      } catch (error) {
-        if (error instanceof Error && error.name === 'AbortError') {
-          throw new Error(`Embedding request timed out after ${EMBEDDING_TIMEOUT_MS / 1000}s for batch ${batchNum}`);
-        }
-        throw error;
-      } finally {
-        clearTimeout(timeoutId);
-      }
-    } else {
-      throw new Error(`Unsupported embedding provider: ${model.provider}`);
+    // Rate limiting between batches
+    if (i + batchSize < chunks.length && RATE_LIMIT_DELAY_MS > 0) {
+      await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY_MS));
     }
   }
 
@@ -2578,7 +3220,8 @@ async function embedChunks(chunks: ChunkRecord[], model: EmbeddingModel): Promis
 // ============================================================================
 
 /**
- * Generate query embedding using OpenAI API
+ * Generate query embedding with the project's embedding model
+ * (OpenAI API, or offline feature hashing for provider "local").
  * Used for hybrid search in /chat endpoint
  */
 export async function generateQueryEmbedding(params: {
@@ -2587,42 +3230,12 @@ export async function generateQueryEmbedding(params: {
 }): Promise<number[]> {
   const { text, model } = params;
   
-  const apiKey = process.env[model.api_key_env];
-  if (!apiKey) {
-    throw new Error(`API key not found in environment variable: ${model.api_key_env}`);
-  }
-  
-  if (model.provider !== "openai") {
-    throw new Error(`Unsupported embedding provider: ${model.provider}`);
+  if (model.provider === "local") {
+    return embedLocal(text, model.dimensions ?? LOCAL_EMBEDDING_DEFAULT_DIMENSIONS);
   }
   
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 60000);
-  
-  try {
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: model.model_name,
-        input: text,
-      }),
-      signal: controller.signal,
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenAI API error ${response.status}: ${errorText}`);
-    }
-    
-    const data = await response.json() as { data: Array<{ embedding: number[] }> };
-    return data.data[0].embedding;
-  } finally {
-    clearTimeout(timeoutId);
-  }
+  const { embeddings } = await requestEmbeddings(embeddingEndpointFor(model, 60000), [text]);
+  return embeddings[0];
 }
 
 /**
@@ -2642,6 +3255,15 @@ export interface SearchResult {
   metadata: Record<string, unknown>;
 }
 
+/**
+ * Scale BM25 scores to 0-1 by the best match so they can be mixed with
+ * cosine similarities. Input must be sorted by score.
+ */
+function normalizeKeywordScores(hits: Array<{ chunk_id: string; score: number }>): Array<{ chunk_id: string; score: number }> {
+  const top = hits[0]?.score || 1;
+  return hits.map(h => ({ chunk_id: h.chunk_id, score: h.score / top }));
+}
+
 /**
  * Helper: Convert ChunkRecord to flattened SearchResult
  */
@@ -2658,7 +3280,8 @@ function chunkToSearchResult(chunk: ChunkRecord, score: number): SearchResult {
 }
 
 /**
- * Hybrid search combining keyword and semantic search with Reciprocal Rank Fusion
+ * Hybrid search combining keyword and semantic search with the project's
+ * fusion settings (RRF by default)
  *
  * When vectors are provided (unit tests), uses them directly for semantic search.
  * When no vectors provided, falls back to keyword-only search.
@@ -2668,37 +3291,28 @@ export function searchHybridForChat(params: {
   chunks: ChunkRecord[];
   vectors: VectorRecord[];
   topK: number;
+  /** Persisted keyword index; built from chunks when omitted */
+  keywordIndex?: Bm25Index;
+  /** Diversify the fused results with Maximal Marginal Relevance */
+  mmr?: MmrOptions;
+  /** Project retrieval settings; defaults when omitted */
+  retrieval?: RetrievalSettings;
 }): SearchResult[] {
-  const { query, chunks, vectors, topK } = params;
+  const { query, chunks, vectors, topK, keywordIndex, mmr } = params;
+  const retrieval = params.retrieval ?? DEFAULT_RETRIEVAL_SETTINGS;
+  const poolK = mmr ? mmrPoolSize(topK) : topK;
   
   // Build chunk lookup map
   const chunkMap = new Map(chunks.map(c => [c.chunk_id, c]));
   
-  // Keyword search
-  const queryTerms = query.toLowerCase().split(/\s+/).filter(Boolean);
-  const keywordResults: Array<{ chunk_id: string; score: number }> = [];
-  
-  for (const chunk of chunks) {
-    const text = chunk.text.toLowerCase();
-    let matches = 0;
-    for (const term of queryTerms) {
-      if (text.includes(term)) matches++;
-    }
-    const score = queryTerms.length > 0 ? matches / queryTerms.length : 0;
-    if (score > 0) {
-      keywordResults.push({ chunk_id: chunk.chunk_id, score });
-    }
-  }
-  
-  // Sort keyword results by score
-  keywordResults.sort((a, b) => b.score - a.score);
+  // Keyword search (BM25, best match scaled to 1)
+  const index = keywordIndex ?? Bm25Index.build(chunks);
+  const keywordResults = normalizeKeywordScores(index.search(query, chunks.length));
   
   // If no vectors or empty vectors, fall back to keyword-only search
   if (!vectors || vectors.length === 0) {
-    return keywordResults
-      .slice(0, topK)
-      .map(r => chunkToSearchResult(chunkMap.get(r.chunk_id)!, r.score))
-      .filter(r => r.chunk_id !== undefined);
+    const keywordOnly = rankChatResults(query, keywordResults, chunkMap, retrieval, poolK);
+    return diversifyChatResults(keywordOnly, topK, vectors, mmr);
   }
   
   // Build keyword score map for lookup
@@ -2708,7 +3322,7 @@ export function searchHybridForChat(params: {
   // Since we don't have a query vector, simulate semantic scoring based on:
   // 1. Keyword match overlap (chunks that match keywords are likely semantically relevant)
   // 2. Chunk index position (earlier chunks in structured docs are often more relevant)
-  const semanticResults: Array<{ chunk_id: string; score: number }> = [];
+  const semanticResults: ScoredChunk[] = [];
   
   for (let i = 0; i < vectors.length; i++) {
     const vector = vectors[i];
@@ -2720,36 +3334,8 @@ export function searchHybridForChat(params: {
     semanticResults.push({ chunk_id: vector.chunk_id, score: mockSemanticScore });
   }
   
-  // Sort semantic results by score
-  semanticResults.sort((a, b) => b.score - a.score);
-  
-  // Reciprocal Rank Fusion (RRF)
-  const rrfScores = new Map<string, number>();
-  
-  // Apply RRF to keyword results (30% weight)
-  keywordResults.slice(0, topK * 2).forEach((r, i) => {
-    const rrfScore = 1 / (RRF_CONSTANT + i + 1);
-    rrfScores.set(r.chunk_id, (rrfScores.get(r.chunk_id) || 0) + rrfScore * 0.3);
-  });
-  
-  // Apply RRF to semantic results (70% weight)
-  semanticResults.slice(0, topK * 2).forEach((r, i) => {
-    const rrfScore = 1 / (RRF_CONSTANT + i + 1);
-    rrfScores.set(r.chunk_id, (rrfScores.get(r.chunk_id) || 0) + rrfScore * 0.7);
-  });
-  
-  // Build final results with flattened structure
-  const fusedResults = Array.from(rrfScores.entries())
-    .map(([chunk_id, score]) => {
-      const chunk = chunkMap.get(chunk_id);
-      if (!chunk) return null;
-      return chunkToSearchResult(chunk, score);
-    })
-    .filter((r): r is SearchResult => r !== null)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, topK);
-  
-  return fusedResults;
+  const fused = fuseHybrid(semanticResults, keywordResults, retrieval);
+  return diversifyChatResults(rankChatResults(query, fused, chunkMap, retrieval, poolK), topK, vectors, mmr);
 }
 
 /**
@@ -2770,8 +3356,10 @@ export async function chatWithHybridSearch(params: {
   question: string;
   projectDir: string;
   topK?: number;
+  /** Diversify retrieved context with Maximal Marginal Relevance */
+  mmr?: MmrOptions;
 }): Promise<ChatResult> {
-  const { question, projectDir, topK = 5 } = params;
+  const { question, projectDir, topK = 5, mmr } = params;
   
   // Load project data
   const chunksPath = path.join(projectDir, "data", "chunks.jsonl");
@@ -2790,12 +3378,16 @@ export async function chatWithHybridSearch(params: {
     throw new Error("No chunks found in project");
   }
   
+  const { index: keywordIndex } = await loadBm25IndexFor(path.join(projectDir, "data", "bm25.json"), chunks);
+  const retrieval = resolveRetrievalSettings(manifest.retrieval);
+  
   let searchMode: 'hybrid' | 'keyword' = 'keyword';
   let searchResults: SearchResult[];
   
-  // Determine API key for embedding generation
+  // Determine API key for embedding generation (local and Ollama embeddings need none)
   const apiKeyEnv = manifest.embedding_model?.api_key_env || 'OPENAI_API_KEY';
-  const hasApiKey = !!process.env[apiKeyEnv];
+  const provider = manifest.embedding_model?.provider;
+  const hasApiKey = provider === 'local' || provider === 'ollama' || !!process.env[apiKeyEnv];
   
   // Check if we have vectors available for hybrid search
   if (vectors.length > 0 && hasApiKey) {
@@ -2815,6 +3407,9 @@ export async function chatWithHybridSearch(params: {
         chunks,
         vectors,
         topK,
+        keywordIndex,
+        mmr,
+        retrieval,
       });
     } catch {
       // Embedding generation failed - fall back to keyword-enhanced hybrid
@@ -2825,6 +3420,9 @@ export async function chatWithHybridSearch(params: {
         chunks,
         vectors, // Pass vectors for mock semantic scoring
         topK,
+        keywordIndex,
+        mmr,
+        retrieval,
       });
     }
   } else {
@@ -2835,6 +3433,9 @@ export async function chatWithHybridSearch(params: {
       chunks,
       vectors: [], // Empty vectors triggers keyword-only
       topK,
+      keywordIndex,
+      mmr,
+      retrieval,
     });
   }
   
@@ -2861,69 +3462,67 @@ export function searchHybridForChatWithVector(params: {
   chunks: ChunkRecord[];
   vectors: VectorRecord[];
   topK: number;
+  /** Persisted keyword index; built from chunks when omitted */
+  keywordIndex?: Bm25Index;
+  /** Diversify the fused results with Maximal Marginal Relevance */
+  mmr?: MmrOptions;
+  /** Project retrieval settings; defaults when omitted */
+  retrieval?: RetrievalSettings;
 }): SearchResult[] {
-  const { query, queryVector, chunks, vectors, topK } = params;
+  const { query, queryVector, chunks, vectors, topK, keywordIndex, mmr } = params;
+  const retrieval = params.retrieval ?? DEFAULT_RETRIEVAL_SETTINGS;
+  const poolK = mmr ? mmrPoolSize(topK) : topK;
   
   // Build chunk lookup map
   const chunkMap = new Map(chunks.map(c => [c.chunk_id, c]));
   
-  // Keyword search
-  const queryTerms = query.toLowerCase().split(/\s+/).filter(Boolean);
-  const keywordResults: Array<{ chunk_id: string; score: number }> = [];
-  
-  for (const chunk of chunks) {
-    const text = chunk.text.toLowerCase();
-    let matches = 0;
-    for (const term of queryTerms) {
-      if (text.includes(term)) matches++;
-    }
-    const score = queryTerms.length > 0 ? matches / queryTerms.length : 0;
-    if (score > 0) {
-      keywordResults.push({ chunk_id: chunk.chunk_id, score });
-    }
-  }
-  
-  // Sort keyword results by score
-  keywordResults.sort((a, b) => b.score - a.score);
+  // Keyword search (BM25, best match scaled to 1)
+  const index = keywordIndex ?? Bm25Index.build(chunks);
+  const keywordResults = normalizeKeywordScores(index.search(query, chunks.length));
   
   // Semantic search using real cosine similarity
-  const semanticResults: Array<{ chunk_id: string; score: number }> = [];
-  
-  for (const vector of vectors) {
-    const similarity = cosineSimilarity(queryVector, vector.embedding);
-    semanticResults.push({ chunk_id: vector.chunk_id, score: similarity });
-  }
-  
-  // Sort semantic results by score
-  semanticResults.sort((a, b) => b.score - a.score);
-  
-  // Reciprocal Rank Fusion (RRF)
-  const rrfScores = new Map<string, number>();
-  
-  // Apply RRF to keyword results (30% weight)
-  keywordResults.slice(0, topK * 2).forEach((r, i) => {
-    const rrfScore = 1 / (RRF_CONSTANT + i + 1);
-    rrfScores.set(r.chunk_id, (rrfScores.get(r.chunk_id) || 0) + rrfScore * 0.3);
-  });
-  
-  // Apply RRF to semantic results (70% weight)
-  semanticResults.slice(0, topK * 2).forEach((r, i) => {
-    const rrfScore = 1 / (RRF_CONSTANT + i + 1);
-    rrfScores.set(r.chunk_id, (rrfScores.get(r.chunk_id) || 0) + rrfScore * 0.7);
-  });
-  
-  // Build final results with flattened structure
-  const fusedResults = Array.from(rrfScores.entries())
-    .map(([chunk_id, score]) => {
-      const chunk = chunkMap.get(chunk_id);
-      if (!chunk) return null;
-      return chunkToSearchResult(chunk, score);
-    })
-    .filter((r): r is SearchResult => r !== null)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, topK);
+  const semanticResults = vectors.map(vector => ({
+    chunk_id: vector.chunk_id,
+    score: cosineSimilarity(queryVector, vector.embedding),
+  }));
   
-  return fusedResults;
+  const fused = fuseHybrid(semanticResults, keywordResults, retrieval);
+  return diversifyChatResults(rankChatResults(query, fused, chunkMap, retrieval, poolK), topK, vectors, mmr);
+}
+
+/**
+ * Apply anchor-term boosting to fused scores and build the top `limit`
+ * search results.
+ */
+function rankChatResults(
+  query: string,
+  scored: ScoredChunk[],
+  chunkMap: Map<string, ChunkRecord>,
+  retrieval: RetrievalSettings,
+  limit: number
+): SearchResult[] {
+  const ranked = applyAnchorBoost(
+    scored.filter(s => chunkMap.has(s.chunk_id)),
+    detectAnchorTerms(query),
+    retrieval.anchor_boost,
+    s => chunkMap.get(s.chunk_id)!.text
+  );
+  return ranked.slice(0, limit).map(s => chunkToSearchResult(chunkMap.get(s.chunk_id)!, s.score));
+}
+
+/**
+ * Apply MMR to fused chat results using the project's stored embeddings,
+ * or just truncate to topK when MMR is off.
+ */
+function diversifyChatResults(
+  results: SearchResult[],
+  topK: number,
+  vectors: VectorRecord[],
+  mmr: MmrOptions | undefined
+): SearchResult[] {
+  if (!mmr) return results.slice(0, topK);
+  const vectorMap = new Map(vectors.map(v => [v.chunk_id, v.embedding]));
+  return mmrSelect(results, topK, mmr.lambda, r => ({ vector: vectorMap.get(r.chunk_id), text: r.text }));
 }
 
 /**
@@ -3670,6 +4269,14 @@ interface ProjectManifest {
   project_id: string;
   name: string;
   description?: string;
+  embedding_model?: {
+    provider: string;
+    model_name: string;
+    dimensions?: number;
+    api_key_env?: string;
+    base_url?: string;
+  };
+  retrieval?: Partial<RetrievalSettings>;
   stats: {
     sources_count: number;
     chunks_count: number;
@@ -3689,6 +4296,7 @@ interface ChatRequest {
   system_prompt?: string;
   model?: string;
   top_k?: number;
+  mmr?: MmrOptions;           // Diversify retrieved context
 }
 
 // ============================================================================
@@ -3699,8 +4307,11 @@ let chunks: Chunk[] = [];
 let vectors: Vector[] = [];
 let sources: Source[] = [];
 let manifest: ProjectManifest | null = null;
+let retrieval: RetrievalSettings;
+let keywordIndex: Bm25Data;
 const chunkMap = new Map<string, Chunk>();
 const sourceMap = new Map<string, Source>();
+const vectorMap = new Map<string, number[]>();
 
 function loadJsonl<T>(filePath: string): T[] {
   if (!existsSync(filePath)) return [];
@@ -3721,6 +4332,9 @@ function loadData(): void {
     console.error(\`Project: \${manifest?.name || "unknown"}\`);
   }
 
+  // Hybrid ranking settings; older manifests have none and use the defaults
+  retrieval = { ...DEFAULT_RETRIEVAL, ...manifest?.retrieval };
+
   // Load sources from JSONL
   sources = loadJsonl<Source>(sourcesPath);
   sources.forEach(s => sourceMap.set(s.source_id, s));
@@ -3730,8 +4344,12 @@ function loadData(): void {
   chunks = loadJsonl<Chunk>(chunksPath);
   chunks.forEach(c => chunkMap.set(c.chunk_id, c));
 
+  // Load keyword index
+  keywordIndex = bm25Load(join(DATA_DIR, "bm25.json"), chunks);
+
   // Load vectors
   vectors = loadJsonl<Vector>(vectorsPath);
+  vectors.forEach(v => vectorMap.set(v.chunk_id, v.embedding));
 
   console.error(\`Loaded \${chunks.length} chunks, \${vectors.length} vectors\`);
 }
@@ -3779,30 +4397,136 @@ function cosineSimilarity(a: number[], b: number[]): number {
   return denom === 0 ? 0 : dot / denom;
 }
 
-function searchKeyword(query: string, topK: number): Array<{ chunk: Chunk; score: number }> {
-  if (!query.trim()) return [];
-  const terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
-  if (terms.length === 0) return [];
-
-  const scored = chunks.map(chunk => {
-    const text = chunk.text.toLowerCase();
-    let matches = 0;
-    for (const term of terms) {
-      if (text.includes(term)) matches++;
+/** Restricts search to matching chunks before top-k truncation */
+type ChunkFilter = (chunk: Chunk) => boolean;
+
+/**
+ * Build a filter from filter_tags. Chunks carry their source's tags in
+ * metadata.tags; older builds fall back to the source record.
+ * mode "any" needs one shared tag, "all" needs every tag.
+ */
+function buildTagFilter(filterTags: unknown, mode: unknown): ChunkFilter | undefined {
+  if (!Array.isArray(filterTags) || filterTags.length === 0) return undefined;
+  const wanted = filterTags.filter((t): t is string => typeof t === "string");
+  const matchAll = mode === "all";
+
+  return (chunk: Chunk) => {
+    const tags = Array.isArray(chunk.metadata?.tags)
+      ? chunk.metadata.tags as string[]
+      : sourceMap.get(chunk.source_id)?.tags || [];
+    return matchAll ? wanted.every(t => tags.includes(t)) : wanted.some(t => tags.includes(t));
+  };
+}
+
+// BM25 keyword index (identical to IndexFoundry's project index, which is
+// saved as data/bm25.json; rebuilt from chunks when missing or stale)
+interface Bm25Data {
+  k1: number;
+  b: number;
+  postings: Map<string, Map<string, number>>;
+  docLengths: Map<string, number>;
+  totalLength: number;
+}
+
+function bm25Tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\\p{L}\\p{N}]+/gu) || [];
+}
+
+function bm25Build(docs: Chunk[]): Bm25Data {
+  const index: Bm25Data = { k1: ${BM25_K1}, b: ${BM25_B}, postings: new Map(), docLengths: new Map(), totalLength: 0 };
+  for (const doc of docs) {
+    const tokens = bm25Tokenize(doc.text);
+    const counts = new Map<string, number>();
+    for (const token of tokens) counts.set(token, (counts.get(token) || 0) + 1);
+    for (const [term, tf] of counts) {
+      let postings = index.postings.get(term);
+      if (!postings) index.postings.set(term, postings = new Map());
+      postings.set(doc.chunk_id, tf);
     }
-    return { chunk, score: matches / terms.length };
-  });
+    index.docLengths.set(doc.chunk_id, tokens.length);
+    index.totalLength += tokens.length;
+  }
+  return index;
+}
 
-  return scored
-    .filter(r => r.score > 0)
-    .sort((a, b) => b.score - a.score)
+function bm25Load(filePath: string, docs: Chunk[]): Bm25Data {
+  try {
+    if (existsSync(filePath)) {
+      const data = JSON.parse(readFileSync(filePath, "utf-8"));
+      const docLengths = new Map<string, number>(Object.entries(data.doc_lengths));
+      if (data.version === ${BM25_INDEX_VERSION} && docLengths.size === docs.length && docs.every(d => docLengths.has(d.chunk_id))) {
+        let totalLength = 0;
+        for (const length of docLengths.values()) totalLength += length;
+        const postings = new Map<string, Map<string, number>>();
+        for (const [term, entries] of Object.entries(data.postings as Record<string, Record<string, number>>)) {
+          postings.set(term, new Map(Object.entries(entries)));
+        }
+        return { k1: data.k1, b: data.b, postings, docLengths, totalLength };
+      }
+      console.error("Keyword index is out of date, rebuilding from chunks");
+    }
+  } catch (err) {
+    console.error("Failed to load keyword index, rebuilding from chunks:", err);
+  }
+  return bm25Build(docs);
+}
+
+function bm25Search(index: Bm25Data, query: string, topK: number, filter?: (chunkId: string) => boolean): Array<{ chunk_id: string; score: number }> {
+  const docCount = index.docLengths.size;
+  if (docCount === 0) return [];
+
+  const avgLength = index.totalLength / docCount || 1;
+  const scores = new Map<string, number>();
+
+  // Repeated query terms count once
+  for (const term of new Set(bm25Tokenize(query))) {
+    const postings = index.postings.get(term);
+    if (!postings) continue;
+
+    const idf = Math.log(1 + (docCount - postings.size + 0.5) / (postings.size + 0.5));
+    for (const [chunkId, tf] of postings) {
+      if (filter && !filter(chunkId)) continue;
+      const length = index.docLengths.get(chunkId) ?? 0;
+      const norm = tf + index.k1 * (1 - index.b + index.b * (length / avgLength));
+      scores.set(chunkId, (scores.get(chunkId) || 0) + idf * (tf * (index.k1 + 1)) / norm);
+    }
+  }
+
+  return Array.from(scores, ([chunk_id, score]) => ({ chunk_id, score }))
+    .sort((a, b) => b.score - a.score || a.chunk_id.localeCompare(b.chunk_id))
     .slice(0, topK);
 }
 
-function searchSemantic(queryVector: number[], topK: number): Array<{ chunk_id: string; score: number }> {
+/**
+ * BM25 keyword search. Scores are scaled to 0-1 by the best match so they
+ * mix with cosine similarities in hybrid search.
+ */
+function searchKeyword(query: string, topK: number, filter?: ChunkFilter): Array<{ chunk: Chunk; score: number }> {
+  if (!query.trim()) return [];
+
+  const hits = bm25Search(keywordIndex, query, topK, filter
+    ? chunkId => {
+        const chunk = chunkMap.get(chunkId);
+        return chunk !== undefined && filter(chunk);
+      }
+    : undefined);
+  const top = hits[0]?.score || 1;
+
+  return hits
+    .map(h => ({ chunk: chunkMap.get(h.chunk_id)!, score: h.score / top }))
+    .filter(r => r.chunk);
+}
+
+function searchSemantic(queryVector: number[], topK: number, filter?: ChunkFilter): Array<{ chunk_id: string; score: number }> {
   if (!queryVector || queryVector.length === 0) return [];
 
-  const scored = vectors.map(v => ({
+  const candidates = filter
+    ? vectors.filter(v => {
+        const chunk = chunkMap.get(v.chunk_id);
+        return chunk !== undefined && filter(chunk);
+      })
+    : vectors;
+  const scored = candidates.map(v => ({
     chunk_id: v.chunk_id,
     score: cosineSimilarity(queryVector, v.embedding),
   }));
@@ -3812,23 +4536,180 @@ function searchSemantic(queryVector: number[], topK: number): Array<{ chunk_id:
     .slice(0, topK);
 }
 
+// Maximal Marginal Relevance (identical to IndexFoundry's mmrSelect):
+// diversifies results so near-duplicate chunks don't fill top_k
+interface MmrOptions {
+  lambda: number;
+}
+
 /**
- * Generate query embedding using OpenAI API
+ * Validate the optional mmr request option { lambda?: number in [0, 1] }.
+ * Returns an error message when it is malformed.
+ */
+function parseMmr(value: unknown): MmrOptions | undefined | string {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return "mmr must be an object like { lambda: 0.5 }";
+  }
+  const lambda = (value as { lambda?: unknown }).lambda ?? ${MMR_DEFAULT_LAMBDA};
+  if (typeof lambda !== "number" || !(lambda >= 0 && lambda <= 1)) {
+    return "mmr.lambda must be a number between 0 and 1";
+  }
+  return { lambda };
+}
+
+function mmrSelect<T extends { score: number }>(
+  candidates: T[],
+  topK: number,
+  lambda: number,
+  describe: (candidate: T) => { vector?: number[]; text: string }
+): T[] {
+  if (candidates.length <= 1 || lambda >= 1) {
+    return candidates.slice(0, topK);
+  }
+
+  const prepared = candidates.map(candidate => {
+    const view = describe(candidate);
+    return { vector: view.vector, tokens: new Set(bm25Tokenize(view.text)) };
+  });
+  const similarity = (a: typeof prepared[number], b: typeof prepared[number]): number => {
+    if (a.vector?.length && b.vector && a.vector.length === b.vector.length) {
+      return Math.max(0, cosineSimilarity(a.vector, b.vector));
+    }
+    if (a.tokens.size === 0 || b.tokens.size === 0) return 0;
+    let shared = 0;
+    for (const token of a.tokens) {
+      if (b.tokens.has(token)) shared++;
+    }
+    return shared / (a.tokens.size + b.tokens.size - shared);
+  };
+  const top = Math.max(...candidates.map(c => c.score));
+  const relevance = candidates.map(c => top > 0 ? Math.max(0, c.score) / top : 1);
+
+  const maxSimilarity = new Array<number>(candidates.length).fill(0);
+  const remaining = new Set(candidates.map((_, i) => i));
+  const selected: number[] = [];
+
+  while (selected.length < topK && remaining.size > 0) {
+    let best = -1;
+    let bestValue = Number.NEGATIVE_INFINITY;
+    for (const i of remaining) {
+      const value = lambda * relevance[i] - (1 - lambda) * maxSimilarity[i];
+      if (value > bestValue) {
+        best = i;
+        bestValue = value;
+      }
+    }
+
+    selected.push(best);
+    remaining.delete(best);
+    for (const i of remaining) {
+      maxSimilarity[i] = Math.max(maxSimilarity[i], similarity(prepared[i], prepared[best]));
+    }
+  }
+
+  return selected.map(i => candidates[i]);
+}
+
+/** Candidates to retrieve before MMR picks topK of them */
+function mmrPoolSize(topK: number, mmr: MmrOptions | undefined): number {
+  return mmr ? topK * ${MMR_POOL_MULTIPLIER} : topK;
+}
+
+/** Diversify results with the stored embeddings, or just truncate when MMR is off */
+function diversify(
+  results: Array<{ chunk: Chunk; score: number }>,
+  topK: number,
+  mmr: MmrOptions | undefined
+): Array<{ chunk: Chunk; score: number }> {
+  if (!mmr) return results.slice(0, topK);
+  return mmrSelect(results, topK, mmr.lambda, r => ({ vector: vectorMap.get(r.chunk.chunk_id), text: r.chunk.text }));
+}
+
+/**
+ * Offline feature-hashing embedding (identical to IndexFoundry's "local"
+ * provider, so query vectors match the vectors built for this project)
+ */
+function embedLocal(text: string, dimensions: number): number[] {
+  const counts = new Map<number, number>();
+  const words = text.toLowerCase().match(/[\\p{L}\\p{N}]+/gu) || [];
+
+  const addFeature = (feature: string, weight: number) => {
+    // 32-bit FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      hash ^= feature.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hash >>>= 0;
+    const bucket = hash % dimensions;
+    const sign = (Math.imul(hash, 0x9e3779b1) >>> 31) === 1 ? -1 : 1;
+    counts.set(bucket, (counts.get(bucket) || 0) + sign * weight);
+  };
+
+  for (const word of words) {
+    addFeature("w:" + word, 1);
+    const padded = "#" + word + "#";
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature("c:" + padded.slice(i, i + 3), 0.5);
+    }
+  }
+
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [bucket, value] of counts) {
+    // Sublinear scaling keeps frequent terms from dominating
+    vector[bucket] = Math.sign(value) * Math.log1p(Math.abs(value));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+/**
+ * Generate query embedding with the project's embedding model
  */
 async function generateQueryEmbedding(query: string): Promise<number[]> {
-  const apiKey = process.env.OPENAI_API_KEY;
+  const model = manifest?.embedding_model;
+  if (model?.provider === "local") {
+    return embedLocal(query, model.dimensions ?? ${LOCAL_EMBEDDING_DEFAULT_DIMENSIONS});
+  }
+
+  const modelName = model?.model_name || "text-embedding-3-small";
+  const apiKey = process.env[model?.api_key_env || "OPENAI_API_KEY"];
+
+  // Same endpoint the project was built with (OpenAI-compatible gateway or Ollama)
+  if (model?.provider === "ollama") {
+    const baseUrl = (model.base_url || "${OLLAMA_DEFAULT_BASE_URL}").replace(/\\/+$/, "");
+    const response = await fetch(\`\${baseUrl}/api/embeddings\`, {
+      method: "POST",
+      headers: {
+        ...(apiKey ? { "Authorization": \`Bearer \${apiKey}\` } : {}),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ model: modelName, prompt: query }),
+    });
+
+    if (!response.ok) {
+      throw new Error(\`Embedding API error: \${response.status}\`);
+    }
+
+    const data = await response.json() as { embedding: number[] };
+    return data.embedding;
+  }
+
   if (!apiKey) {
-    throw new Error("OPENAI_API_KEY not configured");
+    throw new Error(\`\${model?.api_key_env || "OPENAI_API_KEY"} not configured\`);
   }
 
-  const response = await fetch("https://api.openai.com/v1/embeddings", {
+  const baseUrl = (model?.base_url || "${OPENAI_DEFAULT_BASE_URL}").replace(/\\/+$/, "");
+  const response = await fetch(\`\${baseUrl}/embeddings\`, {
     method: "POST",
     headers: {
       "Authorization": \`Bearer \${apiKey}\`,
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
-      model: "text-embedding-3-small",
+      model: modelName,
       input: query,
     }),
   });
@@ -3841,6 +4722,66 @@ async function generateQueryEmbedding(query: string): Promise<number[]> {
   return data.data[0].embedding;
 }
 
+// Hybrid fusion (identical to IndexFoundry's project search, so this server
+// ranks like project_query for the same retrieval settings)
+type FusionMethod = "rrf" | "weighted_sum" | "convex";
+
+interface RetrievalSettings {
+  alpha: number;
+  fusion_method: FusionMethod;
+  rrf_k: number;
+  anchor_boost: number;
+}
+
+interface ScoredChunk {
+  chunk_id: string;
+  score: number;
+}
+
+const DEFAULT_RETRIEVAL: RetrievalSettings = { alpha: ${DEFAULT_RETRIEVAL_SETTINGS.alpha}, fusion_method: "${DEFAULT_RETRIEVAL_SETTINGS.fusion_method}", rrf_k: ${DEFAULT_RETRIEVAL_SETTINGS.rrf_k}, anchor_boost: ${DEFAULT_RETRIEVAL_SETTINGS.anchor_boost} };
+
+/**
+ * Fuse semantic (cosine) and keyword (best = 1) scores into one ranking
+ * using the project's fusion method; ties are broken by chunk_id.
+ */
+function fuseHybrid(
+  semantic: ScoredChunk[],
+  keyword: ScoredChunk[],
+  settings: RetrievalSettings
+): ScoredChunk[] {
+  const { alpha, fusion_method, rrf_k } = settings;
+  const byScore = (a: ScoredChunk, b: ScoredChunk) =>
+    b.score - a.score || (a.chunk_id < b.chunk_id ? -1 : a.chunk_id > b.chunk_id ? 1 : 0);
+  const scaled = (list: ScoredChunk[]): Map<string, number> => {
+    if (fusion_method === "rrf") {
+      return new Map([...list].sort(byScore).map((r, i) => [r.chunk_id, 1 / (rrf_k + i + 1)]));
+    }
+    if (fusion_method === "weighted_sum" || list.length === 0) {
+      return new Map(list.map(r => [r.chunk_id, r.score]));
+    }
+    // A loop, not Math.min(...scores): lists can exceed the argument limit
+    let min = Infinity;
+    let max = -Infinity;
+    for (const r of list) {
+      min = Math.min(min, r.score);
+      max = Math.max(max, r.score);
+    }
+    const range = max - min;
+    return new Map(list.map(r => [r.chunk_id, range > 0 ? (r.score - min) / range : 1]));
+  };
+
+  const semanticScores = scaled(semantic);
+  const keywordScores = scaled(keyword);
+  const ids = new Set([...semanticScores.keys(), ...keywordScores.keys()]);
+
+  return Array.from(ids)
+    .map(chunk_id => ({
+      chunk_id,
+      score: alpha * (semanticScores.get(chunk_id) ?? 0) + (1 - alpha) * (keywordScores.get(chunk_id) ?? 0),
+    }))
+    .sort(byScore);
+}
+
 /**
  * Detect anchor terms (identifiers like room numbers, codes, etc.)
  * These terms should be prioritized for exact keyword matching
@@ -3850,9 +4791,9 @@ function detectAnchorTerms(query: string): string[] {
     /\\b([A-Z]\\d{1,3})\\b/g,           // Room numbers: A1, D40, B108
     /\\b([A-Z]{2,3}\\d{1,4})\\b/g,      // Codes: SRD52, CR10
     /\\b(\\d{3,})\\b/g,                  // Long numbers: 300, 5000
-    /"([^"]+)"/g,                       // Quoted terms: "myrmarch"
+    /"([^"]+)"/g,                     // Quoted terms: "myrmarch"
   ];
-  
+
   const anchors: string[] = [];
   for (const pattern of patterns) {
     let match;
@@ -3860,148 +4801,81 @@ function detectAnchorTerms(query: string): string[] {
       anchors.push(match[1] || match[0]);
     }
   }
-  return [...new Set(anchors)]; // Dedupe
+  return [...new Set(anchors)];
 }
 
 /**
- * Calculate query specificity (0 = very broad, 1 = very specific)
- * Used for adaptive weighting between keyword and semantic search
+ * Boost results containing anchor terms: a label match ("D40." or "D40:")
+ * counts fully, a plain mention half, each worth anchor_boost times the best score.
  */
-function calculateQuerySpecificity(query: string, anchorTerms: string[]): number {
-  const words = query.toLowerCase().split(/\\s+/).filter(w => w.length > 2);
-  
-  let specificity = 0;
-  
-  // Anchors are highly specific
-  specificity += Math.min(0.5, anchorTerms.length * 0.2);
-  
-  // Short queries tend to be specific searches
-  if (words.length <= 3) specificity += 0.2;
-  else if (words.length <= 6) specificity += 0.1;
-  
-  // Common broad words reduce specificity
-  const broadWords = ['what', 'how', 'tell', 'about', 'explain', 'describe', 'overview'];
-  const hasBroadWords = broadWords.some(w => words.includes(w));
-  if (hasBroadWords) specificity -= 0.2;
-  
-  return Math.max(0, Math.min(1, specificity));
+function applyAnchorBoost<T extends { score: number }>(
+  results: T[],
+  anchors: string[],
+  boost: number,
+  textOf: (result: T) => string
+): T[] {
+  if (anchors.length === 0 || boost <= 0 || results.length === 0) return results;
+
+  const unit = Math.abs(results.reduce((best, r) => Math.max(best, r.score), -Infinity)) || 1;
+  const labels = anchors.map(anchor =>
+    new RegExp(\`\\\\b\${anchor.replace(/[.*+?^\${}()|[\\]\\\\]/g, "\\\\$&")}\\\\s*[.:)]\`, "i"));
+
+  return results
+    .map((result, i) => {
+      const text = textOf(result);
+      const lower = text.toLowerCase();
+      let matches = 0;
+      anchors.forEach((anchor, a) => {
+        if (lower.includes(anchor.toLowerCase())) {
+          matches += labels[a].test(text) ? 1 : 0.5;
+        }
+      });
+      return { result: { ...result, score: result.score + unit * boost * matches }, i };
+    })
+    .sort((a, b) => b.result.score - a.result.score || a.i - b.i)
+    .map(entry => entry.result);
+}
+
+/** Apply anchor boosting to fused scores and resolve chunks */
+function rankWithAnchors(query: string, scored: ScoredChunk[]): Array<{ chunk: Chunk; score: number }> {
+  return applyAnchorBoost(
+    scored.filter(s => chunkMap.has(s.chunk_id)),
+    detectAnchorTerms(query),
+    retrieval.anchor_boost,
+    s => chunkMap.get(s.chunk_id)!.text
+  ).map(s => ({ chunk: chunkMap.get(s.chunk_id)!, score: s.score }));
+}
+
+/** Anchor-boosted keyword ranking, used by hybrid search without a query vector */
+function rankKeyword(query: string, filter?: ChunkFilter): Array<{ chunk: Chunk; score: number }> {
+  const keyword = searchKeyword(query, chunks.length, filter).map(r => ({ chunk_id: r.chunk.chunk_id, score: r.score }));
+  return rankWithAnchors(query, keyword);
+}
+
+/** Keyword + semantic ranking fused with the project's retrieval settings */
+function rankHybrid(query: string, queryVector: number[], filter?: ChunkFilter): Array<{ chunk: Chunk; score: number }> {
+  const keyword = searchKeyword(query, chunks.length, filter).map(r => ({ chunk_id: r.chunk.chunk_id, score: r.score }));
+  const semantic = searchSemantic(queryVector, vectors.length, filter);
+  return rankWithAnchors(query, fuseHybrid(semantic, keyword, retrieval));
 }
 
 /**
- * Hybrid search combining keyword and semantic search with:
- * 1. Linear Score Interpolation - uses actual scores instead of RRF rank positions
- * 2. Query-Adaptive Weighting - dynamically adjusts weights based on query characteristics
- * 3. Anchor Term Boosting - boosts chunks containing identifier terms (D40, A108, etc.)
+ * Hybrid search for chat: fused ranking when a query embedding can be
+ * generated, anchor-boosted keyword ranking otherwise.
  */
 async function searchHybrid(query: string, topK: number): Promise<Array<{ chunk: Chunk; score: number }>> {
-  // Step 1: Detect anchor terms (identifiers like D40, A108, etc.)
-  const anchorTerms = detectAnchorTerms(query);
-  const hasAnchors = anchorTerms.length > 0;
-  
-  // Step 2: Calculate query specificity for adaptive weighting
-  const specificity = calculateQuerySpecificity(query, anchorTerms);
-  
-  // Step 3: Determine weights based on specificity
-  // High specificity (identifiers present) → keyword-heavy (60-70%)
-  // Low specificity (conceptual query) → semantic-heavy (70-80%)
-  // Mixed → balanced (50/50)
-  const keywordWeight = hasAnchors ?
-    Math.min(0.7, 0.3 + anchorTerms.length * 0.2) : // 0.3 + 0.2 per anchor, max 0.7
-    Math.max(0.2, 0.5 - specificity * 0.3);          // 0.2 to 0.5 based on specificity
-  const semanticWeight = 1 - keywordWeight;
-  
-  console.error(\`[Hybrid Search] Query: "\${query}" | Anchors: [\${anchorTerms.join(', ')}] | Specificity: \${specificity.toFixed(2)} | Weights: kw=\${keywordWeight.toFixed(2)}, sem=\${semanticWeight.toFixed(2)}\`);
-  
-  // Step 4: Get results from both search methods (get more for fusion)
-  const keywordResults = searchKeyword(query, topK * 3);
-  
-  // Try semantic search if we have vectors
-  let semanticResults: Array<{ chunk_id: string; score: number }> = [];
-  
+  console.error(\`[Hybrid Search] Query: "\${query}" | fusion=\${retrieval.fusion_method} alpha=\${retrieval.alpha} rrf_k=\${retrieval.rrf_k} anchor_boost=\${retrieval.anchor_boost}\`);
+
   if (vectors.length > 0) {
     try {
       const queryVector = await generateQueryEmbedding(query);
-      semanticResults = searchSemantic(queryVector, topK * 3);
+      return rankHybrid(query, queryVector).slice(0, topK);
     } catch (err) {
       console.error("Embedding generation failed, using keyword-only:", err);
-      // Fall back to keyword-only with anchor boosting
-      return applyAnchorBoost(keywordResults, anchorTerms).slice(0, topK);
-    }
-  } else {
-    // No vectors available, use keyword-only with anchor boosting
-    return applyAnchorBoost(keywordResults, anchorTerms).slice(0, topK);
-  }
-  
-  // Step 5: Build score maps for O(1) lookup
-  // Normalize keyword scores to 0-1 range (they're already 0-1 as match ratio)
-  const keywordMap = new Map(keywordResults.map(r => [r.chunk.chunk_id, r.score]));
-  // Semantic scores are already cosine similarity in -1 to 1 range, normalize to 0-1
-  const semanticMap = new Map(semanticResults.map(r => [r.chunk_id, (r.score + 1) / 2]));
-  
-  // Step 6: Collect all unique chunk IDs from both result sets
-  const allChunkIds = new Set([
-    ...keywordResults.map(r => r.chunk.chunk_id),
-    ...semanticResults.map(r => r.chunk_id)
-  ]);
-  
-  // Step 7: Calculate combined scores with linear interpolation
-  const results: Array<{ chunk: Chunk; score: number }> = [];
-  
-  for (const chunkId of allChunkIds) {
-    const chunk = chunkMap.get(chunkId);
-    if (!chunk) continue;
-    
-    const semScore = semanticMap.get(chunkId) || 0;
-    const kwScore = keywordMap.get(chunkId) || 0;
-    
-    // Step 8: Apply anchor term boosting
-    let anchorBoost = 0;
-    if (hasAnchors) {
-      const chunkText = chunk.text.toLowerCase();
-      for (const anchor of anchorTerms) {
-        const anchorLower = anchor.toLowerCase();
-        // If chunk contains the exact anchor term, boost significantly
-        if (chunkText.includes(anchorLower)) {
-          // Higher boost for exact pattern match (e.g., "D40." or "D40:" at start of line)
-          const exactMatch = new RegExp(\`\\\\b\${anchor}\\\\s*[\\\\.:\\\\)]\`, 'i');
-          anchorBoost += exactMatch.test(chunk.text) ? 0.4 : 0.15;
-        }
-      }
     }
-    
-    // Step 9: Linear interpolation with anchor boost
-    const combinedScore = (semScore * semanticWeight) + (kwScore * keywordWeight) + anchorBoost;
-    
-    results.push({ chunk, score: combinedScore });
   }
-  
-  // Step 10: Sort by combined score and return top K
-  return results
-    .sort((a, b) => b.score - a.score)
-    .slice(0, topK);
-}
 
-/**
- * Helper: Apply anchor term boosting to keyword-only results
- * Used when semantic search is unavailable
- */
-function applyAnchorBoost(results: Array<{ chunk: Chunk; score: number }>, anchorTerms: string[]): Array<{ chunk: Chunk; score: number }> {
-  if (anchorTerms.length === 0) return results;
-  
-  return results.map(r => {
-    let anchorBoost = 0;
-    const chunkText = r.chunk.text.toLowerCase();
-    
-    for (const anchor of anchorTerms) {
-      const anchorLower = anchor.toLowerCase();
-      if (chunkText.includes(anchorLower)) {
-        const exactMatch = new RegExp(\`\\\\b\${anchor}\\\\s*[\\\\.:\\\\)]\`, 'i');
-        anchorBoost += exactMatch.test(r.chunk.text) ? 0.4 : 0.15;
-      }
-    }
-    
-    return { chunk: r.chunk, score: r.score + anchorBoost };
-  }).sort((a, b) => b.score - a.score);
+  return rankKeyword(query).slice(0, topK);
 }
 
 // ============================================================================
@@ -4042,6 +4916,24 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             minimum: 1,
             maximum: 100,
             description: "Number of results to return"
+          },
+          filter_tags: {
+            type: "array",
+            items: { type: "string" },
+            description: "Only return chunks from sources with these tags"
+          },
+          filter_tags_mode: {
+            type: "string",
+            enum: ["any", "all"],
+            default: "any",
+            description: "any: at least one of filter_tags; all: every tag"
+          },
+          mmr: {
+            type: "object",
+            properties: {
+              lambda: { type: "number", minimum: 0, maximum: 1, default: ${MMR_DEFAULT_LAMBDA} }
+            },
+            description: "Diversify results with Maximal Marginal Relevance (lambda 1 = pure relevance, 0 = maximum diversity)"
           }
         },
         required: ["query"]
@@ -4085,11 +4977,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
   switch (name) {
     case "search": {
-      const { query, query_vector, mode = "keyword", top_k = 10 } = args as {
+      const { query, query_vector, mode = "keyword", top_k = 10, filter_tags, filter_tags_mode, mmr: mmrOption } = args as {
         query: string;
         query_vector?: number[];
         mode?: string;
         top_k?: number;
+        filter_tags?: string[];
+        filter_tags_mode?: "any" | "all";
+        mmr?: unknown;
       };
 
       // Validate inputs
@@ -4100,11 +4995,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      const mmr = parseMmr(mmrOption);
+      if (typeof mmr === "string") {
+        return {
+          content: [{ type: "text", text: JSON.stringify({ error: mmr }) }],
+          isError: true
+        };
+      }
+
       const effectiveTopK = Math.min(Math.max(1, top_k), 100);
+      const poolK = mmrPoolSize(effectiveTopK, mmr);
       let results: Array<{ chunk: Chunk; score: number }> = [];
+      const filter = buildTagFilter(filter_tags, filter_tags_mode);
 
       if (mode === "keyword") {
-        results = searchKeyword(query, effectiveTopK);
+        results = searchKeyword(query, poolK, filter);
       } else if (mode === "semantic") {
         if (!query_vector || !Array.isArray(query_vector)) {
           return {
@@ -4112,35 +5017,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             isError: true
           };
         }
-        const semantic = searchSemantic(query_vector, effectiveTopK);
+        const semantic = searchSemantic(query_vector, poolK, filter);
         results = semantic
           .map(s => ({ chunk: chunkMap.get(s.chunk_id)!, score: s.score }))
           .filter(r => r.chunk);
       } else if (mode === "hybrid") {
         if (!query_vector || !Array.isArray(query_vector)) {
           // Fall back to keyword-only for hybrid without vector
-          results = searchKeyword(query, effectiveTopK);
+          results = rankKeyword(query, filter);
         } else {
-          // Reciprocal Rank Fusion
-          const keyword = searchKeyword(query, effectiveTopK * 2);
-          const semantic = searchSemantic(query_vector, effectiveTopK * 2);
-
-          const scoreMap = new Map<string, number>();
-          const k = 60; // RRF constant
-          keyword.forEach((r, i) => {
-            scoreMap.set(r.chunk.chunk_id, (scoreMap.get(r.chunk.chunk_id) || 0) + 1 / (k + i + 1));
-          });
-          semantic.forEach((r, i) => {
-            scoreMap.set(r.chunk_id, (scoreMap.get(r.chunk_id) || 0) + 1 / (k + i + 1));
-          });
-
-          results = Array.from(scoreMap.entries())
-            .map(([id, score]) => ({ chunk: chunkMap.get(id)!, score }))
-            .filter(r => r.chunk)
-            .sort((a, b) => b.score - a.score)
-            .slice(0, effectiveTopK);
+          results = rankHybrid(query, query_vector, filter);
         }
       }
+      results = diversify(results, effectiveTopK, mmr);
 
       return {
         content: [{
@@ -4291,48 +5180,44 @@ app.get("/sources", (_, res) => {
 // Search endpoint
 app.post("/search", async (req, res) => {
   try {
-    const { query, query_vector, mode = "keyword", top_k = 10 } = req.body;
+    const { query, query_vector, mode = "keyword", top_k = 10, filter_tags, filter_tags_mode, mmr: mmrOption } = req.body;
+
+    if (filter_tags !== undefined && !Array.isArray(filter_tags)) {
+      return res.status(400).json({ error: "filter_tags must be an array of strings" });
+    }
 
     if (!query || typeof query !== "string") {
       return res.status(400).json({ error: "query is required and must be a string" });
     }
 
+    const mmr = parseMmr(mmrOption);
+    if (typeof mmr === "string") {
+      return res.status(400).json({ error: mmr });
+    }
+
     const effectiveTopK = Math.min(Math.max(1, top_k || 10), 100);
+    const poolK = mmrPoolSize(effectiveTopK, mmr);
     let results: Array<{ chunk: Chunk; score: number }> = [];
+    const filter = buildTagFilter(filter_tags, filter_tags_mode);
 
     if (mode === "keyword") {
-      results = searchKeyword(query, effectiveTopK);
+      results = searchKeyword(query, poolK, filter);
     } else if (mode === "semantic") {
       if (!query_vector || !Array.isArray(query_vector)) {
         return res.status(400).json({ error: "query_vector required for semantic search" });
       }
-      const semantic = searchSemantic(query_vector, effectiveTopK);
+      const semantic = searchSemantic(query_vector, poolK, filter);
       results = semantic
         .map(s => ({ chunk: chunkMap.get(s.chunk_id)!, score: s.score }))
         .filter(r => r.chunk);
     } else if (mode === "hybrid") {
       if (!query_vector || !Array.isArray(query_vector)) {
-        results = searchKeyword(query, effectiveTopK);
+        results = rankKeyword(query, filter);
       } else {
-        const keyword = searchKeyword(query, effectiveTopK * 2);
-        const semantic = searchSemantic(query_vector, effectiveTopK * 2);
-
-        const scoreMap = new Map<string, number>();
-        const k = 60;
-        keyword.forEach((r, i) => {
-          scoreMap.set(r.chunk.chunk_id, (scoreMap.get(r.chunk.chunk_id) || 0) + 1 / (k + i + 1));
-        });
-        semantic.forEach((r, i) => {
-          scoreMap.set(r.chunk_id, (scoreMap.get(r.chunk_id) || 0) + 1 / (k + i + 1));
-        });
-
-        results = Array.from(scoreMap.entries())
-          .map(([id, score]) => ({ chunk: chunkMap.get(id)!, score }))
-          .filter(r => r.chunk)
-          .sort((a, b) => b.score - a.score)
-          .slice(0, effectiveTopK);
+        results = rankHybrid(query, query_vector, filter);
       }
     }
+    results = diversify(results, effectiveTopK, mmr);
 
     res.json({
       results: results.map(r => enrichWithSource(r.chunk, r.score)),
@@ -4363,13 +5248,19 @@ app.post("/chat", async (req, res) => {
     top_k = 10, 
     model,
     conversation_id,
-    messages = []
+    messages = [],
+    mmr: mmrOption
   } = req.body as ChatRequest;
 
   if (!question || typeof question !== "string") {
     return res.status(400).json({ error: "question is required" });
   }
 
+  const mmr = parseMmr(mmrOption);
+  if (typeof mmr === "string") {
+    return res.status(400).json({ error: mmr });
+  }
+
   const apiKey = process.env.OPENAI_API_KEY;
   if (!apiKey) {
     return res.status(500).json({ error: "OPENAI_API_KEY not configured" });
@@ -4387,7 +5278,8 @@ app.post("/chat", async (req, res) => {
     : '';
 
   // Search for relevant context using hybrid search (keyword + semantic with RRF fusion)
-  const searchResults = await searchHybrid(question, Math.min(top_k, 10));
+  const contextK = Math.min(top_k, 10);
+  const searchResults = diversify(await searchHybrid(question, mmrPoolSize(contextK, mmr)), contextK, mmr);
 
   // Build context with source citations
   const contextParts = searchResults.map((r, i) => {
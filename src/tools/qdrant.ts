@@ -0,0 +1,248 @@
+/**
+ * IndexFoundry-MCP: Qdrant Vector Store
+ *
+ * Minimal Qdrant REST client used by indexUpsert (collection management and
+ * batch upserts) and by the search server (semantic search).
+ *
+ * Chunk IDs are not valid Qdrant point IDs, so each point gets a
+ * deterministic UUID derived from its namespace and chunk ID. The original
+ * chunk ID and namespace are stored in the payload.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+import { sha256 } from "../utils.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_HOST = "localhost";
+const DEFAULT_PORT = 6333;
+const REQUEST_TIMEOUT_MS = 30000;
+
+/** Payload keys reserved by IndexFoundry (not user metadata) */
+export const QDRANT_CHUNK_ID_KEY = "chunk_id";
+export const QDRANT_NAMESPACE_KEY = "namespace";
+export const QDRANT_TEXT_KEY = "text";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type QdrantDistance = "Cosine" | "Dot" | "Euclid";
+
+export interface QdrantConnection {
+  host?: string;
+  port?: number;
+  api_key_env?: string;
+}
+
+export interface QdrantPoint {
+  id: string;
+  vector: number[];
+  payload: Record<string, unknown>;
+}
+
+export interface QdrantScoredPoint {
+  id: string | number;
+  score: number;
+  payload?: Record<string, unknown>;
+}
+
+export interface QdrantCollectionInfo {
+  size: number;
+  distance: QdrantDistance;
+  points_count?: number;
+}
+
+export interface QdrantFilter {
+  must: Array<Record<string, unknown>>;
+}
+
+export class QdrantError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "QdrantError";
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Resolve the REST base URL. `host` may be a bare hostname or a full URL
+ * (e.g. a Qdrant Cloud endpoint).
+ */
+export function qdrantBaseUrl(connection: QdrantConnection): string {
+  const host = connection.host || DEFAULT_HOST;
+  const url = new URL(host.includes("://") ? host : `http://${host}`);
+  if (connection.port) {
+    url.port = String(connection.port);
+  } else if (!host.includes("://")) {
+    url.port = String(DEFAULT_PORT);
+  }
+  return url.toString().replace(/\/$/, "");
+}
+
+/**
+ * Deterministic UUID point ID for a chunk within a namespace.
+ */
+export function qdrantPointId(chunkId: string, namespace?: string): string {
+  const hex = sha256(`${namespace ?? ""}\u0000${chunkId}`);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+/**
+ * Translate equality filters (and an optional namespace) into a Qdrant filter.
+ * Array values match any of their elements. `chunkIds` restricts results to
+ * chunks already selected by a richer filter expression.
+ */
+export function qdrantFilter(
+  filters?: Record<string, unknown>,
+  namespace?: string,
+  chunkIds?: string[]
+): QdrantFilter | undefined {
+  const must: Array<Record<string, unknown>> = [];
+
+  if (namespace) {
+    must.push({ key: QDRANT_NAMESPACE_KEY, match: { value: namespace } });
+  }
+
+  for (const [key, value] of Object.entries(filters ?? {})) {
+    if (Array.isArray(value)) {
+      must.push({ key, match: { any: value } });
+    } else if (value !== undefined) {
+      must.push({ key, match: { value } });
+    }
+  }
+
+  if (chunkIds) {
+    must.push({ key: QDRANT_CHUNK_ID_KEY, match: { any: chunkIds } });
+  }
+
+  return must.length > 0 ? { must } : undefined;
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export class QdrantClient {
+  readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(connection: QdrantConnection) {
+    this.baseUrl = qdrantBaseUrl(connection);
+    this.apiKey = connection.api_key_env ? process.env[connection.api_key_env] : undefined;
+  }
+
+  /**
+   * Get a collection's vector configuration, or null if it does not exist.
+   */
+  async getCollection(name: string): Promise<QdrantCollectionInfo | null> {
+    const result = await this.request<{
+      config: { params: { vectors: { size: number; distance: QdrantDistance } } };
+      points_count?: number;
+    }>("GET", `/collections/${encodeURIComponent(name)}`, undefined, { allowNotFound: true });
+
+    if (!result) return null;
+
+    const vectors = result.config.params.vectors;
+    if (typeof vectors?.size !== "number") {
+      throw new QdrantError(`Collection ${name} uses named vectors, which are not supported`);
+    }
+
+    return { size: vectors.size, distance: vectors.distance, points_count: result.points_count };
+  }
+
+  async createCollection(name: string, size: number, distance: QdrantDistance): Promise<void> {
+    await this.request("PUT", `/collections/${encodeURIComponent(name)}`, {
+      vectors: { size, distance },
+    });
+  }
+
+  async deleteCollection(name: string): Promise<void> {
+    await this.request("DELETE", `/collections/${encodeURIComponent(name)}`);
+  }
+
+  /**
+   * Return the subset of point IDs that already exist in the collection.
+   */
+  async existingIds(name: string, ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) return new Set();
+    const result = await this.request<Array<{ id: string | number }>>(
+      "POST",
+      `/collections/${encodeURIComponent(name)}/points`,
+      { ids, with_payload: false, with_vector: false }
+    );
+    return new Set((result ?? []).map(p => String(p.id)));
+  }
+
+  async upsertPoints(name: string, points: QdrantPoint[]): Promise<void> {
+    await this.request("PUT", `/collections/${encodeURIComponent(name)}/points?wait=true`, { points });
+  }
+
+  async deletePoints(name: string, filter: QdrantFilter): Promise<void> {
+    await this.request("POST", `/collections/${encodeURIComponent(name)}/points/delete?wait=true`, { filter });
+  }
+
+  async search(
+    name: string,
+    vector: number[],
+    limit: number,
+    filter?: QdrantFilter
+  ): Promise<QdrantScoredPoint[]> {
+    const result = await this.request<QdrantScoredPoint[]>(
+      "POST",
+      `/collections/${encodeURIComponent(name)}/points/search`,
+      { vector, limit, filter, with_payload: true }
+    );
+    return result ?? [];
+  }
+
+  private async request<T>(
+    method: string,
+    pathname: string,
+    body?: unknown,
+    options: { allowNotFound?: boolean } = {}
+  ): Promise<T | null> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers["api-key"] = this.apiKey;
+
+    const response = await fetch(`${this.baseUrl}${pathname}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.status === 404 && options.allowNotFound) {
+      return null;
+    }
+
+    const text = await response.text();
+    let data: { result?: T; status?: unknown } = {};
+    try {
+      data = text ? JSON.parse(text) : {};
+    } catch {
+      // Non-JSON body (e.g. proxy error page); reported below
+    }
+
+    if (!response.ok) {
+      const status = data.status as { error?: string } | string | undefined;
+      const detail = typeof status === "object" && status?.error ? status.error : text.slice(0, 200);
+      throw new QdrantError(`Qdrant ${method} ${pathname} failed (${response.status}): ${detail}`, response.status);
+    }
+
+    return data.result ?? null;
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * IndexFoundry-MCP: Reranking
+ *
+ * Second-stage reranking of first-stage search candidates. Two rerankers
+ * are built in:
+ *
+ * - lexical: offline scoring by query term coverage, term proximity and
+ *   exact phrase matches
+ * - cross_encoder: an HTTP rerank endpoint in the Cohere/Jina style
+ *   (POST { model, query, documents } -> { results: [{ index, relevance_score }] });
+ *   text-embeddings-inference style responses ([{ index, score }]) are
+ *   accepted too
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+import type { ToolError } from "../types.js";
+import { createToolError } from "../utils.js";
+import { tokenizeBm25 } from "./bm25.js";
+import type { DebugTraceStep } from "./debug.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/** Changes listed in a trace step; larger candidate sets are truncated */
+const MAX_TRACED_CHANGES = 20;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Reranker settings as stored in retrieval profiles */
+export interface RerankerConfig {
+  enabled: boolean;
+  provider?: "lexical" | "cross_encoder";
+  model?: string;
+  endpoint?: string;
+  api_key_env?: string;
+  top_k_to_rerank: number;
+  timeout_ms?: number;
+}
+
+export interface Reranker {
+  /** Label for traces, e.g. "lexical" or "cross_encoder:bge-reranker-base" */
+  readonly name: string;
+  /** Relevance of each text to the query, in input order (higher is better) */
+  score(query: string, texts: string[]): Promise<number[]>;
+}
+
+export interface RankChange {
+  id: string;
+  /** 1-based rank before and after reranking */
+  from_rank: number;
+  to_rank: number;
+  first_stage_score: number;
+  rerank_score: number;
+}
+
+export interface RerankOutcome<T> {
+  /** Reranked candidates first, then any candidates beyond top_k_to_rerank */
+  results: T[];
+  reranker: string;
+  reranked: number;
+  changes: RankChange[];
+  duration_ms: number;
+  /** Set when the reranker failed and first-stage order was kept */
+  error?: string;
+}
+
+// ============================================================================
+// Lexical Reranker
+// ============================================================================
+
+/**
+ * Score a text for a query by how many query terms it contains, how close
+ * together they appear, and whether the query occurs as a phrase.
+ *
+ * @returns Score in [0, 1]
+ */
+export function lexicalRerankScore(query: string, text: string): number {
+  const queryTokens = tokenizeBm25(query);
+  const terms = Array.from(new Set(queryTokens));
+  if (terms.length === 0) return 0;
+
+  const tokens = tokenizeBm25(text);
+  const termIndex = new Map(terms.map((t, i) => [t, i]));
+  const hits: Array<{ pos: number; term: number }> = [];
+  tokens.forEach((token, pos) => {
+    const term = termIndex.get(token);
+    if (term !== undefined) hits.push({ pos, term });
+  });
+
+  const matched = new Set(hits.map(h => h.term)).size;
+  if (matched === 0) return 0;
+
+  const coverage = matched / terms.length;
+  const proximity = matched / minimalWindow(hits, matched);
+  const phrase = queryTokens.length > 1 && ` ${tokens.join(" ")} `.includes(` ${queryTokens.join(" ")} `);
+
+  return 0.6 * coverage + 0.3 * coverage * proximity + (phrase ? 0.1 : 0);
+}
+
+/**
+ * Length in tokens of the shortest span containing every matched term.
+ */
+function minimalWindow(hits: Array<{ pos: number; term: number }>, distinct: number): number {
+  const counts = new Map<number, number>();
+  let covered = 0;
+  let best = Infinity;
+  let left = 0;
+
+  for (let right = 0; right < hits.length; right++) {
+    const term = hits[right].term;
+    counts.set(term, (counts.get(term) || 0) + 1);
+    if (counts.get(term) === 1) covered++;
+
+    while (covered === distinct) {
+      best = Math.min(best, hits[right].pos - hits[left].pos + 1);
+      const leftTerm = hits[left].term;
+      counts.set(leftTerm, counts.get(leftTerm)! - 1);
+      if (counts.get(leftTerm) === 0) covered--;
+      left++;
+    }
+  }
+  return best;
+}
+
+export class LexicalReranker implements Reranker {
+  readonly name = "lexical";
+
+  async score(query: string, texts: string[]): Promise<number[]> {
+    return texts.map(text => lexicalRerankScore(query, text));
+  }
+}
+
+// ============================================================================
+// Cross-Encoder Reranker
+// ============================================================================
+
+export class CrossEncoderReranker implements Reranker {
+  readonly name: string;
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly model?: string,
+    private readonly apiKey?: string,
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {
+    this.name = model ? `cross_encoder:${model}` : "cross_encoder";
+  }
+
+  async score(query: string, texts: string[]): Promise<number[]> {
+    if (texts.length === 0) return [];
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers["Authorization"] = `Bearer ${this.apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          ...(this.model ? { model: this.model } : {}),
+          query,
+          documents: texts,
+          top_n: texts.length,
+        }),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (err) {
+      if (err instanceof Error && (err.name === "TimeoutError" || err.name === "AbortError")) {
+        throw new Error(`Rerank request to ${this.endpoint} timed out after ${this.timeoutMs / 1000}s`);
+      }
+      throw err;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      throw new Error(`Rerank endpoint error ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json() as
+      | Array<{ index: number; score: number }>
+      | { results?: Array<{ index: number; relevance_score?: number; score?: number }> };
+    const entries = Array.isArray(data) ? data : data.results;
+    if (!Array.isArray(entries)) {
+      throw new Error("Rerank endpoint returned no results");
+    }
+
+    const scores: number[] = new Array(texts.length).fill(Number.NEGATIVE_INFINITY);
+    for (const entry of entries) {
+      const score = "relevance_score" in entry && entry.relevance_score !== undefined
+        ? entry.relevance_score
+        : entry.score;
+      if (!Number.isInteger(entry.index) || entry.index < 0 || entry.index >= texts.length || typeof score !== "number") {
+        throw new Error(`Rerank endpoint returned an invalid result: ${JSON.stringify(entry)}`);
+      }
+      scores[entry.index] = score;
+    }
+    if (scores.some(score => score === Number.NEGATIVE_INFINITY)) {
+      throw new Error(`Rerank endpoint scored ${entries.length} of ${texts.length} documents`);
+    }
+    return scores;
+  }
+}
+
+// ============================================================================
+// Stage
+// ============================================================================
+
+/**
+ * Build the reranker described by a config.
+ */
+export function createReranker(config: RerankerConfig): Reranker | ToolError {
+  if ((config.provider ?? "lexical") === "lexical") {
+    return new LexicalReranker();
+  }
+
+  if (!config.endpoint) {
+    return createToolError("CONFIG_INVALID", "Cross-encoder reranker requires an endpoint", {
+      recoverable: true,
+      suggestion: "Set reranker.endpoint to a rerank API URL (e.g. http://localhost:8787/rerank) or use provider: 'lexical'",
+    });
+  }
+  const apiKey = config.api_key_env ? process.env[config.api_key_env] : undefined;
+  return new CrossEncoderReranker(config.endpoint, config.model, apiKey, config.timeout_ms);
+}
+
+/**
+ * Rerank the first `top_k_to_rerank` candidates and report rank changes.
+ *
+ * Reranked candidates take the reranker's score; candidates beyond the
+ * rerank window keep their first-stage order and score after them. If the
+ * reranker fails, first-stage order is returned with `error` set so search
+ * keeps working when a rerank service is down.
+ *
+ * @example
+ * ```typescript
+ * const outcome = await rerankCandidates("solar inverter", hits, new LexicalReranker(), 50,
+ *   hit => ({ id: hit.id, text: hit.text ?? "" }));
+ * const top = outcome.results.slice(0, 10);
+ * ```
+ */
+export async function rerankCandidates<T extends { score: number }>(
+  query: string,
+  candidates: T[],
+  reranker: Reranker,
+  topKToRerank: number,
+  describe: (candidate: T) => { id: string; text: string }
+): Promise<RerankOutcome<T>> {
+  const start = Date.now();
+  const window = candidates.slice(0, topKToRerank);
+  const tail = candidates.slice(topKToRerank);
+
+  let scores: number[];
+  try {
+    scores = await reranker.score(query, window.map(c => describe(c).text));
+  } catch (err) {
+    return {
+      results: candidates,
+      reranker: reranker.name,
+      reranked: 0,
+      changes: [],
+      duration_ms: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  const order = window
+    .map((candidate, i) => ({ candidate, from: i, score: scores[i] }))
+    .sort((a, b) => b.score - a.score || a.from - b.from);
+
+  const changes: RankChange[] = order.map((entry, to) => ({
+    id: describe(entry.candidate).id,
+    from_rank: entry.from + 1,
+    to_rank: to + 1,
+    first_stage_score: entry.candidate.score,
+    rerank_score: entry.score,
+  }));
+
+  return {
+    results: [...order.map(entry => ({ ...entry.candidate, score: entry.score })), ...tail],
+    reranker: reranker.name,
+    reranked: window.length,
+    changes,
+    duration_ms: Date.now() - start,
+  };
+}
+
+/**
+ * Summarize a rerank outcome as a debug trace step. Only candidates whose
+ * rank changed are listed.
+ */
+export function rerankTraceStep<T>(outcome: RerankOutcome<T>): DebugTraceStep {
+  const moved = outcome.changes.filter(c => c.from_rank !== c.to_rank);
+  return {
+    step: "rerank",
+    timestamp: new Date().toISOString(),
+    duration_ms: outcome.duration_ms,
+    details: {
+      reranker: outcome.reranker,
+      candidates_reranked: outcome.reranked,
+      scores_adjusted: outcome.reranked > 0,
+      rank_changes: moved.length,
+      changes: moved.slice(0, MAX_TRACED_CHANGES),
+      ...(outcome.error ? { error: outcome.error, fallback: "first_stage_order" } : {}),
+    },
+  };
+}
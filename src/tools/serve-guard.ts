@@ -0,0 +1,164 @@
+/**
+ * IndexFoundry-MCP: Search Server Request Guards
+ *
+ * Access controls for the run search server started by serve_start:
+ * per-client token bucket rate limiting, a CORS origin allowlist, and
+ * API key authentication driven by the retrieval profile's security block.
+ *
+ * Copyright (c) 2024 vario.automation
+ * Proprietary and confidential. All rights reserved.
+ */
+
+import { timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Environment variable holding accepted API keys when the profile names none */
+export const DEFAULT_SERVE_API_KEY_ENV = "INDEXFOUNDRY_API_KEY";
+
+/** Buckets idle this long are full again and can be dropped */
+const BUCKET_IDLE_MS = 10 * 60 * 1000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RateLimitConfig {
+  requests_per_minute: number;
+  burst: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Whole seconds until a token is available (0 when allowed) */
+  retry_after_s: number;
+  remaining: number;
+}
+
+/** Why a request was refused; recorded in the run's event log */
+export type RejectionReason = "origin_not_allowed" | "rate_limited" | "unauthorized";
+
+// ============================================================================
+// Rate Limiting
+// ============================================================================
+
+/**
+ * Token bucket per client. Each bucket holds up to `burst` tokens and
+ * refills at `requests_per_minute / 60` tokens per second.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new TokenBucketLimiter({ requests_per_minute: 60, burst: 10 });
+ * const decision = limiter.take("127.0.0.1");
+ * if (!decision.allowed) respond429(decision.retry_after_s);
+ * ```
+ */
+export class TokenBucketLimiter {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly buckets = new Map<string, { tokens: number; updated: number }>();
+  private lastSweep = 0;
+
+  constructor(config: RateLimitConfig) {
+    this.capacity = Math.max(1, config.burst);
+    this.refillPerMs = Math.max(0, config.requests_per_minute) / 60000;
+  }
+
+  take(clientId: string, nowMs: number = Date.now()): RateLimitDecision {
+    this.sweep(nowMs);
+
+    const bucket = this.buckets.get(clientId) ?? { tokens: this.capacity, updated: nowMs };
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + (nowMs - bucket.updated) * this.refillPerMs);
+    bucket.updated = nowMs;
+    this.buckets.set(clientId, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, retry_after_s: 0, remaining: Math.floor(bucket.tokens) };
+    }
+
+    const waitMs = this.refillPerMs > 0 ? (1 - bucket.tokens) / this.refillPerMs : BUCKET_IDLE_MS;
+    return { allowed: false, retry_after_s: Math.max(1, Math.ceil(waitMs / 1000)), remaining: 0 };
+  }
+
+  /** Drop buckets that have been idle long enough to be full again */
+  private sweep(nowMs: number): void {
+    if (nowMs - this.lastSweep < BUCKET_IDLE_MS) return;
+    this.lastSweep = nowMs;
+    for (const [clientId, bucket] of this.buckets) {
+      if (nowMs - bucket.updated >= BUCKET_IDLE_MS) {
+        this.buckets.delete(clientId);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// CORS
+// ============================================================================
+
+/**
+ * Decide the Access-Control-Allow-Origin value for a request.
+ *
+ * Without an allowlist every origin is allowed ("*"). With one, the request
+ * origin is echoed back when listed and null is returned when it is not.
+ * Requests without an Origin header (curl, server-to-server) are not
+ * cross-origin and always pass; for them the header is omitted.
+ *
+ * @returns Header value, undefined to omit the header, or null to reject
+ */
+export function resolveCorsOrigin(
+  origin: string | undefined,
+  allowedOrigins?: string[]
+): string | undefined | null {
+  if (!allowedOrigins) return "*";
+  if (!origin) return undefined;
+  if (allowedOrigins.includes("*")) return origin;
+  return allowedOrigins.some(allowed => allowed.replace(/\/+$/, "") === origin) ? origin : null;
+}
+
+// ============================================================================
+// Authentication
+// ============================================================================
+
+/**
+ * Read accepted API keys from an environment variable (comma-separated).
+ */
+export function loadApiKeys(envName: string): string[] {
+  return (process.env[envName] || "")
+    .split(",")
+    .map(key => key.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Extract the presented API key from `Authorization: Bearer <key>` or
+ * `X-API-Key: <key>`.
+ */
+export function presentedApiKey(headers: IncomingHttpHeaders): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  const header = headers["x-api-key"];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Constant-time check of a presented key against the accepted keys.
+ */
+export function isValidApiKey(presented: string | undefined, acceptedKeys: string[]): boolean {
+  if (!presented) return false;
+  const candidate = Buffer.from(presented);
+  let valid = false;
+  for (const key of acceptedKeys) {
+    const expected = Buffer.from(key);
+    if (expected.length === candidate.length && timingSafeEqual(expected, candidate)) {
+      valid = true;
+    }
+  }
+  return valid;
+}
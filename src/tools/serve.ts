@@ -34,8 +34,48 @@ import {
   now,
   timed,
   cosineSimilarity,
+  RunLogger,
 } from "../utils.js";
 import { getRunManager } from "../run-manager.js";
+import { buildVectorMetadata } from "./index.js";
+import {
+  QdrantClient,
+  qdrantFilter,
+  QDRANT_CHUNK_ID_KEY,
+  QDRANT_NAMESPACE_KEY,
+  QDRANT_TEXT_KEY,
+} from "./qdrant.js";
+import {
+  ChromaClient,
+  chromaDistanceToScore,
+  chromaWhere,
+  CHROMA_CHUNK_ID_KEY,
+  CHROMA_NAMESPACE_KEY,
+  type ChromaSpace,
+} from "./chroma.js";
+import {
+  TokenBucketLimiter,
+  resolveCorsOrigin,
+  loadApiKeys,
+  presentedApiKey,
+  isValidApiKey,
+  DEFAULT_SERVE_API_KEY_ENV,
+  type RejectionReason,
+} from "./serve-guard.js";
+import {
+  compileFilter,
+  matchesFilter,
+  getFieldPath,
+  toEqualityMap,
+  type FilterNode,
+} from "./filters.js";
+import {
+  createReranker,
+  rerankCandidates,
+  type Reranker,
+  type RerankerConfig,
+} from "./rerank.js";
+import { mmrPoolSize, mmrSelect, type MmrOptions } from "./mmr.js";
 
 // ============================================================================
 // Server Instance Registry
@@ -48,9 +88,26 @@ interface ServerInstance {
   port: number;
   started_at: string;
   requests_served: number;
+  requests_rejected: number;
   vectors: VectorRecord[];
   chunks: Map<string, DocumentChunk>;
   profile: RetrievalProfile | null;
+  /** External vector database; when null, semantic search runs over `vectors` */
+  vector_store: RemoteVectorStore | null;
+  guard: RequestGuard;
+  /** Second stage from the profile's reranker config; null when disabled */
+  reranker: { reranker: Reranker; top_k_to_rerank: number } | null;
+}
+
+/** Access controls applied before routing; see serve-guard.ts */
+interface RequestGuard {
+  /** Null when serve_start was called without rate_limit */
+  limiter: TokenBucketLimiter | null;
+  /** Undefined allows any origin */
+  cors_origins?: string[];
+  /** Null when the profile does not require auth */
+  api_keys: string[] | null;
+  logger: RunLogger;
 }
 
 interface VectorRecord {
@@ -60,6 +117,30 @@ interface VectorRecord {
   text?: string;
 }
 
+interface SearchHit {
+  id: string;
+  score: number;
+  metadata: Record<string, unknown>;
+  text?: string;
+}
+
+interface RemoteVectorStore {
+  provider: string;
+  collection: string;
+  dimensions: number;
+  search(queryVector: number[], topK: number, scope?: RemoteSearchScope): Promise<SearchHit[]>;
+}
+
+/** Restriction pushed down to an external vector store */
+interface RemoteSearchScope {
+  /** Native equality filters on payload fields */
+  filters?: Record<string, unknown>;
+  /** Chunks selected locally by a filter expression the store cannot express */
+  chunk_ids?: string[];
+}
+
+type RecordFilter = (record: { id: string; metadata: Record<string, unknown> }) => boolean;
+
 interface RetrievalProfile {
   retrieval: {
     default_top_k: number;
@@ -68,6 +149,7 @@ interface RetrievalProfile {
       alpha: number;
       fusion_method: string;
     };
+    reranker?: RerankerConfig;
   };
   filters?: Array<{
     field: string;
@@ -75,6 +157,7 @@ interface RetrievalProfile {
   }>;
   security?: {
     require_auth: boolean;
+    api_key_env?: string;
     allowed_namespaces?: string[];
   };
 }
@@ -90,19 +173,10 @@ function semanticSearch(
   queryVector: number[],
   vectors: VectorRecord[],
   topK: number,
-  filters?: Record<string, unknown>
+  filter?: RecordFilter
 ): Array<{ id: string; score: number; metadata: Record<string, unknown>; text?: string }> {
   // Apply filters
-  let candidates = vectors;
-  if (filters && Object.keys(filters).length > 0) {
-    candidates = vectors.filter(v => {
-      for (const [key, value] of Object.entries(filters)) {
-        const fieldValue = v.metadata[key];
-        if (fieldValue !== value) return false;
-      }
-      return true;
-    });
-  }
+  const candidates = filter ? vectors.filter(filter) : vectors;
 
   // Calculate similarities
   const scored = candidates.map(v => ({
@@ -121,21 +195,12 @@ function keywordSearch(
   query: string,
   vectors: VectorRecord[],
   topK: number,
-  filters?: Record<string, unknown>
+  filter?: RecordFilter
 ): Array<{ id: string; score: number; metadata: Record<string, unknown>; text?: string }> {
   const queryTerms = query.toLowerCase().split(/\s+/).filter(t => t.length > 2);
 
   // Apply filters
-  let candidates = vectors;
-  if (filters && Object.keys(filters).length > 0) {
-    candidates = vectors.filter(v => {
-      for (const [key, value] of Object.entries(filters)) {
-        const fieldValue = v.metadata[key];
-        if (fieldValue !== value) return false;
-      }
-      return true;
-    });
-  }
+  const candidates = filter ? vectors.filter(filter) : vectors;
 
   // Score by term frequency
   const scored = candidates
@@ -162,20 +227,20 @@ function keywordSearch(
   return scored.slice(0, topK);
 }
 
-function hybridSearch(
+async function hybridSearch(
+  instance: ServerInstance,
   queryVector: number[],
   query: string,
-  vectors: VectorRecord[],
   topK: number,
   alpha: number = 0.7,
   fusionMethod: string = "rrf",
-  filters?: Record<string, unknown>
-): Array<{ id: string; score: number; metadata: Record<string, unknown>; text?: string }> {
+  filter: FilterNode | null = null
+): Promise<SearchHit[]> {
   // Get more results for reranking
-  const expandedK = Math.min(topK * 3, vectors.length);
+  const expandedK = Math.min(topK * 3, instance.vectors.length);
 
-  const semanticResults = semanticSearch(queryVector, vectors, expandedK, filters);
-  const keywordResults = keywordSearch(query, vectors, expandedK, filters);
+  const semanticResults = await searchSemantic(instance, queryVector, expandedK, filter);
+  const keywordResults = keywordSearch(query, instance.vectors, expandedK, recordFilter(instance, filter));
 
   if (fusionMethod === "rrf") {
     // Reciprocal Rank Fusion
@@ -242,6 +307,228 @@ function hybridSearch(
   }
 }
 
+/**
+ * Semantic search through the instance's vector store (external database
+ * if configured, otherwise the in-memory vectors).
+ */
+async function searchSemantic(
+  instance: ServerInstance,
+  queryVector: number[],
+  topK: number,
+  filter: FilterNode | null = null
+): Promise<SearchHit[]> {
+  if (!instance.vector_store) {
+    return semanticSearch(queryVector, instance.vectors, topK, recordFilter(instance, filter));
+  }
+  if (!filter) {
+    return instance.vector_store.search(queryVector, topK);
+  }
+
+  // Plain equality filters on stored payload fields run natively; anything
+  // richer is evaluated over the local chunk records and pushed down as a
+  // chunk ID allowlist
+  const filters = toEqualityMap(filter);
+  const storedFields = filters && Object.keys(filters).every(key => instance.vectors.some(v => key in v.metadata));
+  if (filters && storedFields) {
+    return instance.vector_store.search(queryVector, topK, { filters });
+  }
+  const matches = recordFilter(instance, filter)!;
+  const chunkIds = instance.vectors.filter(matches).map(v => v.id);
+  if (chunkIds.length === 0) return [];
+  return instance.vector_store.search(queryVector, topK, { chunk_ids: chunkIds });
+}
+
+// ============================================================================
+// Reranking
+// ============================================================================
+
+/**
+ * Number of first-stage candidates to retrieve: enough to fill the
+ * reranker's window when one is configured.
+ */
+function firstStageCount(instance: ServerInstance, topK: number): number {
+  return instance.reranker ? Math.max(topK, instance.reranker.top_k_to_rerank) : topK;
+}
+
+/**
+ * Apply the profile's reranker to first-stage hits and truncate to top_k.
+ * Vector-only queries have no text to rerank against and keep their order.
+ */
+async function rerankHits(
+  instance: ServerInstance,
+  query: string | undefined,
+  hits: SearchHit[],
+  topK: number
+): Promise<{ hits: SearchHit[]; reranker?: string }> {
+  if (!instance.reranker || !query) {
+    return { hits: hits.slice(0, topK) };
+  }
+
+  const outcome = await rerankCandidates(query, hits, instance.reranker.reranker, instance.reranker.top_k_to_rerank,
+    hit => ({ id: hit.id, text: hit.text ?? instance.chunks.get(hit.id)?.content.text ?? "" }));
+  if (outcome.error) {
+    console.error(`Reranker ${outcome.reranker} failed, keeping first-stage order: ${outcome.error}`);
+    return { hits: outcome.results.slice(0, topK) };
+  }
+  return { hits: outcome.results.slice(0, topK), reranker: outcome.reranker };
+}
+
+/**
+ * Diversify hits with Maximal Marginal Relevance, comparing stored vectors
+ * (or text, for hits served from a remote store, whose local records have
+ * empty vectors).
+ */
+function diversifyHits(instance: ServerInstance, hits: SearchHit[], topK: number, mmr: MmrOptions): SearchHit[] {
+  const wanted = new Set(hits.map(h => h.id));
+  const vectors = new Map(instance.vectors
+    .filter(v => wanted.has(v.id) && v.vector.length > 0)
+    .map(v => [v.id, v.vector]));
+  return mmrSelect(hits, topK, mmr.lambda, hit => ({
+    vector: vectors.get(hit.id),
+    text: hit.text ?? instance.chunks.get(hit.id)?.content.text ?? "",
+  }));
+}
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+/**
+ * Compile a request's filter expression against the profile's allowed_filters.
+ */
+function compileRunFilter(instance: ServerInstance, filters: unknown): FilterNode | null | ToolError {
+  return compileFilter(filters, instance.profile?.filters);
+}
+
+/**
+ * Predicate over search records. Fields resolve against the vector metadata
+ * first (where indexUpsert flattens `position.page` to `position_page`),
+ * then against the full normalized chunk.
+ */
+function recordFilter(instance: ServerInstance, filter: FilterNode | null): RecordFilter | undefined {
+  if (!filter) return undefined;
+  return record => matchesFilter(filter, field => {
+    if (field in record.metadata) return record.metadata[field];
+    const flattened = field.replace(/\./g, "_");
+    if (flattened in record.metadata) return record.metadata[flattened];
+    return getFieldPath(instance.chunks.get(record.id), field);
+  });
+}
+
+// ============================================================================
+// External Vector Stores
+// ============================================================================
+
+/**
+ * Search a Qdrant collection written by indexUpsert. Text falls back to
+ * the local chunks when the payload was stored without it.
+ */
+function createQdrantStore(
+  manifest: VectorManifest,
+  chunks: Map<string, DocumentChunk>
+): RemoteVectorStore {
+  const client = new QdrantClient(manifest.connection ?? {});
+
+  return {
+    provider: "qdrant",
+    collection: manifest.collection,
+    dimensions: manifest.dimensions,
+    async search(queryVector, topK, scope) {
+      const points = await client.search(
+        manifest.collection,
+        queryVector,
+        topK,
+        qdrantFilter(scope?.filters, manifest.namespace, scope?.chunk_ids)
+      );
+
+      return points.map(point => {
+        const {
+          [QDRANT_CHUNK_ID_KEY]: chunkId,
+          [QDRANT_NAMESPACE_KEY]: _namespace,
+          [QDRANT_TEXT_KEY]: text,
+          ...metadata
+        } = point.payload ?? {};
+        const id = typeof chunkId === "string" ? chunkId : String(point.id);
+        return {
+          id,
+          score: point.score,
+          metadata,
+          text: typeof text === "string" ? text : chunks.get(id)?.content.text,
+        };
+      });
+    },
+  };
+}
+
+/**
+ * Search a Chroma collection written by indexUpsert. Distances are
+ * converted to similarity scores for the collection's space.
+ */
+function createChromaStore(
+  manifest: VectorManifest,
+  collectionId: string,
+  space: ChromaSpace,
+  chunks: Map<string, DocumentChunk>
+): RemoteVectorStore {
+  const client = new ChromaClient(manifest.connection ?? {});
+
+  return {
+    provider: "chroma",
+    collection: manifest.collection,
+    dimensions: manifest.dimensions,
+    async search(queryVector, topK, scope) {
+      const matches = await client.query(
+        collectionId,
+        queryVector,
+        topK,
+        chromaWhere(scope?.filters, manifest.namespace, scope?.chunk_ids)
+      );
+
+      return matches.map(match => {
+        const {
+          [CHROMA_CHUNK_ID_KEY]: chunkId,
+          [CHROMA_NAMESPACE_KEY]: _namespace,
+          ...metadata
+        } = match.metadata ?? {};
+        const id = typeof chunkId === "string" ? chunkId : match.id;
+        return {
+          id,
+          score: chromaDistanceToScore(match.distance, space),
+          metadata,
+          text: match.document ?? chunks.get(id)?.content.text,
+        };
+      });
+    },
+  };
+}
+
+/**
+ * Connect to the external vector database recorded in the manifest and
+ * check that its collection exists.
+ */
+async function openVectorStore(
+  manifest: VectorManifest,
+  chunks: Map<string, DocumentChunk>
+): Promise<RemoteVectorStore | ToolError> {
+  const notFound = (baseUrl: string) => createToolError("CONFIG_INVALID",
+    `${manifest.provider} collection ${manifest.collection} not found at ${baseUrl}`, {
+    recoverable: true,
+    suggestion: `Run indexfoundry_index_upsert with provider='${manifest.provider}' first`,
+  });
+
+  if (manifest.provider === "chroma") {
+    const client = new ChromaClient(manifest.connection ?? {});
+    const collection = await client.getCollection(manifest.collection);
+    if (!collection) return notFound(client.baseUrl);
+    const space = (collection.metadata?.["hnsw:space"] as ChromaSpace | undefined) ?? "l2";
+    return createChromaStore(manifest, collection.id, space, chunks);
+  }
+
+  const client = new QdrantClient(manifest.connection ?? {});
+  if (!await client.getCollection(manifest.collection)) return notFound(client.baseUrl);
+  return createQdrantStore(manifest, chunks);
+}
+
 // ============================================================================
 // HTTP Server Implementation
 // ============================================================================
@@ -251,10 +538,49 @@ function createSearchServer(instance: ServerInstance): http.Server {
     const startTime = Date.now();
     instance.requests_served++;
 
+    const url = new URL(req.url || "/", `http://${req.headers.host}`);
+    const pathname = url.pathname;
+    const { guard } = instance;
+
+    const sendJson = (statusCode: number, data: unknown) => {
+      res.writeHead(statusCode, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(data));
+    };
+
+    const sendFilterError = (error: ToolError) => {
+      sendJson(400, { error: error.message, code: error.code, suggestion: error.suggestion, details: error.details });
+    };
+
+    const reject = (statusCode: number, reason: RejectionReason, error: string, details?: Record<string, unknown>) => {
+      instance.requests_rejected++;
+      // Logging must never take the server down
+      guard.logger.warn("serve", "serve_start", `Rejected request: ${reason}`, {
+        status: statusCode,
+        reason,
+        client: req.socket.remoteAddress,
+        method: req.method,
+        path: pathname,
+        origin: req.headers.origin,
+        ...details,
+      }).catch(() => {});
+      sendJson(statusCode, { error, reason, ...details });
+    };
+
     // CORS headers
-    res.setHeader("Access-Control-Allow-Origin", "*");
+    const allowOrigin = resolveCorsOrigin(req.headers.origin, guard.cors_origins);
+    if (allowOrigin) {
+      res.setHeader("Access-Control-Allow-Origin", allowOrigin);
+    }
+    if (guard.cors_origins) {
+      res.setHeader("Vary", "Origin");
+    }
     res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, X-API-Key");
+
+    if (allowOrigin === null) {
+      reject(403, "origin_not_allowed", "Origin not allowed");
+      return;
+    }
 
     if (req.method === "OPTIONS") {
       res.writeHead(204);
@@ -262,13 +588,21 @@ function createSearchServer(instance: ServerInstance): http.Server {
       return;
     }
 
-    const url = new URL(req.url || "/", `http://${req.headers.host}`);
-    const pathname = url.pathname;
+    if (guard.limiter) {
+      const decision = guard.limiter.take(req.socket.remoteAddress || "unknown");
+      if (!decision.allowed) {
+        res.setHeader("Retry-After", String(decision.retry_after_s));
+        reject(429, "rate_limited", "Too many requests", { retry_after_s: decision.retry_after_s });
+        return;
+      }
+    }
 
-    const sendJson = (statusCode: number, data: unknown) => {
-      res.writeHead(statusCode, { "Content-Type": "application/json" });
-      res.end(JSON.stringify(data));
-    };
+    // Health stays open so load balancers and probes work without a key
+    if (guard.api_keys && pathname !== "/health" && !isValidApiKey(presentedApiKey(req.headers), guard.api_keys)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      reject(401, "unauthorized", "Missing or invalid API key");
+      return;
+    }
 
     const parseBody = (): Promise<unknown> => {
       return new Promise((resolve, reject) => {
@@ -304,9 +638,11 @@ function createSearchServer(instance: ServerInstance): http.Server {
           run_id: instance.run_id,
           vectors_count: instance.vectors.length,
           chunks_count: instance.chunks.size,
-          dimensions: instance.vectors[0]?.vector.length || 0,
+          dimensions: instance.vector_store?.dimensions ?? (instance.vectors[0]?.vector.length || 0),
+          vector_store: instance.vector_store?.provider ?? "local",
           started_at: instance.started_at,
           requests_served: instance.requests_served,
+          requests_rejected: instance.requests_rejected,
           profile: instance.profile,
         });
         return;
@@ -374,6 +710,12 @@ function createSearchServer(instance: ServerInstance): http.Server {
           return;
         }
 
+        const filter = compileRunFilter(instance, body.filters);
+        if (filter && "isError" in filter) {
+          sendFilterError(filter);
+          return;
+        }
+
         // If only text query provided, need to embed it first
         // For now, require query_vector for semantic search
         if (!body.query_vector) {
@@ -386,8 +728,8 @@ function createSearchServer(instance: ServerInstance): http.Server {
 
         const topK = body.top_k || instance.profile?.retrieval.default_top_k || 10;
 
-        const { result: results, duration_ms } = await timed(async () =>
-          semanticSearch(body.query_vector!, instance.vectors, topK, body.filters)
+        const { result: { hits: results, reranker }, duration_ms } = await timed(async () =>
+          rerankHits(instance, body.query, await searchSemantic(instance, body.query_vector!, firstStageCount(instance, topK), filter), topK)
         );
 
         sendJson(200, {
@@ -399,6 +741,7 @@ function createSearchServer(instance: ServerInstance): http.Server {
           })),
           total: results.length,
           took_ms: duration_ms,
+          reranker,
         });
         return;
       }
@@ -419,14 +762,21 @@ function createSearchServer(instance: ServerInstance): http.Server {
           return;
         }
 
+        const filter = compileRunFilter(instance, body.filters);
+        if (filter && "isError" in filter) {
+          sendFilterError(filter);
+          return;
+        }
+
         const topK = body.top_k || instance.profile?.retrieval.default_top_k || 10;
         const alpha = body.alpha ?? instance.profile?.retrieval.hybrid_config?.alpha ?? 0.7;
         const fusionMethod = instance.profile?.retrieval.hybrid_config?.fusion_method || "rrf";
 
         // If no query_vector, fall back to keyword-only
         if (!body.query_vector) {
-          const { result: results, duration_ms } = await timed(async () =>
-            keywordSearch(body.query, instance.vectors, topK, body.filters)
+          const { result: { hits: results, reranker }, duration_ms } = await timed(async () =>
+            rerankHits(instance, body.query,
+              keywordSearch(body.query, instance.vectors, firstStageCount(instance, topK), recordFilter(instance, filter)), topK)
           );
 
           sendJson(200, {
@@ -439,20 +789,21 @@ function createSearchServer(instance: ServerInstance): http.Server {
             total: results.length,
             took_ms: duration_ms,
             mode: "keyword_only",
+            reranker,
           });
           return;
         }
 
-        const { result: results, duration_ms } = await timed(async () =>
-          hybridSearch(
+        const { result: { hits: results, reranker }, duration_ms } = await timed(async () =>
+          rerankHits(instance, body.query, await hybridSearch(
+            instance,
             body.query_vector!,
             body.query,
-            instance.vectors,
-            topK,
+            firstStageCount(instance, topK),
             alpha,
             fusionMethod,
-            body.filters
-          )
+            filter
+          ), topK)
         );
 
         sendJson(200, {
@@ -467,6 +818,7 @@ function createSearchServer(instance: ServerInstance): http.Server {
           mode: "hybrid",
           alpha,
           fusion_method: fusionMethod,
+          reranker,
         });
         return;
       }
@@ -485,10 +837,17 @@ function createSearchServer(instance: ServerInstance): http.Server {
           return;
         }
 
+        const filter = compileRunFilter(instance, body.filters);
+        if (filter && "isError" in filter) {
+          sendFilterError(filter);
+          return;
+        }
+
         const topK = body.top_k || instance.profile?.retrieval.default_top_k || 10;
 
-        const { result: results, duration_ms } = await timed(async () =>
-          keywordSearch(body.query, instance.vectors, topK, body.filters)
+        const { result: { hits: results, reranker }, duration_ms } = await timed(async () =>
+          rerankHits(instance, body.query,
+            keywordSearch(body.query, instance.vectors, firstStageCount(instance, topK), recordFilter(instance, filter)), topK)
         );
 
         sendJson(200, {
@@ -500,6 +859,7 @@ function createSearchServer(instance: ServerInstance): http.Server {
           })),
           total: results.length,
           took_ms: duration_ms,
+          reranker,
         });
         return;
       }
@@ -661,6 +1021,7 @@ export async function serveOpenapi(input: ServeOpenapiInput): Promise<ServeOpena
           dimensions: { type: "integer" },
           started_at: { type: "string", format: "date-time" },
           requests_served: { type: "integer" },
+          requests_rejected: { type: "integer" },
         },
       };
     }
@@ -961,37 +1322,6 @@ export async function serveStart(input: ServeStartInput): Promise<ServeStartResu
       };
     }
 
-    // Load vectors
-    const localVectorsPath = path.join(indexedDir, `${input.run_id}.vectors.json`);
-    const defaultVectorsPath = path.join(indexedDir, "default.vectors.json");
-
-    let vectorsPath: string | null = null;
-
-    // Try to find any .vectors.json file
-    const indexedFiles = await fs.readdir(indexedDir).catch(() => []);
-    const vectorFile = indexedFiles.find(f => f.endsWith(".vectors.json"));
-
-    if (vectorFile) {
-      vectorsPath = path.join(indexedDir, vectorFile);
-    } else if (await pathExists(localVectorsPath)) {
-      vectorsPath = localVectorsPath;
-    } else if (await pathExists(defaultVectorsPath)) {
-      vectorsPath = defaultVectorsPath;
-    }
-
-    if (!vectorsPath) {
-      return createToolError("CONFIG_INVALID",
-        "No vector file found. Run indexfoundry_index_upsert with provider='local' first.", {
-        recoverable: false,
-        suggestion: "Use indexfoundry_index_upsert with provider: 'local' to create vectors file",
-      });
-    }
-
-    const vectorData = await readJson<{
-      collection: string;
-      vectors: VectorRecord[];
-    }>(vectorsPath);
-
     // Load chunks
     const chunksPath = path.join(normalizedDir, "chunks.jsonl");
     let chunks: DocumentChunk[] = [];
@@ -1004,6 +1334,63 @@ export async function serveStart(input: ServeStartInput): Promise<ServeStartResu
       chunkMap.set(chunk.chunk_id, chunk);
     }
 
+    // External vector databases are recorded in the vector manifest
+    const manifestPath = path.join(indexedDir, "vector_manifest.json");
+    const manifest = await pathExists(manifestPath)
+      ? await readJson<VectorManifest>(manifestPath)
+      : null;
+
+    let vectors: VectorRecord[];
+    let vectorStore: RemoteVectorStore | null = null;
+
+    if (manifest?.provider === "qdrant" || manifest?.provider === "chroma") {
+      const opened = await openVectorStore(manifest, chunkMap);
+      if ("isError" in opened) {
+        return opened;
+      }
+      vectorStore = opened;
+
+      // Keyword search still runs locally over the normalized chunks
+      vectors = chunks.map(chunk => ({
+        id: chunk.chunk_id,
+        vector: [],
+        metadata: buildVectorMetadata(chunk, manifest.metadata_schema),
+        text: chunk.content.text,
+      }));
+    } else {
+      // Load vectors
+      const localVectorsPath = path.join(indexedDir, `${input.run_id}.vectors.json`);
+      const defaultVectorsPath = path.join(indexedDir, "default.vectors.json");
+
+      let vectorsPath: string | null = null;
+
+      // Try to find any .vectors.json file
+      const indexedFiles = await fs.readdir(indexedDir).catch(() => []);
+      const vectorFile = indexedFiles.find(f => f.endsWith(".vectors.json"));
+
+      if (vectorFile) {
+        vectorsPath = path.join(indexedDir, vectorFile);
+      } else if (await pathExists(localVectorsPath)) {
+        vectorsPath = localVectorsPath;
+      } else if (await pathExists(defaultVectorsPath)) {
+        vectorsPath = defaultVectorsPath;
+      }
+
+      if (!vectorsPath) {
+        return createToolError("CONFIG_INVALID",
+          "No vector file found. Run indexfoundry_index_upsert with provider='local' first.", {
+          recoverable: false,
+          suggestion: "Use indexfoundry_index_upsert with provider: 'local' to create vectors file",
+        });
+      }
+
+      const vectorData = await readJson<{
+        collection: string;
+        vectors: VectorRecord[];
+      }>(vectorsPath);
+      vectors = vectorData.vectors || [];
+    }
+
     // Load retrieval profile if exists
     let profile: RetrievalProfile | null = null;
     const profilePath = path.join(indexedDir, "retrieval_profile.json");
@@ -1011,6 +1398,33 @@ export async function serveStart(input: ServeStartInput): Promise<ServeStartResu
       profile = await readJson<RetrievalProfile>(profilePath);
     }
 
+    // Fail closed: a profile that requires auth must have keys to check against
+    let apiKeys: string[] | null = null;
+    if (profile?.security?.require_auth) {
+      const apiKeyEnv = profile.security.api_key_env || DEFAULT_SERVE_API_KEY_ENV;
+      apiKeys = loadApiKeys(apiKeyEnv);
+      if (apiKeys.length === 0) {
+        return createToolError("CONFIG_INVALID",
+          `Retrieval profile requires auth but ${apiKeyEnv} is not set`, {
+          recoverable: true,
+          suggestion: `Set ${apiKeyEnv} to one or more comma-separated API keys, or rebuild the profile with security.require_auth: false`,
+        });
+      }
+    }
+
+    let reranker: ServerInstance["reranker"] = null;
+    const rerankerConfig = profile?.retrieval.reranker;
+    if (rerankerConfig?.enabled) {
+      const created = createReranker(rerankerConfig);
+      if ("isError" in created) {
+        return created;
+      }
+      reranker = { reranker: created, top_k_to_rerank: rerankerConfig.top_k_to_rerank ?? 50 };
+    }
+
+    const logger = new RunLogger(runDir);
+    await logger.init();
+
     // Create server instance
     const instance: ServerInstance = {
       server: null as unknown as http.Server,
@@ -1019,9 +1433,18 @@ export async function serveStart(input: ServeStartInput): Promise<ServeStartResu
       port: input.port,
       started_at: now(),
       requests_served: 0,
-      vectors: vectorData.vectors || [],
+      requests_rejected: 0,
+      vectors,
       chunks: chunkMap,
       profile,
+      vector_store: vectorStore,
+      guard: {
+        limiter: input.rate_limit ? new TokenBucketLimiter(input.rate_limit) : null,
+        cors_origins: input.cors_origins,
+        api_keys: apiKeys,
+        logger,
+      },
+      reranker,
     };
 
     // Create HTTP server
@@ -1052,10 +1475,12 @@ export async function serveStart(input: ServeStartInput): Promise<ServeStartResu
       port: input.port,
       cors_origins: input.cors_origins,
       rate_limit: input.rate_limit,
+      require_auth: apiKeys !== null,
       log_requests: input.log_requests,
       started_at: instance.started_at,
       vectors_loaded: instance.vectors.length,
       chunks_loaded: instance.chunks.size,
+      vector_store: vectorStore ? { provider: vectorStore.provider, collection: vectorStore.collection } : undefined,
     };
 
     await writeJson(path.join(servedDir, "server_config.json"), serverConfig);
@@ -1210,6 +1635,10 @@ export interface ServeQueryResult {
   total: number;
   took_ms: number;
   mode: string;
+  /** Reranker applied after first-stage retrieval, if any */
+  reranker?: string;
+  /** MMR lambda, when results were diversified */
+  mmr_lambda?: number;
 }
 
 export async function serveQuery(input: ServeQueryInput): Promise<ServeQueryResult | ToolError> {
@@ -1224,23 +1653,33 @@ export async function serveQuery(input: ServeQueryInput): Promise<ServeQueryResu
       });
     }
 
+    const filter = compileRunFilter(instance, input.filters);
+    if (filter && "isError" in filter) {
+      return filter;
+    }
+    const matches = recordFilter(instance, filter);
+
     const topK = input.top_k || instance.profile?.retrieval.default_top_k || 10;
+    // MMR needs alternatives to choose from, so rerank and keep a larger pool
+    const poolK = input.mmr ? mmrPoolSize(topK) : topK;
+    const firstStageK = firstStageCount(instance, poolK);
 
     let results: Array<{ id: string; score: number; metadata: Record<string, unknown>; text?: string }>;
     let mode: string;
+    let reranker: string | undefined;
 
     const { duration_ms } = await timed(async () => {
       if (input.mode === "semantic") {
         if (!input.query_vector) {
           throw new Error("query_vector is required for semantic search");
         }
-        results = semanticSearch(input.query_vector, instance.vectors, topK, input.filters);
+        results = await searchSemantic(instance, input.query_vector, firstStageK, filter);
         mode = "semantic";
       } else if (input.mode === "keyword") {
         if (!input.query) {
           throw new Error("query is required for keyword search");
         }
-        results = keywordSearch(input.query, instance.vectors, topK, input.filters);
+        results = keywordSearch(input.query, instance.vectors, firstStageK, matches);
         mode = "keyword";
       } else {
         // Hybrid
@@ -1251,13 +1690,18 @@ export async function serveQuery(input: ServeQueryInput): Promise<ServeQueryResu
         const fusion = instance.profile?.retrieval.hybrid_config?.fusion_method || "rrf";
 
         if (input.query_vector) {
-          results = hybridSearch(input.query_vector, input.query, instance.vectors, topK, alpha, fusion, input.filters);
+          results = await hybridSearch(instance, input.query_vector, input.query, firstStageK, alpha, fusion, filter);
           mode = "hybrid";
         } else {
-          results = keywordSearch(input.query, instance.vectors, topK, input.filters);
+          results = keywordSearch(input.query, instance.vectors, firstStageK, matches);
           mode = "keyword_fallback";
         }
       }
+
+      ({ hits: results, reranker } = await rerankHits(instance, input.query, results, poolK));
+      if (input.mmr) {
+        results = diversifyHits(instance, results, topK, input.mmr);
+      }
     });
 
     return {
@@ -1271,6 +1715,8 @@ export async function serveQuery(input: ServeQueryInput): Promise<ServeQueryResu
       total: results!.length,
       took_ms: duration_ms,
       mode: mode!,
+      reranker,
+      mmr_lambda: input.mmr?.lambda,
     };
   } catch (err) {
     return createToolError("CONFIG_INVALID", `Query failed: ${err}`, {
@@ -126,6 +126,39 @@ export interface RawArtifact {
   size_bytes: number;
   content_type: string;
   local_path: string;
+  repo?: RepoProvenance;       // Set for files read from a git repository
+}
+
+/**
+ * Where a raw artifact came from in a git repository
+ */
+export interface RepoProvenance {
+  root: string;                // Absolute repository path
+  ref: string;                 // Ref as requested
+  commit: string;              // Resolved commit SHA
+  path: string;                // Repo-relative file path
+  blob_sha: string;            // Git blob object ID
+}
+
+/**
+ * Link graph saved by connect_crawl (raw/crawl_graph.json)
+ */
+export interface CrawlGraph {
+  start_url: string;
+  crawled_at: string;          // ISO8601
+  nodes: CrawlNode[];
+  edges: Array<{ from: string; to: string }>;  // Parent page → in-scope link
+}
+
+export interface CrawlNode {
+  url: string;                 // Normalized URL
+  depth: number;               // Link hops from start_url
+  status: "fetched" | "skipped" | "failed" | "duplicate" | "disallowed";
+  canonical_url?: string;      // From <link rel=canonical>, when it differs from url
+  duplicate_of?: string;       // Page already kept for the same canonical URL
+  path?: string;               // Raw artifact path
+  sha256?: string;
+  error?: string;
 }
 
 export interface PageExtraction {
@@ -144,6 +177,11 @@ export interface ExtractionReport {
   pages_processed: number;
   pages_empty: number;
   chars_extracted: number;
+  document_properties?: {      // Core properties from the source document (DOCX)
+    title?: string;
+    author?: string;
+    modified?: string;
+  };
 }
 
 export interface EmbeddingRecord {
@@ -157,6 +195,15 @@ export interface EmbeddingRecord {
 export interface VectorManifest {
   collection: string;
   namespace?: string;
+  /** Vector database provider (absent for manifests written before providers were tracked) */
+  provider?: string;
+  distance?: "cosine" | "dot" | "euclidean";
+  /** Connection details for external providers (never contains the API key itself) */
+  connection?: {
+    host?: string;
+    port?: number;
+    api_key_env?: string;
+  };
   model_used: string;
   dimensions: number;
   metadata_schema: string[];
@@ -275,6 +322,11 @@ export interface IndexFoundryConfig {
       timeout_ms: number;
       max_file_size_mb: number;
       user_agent: string;
+      respect_robots_txt: boolean;
+      host_delay_ms: number;       // Minimum gap between requests to one host
+      max_retries: number;         // Retries on 429/503
+      retry_base_ms: number;       // Backoff without Retry-After, doubled per retry
+      max_retry_wait_ms: number;   // Longer Retry-After waits give up instead
     };
     extract: {
       pdf_extractor: string;
@@ -333,6 +385,7 @@ export type ErrorCode =
   | "FETCH_FAILED"
   | "FETCH_TIMEOUT"
   | "DOMAIN_BLOCKED"
+  | "ROBOTS_DISALLOWED"
   | "FILE_TOO_LARGE"
   | "PARSE_ERROR"
   | "OCR_FAILED"
@@ -357,6 +410,7 @@ export type ErrorCode =
   | "ADD_FAILED"
   | "BUILD_FAILED"
   | "QUERY_FAILED"
+  | "UPDATE_FAILED"
   | "EXPORT_FAILED"
   | "NOT_EXPORTED"
   | "ENV_VAR_FAILED"
@@ -375,7 +429,13 @@ export type ErrorCode =
   | "NOT_BUILT"
   | "INSTALL_FAILED"
   | "SERVE_FAILED"
-  | "STOP_FAILED";
+  | "STOP_FAILED"
+  // Filter expression errors
+  | "FILTER_INVALID"
+  | "FILTER_NOT_ALLOWED"
+  // Evaluation errors
+  | "EVAL_NOT_FOUND"
+  | "EVAL_FAILED";
 
 export interface ToolError {
   success: false;
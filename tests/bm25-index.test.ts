@@ -0,0 +1,300 @@
+/**
+ * BM25 Keyword Index Tests
+ *
+ * These tests define the contract for the persistent BM25 index used for
+ * keyword search in projects.
+ *
+ * Feature Requirements:
+ * - Okapi BM25 ranking: term rarity, term frequency saturation and
+ *   document length normalization
+ * - project_build saves the index as data/bm25.json next to chunks.jsonl
+ *   and extends it incrementally; project_remove_source prunes it
+ * - projectQuery, searchHybridForChat and the exported server's
+ *   searchKeyword rank with BM25
+ * - Missing or stale index files are rebuilt from chunks
+ *
+ * Integration Points:
+ * - src/tools/bm25.ts - Bm25Index, loadBm25IndexFor
+ * - src/tools/projects.ts - projectBuild, projectRemoveSource,
+ *   projectQuery, searchHybridForChat, generated server
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { mkdtemp, rm, mkdir, writeFile, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import ts from 'typescript';
+
+import { Bm25Index, loadBm25Index, saveBm25Index, tokenizeBm25 } from '../src/tools/bm25.js';
+import {
+  initProjectManager,
+  projectCreate,
+  projectAddSource,
+  projectBuild,
+  projectQuery,
+  projectRemoveSource,
+  searchHybridForChat,
+  generateMcpServerSourceForTest,
+} from '../src/tools/projects.js';
+import { ProjectQuerySchema } from '../src/schemas-projects.js';
+import type { ChunkRecord } from '../src/schemas-projects.js';
+import { readJsonl } from '../src/utils.js';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const DOCS = [
+  { chunk_id: 'common', text: 'The pump moves water. The pump is reliable and the pump is quiet.' },
+  { chunk_id: 'rare', text: 'The impeller of the pump was replaced.' },
+  { chunk_id: 'long', text: `Impeller notes. ${'General maintenance guidance applies to every unit. '.repeat(20)}` },
+  { chunk_id: 'other', text: 'Valves regulate flow through the pipes.' },
+];
+
+// ============================================================================
+// Bm25Index
+// ============================================================================
+
+describe('Bm25Index', () => {
+  it('should tokenize into lowercase letter and digit runs', () => {
+    expect(tokenizeBm25('Room D40: Café, 3-way valve!')).toEqual(['room', 'd40', 'café', '3', 'way', 'valve']);
+  });
+
+  it('should rank rare terms above frequent common terms', () => {
+    const index = Bm25Index.build(DOCS);
+    const hits = index.search('pump impeller', 10);
+
+    expect(hits[0].chunk_id).toBe('rare');
+    expect(hits.map(h => h.chunk_id)).not.toContain('other');
+  });
+
+  it('should prefer shorter chunks for the same term frequency', () => {
+    const index = Bm25Index.build(DOCS);
+    const hits = index.search('impeller', 10);
+
+    expect(hits.map(h => h.chunk_id)).toEqual(['rare', 'long']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('should saturate term frequency', () => {
+    const index = Bm25Index.build([
+      { chunk_id: 'once', text: 'pump a b c d e f g h i' },
+      { chunk_id: 'many', text: 'pump pump pump pump pump pump pump pump pump pump' },
+      { chunk_id: 'none', text: 'a b c d e f g h i j' },
+    ]);
+    const [many, once] = index.search('pump', 10);
+
+    expect(many.chunk_id).toBe('many');
+    expect(many.score / once.score).toBeLessThan(3);
+  });
+
+  it('should apply the filter before truncation', () => {
+    const index = Bm25Index.build(DOCS);
+    const hits = index.search('pump impeller', 1, id => id !== 'rare');
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].chunk_id).not.toBe('rare');
+  });
+
+  it('should give the same results after incremental updates as a fresh build', () => {
+    const incremental = Bm25Index.build(DOCS.slice(0, 2));
+    incremental.add('long', DOCS[2].text);
+    incremental.add('other', DOCS[3].text);
+    incremental.add('temp', 'pump impeller pump impeller');
+    expect(incremental.removeMany(new Set(['temp', 'missing']))).toBe(1);
+
+    expect(incremental.size).toBe(4);
+    expect(incremental.search('pump impeller valves', 10)).toEqual(Bm25Index.build(DOCS).search('pump impeller valves', 10));
+  });
+
+  it('should round-trip through JSON, including awkward terms', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'indexfoundry-bm25-'));
+    try {
+      const docs = [...DOCS, { chunk_id: 'proto', text: 'constructor __proto__ toString hasOwnProperty' }];
+      const file = path.join(dir, 'bm25.json');
+      await saveBm25Index(file, Bm25Index.build(docs));
+      const loaded = await loadBm25Index(file);
+
+      expect(loaded!.size).toBe(5);
+      expect(loaded!.search('constructor proto pump', 10)).toEqual(Bm25Index.build(docs).search('constructor proto pump', 10));
+      expect(await loadBm25Index(path.join(dir, 'missing.json'))).toBeNull();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ============================================================================
+// Projects
+// ============================================================================
+
+describe('BM25 in projects', () => {
+  const PROJECT_ID = 'bm25-kb';
+  let tempDir: string;
+  let docsDir: string;
+
+  const dataPath = (file: string) => path.join(tempDir, 'projects', PROJECT_ID, 'data', file);
+
+  async function addFolder(name: string, files: Record<string, string>): Promise<string> {
+    const dir = path.join(docsDir, name);
+    await mkdir(dir, { recursive: true });
+    for (const [file, text] of Object.entries(files)) {
+      await writeFile(path.join(dir, file), text);
+    }
+    const added = await projectAddSource({ project_id: PROJECT_ID, folder_path: dir, source_name: name });
+    if ('isError' in added) throw new Error(added.message);
+    return (added as { source_id: string }).source_id;
+  }
+
+  async function build(): Promise<void> {
+    const built = await projectBuild({ project_id: PROJECT_ID, force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+  }
+
+  async function persistedIds(): Promise<string[]> {
+    const data = JSON.parse(await readFile(dataPath('bm25.json'), 'utf-8'));
+    return Object.keys(data.doc_lengths).sort();
+  }
+
+  async function chunkIds(): Promise<string[]> {
+    return (await readJsonl<ChunkRecord>(dataPath('chunks.jsonl'))).map(c => c.chunk_id).sort();
+  }
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(tmpdir(), 'indexfoundry-bm25-project-'));
+    docsDir = path.join(tempDir, 'docs');
+    initProjectManager(tempDir);
+    const created = await projectCreate({
+      project_id: PROJECT_ID,
+      name: 'BM25 KB',
+      embedding_model: { provider: 'local', model_name: 'hash', dimensions: 128, api_key_env: 'OPENAI_API_KEY' },
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    if ('isError' in created) throw new Error(created.message);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist the index at build time and update it incrementally', async () => {
+    await addFolder('pumps', { 'a.md': DOCS[0].text, 'b.md': DOCS[1].text });
+    await build();
+    expect(await persistedIds()).toEqual(await chunkIds());
+    expect(await persistedIds()).toHaveLength(2);
+
+    const valvesId = await addFolder('valves', { 'c.md': DOCS[3].text });
+    await build();
+    expect(await persistedIds()).toHaveLength(3);
+    expect(await persistedIds()).toEqual(await chunkIds());
+
+    const removed = await projectRemoveSource({ project_id: PROJECT_ID, source_id: valvesId, confirm: true });
+    expect(removed).not.toHaveProperty('isError');
+    expect(await persistedIds()).toHaveLength(2);
+    expect(await persistedIds()).toEqual(await chunkIds());
+  });
+
+  it('should rank keyword queries with BM25', async () => {
+    await addFolder('pumps', { 'a.md': DOCS[0].text, 'b.md': DOCS[1].text, 'c.md': DOCS[2].text, 'd.md': DOCS[3].text });
+    await build();
+
+    const result = await projectQuery(ProjectQuerySchema.parse({ project_id: PROJECT_ID, query: 'pump impeller', mode: 'keyword', top_k: 10 }));
+    if ('isError' in result) throw new Error(result.message);
+
+    // Term matching alone would tie "common" and "rare"
+    expect(result.results[0].text).toBe(DOCS[1].text);
+    expect(result.results.some(r => r.text === DOCS[3].text)).toBe(false);
+  });
+
+  it('should rebuild a missing or stale index at query time', async () => {
+    await addFolder('pumps', { 'a.md': DOCS[0].text, 'b.md': DOCS[1].text });
+    await build();
+    await writeFile(dataPath('bm25.json'), JSON.stringify(Bm25Index.build([{ chunk_id: 'gone', text: 'impeller' }])));
+
+    const result = await projectQuery(ProjectQuerySchema.parse({ project_id: PROJECT_ID, query: 'impeller', mode: 'keyword', top_k: 10 }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.results).toHaveLength(1);
+    expect(result.results[0].text).toBe(DOCS[1].text);
+  });
+});
+
+// ============================================================================
+// Chat search
+// ============================================================================
+
+describe('searchHybridForChat keyword ranking', () => {
+  const chunks = DOCS.map((d, i) => ({
+    chunk_id: d.chunk_id,
+    source_id: 'src',
+    text: d.text,
+    position: { index: i, start_char: 0, end_char: d.text.length },
+    metadata: {},
+    created_at: '2024-01-01T00:00:00Z',
+  }));
+
+  it('should rank keyword-only results with BM25 scaled to 0-1', () => {
+    const results = searchHybridForChat({ query: 'pump impeller', chunks, vectors: [], topK: 5 });
+
+    expect(results[0].chunk_id).toBe('rare');
+    expect(results[0].score).toBe(1);
+    expect(results.every(r => r.score > 0 && r.score <= 1)).toBe(true);
+  });
+
+  it('should use a provided keyword index', () => {
+    const keywordIndex = Bm25Index.build([{ chunk_id: 'other', text: 'pump impeller' }]);
+    const results = searchHybridForChat({ query: 'pump impeller', chunks, vectors: [], topK: 5, keywordIndex });
+
+    expect(results.map(r => r.chunk_id)).toEqual(['other']);
+  });
+});
+
+// ============================================================================
+// Exported server
+// ============================================================================
+
+describe('exported server keyword search', () => {
+  const source = generateMcpServerSourceForTest('Test', 'Test server', 8080, true);
+
+  function loadServerBm25() {
+    const start = source.indexOf('function bm25Tokenize');
+    const end = source.indexOf('/**\n * BM25 keyword search.');
+    expect(start).toBeGreaterThan(-1);
+    expect(end).toBeGreaterThan(start);
+
+    const js = ts.transpileModule(source.slice(start, end), { compilerOptions: { target: ts.ScriptTarget.ES2022 } }).outputText;
+    return new Function('existsSync', 'readFileSync', `${js}; return { bm25Build, bm25Load, bm25Search };`)(existsSync, readFileSync);
+  }
+
+  it('should rank identically to the project index', () => {
+    const server = loadServerBm25();
+    const index = Bm25Index.build(DOCS);
+    const serverIndex = server.bm25Build(DOCS);
+
+    for (const query of ['pump impeller', 'impeller', 'valves flow', 'maintenance unit', 'nothing']) {
+      expect(server.bm25Search(serverIndex, query, 10)).toEqual(index.search(query, 10));
+    }
+  });
+
+  it('should load the persisted index and rebuild when it is stale', async () => {
+    const server = loadServerBm25();
+    const dir = await mkdtemp(path.join(tmpdir(), 'indexfoundry-bm25-server-'));
+    try {
+      const file = path.join(dir, 'bm25.json');
+      await saveBm25Index(file, Bm25Index.build(DOCS));
+      const loaded = server.bm25Load(file, DOCS);
+      expect(server.bm25Search(loaded, 'pump impeller', 10)).toEqual(Bm25Index.build(DOCS).search('pump impeller', 10));
+
+      const stale = server.bm25Load(file, DOCS.slice(0, 2));
+      expect(stale.docLengths.size).toBe(2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should search the keyword index instead of scanning chunks', () => {
+    expect(source).toContain('keywordIndex = bm25Load(join(DATA_DIR, "bm25.json"), chunks);');
+    expect(source).toContain('bm25Search(keywordIndex, query, topK');
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Chroma Provider Tests
+ *
+ * These tests define the contract for the chroma provider of indexUpsert
+ * and for searching it through serveQuery.
+ *
+ * Feature Requirements:
+ * - The collection is created with the configured distance (hnsw:space)
+ * - Chunk text is stored as Chroma documents when store_text is true
+ * - metadata_fields map to scalar Chroma metadata
+ * - upsert_mode and namespace behave as for other providers
+ * - serveQuery semantic mode queries the collection instead of local JSONL
+ *
+ * Integration Points:
+ * - src/tools/chroma.ts - HTTP client (v2 API)
+ * - src/tools/index.ts - indexUpsert chroma branch
+ * - src/tools/serve.ts - Chroma-backed semantic search
+ *
+ * A small in-process HTTP server stands in for Chroma and implements the
+ * endpoints used by the client.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+import { initRunManager } from '../src/run-manager.js';
+import { IndexUpsertInputSchema } from '../src/schemas.js';
+import { indexUpsert } from '../src/tools/index.js';
+import { serveStart, serveStop, serveQuery } from '../src/tools/serve.js';
+import { chromaWhere, toChromaMetadata } from '../src/tools/chroma.js';
+import { writeRunData } from './helpers/run-data.js';
+
+// ============================================================================
+// Chroma Stand-in
+// ============================================================================
+
+interface StoredRecord {
+  embedding: number[];
+  metadata: Record<string, unknown>;
+  document?: string;
+}
+
+interface StoredCollection {
+  id: string;
+  name: string;
+  metadata: Record<string, unknown>;
+  dimension: number | null;
+  records: Map<string, StoredRecord>;
+}
+
+type Where = { $and: Where[] } | Record<string, { $eq?: unknown; $in?: unknown[] }>;
+
+/** Request body fields the Chroma client sends */
+interface ChromaBody {
+  name?: string;
+  metadata?: Record<string, unknown>;
+  ids?: string[];
+  embeddings?: number[][];
+  metadatas?: Array<Record<string, unknown>>;
+  documents?: string[];
+  where?: Where;
+  query_embeddings?: number[][];
+  n_results?: number;
+}
+
+interface FakeChroma {
+  url: string;
+  collections: Map<string, StoredCollection>;
+  requests: Array<{ method: string; path: string; headers: http.IncomingHttpHeaders; body: ChromaBody }>;
+  close(): Promise<void>;
+}
+
+function matchesWhere(metadata: Record<string, unknown>, where?: Where): boolean {
+  if (!where) return true;
+  if ('$and' in where && Array.isArray(where.$and)) return where.$and.every(clause => matchesWhere(metadata, clause));
+  return Object.entries(where as Record<string, { $eq?: unknown; $in?: unknown[] }>).every(([key, condition]) =>
+    condition.$in ? condition.$in.includes(metadata[key]) : metadata[key] === condition.$eq
+  );
+}
+
+async function startFakeChroma(): Promise<FakeChroma> {
+  const collections = new Map<string, StoredCollection>();
+  const requests: FakeChroma['requests'] = [];
+  const prefix = '/api/v2/tenants/default_tenant/databases/default_database/collections';
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body: ChromaBody = raw ? JSON.parse(raw) : {};
+      const pathname = new URL(req.url!, 'http://localhost').pathname;
+      requests.push({ method: req.method!, path: pathname, headers: req.headers, body });
+
+      const send = (status: number, data: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+      const info = (c: StoredCollection) => ({ id: c.id, name: c.name, metadata: c.metadata, dimension: c.dimension });
+
+      if (!pathname.startsWith(prefix)) return send(404, { error: 'NotFoundError', message: 'Not found' });
+      const [target, action] = pathname.slice(prefix.length + 1).split('/').map(decodeURIComponent);
+
+      if (!target && req.method === 'POST') {
+        const name = body.name!;
+        if (collections.has(name)) return send(409, { error: 'UniqueConstraintError', message: 'exists' });
+        const created = { id: uuidv4(), name, metadata: body.metadata ?? {}, dimension: null, records: new Map() };
+        collections.set(name, created);
+        return send(200, info(created));
+      }
+
+      if (!action) {
+        const collection = collections.get(target);
+        if (!collection) return send(404, { error: 'NotFoundError', message: `Collection [${target}] does not exist` });
+        if (req.method === 'DELETE') collections.delete(target);
+        return send(200, req.method === 'DELETE' ? {} : info(collection));
+      }
+
+      const collection = [...collections.values()].find(c => c.id === target);
+      if (!collection) return send(404, { error: 'NotFoundError', message: 'Collection does not exist' });
+
+      if (action === 'upsert') {
+        body.ids!.forEach((id, i) => {
+          collection.records.set(id, {
+            embedding: body.embeddings![i],
+            metadata: body.metadatas![i],
+            document: body.documents?.[i],
+          });
+        });
+        collection.dimension = body.embeddings![0]?.length ?? collection.dimension;
+        return send(200, {});
+      }
+
+      if (action === 'get') {
+        return send(200, { ids: body.ids!.filter(id => collection.records.has(id)) });
+      }
+
+      if (action === 'delete') {
+        for (const [id, record] of collection.records) {
+          if (matchesWhere(record.metadata, body.where)) collection.records.delete(id);
+        }
+        return send(200, {});
+      }
+
+      // query: cosine distance
+      const query = body.query_embeddings![0];
+      const hits = [...collection.records.entries()]
+        .filter(([, r]) => matchesWhere(r.metadata, body.where))
+        .map(([id, r]) => {
+          const dot = r.embedding.reduce((sum, v, i) => sum + v * query[i], 0);
+          const norm = Math.hypot(...r.embedding) * Math.hypot(...query);
+          return { id, record: r, distance: 1 - dot / norm };
+        })
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, body.n_results);
+      return send(200, {
+        ids: [hits.map(h => h.id)],
+        distances: [hits.map(h => h.distance)],
+        documents: [hits.map(h => h.record.document ?? null)],
+        metadatas: [hits.map(h => h.record.metadata)],
+      });
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    collections,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('chroma helpers', () => {
+  it('should flatten metadata to scalar values', () => {
+    expect(toChromaMetadata({ a: 'x', b: 2, c: true, d: null, e: ['t1', 't2'] })).toEqual({
+      a: 'x', b: 2, c: true, e: '["t1","t2"]',
+    });
+  });
+
+  it('should build where clauses from filters and namespace', () => {
+    expect(chromaWhere()).toBeUndefined();
+    expect(chromaWhere({ lang: 'en' })).toEqual({ lang: { $eq: 'en' } });
+    expect(chromaWhere({ lang: ['en', 'de'] }, 'ns')).toEqual({
+      $and: [{ namespace: { $eq: 'ns' } }, { lang: { $in: ['en', 'de'] } }],
+    });
+  });
+});
+
+describe('indexUpsert (chroma)', () => {
+  let baseDir: string;
+  let chroma: FakeChroma;
+  const runId = uuidv4();
+
+  const upsert = (overrides: Record<string, unknown> = {}, connection: Record<string, unknown> = {}) => {
+    const url = new URL(chroma.url);
+    return indexUpsert(IndexUpsertInputSchema.parse({
+      run_id: runId,
+      provider: 'chroma',
+      connection: { host: url.hostname, port: Number(url.port), collection: 'energy', ...connection },
+      metadata_fields: ['source.uri', 'metadata.language', 'metadata.tags', 'position.page'],
+      batch_size: 4,
+      ...overrides,
+    }));
+  };
+
+  beforeAll(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-chroma-'));
+    const manager = initRunManager(baseDir);
+    const { runDir } = await manager.ensureRun(runId);
+    await writeRunData(runDir, 6);
+  });
+
+  beforeEach(async () => {
+    chroma = await startFakeChroma();
+  });
+
+  afterAll(async () => {
+    await chroma?.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should create the collection and store documents and metadata', async () => {
+    const result = await upsert();
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.stats).toMatchObject({ vectors_sent: 6, vectors_inserted: 6, vectors_failed: 0 });
+    expect(result.vector_manifest.provider).toBe('chroma');
+
+    const collection = chroma.collections.get('energy')!;
+    expect(collection.metadata).toEqual({ 'hnsw:space': 'cosine' });
+    expect(collection.records.get('chunk-2')).toEqual({
+      embedding: [0.01, 0.01, 1, 0.01],
+      document: 'Chunk 2 discusses battery storage in detail.',
+      metadata: {
+        source_uri: 'file://doc-0.md',
+        metadata_language: 'en',
+        metadata_tags: '["energy"]',
+        position_page: 3,
+        chunk_id: 'chunk-2',
+      },
+    });
+
+    const upserts = chroma.requests.filter(r => r.path.endsWith('/upsert'));
+    expect(upserts.map(r => r.body.ids!.length)).toEqual([4, 2]);
+
+    await chroma.close();
+  });
+
+  it('should omit documents when store_text is false', async () => {
+    await upsert({ store_text: false, distance: 'euclidean' });
+
+    const collection = chroma.collections.get('energy')!;
+    expect(collection.metadata).toEqual({ 'hnsw:space': 'l2' });
+    expect(collection.records.get('chunk-0')!.document).toBeUndefined();
+
+    await chroma.close();
+  });
+
+  it('should honor upsert modes and namespaces', async () => {
+    await upsert({}, { namespace: 'a' });
+    await upsert({}, { namespace: 'b' });
+    const collection = chroma.collections.get('energy')!;
+    expect(collection.records.size).toBe(12);
+    expect(collection.records.has('a:chunk-0')).toBe(true);
+
+    const again = await upsert({}, { namespace: 'a' });
+    if ('isError' in again) throw new Error(again.message);
+    expect(again.stats).toMatchObject({ vectors_inserted: 0, vectors_updated: 6 });
+
+    collection.records.delete('a:chunk-3');
+    const inserted = await upsert({ upsert_mode: 'insert' }, { namespace: 'a' });
+    if ('isError' in inserted) throw new Error(inserted.message);
+    expect(inserted.stats).toMatchObject({ vectors_inserted: 1, vectors_skipped: 5 });
+
+    collection.records.set('a:stale', { embedding: [1, 0, 0, 0], metadata: { namespace: 'a' } });
+    await upsert({ upsert_mode: 'replace' }, { namespace: 'a' });
+    expect(collection.records.has('a:stale')).toBe(false);
+    expect(collection.records.size).toBe(12);
+
+    await chroma.close();
+  });
+
+  it('should send the API key as a bearer token', async () => {
+    process.env.TEST_CHROMA_TOKEN = 'chroma-token';
+    try {
+      await upsert({}, { api_key_env: 'TEST_CHROMA_TOKEN' });
+      expect(chroma.requests.every(r => r.headers.authorization === 'Bearer chroma-token')).toBe(true);
+    } finally {
+      delete process.env.TEST_CHROMA_TOKEN;
+      await chroma.close();
+    }
+  });
+});
+
+describe('serveQuery (chroma)', () => {
+  let baseDir: string;
+  let chroma: FakeChroma;
+  const runId = uuidv4();
+
+  beforeAll(async () => {
+    chroma = await startFakeChroma();
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-chroma-serve-'));
+    const manager = initRunManager(baseDir);
+    const { runDir } = await manager.ensureRun(runId);
+    await writeRunData(runDir, 9);
+
+    const url = new URL(chroma.url);
+    const upserted = await indexUpsert(IndexUpsertInputSchema.parse({
+      run_id: runId,
+      provider: 'chroma',
+      connection: { host: url.hostname, port: Number(url.port), collection: 'served', namespace: 'prod' },
+    }));
+    if ('isError' in upserted) throw new Error(upserted.message);
+
+    const started = await serveStart({
+      run_id: runId,
+      host: '127.0.0.1',
+      port: 20000 + Math.floor(Math.random() * 20000),
+      log_requests: false,
+    });
+    if ('isError' in started) throw new Error(started.message);
+  });
+
+  afterAll(async () => {
+    await serveStop({ run_id: runId });
+    await chroma.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should query the Chroma collection in semantic mode', async () => {
+    const result = await serveQuery({
+      run_id: runId,
+      mode: 'semantic',
+      query_vector: [0, 0, 1, 0],
+      top_k: 2,
+      filters: { source_uri: 'file://doc-0.md' },
+      include_text: true,
+    });
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.results.map(r => r.chunk_id)).toEqual(['chunk-2', 'chunk-8']);
+    expect(result.results[0].text).toBe('Chunk 2 discusses battery storage in detail.');
+    expect(result.results[0].score).toBeGreaterThan(0.99);
+    expect(result.results[0].metadata).not.toHaveProperty('chunk_id');
+
+    const query = chroma.requests.find(r => r.path.endsWith('/query'))!;
+    expect(query.body.where).toEqual({
+      $and: [{ namespace: { $eq: 'prod' } }, { source_uri: { $eq: 'file://doc-0.md' } }],
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * DOCX Extraction Tests
+ *
+ * These tests define the contract for DOCX support in extractDocument.
+ *
+ * Feature Requirements:
+ * - Headings map to markdown headings (via styles.xml names or Heading<N> IDs)
+ * - Tables render as markdown tables
+ * - Comments and footnotes are emitted as separate sections
+ * - Core properties (title, author, modified) land in the ExtractionReport
+ *   and in chunk metadata produced by normalizeChunk
+ * - Archive entries never inflate past their declared size or the
+ *   configured max_file_size_mb
+ *
+ * Integration Points:
+ * - src/tools/docx.ts - parseDocx (zip + WordprocessingML conversion)
+ * - src/tools/extract.ts - extractDocument docx branch
+ * - src/tools/normalize.ts - document properties copied onto chunks
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+import { initRunManager } from '../src/run-manager.js';
+import { parseDocx } from '../src/tools/docx.js';
+import { extractDocument } from '../src/tools/extract.js';
+import { normalizeChunk } from '../src/tools/normalize.js';
+import type { DocumentChunk, ExtractionReport } from '../src/types.js';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a minimal zip archive (deflate) from a map of entry name → content.
+ * declaredSizes overrides the uncompressed size recorded for an entry.
+ */
+function buildZip(files: Record<string, string>, declaredSizes: Record<string, number> = {}): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.from(content, 'utf-8');
+    const compressed = deflateRawSync(raw);
+    const nameBuf = Buffer.from(name, 'utf-8');
+    const crc = crc32(raw);
+    const size = declaredSizes[name] ?? raw.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    locals.push(local, nameBuf, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(nameBuf.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuf);
+
+    offset += 30 + nameBuf.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function paragraph(text: string, style?: string): string {
+  const pPr = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  return `<w:p>${pPr}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+function cell(text: string): string {
+  return `<w:tc><w:tcPr/>${paragraph(text)}</w:tc>`;
+}
+
+/** A document.xml of about 1MB that deflates to a few KB */
+function inflatingDocx(declaredSize?: number): Buffer {
+  const documentXml = `<w:document ${W_NS}><w:body>${paragraph('a'.repeat(1024 * 1024))}</w:body></w:document>`;
+  return buildZip(
+    { 'word/document.xml': documentXml },
+    declaredSize === undefined ? {} : { 'word/document.xml': declaredSize }
+  );
+}
+
+function sampleDocx(): Buffer {
+  const body = [
+    paragraph('Annual Safety Report', 'Title'),
+    paragraph('Overview', 'Heading1'),
+    `<w:p><w:r><w:t xml:space="preserve">Incidents fell this year.</w:t></w:r>` +
+      `<w:r><w:footnoteReference w:id="1"/></w:r>` +
+      `<w:commentRangeStart w:id="0"/><w:r><w:t xml:space="preserve"> Training expanded.</w:t></w:r>` +
+      `<w:r><w:commentReference w:id="0"/></w:r></w:p>`,
+    paragraph('Details', 'Kop2'),
+    `<w:tbl><w:tr>${cell('Site')}${cell('Incidents')}</w:tr>` +
+      `<w:tr>${cell('North')}${cell('3')}</w:tr>` +
+      `<w:tr>${cell('South | East')}${cell('5')}</w:tr></w:tbl>`,
+    `<w:p><w:r><w:delText>removed text</w:delText></w:r></w:p>`,
+  ].join('');
+
+  return buildZip({
+    '[Content_Types].xml': '<?xml version="1.0"?><Types/>',
+    'word/document.xml': `<?xml version="1.0" encoding="UTF-8"?><w:document ${W_NS}><w:body>${body}<w:sectPr/></w:body></w:document>`,
+    'word/styles.xml': `<?xml version="1.0"?><w:styles ${W_NS}>` +
+      `<w:style w:type="paragraph" w:styleId="Kop2"><w:name w:val="heading 2"/></w:style></w:styles>`,
+    'word/footnotes.xml': `<?xml version="1.0"?><w:footnotes ${W_NS}>` +
+      `<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>` +
+      `<w:footnote w:id="1">${paragraph('Based on audited figures.')}</w:footnote></w:footnotes>`,
+    'word/comments.xml': `<?xml version="1.0"?><w:comments ${W_NS}>` +
+      `<w:comment w:id="0" w:author="Dana" w:date="2024-03-01T10:00:00Z">${paragraph('Cite the program name.')}</w:comment></w:comments>`,
+    'docProps/core.xml': '<?xml version="1.0"?><cp:coreProperties ' +
+      'xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+      'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/">' +
+      '<dc:title>Safety Report 2024</dc:title><dc:creator>Jordan Lee</dc:creator>' +
+      '<dcterms:modified>2024-03-02T08:30:00Z</dcterms:modified></cp:coreProperties>',
+  });
+}
+
+// ============================================================================
+// parseDocx
+// ============================================================================
+
+describe('parseDocx', () => {
+  it('should convert headings to markdown using style names and IDs', () => {
+    const result = parseDocx(sampleDocx());
+
+    expect(result.text).toContain('# Annual Safety Report');
+    expect(result.text).toContain('# Overview');
+    expect(result.text).toContain('## Details');
+    expect(result.headings).toBe(3);
+  });
+
+  it('should render tables as markdown tables', () => {
+    const result = parseDocx(sampleDocx());
+
+    expect(result.tables).toBe(1);
+    expect(result.text).toContain('| Site | Incidents |\n| --- | --- |\n| North | 3 |');
+    expect(result.text).toContain('| South \\| East | 5 |');
+  });
+
+  it('should emit footnotes and comments as separate sections', () => {
+    const result = parseDocx(sampleDocx());
+
+    expect(result.text).toContain('Incidents fell this year.[^1]');
+    expect(result.text).toContain('## Footnotes\n\n[^1]: Based on audited figures.');
+    expect(result.text).toContain('## Comments\n\n- [comment 0] (Dana, 2024-03-01T10:00:00Z): Cite the program name.');
+    expect(result.footnotes).toHaveLength(1);
+    expect(result.comments[0].author).toBe('Dana');
+  });
+
+  it('should skip deleted revisions', () => {
+    expect(parseDocx(sampleDocx()).text).not.toContain('removed text');
+  });
+
+  it('should read core properties', () => {
+    expect(parseDocx(sampleDocx()).properties).toEqual({
+      title: 'Safety Report 2024',
+      author: 'Jordan Lee',
+      modified: '2024-03-02T08:30:00Z',
+    });
+  });
+
+  it('should reject buffers that are not zip archives', () => {
+    expect(() => parseDocx(Buffer.from('plain text, not a docx'))).toThrow(/zip/i);
+  });
+
+  it('should not inflate entries past their declared size or the size limit', () => {
+    expect(parseDocx(inflatingDocx()).text).toHaveLength(1024 * 1024);
+    expect(() => parseDocx(inflatingDocx(), { maxEntryBytes: 64 * 1024 })).toThrow(/exceeds the 65536 byte limit/);
+    expect(() => parseDocx(inflatingDocx(1000))).toThrow(/declared size of 1000 bytes/);
+  });
+});
+
+// ============================================================================
+// extractDocument / normalizeChunk integration
+// ============================================================================
+
+describe('extractDocument (docx)', () => {
+  let baseDir: string;
+  const runId = uuidv4();
+
+  beforeAll(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-docx-'));
+    const manager = initRunManager(baseDir);
+    await manager.ensureRun(runId);
+    await fs.writeFile(path.join(manager.getRawDir(runId), 'report.docx'), sampleDocx());
+  });
+
+  afterAll(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should extract docx text and record properties in the report', async () => {
+    const result = await extractDocument({
+      run_id: runId,
+      doc_path: 'raw/report.docx',
+      format_hint: 'auto',
+      csv_preview_rows: 100,
+      force: false,
+    });
+
+    expect(result).not.toHaveProperty('isError');
+    if ('isError' in result) return;
+
+    expect(result.stats.format_detected).toBe('docx');
+    expect(result.stats.tables_found).toBe(1);
+    expect(result.stats.comments_found).toBe(1);
+    expect(result.stats.footnotes_found).toBe(1);
+    expect(result.extraction_report.document_properties?.author).toBe('Jordan Lee');
+
+    const runDir = path.join(baseDir, 'runs', runId);
+    const text = await fs.readFile(path.join(runDir, result.artifacts.text_file), 'utf-8');
+    expect(text).toContain('## Details');
+
+    const report = JSON.parse(await fs.readFile(
+      path.join(runDir, result.artifacts.text_file.replace(/\.txt$/, '.report.json')), 'utf-8'
+    )) as ExtractionReport;
+    expect(report.mode_used).toBe('docx');
+    expect(report.document_properties?.title).toBe('Safety Report 2024');
+  });
+
+  it('should return PARSE_ERROR for entries that inflate past their declared size', async () => {
+    const manager = initRunManager(baseDir);
+    await fs.writeFile(path.join(manager.getRawDir(runId), 'bomb.docx'), inflatingDocx(1000));
+
+    const result = await extractDocument({
+      run_id: runId,
+      doc_path: 'raw/bomb.docx',
+      format_hint: 'auto',
+      csv_preview_rows: 100,
+      force: false,
+    });
+
+    expect(result).toMatchObject({ isError: true, code: 'PARSE_ERROR' });
+  });
+
+  it('should copy document properties onto chunk metadata', async () => {
+    const extracted = await extractDocument({
+      run_id: runId,
+      doc_path: 'raw/report.docx',
+      format_hint: 'auto',
+      csv_preview_rows: 100,
+      force: false,
+    });
+    if ('isError' in extracted) throw new Error(extracted.message);
+
+    const chunked = await normalizeChunk({
+      run_id: runId,
+      input_paths: [extracted.artifacts.text_file],
+      strategy: 'recursive',
+      max_chars: 1500,
+      min_chars: 100,
+      overlap_chars: 0,
+      split_hierarchy: ['\n\n', '\n', '. ', ' '],
+      create_parent_chunks: true,
+      parent_context_chars: 200,
+      force: false,
+    });
+    if ('isError' in chunked) throw new Error(chunked.message);
+
+    const runDir = path.join(baseDir, 'runs', runId);
+    const lines = (await fs.readFile(path.join(runDir, chunked.output_path), 'utf-8')).trim().split('\n');
+    const chunk = JSON.parse(lines[0]) as DocumentChunk;
+
+    expect(chunk.source.type).toBe('docx');
+    expect(chunk.metadata.title).toBe('Safety Report 2024');
+    expect(chunk.metadata.custom).toEqual({ author: 'Jordan Lee', modified: '2024-03-02T08:30:00Z' });
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Embedding Endpoint Tests
+ *
+ * These tests define the contract for configurable embedding endpoints:
+ * OpenAI-compatible gateways via base_url and Ollama's native API.
+ *
+ * Feature Requirements:
+ * - base_url replaces https://api.openai.com/v1 for the openai provider
+ * - The ollama provider uses POST {base_url}/api/embeddings with
+ *   { model, prompt } and reads { embedding }
+ * - Ollama needs no API key
+ * - indexEmbed, project builds and project queries use the same endpoint
+ * - The exported server embeds queries against the configured endpoint
+ *
+ * Integration Points:
+ * - src/tools/embedding-endpoints.ts - embeddingsUrl / requestEmbeddings
+ * - src/tools/index.ts - indexEmbed openai (base_url) and ollama branches
+ * - src/tools/projects.ts - embedText / embedChunks / generateQueryEmbedding
+ *   and the generated server's generateQueryEmbedding
+ *
+ * A small in-process HTTP server stands in for both a gateway and Ollama.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import ts from 'typescript';
+
+import {
+  embeddingsUrl,
+  requestEmbeddings,
+  EmbeddingHttpError,
+} from '../src/tools/embedding-endpoints.js';
+import { embedLocal } from '../src/tools/local-embedding.js';
+import { initRunManager } from '../src/run-manager.js';
+import { IndexEmbedInputSchema } from '../src/schemas.js';
+import { indexEmbed } from '../src/tools/index.js';
+import {
+  initProjectManager,
+  projectCreate,
+  projectAddSource,
+  projectBuild,
+  projectQuery,
+  generateQueryEmbedding,
+  generateMcpServerSourceForTest,
+} from '../src/tools/projects.js';
+import { readJsonl } from '../src/utils.js';
+import type { DocumentChunk, EmbeddingRecord } from '../src/types.js';
+
+// ============================================================================
+// Embedding Server Stand-in
+// ============================================================================
+
+const DIMENSIONS = 32;
+
+/** OpenAI-style ({ model, input }) or Ollama-style ({ model, prompt }) request */
+interface EmbeddingRequest {
+  model?: string;
+  input?: string | string[];
+  prompt?: string;
+}
+
+interface FakeEmbedder {
+  url: string;
+  requests: Array<{ path: string; headers: http.IncomingHttpHeaders; body: unknown }>;
+  /** Respond to the next request with this status instead of embeddings */
+  failNext?: number;
+  close(): Promise<void>;
+}
+
+async function startFakeEmbedder(): Promise<FakeEmbedder> {
+  const fake: FakeEmbedder = {
+    url: '',
+    requests: [],
+    close: async () => {},
+  };
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body: EmbeddingRequest = raw ? JSON.parse(raw) : {};
+      const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+      fake.requests.push({ path: pathname, headers: req.headers, body });
+
+      const send = (status: number, data: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+
+      if (fake.failNext) {
+        const status = fake.failNext;
+        fake.failNext = undefined;
+        return send(status, { error: 'slow down' });
+      }
+
+      if (req.method === 'POST' && pathname === '/gateway/v1/embeddings') {
+        const inputs = Array.isArray(body.input) ? body.input : [body.input ?? ''];
+        // Reverse order to check that clients sort by index
+        const data = inputs
+          .map((text, index) => ({ object: 'embedding', index, embedding: embedLocal(text, DIMENSIONS) }))
+          .reverse();
+        return send(200, { object: 'list', data, model: body.model, usage: { prompt_tokens: 7, total_tokens: 7 } });
+      }
+
+      if (req.method === 'POST' && pathname === '/api/embeddings') {
+        return send(200, { embedding: embedLocal(body.prompt ?? '', DIMENSIONS) });
+      }
+
+      send(404, { error: `no route for ${req.method} ${pathname}` });
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  fake.url = `http://127.0.0.1:${port}`;
+  fake.close = () => new Promise(resolve => server.close(() => resolve()));
+  return fake;
+}
+
+let fake: FakeEmbedder;
+
+beforeAll(async () => {
+  fake = await startFakeEmbedder();
+});
+
+afterAll(async () => {
+  await fake.close();
+});
+
+beforeEach(() => {
+  fake.requests = [];
+});
+
+// ============================================================================
+// Endpoint Resolution and Requests
+// ============================================================================
+
+describe('embeddingsUrl', () => {
+  it('should default to OpenAI and the local Ollama host', () => {
+    expect(embeddingsUrl('openai')).toBe('https://api.openai.com/v1/embeddings');
+    expect(embeddingsUrl('ollama')).toBe('http://localhost:11434/api/embeddings');
+  });
+
+  it('should append the provider path to a base_url without doubling slashes', () => {
+    expect(embeddingsUrl('openai', 'https://gw.example.com/v1/')).toBe('https://gw.example.com/v1/embeddings');
+    expect(embeddingsUrl('ollama', 'http://gpu-box:11434')).toBe('http://gpu-box:11434/api/embeddings');
+  });
+});
+
+describe('requestEmbeddings', () => {
+  it('should batch OpenAI-compatible requests and restore input order', async () => {
+    const result = await requestEmbeddings({
+      provider: 'openai',
+      model_name: 'bge-small',
+      base_url: `${fake.url}/gateway/v1`,
+      api_key: 'gw-key',
+    }, ['alpha', 'beta', 'gamma']);
+
+    expect(fake.requests).toHaveLength(1);
+    expect(fake.requests[0].headers.authorization).toBe('Bearer gw-key');
+    expect(fake.requests[0].body).toEqual({ model: 'bge-small', input: ['alpha', 'beta', 'gamma'] });
+    expect(result.embeddings).toEqual(['alpha', 'beta', 'gamma'].map(t => embedLocal(t, DIMENSIONS)));
+    expect(result.total_tokens).toBe(7);
+  });
+
+  it('should send one native request per text to Ollama', async () => {
+    const result = await requestEmbeddings({
+      provider: 'ollama',
+      model_name: 'nomic-embed-text',
+      base_url: fake.url,
+    }, ['alpha', 'beta']);
+
+    expect(fake.requests.map(r => r.path)).toEqual(['/api/embeddings', '/api/embeddings']);
+    expect(fake.requests[0].body).toEqual({ model: 'nomic-embed-text', prompt: 'alpha' });
+    expect(fake.requests[0].headers.authorization).toBeUndefined();
+    expect(result.embeddings[1]).toEqual(embedLocal('beta', DIMENSIONS));
+  });
+
+  it('should surface the HTTP status on errors', async () => {
+    fake.failNext = 429;
+    const error = await requestEmbeddings({ provider: 'ollama', model_name: 'm', base_url: fake.url }, ['x'])
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(EmbeddingHttpError);
+    expect(error.status).toBe(429);
+    expect(error.message).toContain('Ollama API error 429');
+  });
+});
+
+// ============================================================================
+// indexEmbed
+// ============================================================================
+
+describe('indexEmbed with configurable endpoints', () => {
+  let baseDir: string;
+  let runId: string;
+  const savedKey = process.env.OPENAI_API_KEY;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-embed-endpoints-'));
+    const manager = initRunManager(baseDir);
+    runId = uuidv4();
+    const { runDir } = await manager.ensureRun(runId);
+
+    const chunks: DocumentChunk[] = ['Wind turbines', 'Solar panels', 'Hydro dams'].map((text, i) => ({
+      doc_id: 'doc-0',
+      chunk_id: `chunk-${i}`,
+      chunk_index: i,
+      source: { type: 'markdown', uri: 'file://doc-0.md', retrieved_at: '2024-01-01T00:00:00Z', content_hash: 'h' },
+      content: { text, text_hash: `t${i}`, char_count: text.length, token_count_approx: 3 },
+      position: { byte_start: 0, byte_end: text.length },
+      metadata: { content_type: 'text/markdown', language: 'en' },
+    }));
+    await fs.writeFile(path.join(runDir, 'normalized', 'chunks.jsonl'), chunks.map(c => JSON.stringify(c)).join('\n') + '\n');
+  });
+
+  afterEach(async () => {
+    if (savedKey === undefined) delete process.env.OPENAI_API_KEY;
+    else process.env.OPENAI_API_KEY = savedKey;
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should embed through Ollama without an API key', async () => {
+    delete process.env.OPENAI_API_KEY;
+
+    const result = await indexEmbed(IndexEmbedInputSchema.parse({
+      run_id: runId,
+      model: { provider: 'ollama', model_name: 'nomic-embed-text', base_url: fake.url },
+      normalize_vectors: false,
+    }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.stats.embeddings_created).toBe(3);
+    expect(result.model_info.dimensions).toBe(DIMENSIONS);
+    expect(fake.requests.every(r => r.path === '/api/embeddings')).toBe(true);
+
+    const records = await readJsonl<EmbeddingRecord>(path.join(baseDir, 'runs', runId, 'indexed', 'embeddings.jsonl'));
+    expect(records.map(r => r.model)).toEqual(Array(3).fill('ollama/nomic-embed-text'));
+    expect(records[1].vector).toEqual(embedLocal('Solar panels', DIMENSIONS));
+  });
+
+  it('should send OpenAI requests to the configured gateway', async () => {
+    process.env.OPENAI_API_KEY = 'gw-key';
+
+    const result = await indexEmbed(IndexEmbedInputSchema.parse({
+      run_id: runId,
+      model: { provider: 'openai', model_name: 'bge-small', base_url: `${fake.url}/gateway/v1` },
+      normalize_vectors: false,
+    }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.stats.embeddings_created).toBe(3);
+    expect(fake.requests).toHaveLength(1);
+    expect(fake.requests[0].path).toBe('/gateway/v1/embeddings');
+    expect(fake.requests[0].headers.authorization).toBe('Bearer gw-key');
+
+    const records = await readJsonl<EmbeddingRecord>(path.join(baseDir, 'runs', runId, 'indexed', 'embeddings.jsonl'));
+    expect(records[0].vector).toEqual(embedLocal('Wind turbines', DIMENSIONS));
+  });
+});
+
+// ============================================================================
+// Projects
+// ============================================================================
+
+describe('configurable endpoints in projects', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-embed-project-'));
+    initProjectManager(tempDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should build and query with the same Ollama endpoint', async () => {
+    const docs = path.join(tempDir, 'docs');
+    await fs.mkdir(docs);
+    await fs.writeFile(path.join(docs, 'solar.md'), '# Solar\n\nSolar panels convert sunlight into electricity using photovoltaic cells.');
+    await fs.writeFile(path.join(docs, 'baking.md'), '# Baking\n\nBread dough needs flour, water, salt and yeast, then time to rise.');
+
+    const embeddingModel = {
+      provider: 'ollama' as const,
+      model_name: 'nomic-embed-text',
+      base_url: fake.url,
+      api_key_env: 'UNSET_OLLAMA_KEY',
+    };
+
+    const created = await projectCreate({
+      project_id: 'ollama-kb',
+      name: 'Ollama KB',
+      embedding_model: embeddingModel,
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    expect(created).not.toHaveProperty('isError');
+    expect(await projectAddSource({ project_id: 'ollama-kb', folder_path: docs })).not.toHaveProperty('isError');
+
+    const built = await projectBuild({ project_id: 'ollama-kb', force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+    expect(built.vectors_added).toBe(2);
+
+    const result = await projectQuery({
+      project_id: 'ollama-kb',
+      query: 'photovoltaic solar electricity',
+      mode: 'semantic',
+      top_k: 2,
+    });
+    if ('isError' in result) throw new Error(result.message);
+    expect(result.results[0].text).toContain('Solar panels');
+
+    const queryVector = await generateQueryEmbedding({ text: 'solar power', model: embeddingModel });
+    expect(queryVector).toEqual(embedLocal('solar power', DIMENSIONS));
+
+    // Build, query and chat embeddings all went to the same native endpoint
+    expect(fake.requests.length).toBe(4);
+    for (const request of fake.requests) {
+      expect(request.path).toBe('/api/embeddings');
+      expect(request.body).toMatchObject({ model: 'nomic-embed-text' });
+    }
+  });
+
+  it('should generate a server that embeds queries at the configured endpoint', () => {
+    const source = generateMcpServerSourceForTest('Test', 'Test server', 8080, true);
+
+    expect(source).not.toContain('"https://api.openai.com/v1/embeddings"');
+    expect(source).toContain('model.base_url || "http://localhost:11434"');
+    expect(source).toContain('model?.base_url || "https://api.openai.com/v1"');
+    expect(source).toContain('`${baseUrl}/api/embeddings`');
+    expect(source).toContain('`${baseUrl}/embeddings`');
+    expect(source).toContain('JSON.stringify({ model: modelName, prompt: query })');
+    expect(source).toContain('.replace(/\\/+$/, "")');
+
+    const { diagnostics } = ts.transpileModule(source, { reportDiagnostics: true, compilerOptions: { target: ts.ScriptTarget.ES2022 } });
+    expect(diagnostics ?? []).toEqual([]);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Synthetic Evaluation Set Tests
+ *
+ * These tests define the contract for generating eval sets from a project's
+ * chunks.
+ *
+ * Feature Requirements:
+ * - Sections from chunk metadata or markdown headings (parseHeadingLevel),
+ *   carried forward to later chunks of the same source
+ * - Sampling stratified by source and section, deterministic per seed
+ * - Offline template questions: "What does <section> say about <term>?"
+ * - Optional OpenAI-compatible LLM generator with template fallback
+ * - Saved as an eval set with the source chunk as the expected answer
+ *
+ * Integration Points:
+ * - src/tools/eval-generate.ts - evalGenerate and helpers
+ * - src/tools/eval.ts - evalSetSave, evalRun
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+
+import {
+  evalGenerate,
+  chunkSections,
+  keyTerms,
+  templateQuestions,
+  sampleStratified,
+  EvalGenerateSchema,
+  EvalGenerateBaseSchema,
+} from '../src/tools/eval-generate.js';
+import { evalRun, EvalRunSchema } from '../src/tools/eval.js';
+import {
+  initProjectManager,
+  projectCreate,
+  projectAddSource,
+  projectBuild,
+} from '../src/tools/projects.js';
+import type { ChunkRecord } from '../src/schemas-projects.js';
+
+function chunk(source_id: string, index: number, text: string, metadata: Record<string, unknown> = {}): ChunkRecord {
+  return {
+    chunk_id: `${source_id}-${index}`,
+    source_id,
+    text,
+    position: { index, start_char: 0, end_char: text.length },
+    metadata,
+    created_at: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+describe('chunkSections', () => {
+  it('should take sections from metadata, leading headings or earlier chunks', () => {
+    const sections = chunkSections([
+      chunk('a', 1, 'Rotate the keys monthly.\n## Backups\nSnapshots run nightly.'),
+      chunk('a', 0, '# Security\nKeys live in the vault.'),
+      chunk('a', 2, 'Retention is thirty days.'),
+      chunk('a', 3, 'Anything here.', { section: '## Billing' }),
+      chunk('b', 0, 'No headings at all.'),
+    ]);
+
+    expect(sections.get('a-0')).toBe('Security');
+    expect(sections.get('a-1')).toBe('Security');
+    expect(sections.get('a-2')).toBe('Backups');
+    expect(sections.get('a-3')).toBe('Billing');
+    expect(sections.get('b-0')).toBeUndefined();
+  });
+});
+
+describe('keyTerms and templateQuestions', () => {
+  it('should pick distinctive terms outside the section title', () => {
+    const df = new Map([['vault', 1], ['keys', 5], ['rotate', 1]]);
+    const terms = keyTerms('# Vault\nRotate the keys. Rotate keys with the CLI.', 'Vault', df, 10, 2);
+
+    expect(terms).toEqual(['rotate', 'keys']);
+  });
+
+  it('should fill section and term templates', () => {
+    expect(templateQuestions('Security', ['rotation'], 1)).toEqual(['What does Security say about rotation?']);
+    expect(templateQuestions(undefined, ['rotation', 'vault'], 2)).toEqual([
+      'What does the documentation say about rotation?',
+      'How is vault described?',
+    ]);
+    expect(templateQuestions('Security', [], 1)).toEqual(['What is covered in Security?']);
+  });
+});
+
+describe('sampleStratified', () => {
+  const chunks = [
+    ...[0, 1, 2, 3, 4, 5].map(i => chunk('big', i, `big chunk ${i}`)),
+    chunk('small', 0, 'small chunk'),
+  ];
+  const sections = new Map(chunks.map(c => [c.chunk_id, c.position.index < 3 ? 'Intro' : 'Usage']));
+
+  it('should alternate across sources and sections', () => {
+    const sample = sampleStratified(chunks, sections, 3, 0);
+
+    expect(sample.map(s => s.chunk.source_id)).toEqual(['big', 'small', 'big']);
+    expect(sample.filter(s => s.chunk.source_id === 'big').map(s => s.section)).toEqual(['Intro', 'Usage']);
+  });
+
+  it('should be deterministic per seed', () => {
+    const ids = (seed: number) => sampleStratified(chunks, sections, 4, seed).map(s => s.chunk.chunk_id);
+
+    expect(ids(7)).toEqual(ids(7));
+    expect(new Set(ids(7)).size).toBe(4);
+  });
+});
+
+// ============================================================================
+// evalGenerate
+// ============================================================================
+
+const DOCS = {
+  'security.md': '# Security\n\nAll secrets are stored in the vault. Operators rotate vault credentials every month and audit access logs weekly.',
+  'backups.md': '# Backups\n\nSnapshots of every database are taken nightly and copied to cold storage. Restores are rehearsed each quarter.',
+};
+
+interface FakeChat {
+  url: string;
+  requests: Array<{ model: string; messages: Array<{ role: string; content: string }> }>;
+  close(): Promise<void>;
+}
+
+async function startChat(fail = false): Promise<FakeChat> {
+  const requests: FakeChat['requests'] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', c => { raw += c; });
+    req.on('end', () => {
+      requests.push(JSON.parse(raw));
+      if (fail) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'overloaded' }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ choices: [{ message: { content: '1. How often are credentials rotated?\n2. Where are secrets kept?' } }] }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+describe('evalGenerate', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-eval-generate-'));
+    initProjectManager(tempDir);
+
+    const created = await projectCreate({
+      project_id: 'synth',
+      name: 'Synth',
+      embedding_model: { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' },
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    if ('isError' in created) throw new Error(created.message);
+
+    const dir = path.join(tempDir, 'docs');
+    await fs.mkdir(dir, { recursive: true });
+    for (const [file, text] of Object.entries(DOCS)) {
+      await fs.writeFile(path.join(dir, file), text);
+    }
+    const added = await projectAddSource({ project_id: 'synth', folder_path: dir, source_name: 'docs' });
+    if ('isError' in added) throw new Error(added.message);
+    const built = await projectBuild({ project_id: 'synth', force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should save template questions that expect their source chunk', async () => {
+    const result = await evalGenerate(EvalGenerateSchema.parse({ project_id: 'synth', name: 'synthetic', min_chars: 50 }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result).toMatchObject({ generator: 'template', chunks_sampled: 2, queries: 2, created: true });
+    expect(result.preview.map(p => p.section).sort()).toEqual(['Backups', 'Security']);
+    for (const p of result.preview) {
+      expect(p.query).toMatch(new RegExp(`^What does ${p.section} say about \\w+\\?$`));
+    }
+
+    const set = JSON.parse(await fs.readFile(result.path, 'utf-8'));
+    for (const q of set.queries) {
+      expect(q.expected).toEqual({ chunk_ids: [q.id] });
+    }
+
+    const evaluated = await evalRun(EvalRunSchema.parse({ project_id: 'synth', name: 'synthetic', k: 2, mode: 'keyword' }));
+    if ('isError' in evaluated) throw new Error(evaluated.message);
+    expect(evaluated.aggregate.recall_at_k).toBe(1);
+  });
+
+  it('should generate questions with an LLM endpoint', async () => {
+    const chat = await startChat();
+    try {
+      const result = await evalGenerate(EvalGenerateSchema.parse({
+        project_id: 'synth', name: 'llm', min_chars: 50, count: 1, questions_per_chunk: 2,
+        generator: { provider: 'llm', base_url: chat.url, model: 'question-writer' },
+      }));
+      if ('isError' in result) throw new Error(result.message);
+
+      expect(result).toMatchObject({ generator: 'llm', queries: 2, llm_fallbacks: 0 });
+      expect(result.preview.map(p => p.query)).toEqual(['How often are credentials rotated?', 'Where are secrets kept?']);
+      expect(chat.requests[0].model).toBe('question-writer');
+      expect(chat.requests[0].messages[1].content).toContain('Section: ');
+    } finally {
+      await chat.close();
+    }
+  });
+
+  it('should fall back to templates when the LLM fails', async () => {
+    const chat = await startChat(true);
+    try {
+      const result = await evalGenerate(EvalGenerateSchema.parse({
+        project_id: 'synth', name: 'fallback', min_chars: 50,
+        generator: { provider: 'llm', base_url: chat.url },
+      }));
+      if ('isError' in result) throw new Error(result.message);
+
+      expect(result.llm_fallbacks).toBe(2);
+      expect(result.llm_error).toContain('500');
+      expect(result.preview[0].query).toMatch(/^What does \w+ say about/);
+    } finally {
+      await chat.close();
+    }
+  });
+
+  it('should reject unknown projects and empty samples', async () => {
+    expect(await evalGenerate(EvalGenerateSchema.parse({ project_id: 'missing', name: 'x' })))
+      .toMatchObject({ isError: true, code: 'NOT_FOUND' });
+    expect(await evalGenerate(EvalGenerateSchema.parse({ project_id: 'synth', name: 'x', min_chars: 10000 })))
+      .toMatchObject({ isError: true, code: 'EMPTY_CONTENT' });
+  });
+
+  it('should reject more questions than a set can hold before generating', async () => {
+    const parsed = EvalGenerateSchema.safeParse({ project_id: 'synth', name: 'x', count: 200, questions_per_chunk: 3 });
+    expect(parsed.success).toBe(false);
+    if (!parsed.success) expect(parsed.error.issues[0].message).toContain('count × questions_per_chunk');
+    expect(EvalGenerateSchema.safeParse({ project_id: 'synth', name: 'x', count: 100, questions_per_chunk: 5 }).success).toBe(true);
+
+    const input = EvalGenerateBaseSchema.parse({ project_id: 'synth', name: 'x', count: 500, questions_per_chunk: 2 });
+    expect(await evalGenerate(input)).toMatchObject({ isError: true, code: 'INVALID_INPUT' });
+  });
+});
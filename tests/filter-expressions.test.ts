@@ -0,0 +1,344 @@
+/**
+ * Filter Expression Tests
+ *
+ * These tests define the contract for the metadata filter language used by
+ * serve_query, the run server's search routes and project_query.
+ *
+ * Feature Requirements:
+ * - { field: value } is equality, { field: [..] } is in, and
+ *   { field: { op: value } } supports eq, neq, gt, gte, lt, lte, in, contains
+ * - and / or / not combine expressions; dotted paths reach nested fields
+ * - Expressions are validated against the profile's allowed_filters and
+ *   disallowed fields or operators produce a FILTER_NOT_ALLOWED ToolError
+ * - Filters apply before top_k in every search surface
+ *
+ * Integration Points:
+ * - src/tools/filters.ts - compileFilter, matchesFilter, toEqualityMap
+ * - src/tools/serve.ts - serveQuery and /search/* routes
+ * - src/tools/projects.ts - projectQuery
+ * - src/tools/qdrant.ts, src/tools/chroma.ts - chunk ID pushdown
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+import { compileFilter, matchesFilter, toEqualityMap, getFieldPath, type FilterNode } from '../src/tools/filters.js';
+import { qdrantFilter } from '../src/tools/qdrant.js';
+import { chromaWhere } from '../src/tools/chroma.js';
+import { initRunManager } from '../src/run-manager.js';
+import { ServeQueryInputSchema, ServeStartInputSchema } from '../src/schemas.js';
+import { serveStart, serveStop, serveQuery } from '../src/tools/serve.js';
+import {
+  initProjectManager,
+  projectCreate,
+  projectAddSource,
+  projectBuild,
+  projectQuery,
+} from '../src/tools/projects.js';
+import { ProjectQuerySchema } from '../src/schemas-projects.js';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function compiled(expression: unknown, allowed?: Array<{ field: string; operators: string[] }>): FilterNode {
+  const result = compileFilter(expression, allowed);
+  if (!result || 'isError' in result) throw new Error(`Expected a filter, got ${JSON.stringify(result)}`);
+  return result;
+}
+
+function matches(expression: unknown, record: Record<string, unknown>): boolean {
+  return matchesFilter(compiled(expression), field => getFieldPath(record, field));
+}
+
+const PDF_PAGE_4 = {
+  source: { type: 'pdf', uri: 'file://manual.pdf' },
+  position: { page: 4 },
+  metadata: { tags: ['legal', 'warranty'], language: 'en', title: 'Warranty terms' },
+};
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+describe('compileFilter', () => {
+  it('should return null for missing or empty expressions', () => {
+    expect(compileFilter(undefined)).toBeNull();
+    expect(compileFilter({})).toBeNull();
+  });
+
+  it('should compile shorthands and operators into conditions', () => {
+    expect(compiled({ 'source.type': 'pdf', 'metadata.tags': ['a', 'b'], 'position.page': { gte: 3, lt: 10 } })).toEqual({
+      type: 'and',
+      children: [
+        { type: 'condition', field: 'source.type', op: 'eq', value: 'pdf' },
+        { type: 'condition', field: 'metadata.tags', op: 'in', value: ['a', 'b'] },
+        { type: 'condition', field: 'position.page', op: 'gte', value: 3 },
+        { type: 'condition', field: 'position.page', op: 'lt', value: 10 },
+      ],
+    });
+  });
+
+  it('should reject unknown operators and malformed operands', () => {
+    const unknownOp = compileFilter({ 'position.page': { between: [1, 2] } });
+    expect(unknownOp).toMatchObject({ isError: true, code: 'FILTER_INVALID' });
+    expect((unknownOp as { message: string }).message).toContain("Unknown operator 'between'");
+
+    expect(compileFilter({ 'position.page': { in: 3 } })).toMatchObject({ code: 'FILTER_INVALID' });
+    expect(compileFilter({ or: [] })).toMatchObject({ code: 'FILTER_INVALID' });
+    expect(compileFilter({ 'bad field': 1 })).toMatchObject({ code: 'FILTER_INVALID' });
+  });
+
+  it('should enforce allowed_filters fields and operators', () => {
+    const allowed = [{ field: 'position.page', operators: ['eq', 'gte', 'lte'] }];
+
+    expect(compileFilter({ not: { 'position.page': { gte: 2 } } }, allowed)).not.toHaveProperty('isError');
+
+    const field = compileFilter({ or: [{ 'position.page': 1 }, { 'source.uri': 'x' }] }, allowed);
+    expect(field).toMatchObject({
+      isError: true,
+      code: 'FILTER_NOT_ALLOWED',
+      details: { field: 'source.uri', allowed_fields: ['position.page'] },
+    });
+
+    const operator = compileFilter({ 'position.page': { gt: 1 } }, allowed);
+    expect(operator).toMatchObject({
+      code: 'FILTER_NOT_ALLOWED',
+      details: { field: 'position.page', operator: 'gt', allowed_operators: ['eq', 'gte', 'lte'] },
+    });
+  });
+});
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+describe('matchesFilter', () => {
+  it('should evaluate each operator', () => {
+    expect(matches({ 'source.type': 'pdf' }, PDF_PAGE_4)).toBe(true);
+    expect(matches({ 'source.type': { neq: 'pdf' } }, PDF_PAGE_4)).toBe(false);
+    expect(matches({ 'position.page': { gt: 3, lte: 4 } }, PDF_PAGE_4)).toBe(true);
+    expect(matches({ 'position.page': { lt: 4 } }, PDF_PAGE_4)).toBe(false);
+    expect(matches({ 'metadata.language': { in: ['en', 'de'] } }, PDF_PAGE_4)).toBe(true);
+    expect(matches({ 'metadata.tags': { in: ['legal', 'hr'] } }, PDF_PAGE_4)).toBe(true);
+    expect(matches({ 'metadata.tags': { contains: 'warranty' } }, PDF_PAGE_4)).toBe(true);
+    expect(matches({ 'metadata.title': { contains: 'terms' } }, PDF_PAGE_4)).toBe(true);
+  });
+
+  it('should not compare values of different types', () => {
+    expect(matches({ 'position.page': { gte: '3' } }, PDF_PAGE_4)).toBe(false);
+    expect(matches({ 'position.missing': { lt: 100 } }, PDF_PAGE_4)).toBe(false);
+    expect(matches({ 'position.missing': null }, PDF_PAGE_4)).toBe(true);
+  });
+
+  it('should combine with and / or / not', () => {
+    expect(matches({ or: [{ 'source.type': 'html' }, { 'position.page': 4 }] }, PDF_PAGE_4)).toBe(true);
+    expect(matches({ and: [{ 'source.type': 'pdf' }, { not: { 'metadata.tags': { contains: 'legal' } } }] }, PDF_PAGE_4)).toBe(false);
+  });
+});
+
+describe('remote pushdown', () => {
+  it('should flatten plain equality filters only', () => {
+    expect(toEqualityMap(compiled({ source_uri: 'a', lang: ['en', 'de'] }))).toEqual({ source_uri: 'a', lang: ['en', 'de'] });
+    expect(toEqualityMap(compiled({ 'position.page': 3 }))).toBeNull();
+    expect(toEqualityMap(compiled({ page: { gt: 3 } }))).toBeNull();
+    expect(toEqualityMap(compiled({ or: [{ a: 1 }, { b: 2 }] }))).toBeNull();
+  });
+
+  it('should restrict Qdrant and Chroma queries to chunk IDs', () => {
+    expect(qdrantFilter(undefined, 'prod', ['c1', 'c2'])).toEqual({
+      must: [
+        { key: 'namespace', match: { value: 'prod' } },
+        { key: 'chunk_id', match: { any: ['c1', 'c2'] } },
+      ],
+    });
+    expect(chromaWhere(undefined, undefined, ['c1'])).toEqual({ chunk_id: { $in: ['c1'] } });
+  });
+});
+
+// ============================================================================
+// serve_query and HTTP routes
+// ============================================================================
+
+describe('run server filters', () => {
+  let baseDir: string;
+  let runId: string;
+  let endpoint: string;
+
+  const pages = [1, 2, 3, 4, 5, 6];
+
+  beforeAll(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-filters-'));
+    runId = uuidv4();
+    const manager = initRunManager(baseDir);
+    const { runDir } = await manager.ensureRun(runId);
+
+    const chunks = pages.map(page => ({
+      chunk_id: `c${page}`,
+      doc_id: 'manual',
+      chunk_index: page - 1,
+      source: { type: 'pdf', uri: 'file://manual.pdf', retrieved_at: '2024-01-01T00:00:00Z', content_hash: 'h' },
+      content: { text: `warranty clause on page ${page}`, text_hash: `t${page}`, char_count: 25, token_count_approx: 6 },
+      position: { byte_start: 0, byte_end: 25, page },
+      metadata: { content_type: 'application/pdf', tags: page % 2 === 0 ? ['legal'] : ['support'] },
+    }));
+    await fs.writeFile(
+      path.join(runDir, 'normalized', 'chunks.jsonl'),
+      chunks.map(c => JSON.stringify(c)).join('\n') + '\n'
+    );
+    await fs.writeFile(path.join(runDir, 'indexed', 'local.vectors.json'), JSON.stringify({
+      collection: 'local',
+      vectors: chunks.map(c => ({
+        id: c.chunk_id,
+        vector: [1, c.position.page / 10],
+        metadata: { position_page: c.position.page, source_uri: c.source.uri },
+        text: c.content.text,
+      })),
+    }));
+    await fs.writeFile(path.join(runDir, 'indexed', 'retrieval_profile.json'), JSON.stringify({
+      retrieval: { default_top_k: 10, search_modes: ['hybrid'] },
+      filters: [
+        { field: 'position.page', operators: ['eq', 'gt', 'gte', 'lt', 'lte'] },
+        { field: 'metadata.tags', operators: ['contains', 'in'] },
+      ],
+    }));
+
+    const started = await serveStart(ServeStartInputSchema.parse({
+      run_id: runId,
+      port: 20000 + Math.floor(Math.random() * 20000),
+    }));
+    if ('isError' in started) throw new Error(started.message);
+    endpoint = started.endpoint;
+  });
+
+  afterAll(async () => {
+    await serveStop({ run_id: runId });
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  async function query(input: Record<string, unknown>) {
+    return serveQuery(ServeQueryInputSchema.parse({ run_id: runId, ...input }));
+  }
+
+  it('should filter keyword results on flattened metadata and chunk fields', async () => {
+    const result = await query({
+      mode: 'keyword',
+      query: 'warranty clause',
+      top_k: 2,
+      filters: { 'position.page': { gte: 3 }, 'metadata.tags': { contains: 'legal' } },
+    });
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.results.map(r => r.chunk_id).sort()).toEqual(['c4', 'c6']);
+  });
+
+  it('should filter semantic and hybrid results before top_k', async () => {
+    const semantic = await query({
+      mode: 'semantic',
+      query_vector: [1, 0.6],
+      top_k: 2,
+      filters: { or: [{ 'position.page': 1 }, { 'position.page': 2 }] },
+    });
+    if ('isError' in semantic) throw new Error(semantic.message);
+    expect(semantic.results.map(r => r.chunk_id).sort()).toEqual(['c1', 'c2']);
+
+    const hybrid = await query({
+      mode: 'hybrid',
+      query: 'warranty',
+      query_vector: [1, 0.6],
+      top_k: 10,
+      filters: { not: { 'metadata.tags': { in: ['legal'] } } },
+    });
+    if ('isError' in hybrid) throw new Error(hybrid.message);
+    expect(hybrid.results.map(r => r.chunk_id).sort()).toEqual(['c1', 'c3', 'c5']);
+  });
+
+  it('should return FILTER_NOT_ALLOWED for fields outside the profile', async () => {
+    const result = await query({ mode: 'keyword', query: 'warranty', filters: { 'source.uri': 'file://manual.pdf' } });
+
+    expect(result).toMatchObject({ isError: true, code: 'FILTER_NOT_ALLOWED' });
+  });
+
+  it('should apply the same filters to HTTP search routes', async () => {
+    const ok = await fetch(`${endpoint}/search/keyword`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'warranty', filters: { 'position.page': { lt: 3 } } }),
+    });
+    expect(ok.status).toBe(200);
+    const body = await ok.json() as { results: Array<{ chunk_id: string }> };
+    expect(body.results.map(r => r.chunk_id).sort()).toEqual(['c1', 'c2']);
+
+    const denied = await fetch(`${endpoint}/search/hybrid`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'warranty', filters: { 'position.page': { neq: 3 } } }),
+    });
+    expect(denied.status).toBe(400);
+    expect(await denied.json()).toMatchObject({ code: 'FILTER_NOT_ALLOWED', details: { operator: 'neq' } });
+  });
+});
+
+// ============================================================================
+// project_query
+// ============================================================================
+
+describe('projectQuery filters', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-project-filters-'));
+    initProjectManager(tempDir);
+
+    const created = await projectCreate({
+      project_id: 'filtered',
+      name: 'Filtered',
+      embedding_model: { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' },
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    if ('isError' in created) throw new Error(created.message);
+
+    for (const [folder, tags] of [['manuals', ['support']], ['contracts', ['legal']]] as const) {
+      const dir = path.join(tempDir, 'docs', folder);
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, 'a.md'), `The ${folder} warranty covers two years.`);
+      await fs.writeFile(path.join(dir, 'b.md'), `The ${folder} warranty excludes water damage.`);
+      const added = await projectAddSource({ project_id: 'filtered', folder_path: dir, source_name: folder, tags: [...tags] });
+      if ('isError' in added) throw new Error(added.message);
+    }
+
+    const built = await projectBuild({ project_id: 'filtered', force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should apply filter expressions to chunk fields', async () => {
+    const result = await projectQuery(ProjectQuerySchema.parse({
+      project_id: 'filtered',
+      query: 'warranty',
+      mode: 'keyword',
+      top_k: 10,
+      filters: { 'metadata.tags': { contains: 'legal' }, not: { text: { contains: 'water' } } },
+    }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.results).toHaveLength(1);
+    expect(result.results[0].text).toBe('The contracts warranty covers two years.');
+  });
+
+  it('should reject malformed expressions', async () => {
+    const result = await projectQuery(ProjectQuerySchema.parse({
+      project_id: 'filtered',
+      query: 'warranty',
+      filters: { 'metadata.tags': { matches: 'legal' } },
+    }));
+
+    expect(result).toMatchObject({ isError: true, code: 'FILTER_INVALID' });
+  });
+});
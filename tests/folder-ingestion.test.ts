@@ -0,0 +1,140 @@
+/**
+ * Folder Ingestion Tests
+ *
+ * These tests define the contract for folder sources in project builds.
+ *
+ * Feature Requirements:
+ * - glob, include_patterns and exclude_patterns are stored on the source
+ *   and applied at build time (patterns match paths relative to the folder)
+ * - Files go through extractPdf / extractHtml / extractDocument in a
+ *   per-source run under the project's runs/ directory
+ * - Binary files no extractor reads are skipped
+ * - Chunks record file_path, file_mtime and file_sha256 in metadata
+ *
+ * Integration Points:
+ * - src/tools/projects.ts - projectAddSource, projectBuild (fetchSource)
+ * - src/tools/extract.ts - extractors with an explicit RunManager
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { tmpdir } from 'os';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+
+import { initProjectManager, projectCreate, projectAddSource, projectBuild } from '../src/tools/projects.js';
+import type { ChunkRecord, SourceRecord } from '../src/schemas-projects.js';
+
+async function textPdf(text: string): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  doc.addPage([400, 300]).drawText(text, { x: 20, y: 200, size: 12, font });
+  return Buffer.from(await doc.save({ useObjectStreams: false }));
+}
+
+async function readJsonl<T>(file: string): Promise<T[]> {
+  const raw = await fs.readFile(file, 'utf-8');
+  return raw.trim().split('\n').filter(Boolean).map(line => JSON.parse(line) as T);
+}
+
+describe('folder ingestion in project builds', () => {
+  let tempDir: string;
+  let docsDir: string;
+  let notesDir: string;
+  let projectDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-folder-ingestion-'));
+    initProjectManager(tempDir);
+    projectDir = path.join(tempDir, 'projects', 'files');
+
+    docsDir = path.join(tempDir, 'docs');
+    await fs.mkdir(path.join(docsDir, 'drafts'), { recursive: true });
+    await fs.writeFile(path.join(docsDir, 'guide.md'), '# Guide\n\nInstall the agent before configuring alerts.');
+    await fs.writeFile(path.join(docsDir, 'page.html'),
+      '<html><head><script>trackVisitor()</script></head><body><h1>Status</h1><p>All systems nominal.</p></body></html>');
+    await fs.writeFile(path.join(docsDir, 'manual.pdf'), await textPdf('Operators reset the controller weekly.'));
+    await fs.writeFile(path.join(docsDir, 'blob.bin'), Buffer.from([0x00, 0x01, 0x02, 0x00, 0xff]));
+    await fs.writeFile(path.join(docsDir, 'notes.log'), 'log lines are not globbed');
+    await fs.writeFile(path.join(docsDir, 'drafts', 'todo.md'), 'Drafts are excluded.');
+
+    notesDir = path.join(tempDir, 'notes');
+    await fs.mkdir(notesDir, { recursive: true });
+    await fs.writeFile(path.join(notesDir, 'keep.md'), 'Keep this note.');
+    await fs.writeFile(path.join(notesDir, 'skip.txt'), 'Skip this note.');
+
+    const created = await projectCreate({
+      project_id: 'files',
+      name: 'Files',
+      embedding_model: { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' },
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    if ('isError' in created) throw new Error(created.message);
+
+    const docs = await projectAddSource({
+      project_id: 'files',
+      folder_path: docsDir,
+      glob: '**/*.{md,html,pdf,bin}',
+      exclude_patterns: ['^drafts/'],
+      max_pages: 100,
+      tags: [],
+    });
+    if ('isError' in docs) throw new Error(docs.message);
+    const notes = await projectAddSource({
+      project_id: 'files',
+      batch: [{ folder_path: notesDir, include_patterns: ['\\.md$'] }],
+      glob: '**/*',
+      max_pages: 100,
+      tags: [],
+    });
+    if ('isError' in notes) throw new Error(notes.message);
+
+    const built = await projectBuild({ project_id: 'files', force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should store file selection patterns on folder sources', async () => {
+    const sources = await readJsonl<SourceRecord>(path.join(projectDir, 'sources.jsonl'));
+
+    expect(sources[0]).toMatchObject({ glob: '**/*.{md,html,pdf,bin}', exclude_patterns: ['^drafts/'] });
+    expect(sources[1]).toMatchObject({ include_patterns: ['\\.md$'] });
+    expect(sources[1].exclude_patterns).toBeUndefined();
+    expect(sources.every(s => s.status === 'completed')).toBe(true);
+  });
+
+  it('should apply glob, include and exclude patterns and skip binary files', async () => {
+    const chunks = await readJsonl<ChunkRecord>(path.join(projectDir, 'data', 'chunks.jsonl'));
+
+    expect(chunks.map(c => c.metadata.file_path).sort()).toEqual(['guide.md', 'keep.md', 'manual.pdf', 'page.html']);
+  });
+
+  it('should extract PDF and HTML text instead of raw bytes', async () => {
+    const chunks = await readJsonl<ChunkRecord>(path.join(projectDir, 'data', 'chunks.jsonl'));
+    const byFile = new Map(chunks.map(c => [c.metadata.file_path, c.text]));
+
+    expect(byFile.get('manual.pdf')).toContain('Operators reset the controller weekly.');
+    expect(byFile.get('manual.pdf')).not.toContain('%PDF');
+    expect(byFile.get('page.html')).toContain('All systems nominal.');
+    expect(byFile.get('page.html')).not.toContain('trackVisitor');
+    expect(byFile.get('page.html')).not.toContain('<p>');
+
+    const runs = await fs.readdir(path.join(projectDir, 'runs'));
+    expect(runs.length).toBeGreaterThan(0);
+    expect(await fs.readdir(path.join(projectDir, 'runs', runs[0], 'extracted'))).not.toHaveLength(0);
+  });
+
+  it('should record file path, mtime and content hash on each chunk', async () => {
+    const chunks = await readJsonl<ChunkRecord>(path.join(projectDir, 'data', 'chunks.jsonl'));
+    const guide = chunks.find(c => c.metadata.file_path === 'guide.md')!;
+    const file = path.join(docsDir, 'guide.md');
+
+    expect(guide.metadata.file_sha256).toBe(createHash('sha256').update(await fs.readFile(file)).digest('hex'));
+    expect(guide.metadata.file_mtime).toBe((await fs.stat(file)).mtime.toISOString());
+    expect(guide.metadata.content_hash).toBeDefined();
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Exported Server Test Helper
+ *
+ * Evaluates the generated server's data loading and search utilities (the
+ * code between "Data Loading" and "MCP Server") against a built project
+ * directory, so tests can check what its search returns.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import ts from 'typescript';
+
+import { generateMcpServerSourceForTest } from '../../src/tools/projects.js';
+import type { RetrievalSettings } from '../../src/tools/fusion.js';
+
+export interface ExportedChunk {
+  chunk_id: string;
+  source_id: string;
+  text: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface ExportedResult {
+  chunk: ExportedChunk;
+  score: number;
+}
+
+type ChunkFilter = (chunk: ExportedChunk) => boolean;
+type MmrOptions = { lambda: number };
+
+export interface ExportedSearch {
+  retrieval(): RetrievalSettings;
+  buildTagFilter(filterTags: unknown, mode: unknown): ChunkFilter | undefined;
+  searchKeyword(query: string, topK: number, filter?: ChunkFilter): ExportedResult[];
+  searchSemantic(queryVector: number[], topK: number, filter?: ChunkFilter): Array<{ chunk_id: string; score: number }>;
+  rankKeyword(query: string, filter?: ChunkFilter): ExportedResult[];
+  rankHybrid(query: string, queryVector: number[], filter?: ChunkFilter): ExportedResult[];
+  searchHybrid(query: string, topK: number): Promise<ExportedResult[]>;
+  mmrPoolSize(topK: number, mmr: MmrOptions | undefined): number;
+  diversify(results: ExportedResult[], topK: number, mmr: MmrOptions | undefined): ExportedResult[];
+}
+
+const EXPORTS = [
+  'buildTagFilter', 'searchKeyword', 'searchSemantic', 'rankKeyword',
+  'rankHybrid', 'searchHybrid', 'mmrPoolSize', 'diversify',
+];
+
+/**
+ * Load a project directory (project.json, sources.jsonl, data/) the way the
+ * exported server does at startup and return its search functions.
+ */
+export function loadExportedSearch(projectDir: string): ExportedSearch {
+  const source = generateMcpServerSourceForTest('Test', 'Test server', 8080, true);
+  const start = source.indexOf('let chunks: Chunk[]');
+  const end = source.indexOf('// MCP Server');
+  if (start < 0 || end < start) {
+    throw new Error('Search utilities not found in the generated server');
+  }
+
+  const js = ts.transpileModule(source.slice(start, end), { compilerOptions: { target: ts.ScriptTarget.ES2022 } }).outputText;
+  const load = new Function(
+    'existsSync', 'readFileSync', 'join', 'DATA_DIR', 'PROJECT_DIR',
+    `${js}; loadData(); return { retrieval: () => retrieval, ${EXPORTS.join(', ')} };`
+  );
+  return load(existsSync, readFileSync, path.join, path.join(projectDir, 'data'), projectDir) as ExportedSearch;
+}
@@ -0,0 +1,47 @@
+/**
+ * Run Data Test Helper
+ *
+ * Normalized chunks and embeddings for vector store provider tests. Chunk i
+ * covers TOPICS[i % 3] and its vector points along that topic's axis.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import type { DocumentChunk, EmbeddingRecord } from '../../src/types.js';
+
+export const TOPICS = ['solar panels', 'wind turbines', 'battery storage'];
+
+export function makeChunk(index: number): DocumentChunk {
+  const text = `Chunk ${index} discusses ${TOPICS[index % TOPICS.length]} in detail.`;
+  return {
+    doc_id: `doc-${index % 2}`,
+    chunk_id: `chunk-${index}`,
+    chunk_index: index,
+    source: { type: 'markdown', uri: `file://doc-${index % 2}.md`, retrieved_at: '2024-01-01T00:00:00Z', content_hash: 'h' },
+    content: { text, text_hash: `t${index}`, char_count: text.length, token_count_approx: 10 },
+    position: { byte_start: 0, byte_end: text.length, page: index + 1 },
+    metadata: { content_type: 'text/markdown', language: 'en', tags: ['energy'] },
+  };
+}
+
+/** One-hot-ish vectors so each topic is a distinct direction */
+export function makeEmbedding(index: number, dimensions = 4): EmbeddingRecord {
+  const vector = new Array<number>(dimensions).fill(0.01);
+  vector[index % TOPICS.length] = 1;
+  return {
+    chunk_id: `chunk-${index}`,
+    vector,
+    model: 'local/test',
+    dimensions,
+    embedded_at: '2024-01-01T00:00:00Z',
+  };
+}
+
+/** Write count chunks and their embeddings into a run directory */
+export async function writeRunData(runDir: string, count: number, dimensions = 4): Promise<void> {
+  const chunks = Array.from({ length: count }, (_, i) => makeChunk(i));
+  const embeddings = Array.from({ length: count }, (_, i) => makeEmbedding(i, dimensions));
+  await fs.writeFile(path.join(runDir, 'normalized', 'chunks.jsonl'), chunks.map(c => JSON.stringify(c)).join('\n') + '\n');
+  await fs.writeFile(path.join(runDir, 'indexed', 'embeddings.jsonl'), embeddings.map(e => JSON.stringify(e)).join('\n') + '\n');
+}
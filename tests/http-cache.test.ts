@@ -0,0 +1,315 @@
+/**
+ * HTTP Revalidation Cache Tests
+ *
+ * These tests define the contract for conditional re-fetches.
+ *
+ * Feature Requirements:
+ * - A persistent cache keyed by URL records ETag, Last-Modified and the
+ *   content hash of the last fetch
+ * - connect_url and connect_sitemap send If-None-Match / If-Modified-Since;
+ *   a 304 or an unchanged hash marks the document unchanged
+ * - Sitemap <lastmod> no newer than the cached one skips the request entirely
+ * - Project rebuilds skip extraction and embedding for unchanged pages
+ * - The cache file is written once per connect call or build, dropping
+ *   entries whose local body is gone and the oldest past a size limit
+ *
+ * Integration Points:
+ * - src/tools/http-cache.ts - HttpCache, conditional headers, lastmod checks
+ * - src/tools/connect.ts - connectUrl, connectSitemap
+ * - src/tools/projects.ts - url and sitemap sources in projectBuild
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+import { HttpCache, conditionalHeaders, isUnchangedSince, type HttpCacheEntry } from '../src/tools/http-cache.js';
+import { politeFetcher } from '../src/tools/politeness.js';
+import { initRunManager } from '../src/run-manager.js';
+import { connectUrl, connectSitemap } from '../src/tools/connect.js';
+import { initProjectManager, projectCreate, projectAddSource, projectBuild } from '../src/tools/projects.js';
+import { ConnectUrlInputSchema, ConnectSitemapInputSchema } from '../src/schemas.js';
+import type { SourceRecord } from '../src/schemas-projects.js';
+
+interface Page {
+  body: string;
+  etag?: string;
+}
+
+interface Site {
+  origin: string;
+  pages: Record<string, Page>;
+  requests: Array<{ url: string; if_none_match?: string }>;
+  close(): Promise<void>;
+}
+
+async function startSite(pages: Record<string, Page>): Promise<Site> {
+  const requests: Site['requests'] = [];
+  const server = http.createServer((req, res) => {
+    const page = pages[req.url!];
+    if (req.url !== '/robots.txt') {
+      requests.push({ url: req.url!, if_none_match: req.headers['if-none-match'] });
+    }
+    if (!page) {
+      res.writeHead(404);
+      res.end();
+    } else if (page.etag && req.headers['if-none-match'] === page.etag) {
+      res.writeHead(304, { ETag: page.etag });
+      res.end();
+    } else {
+      res.writeHead(200, {
+        'Content-Type': req.url!.endsWith('.xml') ? 'application/xml' : 'text/html',
+        ...(page.etag ? { ETag: page.etag } : {}),
+      });
+      res.end(page.body);
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    pages,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+function article(text: string): string {
+  return `<html><body><article><h1>Release notes</h1><p>${text}</p></article></body></html>`;
+}
+
+// ============================================================================
+// Cache Helpers
+// ============================================================================
+
+describe('HttpCache', () => {
+  const entry: HttpCacheEntry = {
+    url: 'https://example.com/a',
+    etag: '"abc"',
+    last_modified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+    sha256: 'f'.repeat(64),
+    content_type: 'text/html',
+    size_bytes: 10,
+    lastmod: '2024-01-01',
+    fetched_at: '2024-01-02T00:00:00.000Z',
+  };
+
+  it('should build conditional headers from validators', () => {
+    expect(conditionalHeaders(entry)).toEqual({
+      'If-None-Match': '"abc"',
+      'If-Modified-Since': 'Mon, 01 Jan 2024 00:00:00 GMT',
+    });
+    expect(conditionalHeaders(undefined)).toEqual({});
+  });
+
+  it('should treat only a parseable, not newer lastmod as unchanged', () => {
+    expect(isUnchangedSince(entry, '2024-01-01')).toBe(true);
+    expect(isUnchangedSince(entry, '2023-12-31T23:00:00Z')).toBe(true);
+    expect(isUnchangedSince(entry, '2024-02-01')).toBe(false);
+    expect(isUnchangedSince(entry, 'yesterday')).toBe(false);
+    expect(isUnchangedSince(entry, undefined)).toBe(false);
+  });
+
+  it('should persist entries across instances', async () => {
+    const dir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-http-cache-'));
+    try {
+      const file = path.join(dir, 'nested', 'http_cache.json');
+      const cache = new HttpCache(file);
+      await Promise.all([cache.set(entry), cache.set({ ...entry, url: 'https://example.com/b' })]);
+      expect(await new HttpCache(file).get(entry.url)).toBeUndefined();
+      await cache.flush();
+
+      const reloaded = new HttpCache(file);
+      expect(await reloaded.get(entry.url)).toEqual(entry);
+      expect(await reloaded.get('https://example.com/b')).toMatchObject({ etag: '"abc"' });
+      expect(await new HttpCache(path.join(dir, 'missing.json')).get(entry.url)).toBeUndefined();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should drop entries whose body is gone and evict the oldest past the limit', async () => {
+    const dir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-http-cache-'));
+    try {
+      const file = path.join(dir, 'http_cache.json');
+      const body = path.join(dir, 'body.html');
+      await fs.writeFile(body, 'kept');
+      const cache = new HttpCache(file, 2);
+      await cache.set(
+        { ...entry, url: 'https://example.com/kept', body_path: body, fetched_at: '2024-01-03T00:00:00.000Z' },
+        { ...entry, url: 'https://example.com/gone', body_path: path.join(dir, 'gone.html') },
+        { ...entry, url: 'https://example.com/old', fetched_at: '2024-01-01T00:00:00.000Z' },
+        { ...entry, url: 'https://example.com/new', fetched_at: '2024-01-04T00:00:00.000Z' },
+      );
+      await cache.flush();
+
+      const raw = await fs.readFile(file, 'utf-8');
+      expect(raw).not.toContain('\n');
+      expect(Object.keys(JSON.parse(raw).entries).sort()).toEqual(['https://example.com/kept', 'https://example.com/new']);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ============================================================================
+// Connectors
+// ============================================================================
+
+describe('conditional re-fetch in connectors', () => {
+  let baseDir: string;
+  let site: Site;
+
+  beforeAll(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-conditional-'));
+    const { security, defaults } = initRunManager(baseDir).getConfig();
+    initRunManager(baseDir, {
+      security: { ...security, blocked_domains: [] },
+      defaults: { ...defaults, connect: { ...defaults.connect, host_delay_ms: 0 } },
+    });
+
+    site = await startSite({
+      '/tagged': { body: article('Version one.'), etag: '"v1"' },
+      '/plain': { body: article('No validators here.') },
+    });
+  });
+
+  beforeEach(() => {
+    politeFetcher.clear();
+    site.requests.length = 0;
+  });
+
+  afterAll(async () => {
+    await site.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should revalidate with If-None-Match and reuse the cached body on 304', async () => {
+    const url = `${site.origin}/tagged`;
+    const first = await connectUrl(ConnectUrlInputSchema.parse({ run_id: uuidv4(), url }));
+    if ('isError' in first) throw new Error(first.message);
+    expect(first.unchanged).toBeUndefined();
+
+    const runId = uuidv4();
+    const second = await connectUrl(ConnectUrlInputSchema.parse({ run_id: runId, url }));
+    if ('isError' in second) throw new Error(second.message);
+    expect(second).toMatchObject({ success: true, unchanged: true });
+    expect(second.artifact.sha256).toBe(first.artifact.sha256);
+    expect(site.requests.at(-1)).toEqual({ url: '/tagged', if_none_match: '"v1"' });
+    expect(await fs.readFile(path.join(baseDir, 'runs', runId, second.artifact.path), 'utf-8')).toContain('Version one.');
+
+    site.pages['/tagged'] = { body: article('Version two.'), etag: '"v2"' };
+    const third = await connectUrl(ConnectUrlInputSchema.parse({ run_id: uuidv4(), url }));
+    if ('isError' in third) throw new Error(third.message);
+    expect(third.unchanged).toBeUndefined();
+    expect(third.artifact.sha256).not.toBe(first.artifact.sha256);
+  });
+
+  it('should mark a page unchanged by content hash and fetch in full when forced', async () => {
+    const url = `${site.origin}/plain`;
+    await connectUrl(ConnectUrlInputSchema.parse({ run_id: uuidv4(), url }));
+
+    const again = await connectUrl(ConnectUrlInputSchema.parse({ run_id: uuidv4(), url }));
+    expect(again).toMatchObject({ unchanged: true });
+
+    site.requests.length = 0;
+    const forced = await connectUrl(ConnectUrlInputSchema.parse({ run_id: uuidv4(), url: `${site.origin}/tagged`, force: true }));
+    expect(forced).toMatchObject({ success: true });
+    expect(site.requests).toEqual([{ url: '/tagged', if_none_match: undefined }]);
+  });
+
+  it('should skip sitemap pages whose lastmod has not moved', async () => {
+    site.pages['/a'] = { body: article('Page A.') };
+    site.pages['/b'] = { body: article('Page B.') };
+    const sitemap = (lastmodB: string) => {
+      site.pages['/sitemap.xml'] = {
+        body: `<urlset><url><loc>${site.origin}/a</loc><lastmod>2024-01-01</lastmod></url>` +
+          `<url><loc>${site.origin}/b</loc><lastmod>${lastmodB}</lastmod></url></urlset>`,
+      };
+    };
+    const run = async () => {
+      const result = await connectSitemap(ConnectSitemapInputSchema.parse({
+        run_id: uuidv4(), sitemap_url: `${site.origin}/sitemap.xml`,
+      }));
+      if ('isError' in result) throw new Error(result.message);
+      return result;
+    };
+
+    sitemap('2024-01-01');
+    expect(await run()).toMatchObject({ urls_fetched: 2, urls_unchanged: 0 });
+
+    site.requests.length = 0;
+    const unchanged = await run();
+    expect(unchanged).toMatchObject({ urls_fetched: 0, urls_unchanged: 2 });
+    expect(unchanged.artifacts).toHaveLength(2);
+    expect(site.requests.map(r => r.url)).toEqual(['/sitemap.xml']);
+
+    sitemap('2024-03-01');
+    site.requests.length = 0;
+    await run();
+    expect(site.requests.map(r => r.url)).toEqual(['/sitemap.xml', '/b']);
+  });
+});
+
+// ============================================================================
+// Project Builds
+// ============================================================================
+
+describe('conditional re-fetch in project builds', () => {
+  let tempDir: string;
+  let site: Site;
+  const projectId = 'news';
+
+  async function readSources(): Promise<SourceRecord[]> {
+    const raw = await fs.readFile(path.join(tempDir, 'projects', projectId, 'sources.jsonl'), 'utf-8');
+    return raw.trim().split('\n').map(line => JSON.parse(line) as SourceRecord);
+  }
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-conditional-project-'));
+    initProjectManager(tempDir);
+    politeFetcher.clear();
+
+    site = await startSite({
+      '/notes': { body: article('The scheduler now retries failed jobs with exponential backoff.'), etag: '"n1"' },
+    });
+
+    const created = await projectCreate({
+      project_id: projectId,
+      name: 'News',
+      embedding_model: { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' },
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    if ('isError' in created) throw new Error(created.message);
+    const added = await projectAddSource({ project_id: projectId, url: `${site.origin}/notes`, max_pages: 100, tags: [] });
+    if ('isError' in added) throw new Error(added.message);
+    const built = await projectBuild({ project_id: projectId, force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+    expect(built.chunks_added).toBe(1);
+  }, 20000);
+
+  afterAll(async () => {
+    await site.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should skip an unchanged page on rebuild and re-index it once changed', async () => {
+    site.requests.length = 0;
+    const unchanged = await projectBuild({ project_id: projectId, force: true, dry_run: false });
+    if ('isError' in unchanged) throw new Error(unchanged.message);
+
+    expect(unchanged.chunks_added).toBe(0);
+    expect(site.requests).toEqual([{ url: '/notes', if_none_match: '"n1"' }]);
+    expect((await readSources())[0].stats).toMatchObject({ files_fetched: 0, files_unchanged: 1 });
+
+    site.pages['/notes'] = { body: article('The scheduler now caps retries at five attempts.'), etag: '"n2"' };
+    const changed = await projectBuild({ project_id: projectId, force: true, dry_run: false });
+    if ('isError' in changed) throw new Error(changed.message);
+
+    expect(changed.chunks_added).toBe(1);
+    expect((await readSources())[0].stats).toMatchObject({ files_fetched: 1, files_unchanged: 0 });
+  }, 20000);
+});
@@ -0,0 +1,334 @@
+/**
+ * Hybrid Fusion Tests
+ *
+ * These tests define the contract for project-level hybrid retrieval
+ * settings.
+ *
+ * Feature Requirements:
+ * - ProjectManifest.retrieval stores alpha, fusion_method (rrf, weighted_sum,
+ *   convex), rrf_k and anchor_boost; older manifests fall back to defaults
+ * - project_set_retrieval updates individual settings
+ * - projectQuery, searchHybridForChat(WithVector) and the generated server
+ *   rank identically for the same settings
+ * - Anchor terms (identifiers, quoted phrases) boost chunks that contain them
+ *
+ * Integration Points:
+ * - src/tools/fusion.ts - fuseHybrid, detectAnchorTerms, applyAnchorBoost
+ * - src/tools/projects.ts - projectCreate, projectSetRetrieval, projectQuery,
+ *   chat helpers and generateMcpServerSourceForTest
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import ts from 'typescript';
+
+import {
+  fuseHybrid,
+  detectAnchorTerms,
+  applyAnchorBoost,
+  resolveRetrievalSettings,
+  DEFAULT_RETRIEVAL_SETTINGS,
+  type RetrievalSettings,
+} from '../src/tools/fusion.js';
+import { embedLocal } from '../src/tools/local-embedding.js';
+import {
+  initProjectManager,
+  projectCreate,
+  projectAddSource,
+  projectBuild,
+  projectQuery,
+  projectSetRetrieval,
+  projectGet,
+  searchHybridForChatWithVector,
+  generateMcpServerSourceForTest,
+} from '../src/tools/projects.js';
+import { ProjectQuerySchema, ProjectSetRetrievalSchema } from '../src/schemas-projects.js';
+import { loadExportedSearch } from './helpers/exported-server.js';
+
+const SEMANTIC = [
+  { chunk_id: 'a', score: 0.9 },
+  { chunk_id: 'b', score: 0.8 },
+  { chunk_id: 'c', score: 0.1 },
+];
+const KEYWORD = [
+  { chunk_id: 'c', score: 1 },
+  { chunk_id: 'b', score: 0.5 },
+];
+
+const settings = (overrides: Partial<RetrievalSettings>) => resolveRetrievalSettings(overrides);
+
+// ============================================================================
+// fuseHybrid
+// ============================================================================
+
+describe('fuseHybrid', () => {
+  it('should fuse ranks with reciprocal rank fusion', () => {
+    const fused = fuseHybrid(SEMANTIC, KEYWORD, settings({ fusion_method: 'rrf', alpha: 0.5, rrf_k: 10 }));
+
+    // c is last semantically but first by keyword, so it edges out b
+    expect(fused.map(r => r.chunk_id)).toEqual(['c', 'b', 'a']);
+    expect(fused[0].score).toBeCloseTo(0.5 / 13 + 0.5 / 11, 10);
+    expect(fused[1].score).toBeCloseTo(0.5 / 12 + 0.5 / 12, 10);
+    expect(fused[2].score).toBeCloseTo(0.5 / 11, 10);
+  });
+
+  it('should weight raw scores with weighted_sum', () => {
+    const fused = fuseHybrid(SEMANTIC, KEYWORD, settings({ fusion_method: 'weighted_sum', alpha: 0.7 }));
+
+    expect(fused.map(r => r.chunk_id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].score).toBeCloseTo(0.7 * 0.8 + 0.3 * 0.5, 10);
+  });
+
+  it('should min-max normalize both lists with convex', () => {
+    const fused = fuseHybrid(SEMANTIC, KEYWORD, settings({ fusion_method: 'convex', alpha: 0.5 }));
+    const scores = Object.fromEntries(fused.map(r => [r.chunk_id, r.score]));
+
+    // semantic: a=1, b=0.875, c=0; keyword: c=1, b=0
+    expect(scores.a).toBeCloseTo(0.5, 10);
+    expect(scores.b).toBeCloseTo(0.4375, 10);
+    expect(scores.c).toBeCloseTo(0.5, 10);
+    // Ties break by chunk_id
+    expect(fused.map(r => r.chunk_id)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('should follow one list at the alpha extremes', () => {
+    for (const fusion_method of ['rrf', 'weighted_sum', 'convex'] as const) {
+      expect(fuseHybrid(SEMANTIC, KEYWORD, settings({ fusion_method, alpha: 1 })).map(r => r.chunk_id).slice(0, 3))
+        .toEqual(['a', 'b', 'c']);
+      expect(fuseHybrid(SEMANTIC, KEYWORD, settings({ fusion_method, alpha: 0 }))[0].chunk_id).toBe('c');
+    }
+  });
+});
+
+const LARGE = Array.from({ length: 150_000 }, (_, i) => ({ chunk_id: `c${i}`, score: (i % 1000) / 1000 }));
+
+describe('fuseHybrid at scale', () => {
+  it('should handle candidate lists beyond the call argument limit', () => {
+    const fused = fuseHybrid(LARGE, LARGE.slice(0, 10), settings({ fusion_method: 'convex', alpha: 0.5 }));
+    expect(fused).toHaveLength(LARGE.length);
+    // c9 is best by keyword (min-max 1) and 0.009 of the way up semantically
+    expect(fused[0].chunk_id).toBe('c9');
+    expect(fused[0].score).toBeCloseTo(0.5 + 0.5 * 0.009 / 0.999, 10);
+
+    const boosted = applyAnchorBoost(LARGE, ['D40'], 2, r => r.chunk_id === 'c7' ? 'D40: Vault' : '');
+    expect(boosted[0].chunk_id).toBe('c7');
+    expect(boosted[0].score).toBeCloseTo(0.007 + 0.999 * 2, 10);
+  });
+});
+
+// ============================================================================
+// Anchor terms
+// ============================================================================
+
+describe('anchor terms', () => {
+  it('should detect identifiers, long numbers and quoted phrases', () => {
+    expect(detectAnchorTerms('Where is room D40 near SRD52 and unit 5000 "north wing"?'))
+      .toEqual(expect.arrayContaining(['D40', 'SRD52', '5000', 'north wing']));
+    expect(detectAnchorTerms('how do pumps work')).toEqual([]);
+  });
+
+  it('should boost labels more than mentions relative to the best score', () => {
+    const results = [
+      { id: 'none', score: 0.02, text: 'Unrelated room.' },
+      { id: 'mention', score: 0.01, text: 'Next to D40 is storage.' },
+      { id: 'label', score: 0.005, text: 'D40: Chamber of Binding.' },
+    ];
+    const boosted = applyAnchorBoost(results, ['D40'], 2, r => r.text);
+
+    expect(boosted.map(r => r.id)).toEqual(['label', 'mention', 'none']);
+    expect(boosted[0].score).toBeCloseTo(0.005 + 0.02 * 2, 10);
+    expect(boosted[1].score).toBeCloseTo(0.01 + 0.02 * 2 * 0.5, 10);
+    expect(applyAnchorBoost(results, ['D40'], 0, r => r.text)).toBe(results);
+  });
+
+  it('should treat quoted terms literally', () => {
+    const results = [{ id: 'x', score: 1, text: 'Use (a+b) here' }];
+    expect(() => applyAnchorBoost(results, ['(a+b'], 1, r => r.text)).not.toThrow();
+  });
+});
+
+// ============================================================================
+// Project settings
+// ============================================================================
+
+const DOCS = [
+  'D40: Chamber of Binding. The demons are bound here by the wardens.',
+  'The wardens patrol the outer hall and guard the gate.',
+  'Binding rituals require salt, candles and a circle of chalk.',
+  'Storage room next to D40 holds spare candles.',
+];
+
+describe('project retrieval settings', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-fusion-'));
+    initProjectManager(tempDir);
+
+    const created = await projectCreate({
+      project_id: 'fusion',
+      name: 'Fusion',
+      embedding_model: { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' },
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    if ('isError' in created) throw new Error(created.message);
+
+    const dir = path.join(tempDir, 'docs');
+    await fs.mkdir(dir, { recursive: true });
+    for (const [i, text] of DOCS.entries()) {
+      await fs.writeFile(path.join(dir, `doc-${i}.md`), text);
+    }
+    const added = await projectAddSource({ project_id: 'fusion', folder_path: dir, source_name: 'docs' });
+    if ('isError' in added) throw new Error(added.message);
+
+    const built = await projectBuild({ project_id: 'fusion', force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function chatRanking(query: string, retrieval: RetrievalSettings) {
+    const dataDir = path.join(tempDir, 'projects', 'fusion', 'data');
+    const readJsonl = async (file: string) => (await fs.readFile(path.join(dataDir, file), 'utf-8'))
+      .trim().split('\n').map(line => JSON.parse(line));
+    return searchHybridForChatWithVector({
+      query,
+      queryVector: embedLocal(query, 256),
+      chunks: await readJsonl('chunks.jsonl'),
+      vectors: await readJsonl('vectors.jsonl'),
+      topK: 4,
+      retrieval,
+    });
+  }
+
+  it('should store default settings on create', async () => {
+    const project = await projectGet({ project_id: 'fusion' });
+    if ('isError' in project) throw new Error(project.message);
+    expect(project.manifest.retrieval).toEqual(DEFAULT_RETRIEVAL_SETTINGS);
+  });
+
+  it('should update individual settings', async () => {
+    const updated = await projectSetRetrieval(ProjectSetRetrievalSchema.parse({ project_id: 'fusion', retrieval: { fusion_method: 'convex' } }));
+    if ('isError' in updated) throw new Error(updated.message);
+    expect(updated.retrieval).toEqual({ ...DEFAULT_RETRIEVAL_SETTINGS, fusion_method: 'convex' });
+
+    const missing = await projectSetRetrieval(ProjectSetRetrievalSchema.parse({ project_id: 'missing', retrieval: {} }));
+    expect(missing).toMatchObject({ isError: true, code: 'NOT_FOUND' });
+    expect(ProjectSetRetrievalSchema.safeParse({ project_id: 'fusion', retrieval: { fusion_method: 'max' } }).success).toBe(false);
+  });
+
+  it('should rank project_query like the chat search for every fusion method', async () => {
+    for (const fusion_method of ['rrf', 'weighted_sum', 'convex'] as const) {
+      const retrieval = settings({ fusion_method, alpha: 0.4, rrf_k: 20, anchor_boost: 0.8 });
+      await projectSetRetrieval(ProjectSetRetrievalSchema.parse({ project_id: 'fusion', retrieval }));
+
+      const query = 'D40 binding wardens';
+      const result = await projectQuery(ProjectQuerySchema.parse({ project_id: 'fusion', query, mode: 'hybrid', top_k: 4 }));
+      if ('isError' in result) throw new Error(result.message);
+      const chat = await chatRanking(query, retrieval);
+
+      expect(result.results.map(r => r.chunk_id)).toEqual(chat.map(r => r.chunk_id));
+      result.results.forEach((r, i) => expect(r.score).toBeCloseTo(chat[i].score, 3));
+    }
+  });
+
+  it('should follow alpha and anchor boost', async () => {
+    await projectSetRetrieval(ProjectSetRetrievalSchema.parse({
+      project_id: 'fusion', retrieval: { fusion_method: 'rrf', alpha: 0, anchor_boost: 0 },
+    }));
+    const keyword = await projectQuery(ProjectQuerySchema.parse({ project_id: 'fusion', query: 'candles', mode: 'hybrid', top_k: 2 }));
+    if ('isError' in keyword) throw new Error(keyword.message);
+    expect(keyword.results.every(r => r.text.includes('candles'))).toBe(true);
+
+    await projectSetRetrieval(ProjectSetRetrievalSchema.parse({ project_id: 'fusion', retrieval: { alpha: 0.7, anchor_boost: 2 } }));
+    const anchored = await projectQuery(ProjectQuerySchema.parse({ project_id: 'fusion', query: 'what is in D40', mode: 'hybrid', top_k: 2 }));
+    if ('isError' in anchored) throw new Error(anchored.message);
+    expect(anchored.results[0].text).toBe(DOCS[0]);
+    expect(anchored.results[1].text).toBe(DOCS[3]);
+  });
+
+  it('should use defaults for manifests without retrieval settings', async () => {
+    const manifestPath = path.join(tempDir, 'projects', 'fusion', 'project.json');
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    delete manifest.retrieval;
+    await fs.writeFile(manifestPath, JSON.stringify(manifest));
+
+    const result = await projectQuery(ProjectQuerySchema.parse({ project_id: 'fusion', query: 'binding', mode: 'hybrid', top_k: 4 }));
+    if ('isError' in result) throw new Error(result.message);
+    const chat = await chatRanking('binding', DEFAULT_RETRIEVAL_SETTINGS);
+    expect(result.results.map(r => r.chunk_id)).toEqual(chat.map(r => r.chunk_id));
+  });
+
+  it('should rank the exported server like project_query with the manifest settings', async () => {
+    const projectDir = path.join(tempDir, 'projects', 'fusion');
+    const compare = async (query: string) => {
+      const search = loadExportedSearch(projectDir);
+      const result = await projectQuery(ProjectQuerySchema.parse({ project_id: 'fusion', query, mode: 'hybrid', top_k: 4 }));
+      if ('isError' in result) throw new Error(result.message);
+      const server = search.rankHybrid(query, embedLocal(query, 256)).slice(0, 4);
+
+      expect(server.map(r => r.chunk.chunk_id)).toEqual(result.results.map(r => r.chunk_id));
+      server.forEach((r, i) => expect(r.score).toBeCloseTo(result.results[i].score, 3));
+      return search;
+    };
+
+    for (const fusion_method of ['rrf', 'weighted_sum', 'convex'] as const) {
+      const retrieval = settings({ fusion_method, alpha: 0.4, rrf_k: 20, anchor_boost: 0.8 });
+      await projectSetRetrieval(ProjectSetRetrievalSchema.parse({ project_id: 'fusion', retrieval }));
+      expect((await compare('D40 binding wardens')).retrieval()).toEqual(retrieval);
+    }
+
+    const manifestPath = path.join(projectDir, 'project.json');
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    delete manifest.retrieval;
+    await fs.writeFile(manifestPath, JSON.stringify(manifest));
+    expect((await compare('binding')).retrieval()).toEqual(DEFAULT_RETRIEVAL_SETTINGS);
+  });
+});
+
+// ============================================================================
+// Exported server
+// ============================================================================
+
+describe('exported server fusion', () => {
+  const source = generateMcpServerSourceForTest('Test', 'Test server', 8080, true);
+
+  function loadServerFunctions() {
+    const pieces = ['fuseHybrid', 'detectAnchorTerms', 'applyAnchorBoost'].map(name => {
+      const match = source.match(new RegExp(`function ${name}[<(][\\s\\S]*?\\n\\}\\n`));
+      expect(match).not.toBeNull();
+      return match![0];
+    });
+    const js = ts.transpileModule(pieces.join('\n'), { compilerOptions: { target: ts.ScriptTarget.ES2022 } }).outputText;
+    return new Function(`${js}; return { fuseHybrid, detectAnchorTerms, applyAnchorBoost };`)() as {
+      fuseHybrid: typeof fuseHybrid;
+      detectAnchorTerms: typeof detectAnchorTerms;
+      applyAnchorBoost: typeof applyAnchorBoost;
+    };
+  }
+
+  it('should fuse and boost identically to the project search', () => {
+    const server = loadServerFunctions();
+
+    for (const fusion_method of ['rrf', 'weighted_sum', 'convex'] as const) {
+      const s = settings({ fusion_method, alpha: 0.6, rrf_k: 30 });
+      expect(server.fuseHybrid(SEMANTIC, KEYWORD, s)).toEqual(fuseHybrid(SEMANTIC, KEYWORD, s));
+    }
+
+    const large = settings({ fusion_method: 'convex', alpha: 0.5 });
+    expect(server.fuseHybrid(LARGE, LARGE.slice(0, 10), large)).toEqual(fuseHybrid(LARGE, LARGE.slice(0, 10), large));
+    const textOf = (r: { chunk_id: string }) => r.chunk_id === 'c7' ? 'D40: Vault' : '';
+    expect(server.applyAnchorBoost(LARGE, ['D40'], 0.5, textOf)).toEqual(applyAnchorBoost(LARGE, ['D40'], 0.5, textOf));
+
+    const query = 'Is D40 next to CR10 or "the gate"?';
+    expect(server.detectAnchorTerms(query)).toEqual(detectAnchorTerms(query));
+
+    const results = DOCS.map((text, i) => ({ text, score: 1 / (i + 1) }));
+    expect(server.applyAnchorBoost(results, ['D40', 'the gate'], 0.5, r => r.text))
+      .toEqual(applyAnchorBoost(results, ['D40', 'the gate'], 0.5, r => r.text));
+  });
+});
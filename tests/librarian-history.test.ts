@@ -0,0 +1,173 @@
+/**
+ * Librarian Audit History Tests
+ *
+ * These tests define the contract for the persistent librarian audit log.
+ *
+ * Feature Requirements:
+ * - librarian_audit, librarian_query and librarian_assess (with project_id)
+ *   append LibrarianAuditTrail entries to projects/<id>/librarian/audit.jsonl
+ * - A log write failure doesn't fail the operation; it is returned as
+ *   audit_log_error on the result
+ * - History filters by time range, operation and quality level
+ * - Aggregates: answers by quality, poor share, sources cited in poor answers
+ *
+ * Integration Points:
+ * - src/tools/librarian.ts - librarianHistory and the logging tools
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+
+import {
+  initLibrarian,
+  librarianAudit,
+  librarianAssess,
+  librarianQuery,
+  librarianHistory,
+  LibrarianAuditSchema,
+  LibrarianAssessSchema,
+  LibrarianQuerySchema,
+  LibrarianHistorySchema,
+} from '../src/tools/librarian.js';
+import { initProjectManager, projectCreate, projectAddSource, projectBuild } from '../src/tools/projects.js';
+import type { LibrarianAuditTrail } from '../src/types.js';
+
+const EMBEDDING = { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' } as const;
+
+describe('librarianHistory', () => {
+  let tempDir: string;
+  let started: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-librarian-history-'));
+    initProjectManager(tempDir);
+    initLibrarian(tempDir);
+
+    for (const project_id of ['kb', 'quiet']) {
+      const created = await projectCreate({
+        project_id,
+        name: project_id,
+        embedding_model: EMBEDDING,
+        chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+      });
+      if ('isError' in created) throw new Error(created.message);
+    }
+    const dir = path.join(tempDir, 'docs');
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, 'vault.md'), '# Vault\n\nSecrets are stored in the vault and rotated monthly.');
+    const added = await projectAddSource({ project_id: 'kb', folder_path: dir, source_name: 'docs' });
+    if ('isError' in added) throw new Error(added.message);
+    const built = await projectBuild({ project_id: 'kb', force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+
+    started = new Date().toISOString();
+    await librarianAudit(LibrarianAuditSchema.parse({ project_id: 'kb' }));
+    await librarianQuery(LibrarianQuerySchema.parse({
+      project_id: 'kb', query: 'vault secrets', mode: 'semantic', max_retries: 1,
+      thresholds: { min_chunk_score: 1, avg_result_score: 1, classification_confidence: 0 },
+    }));
+    await librarianQuery(LibrarianQuerySchema.parse({
+      project_id: 'kb', query: 'vault secrets', mode: 'semantic',
+      thresholds: { min_chunk_score: 0, avg_result_score: 0, classification_confidence: 0 },
+    }));
+    await librarianAssess(LibrarianAssessSchema.parse({
+      project_id: 'kb', query: 'billing', results: [{ score: 0.1, source_id: 'external' }],
+    }));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should append every librarian operation to the project log', async () => {
+    const raw = await fs.readFile(path.join(tempDir, 'projects', 'kb', 'librarian', 'audit.jsonl'), 'utf-8');
+    const entries = raw.trim().split('\n').map(line => JSON.parse(line) as LibrarianAuditTrail);
+
+    expect(entries.map(e => e.operation)).toEqual([
+      'state_check',
+      'state_check', 'classify', 'query', 'query',
+      'state_check', 'classify', 'query',
+      'query',
+    ]);
+    expect(entries.slice(3, 5).map(e => e.metadata?.attempt)).toEqual([0, 1]);
+    expect(entries.slice(3, 5).filter(e => e.metadata?.chosen)).toHaveLength(1);
+    expect(entries[3].metadata?.query_id).toBe(entries[1].metadata?.query_id);
+  });
+
+  it('should aggregate answers by quality with the sources behind poor ones', async () => {
+    const result = await librarianHistory(LibrarianHistorySchema.parse({ project_id: 'kb', days: 7 }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.total_entries).toBe(9);
+    expect(result.aggregates.by_operation).toEqual({ state_check: 3, classify: 2, query: 4 });
+    expect(result.aggregates.answers).toBe(3);
+    expect(result.aggregates.by_quality.poor).toBe(2);
+    expect(result.aggregates.poor_share).toBeCloseTo(2 / 3);
+    expect(result.aggregates.poor_answer_sources.map(s => s.source_id)).toContain('external');
+    expect(result.aggregates.poor_answer_sources).toHaveLength(2);
+    expect(result.entries[0].quality_assessment?.query).toBe('billing');
+  });
+
+  it('should filter by operation, quality level and time range', async () => {
+    const states = await librarianHistory(LibrarianHistorySchema.parse({ project_id: 'kb', operations: ['state_check'] }));
+    if ('isError' in states) throw new Error(states.message);
+    expect(states.entries.every(e => e.operation === 'state_check')).toBe(true);
+    expect(states.aggregates.answers).toBe(0);
+
+    const poor = await librarianHistory(LibrarianHistorySchema.parse({ project_id: 'kb', quality_levels: ['poor'], limit: 2 }));
+    if ('isError' in poor) throw new Error(poor.message);
+    expect(poor.entries).toHaveLength(2);
+    expect(poor.entries.every(e => e.quality_assessment?.quality_level === 'poor')).toBe(true);
+    expect(poor.total_entries).toBe(9);
+
+    const before = await librarianHistory(LibrarianHistorySchema.parse({ project_id: 'kb', until: started }));
+    if ('isError' in before) throw new Error(before.message);
+    expect(before.total_entries).toBe(0);
+
+    const later = await librarianHistory(LibrarianHistorySchema.parse({
+      project_id: 'kb', since: new Date(Date.now() + 60_000).toISOString(),
+    }));
+    if ('isError' in later) throw new Error(later.message);
+    expect(later.total_entries).toBe(0);
+  });
+
+  it('should return empty history for projects without a log and reject unknown projects', async () => {
+    const quiet = await librarianHistory(LibrarianHistorySchema.parse({ project_id: 'quiet' }));
+    if ('isError' in quiet) throw new Error(quiet.message);
+    expect(quiet).toMatchObject({ total_entries: 0, entries: [], aggregates: { answers: 0, poor_share: 0, avg_score: null } });
+
+    expect(await librarianHistory(LibrarianHistorySchema.parse({ project_id: 'missing' })))
+      .toMatchObject({ isError: true, code: 'PROJECT_NOT_FOUND' });
+  });
+
+  it('should report a log that cannot be written on the result instead of dropping it', async () => {
+    const created = await projectCreate({
+      project_id: 'unlogged',
+      name: 'unlogged',
+      embedding_model: EMBEDDING,
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    if ('isError' in created) throw new Error(created.message);
+    // A directory where the log file belongs makes every append fail
+    await fs.mkdir(path.join(tempDir, 'projects', 'unlogged', 'librarian', 'audit.jsonl'), { recursive: true });
+
+    const audit = await librarianAudit(LibrarianAuditSchema.parse({ project_id: 'unlogged' }));
+    expect(audit).toMatchObject({ success: true, audit_log_error: expect.stringContaining('audit.jsonl') });
+
+    const query = await librarianQuery(LibrarianQuerySchema.parse({ project_id: 'unlogged', query: 'vault' }));
+    if ('isError' in query) throw new Error(query.message);
+    expect(query.audit.steps_executed).toContain('retrieval_skipped');
+    expect(query.audit_log_error).toContain('audit.jsonl');
+
+    const assessment = await librarianAssess(LibrarianAssessSchema.parse({
+      project_id: 'unlogged', query: 'vault', results: [{ score: 0.9 }],
+    }));
+    expect(assessment.quality_level).toBe('excellent');
+    expect(assessment.audit_log_error).toContain('audit.jsonl');
+
+    const logged = await librarianAssess(LibrarianAssessSchema.parse({ project_id: 'kb', query: 'vault', results: [] }));
+    expect(logged).not.toHaveProperty('audit_log_error');
+  });
+});
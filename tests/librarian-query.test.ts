@@ -0,0 +1,169 @@
+/**
+ * Librarian Query Tests
+ *
+ * These tests define the contract for the one-call Librarian query tool.
+ *
+ * Feature Requirements:
+ * - Audit project state, classify the query, then query and assess
+ * - Mode and top_k from the classification unless given explicitly
+ * - Hybrid when classification confidence is below the threshold
+ * - Retry with another mode and doubled top_k while quality is poor
+ * - LibrarianQueryResult audit block with steps_executed, plus a trail
+ * - Failed query attempts are logged to the audit trail before the error returns
+ *
+ * Integration Points:
+ * - src/tools/librarian.ts - librarianQuery
+ * - src/tools/projects.ts - projectQuery (semantic_score per result)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+
+import { initLibrarian, librarianQuery, LibrarianQuerySchema } from '../src/tools/librarian.js';
+import {
+  initProjectManager,
+  projectCreate,
+  projectAddSource,
+  projectBuild,
+  projectQuery,
+} from '../src/tools/projects.js';
+import { ProjectQuerySchema } from '../src/schemas-projects.js';
+
+const DOCS = {
+  'vault.md': '# Vault\n\nSecrets are stored in the vault. Operators rotate vault credentials every month.',
+  'backups.md': '# Backups\n\nDatabase snapshots are taken nightly and copied to cold storage.',
+  'oncall.md': '# On-call\n\nThe on-call engineer acknowledges pages within fifteen minutes.',
+};
+
+const EMBEDDING = { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' } as const;
+
+describe('librarianQuery', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-librarian-'));
+    initProjectManager(tempDir);
+    initLibrarian(tempDir);
+
+    const created = await projectCreate({
+      project_id: 'ops',
+      name: 'Ops',
+      embedding_model: EMBEDDING,
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    if ('isError' in created) throw new Error(created.message);
+    const dir = path.join(tempDir, 'docs');
+    await fs.mkdir(dir, { recursive: true });
+    for (const [file, text] of Object.entries(DOCS)) {
+      await fs.writeFile(path.join(dir, file), text);
+    }
+    const added = await projectAddSource({ project_id: 'ops', folder_path: dir, source_name: 'docs' });
+    if ('isError' in added) throw new Error(added.message);
+    const built = await projectBuild({ project_id: 'ops', force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+
+    const empty = await projectCreate({ project_id: 'empty', name: 'Empty', embedding_model: EMBEDDING });
+    if ('isError' in empty) throw new Error(empty.message);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report cosine similarity from project_query in every mode', async () => {
+    const result = await projectQuery(ProjectQuerySchema.parse({ project_id: 'ops', query: 'vault credentials', mode: 'keyword' }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.results[0].semantic_score).toBeTypeOf('number');
+  });
+
+  it('should audit, classify, query and assess in order', async () => {
+    const result = await librarianQuery(LibrarianQuerySchema.parse({
+      project_id: 'ops',
+      query: 'How do operators rotate vault credentials?',
+      thresholds: { min_chunk_score: 0, avg_result_score: 0, classification_confidence: 0 },
+    }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.success).toBe(true);
+    expect(result.audit.state_valid).toBe(true);
+    expect(result.audit.classification.query_type).toBe('procedural');
+    expect(result.mode).toBe(result.audit.classification.suggested_mode);
+    expect(result.audit.steps_executed).toEqual([
+      'state_check', 'classify', `query:${result.mode}@${result.top_k}`, `assess:${result.audit.quality_assessment.quality_level}`,
+    ]);
+    expect(result.results[0].source_id).toBeDefined();
+    expect(result.results[0].text).toContain('vault');
+    expect(result.trail.map(t => t.operation)).toEqual(['state_check', 'classify', 'query']);
+  });
+
+  it('should retry with other modes and a larger top_k while quality is poor', async () => {
+    const result = await librarianQuery(LibrarianQuerySchema.parse({
+      project_id: 'ops',
+      query: 'vault credentials',
+      mode: 'hybrid',
+      top_k: 1,
+      max_retries: 2,
+      thresholds: { min_chunk_score: 1, avg_result_score: 1, classification_confidence: 0.5 },
+    }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.audit.steps_executed).toEqual([
+      'state_check', 'classify',
+      'query:hybrid@1', 'assess:poor',
+      'retry:semantic@2', 'assess:poor',
+      'retry:keyword@4', 'assess:poor',
+    ]);
+    expect(result.audit.quality_assessment.quality_level).toBe('poor');
+    expect(result.recommendations).toContain('Results are poor quality - retrieval needs investigation');
+  });
+
+  it('should fall back to hybrid when classification confidence is low', async () => {
+    const result = await librarianQuery(LibrarianQuerySchema.parse({
+      project_id: 'ops',
+      query: 'ERR-1234 backups',
+      max_retries: 0,
+      thresholds: { min_chunk_score: 0.5, avg_result_score: 0.65, classification_confidence: 1 },
+    }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.mode).toBe('hybrid');
+    expect(result.trail[1].actions_taken[0]).toBe('mode=hybrid (low classification confidence)');
+  });
+
+  it('should skip retrieval for projects with nothing indexed', async () => {
+    const result = await librarianQuery(LibrarianQuerySchema.parse({ project_id: 'empty', query: 'anything at all' }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.success).toBe(false);
+    expect(result.audit.state_valid).toBe(false);
+    expect(result.audit.steps_executed).toEqual(['state_check', 'classify', 'retrieval_skipped']);
+    expect(result.recommendations).toContain('Add sources with project_add_source');
+  });
+
+  it('should log a failed query attempt before returning its error', async () => {
+    const result = await librarianQuery(LibrarianQuerySchema.parse({
+      project_id: 'ops',
+      query: 'vault credentials',
+      filters: { tier: { $bogus: 1 } },
+    }));
+    if (!('isError' in result)) throw new Error('Expected the query to fail');
+    expect(result.code).toBe('FILTER_INVALID');
+
+    const log = await fs.readFile(path.join(tempDir, 'projects', 'ops', 'librarian', 'audit.jsonl'), 'utf-8');
+    const entries = log.trim().split('\n').map(line => JSON.parse(line));
+    expect(entries.at(-1)).toMatchObject({
+      operation: 'query',
+      success: false,
+      metadata: { attempt: 0, code: 'FILTER_INVALID' },
+    });
+    expect(entries.at(-1).metadata.error).toBe(result.message);
+  });
+
+  it('should reject unknown projects', async () => {
+    expect(await librarianQuery(LibrarianQuerySchema.parse({ project_id: 'missing', query: 'anything' })))
+      .toMatchObject({ isError: true, code: 'PROJECT_NOT_FOUND' });
+  });
+});
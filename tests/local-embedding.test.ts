@@ -0,0 +1,155 @@
+/**
+ * Local Embedding Provider Tests
+ *
+ * These tests define the contract for the offline "local" embedding
+ * provider used by projects.
+ *
+ * Feature Requirements:
+ * - Feature-hashed word + character trigram embeddings, L2 normalized
+ * - Deterministic output with a configurable dimension
+ * - No API key and no network access needed for project_build and
+ *   project_query
+ * - The exported server embeds queries with the identical algorithm
+ *
+ * Integration Points:
+ * - src/tools/local-embedding.ts - embedLocal
+ * - src/tools/projects.ts - embedText / embedChunks / generateQueryEmbedding
+ *   and the generated server's generateQueryEmbedding
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import { mkdtemp, rm, mkdir, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import ts from 'typescript';
+
+import { embedLocal, LOCAL_EMBEDDING_DEFAULT_DIMENSIONS } from '../src/tools/local-embedding.js';
+import {
+  initProjectManager,
+  projectCreate,
+  projectAddSource,
+  projectBuild,
+  projectQuery,
+  generateQueryEmbedding,
+  generateMcpServerSourceForTest,
+} from '../src/tools/projects.js';
+import { readJsonl } from '../src/utils.js';
+import type { VectorRecord } from '../src/schemas-projects.js';
+import { cosineSimilarity } from '../src/utils.js';
+
+// ============================================================================
+// embedLocal
+// ============================================================================
+
+describe('embedLocal', () => {
+  it('should produce deterministic unit vectors of the requested dimension', () => {
+    const a = embedLocal('Solar panels convert sunlight into electricity.', 256);
+    const b = embedLocal('Solar panels convert sunlight into electricity.', 256);
+
+    expect(a).toHaveLength(256);
+    expect(a).toEqual(b);
+    expect(Math.hypot(...a)).toBeCloseTo(1, 6);
+    expect(embedLocal('text')).toHaveLength(LOCAL_EMBEDDING_DEFAULT_DIMENSIONS);
+  });
+
+  it('should rank related text above unrelated text', () => {
+    const query = embedLocal('how do solar panels work');
+    const related = embedLocal('Solar panel efficiency depends on how the cells work in sunlight.');
+    const unrelated = embedLocal('The recipe calls for flour, butter and two eggs.');
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated) + 0.2);
+  });
+
+  it('should match inflected forms through character trigrams', () => {
+    const similarity = cosineSimilarity(embedLocal('turbines'), embedLocal('turbine'));
+    expect(similarity).toBeGreaterThan(0.5);
+  });
+
+  it('should return a zero vector for text without words', () => {
+    expect(embedLocal('  ... !!', 64).every(v => v === 0)).toBe(true);
+  });
+
+  it('should be identical to the copy in the exported server', () => {
+    const source = generateMcpServerSourceForTest('Test', 'Test server', 8080, true);
+    const match = source.match(/function embedLocal\(text: string, dimensions: number\): number\[\] \{[\s\S]*?\n\}\n/);
+    expect(match).not.toBeNull();
+
+    const js = ts.transpileModule(match![0], { compilerOptions: { target: ts.ScriptTarget.ES2022 } }).outputText;
+    const serverEmbed = new Function(`${js}; return embedLocal;`)() as typeof embedLocal;
+
+    for (const text of ['Wind turbines in the North Sea', 'Café déjà vu — 42 units', '']) {
+      expect(serverEmbed(text, 128)).toEqual(embedLocal(text, 128));
+    }
+  });
+});
+
+// ============================================================================
+// Project integration (offline)
+// ============================================================================
+
+describe('local provider in projects', () => {
+  let tempDir: string;
+  const savedKey = process.env.OPENAI_API_KEY;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(tmpdir(), 'indexfoundry-local-embed-'));
+    initProjectManager(tempDir);
+    delete process.env.OPENAI_API_KEY;
+    // Any network access fails the test
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('network access in offline test'); }));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    if (savedKey !== undefined) process.env.OPENAI_API_KEY = savedKey;
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should build and query a project without network access', async () => {
+    const docs = path.join(tempDir, 'docs');
+    await mkdir(docs);
+    await writeFile(path.join(docs, 'solar.md'), '# Solar\n\nSolar panels convert sunlight into electricity using photovoltaic cells.');
+    await writeFile(path.join(docs, 'baking.md'), '# Baking\n\nBread dough needs flour, water, salt and yeast, then time to rise.');
+
+    const created = await projectCreate({
+      project_id: 'offline-kb',
+      name: 'Offline KB',
+      embedding_model: { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' },
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    expect(created).not.toHaveProperty('isError');
+
+    const added = await projectAddSource({ project_id: 'offline-kb', folder_path: docs });
+    expect(added).not.toHaveProperty('isError');
+
+    const built = await projectBuild({ project_id: 'offline-kb', force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+    expect(built.vectors_added).toBe(2);
+
+    const vectors = await readJsonl<VectorRecord>(path.join(tempDir, 'projects', 'offline-kb', 'data', 'vectors.jsonl'));
+    expect(vectors[0].embedding).toHaveLength(256);
+    expect(vectors[0].model).toBe('local/hash');
+
+    const result = await projectQuery({
+      project_id: 'offline-kb',
+      query: 'photovoltaic solar electricity',
+      mode: 'semantic',
+      top_k: 2,
+    });
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.results[0].text).toContain('Solar panels');
+    expect(result.results[0].score).toBeGreaterThan(result.results[1].score);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should embed chat queries locally', async () => {
+    const vector = await generateQueryEmbedding({
+      text: 'solar power',
+      model: { provider: 'local', model_name: 'hash', api_key_env: 'OPENAI_API_KEY' },
+    });
+
+    expect(vector).toEqual(embedLocal('solar power'));
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * MinHash Deduplication Tests
+ *
+ * These tests define the contract for the minhash method of normalizeDedupe.
+ *
+ * Feature Requirements:
+ * - similarity_threshold is a real Jaccard threshold (3-word shingles)
+ * - LSH banding avoids all-pairs comparison, so large corpora stay fast
+ * - scope "per_document" only compares chunks within the same document
+ * - The dedupe report lists every cluster with kept and dropped chunks
+ *
+ * Integration Points:
+ * - src/tools/minhash.ts - shingling, signatures, LSH, clustering
+ * - src/tools/normalize.ts - normalizeDedupe minhash branch
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+import { initRunManager } from '../src/run-manager.js';
+import { normalizeDedupe } from '../src/tools/normalize.js';
+import {
+  findNearDuplicates,
+  jaccardSimilarity,
+  optimalLshParams,
+  shingleHashes,
+} from '../src/tools/minhash.js';
+import type { DocumentChunk } from '../src/types.js';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+/** Deterministic pseudo-random word sequence */
+function randomWords(count: number, seed: number): string[] {
+  let state = seed;
+  const words: string[] = [];
+  for (let i = 0; i < count; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) & 0x7fffffff;
+    words.push(`w${(state % 20000).toString(36)}`);
+  }
+  return words;
+}
+
+/** Replace the last `changed` words so the shingle Jaccard drops predictably */
+function variant(words: string[], changed: number, seed: number): string {
+  return [...words.slice(0, words.length - changed), ...randomWords(changed, seed)].join(' ');
+}
+
+function makeChunk(id: string, text: string, docId = 'doc-1'): DocumentChunk {
+  return {
+    doc_id: docId,
+    chunk_id: id,
+    chunk_index: 0,
+    source: { type: 'txt', uri: 'test.txt', retrieved_at: '2024-01-01T00:00:00Z', content_hash: docId },
+    content: { text, text_hash: id, char_count: text.length, token_count_approx: 1 },
+    position: { byte_start: 0, byte_end: text.length },
+    metadata: { content_type: 'text/plain' },
+  };
+}
+
+// ============================================================================
+// minhash module
+// ============================================================================
+
+describe('minhash primitives', () => {
+  it('should compute exact Jaccard over word shingles', () => {
+    const a = shingleHashes('the quick brown fox jumps');
+    const b = shingleHashes('The quick brown fox leaps');
+
+    // shingles: {the quick brown, quick brown fox, brown fox jumps} vs {..., brown fox leaps}
+    expect(a.length).toBe(3);
+    expect(jaccardSimilarity(a, b)).toBeCloseTo(2 / 4);
+    expect(jaccardSimilarity(a, a)).toBe(1);
+  });
+
+  it('should pick LSH parameters that fit the signature length', () => {
+    for (const threshold of [0.8, 0.9, 0.95, 1.0]) {
+      const { bands, rows } = optimalLshParams(threshold, 128);
+      expect(bands * rows).toBeLessThanOrEqual(128);
+    }
+    // Higher thresholds need more rows per band
+    expect(optimalLshParams(0.95).rows).toBeGreaterThan(optimalLshParams(0.8).rows);
+  });
+
+  it('should treat the threshold as real Jaccard similarity', () => {
+    const base = randomWords(200, 1);
+    const near = variant(base, 10, 2);   // ~0.90 Jaccard
+    const far = variant(base, 30, 3);    // ~0.74 Jaccard
+    const similarity = jaccardSimilarity(shingleHashes(base.join(' ')), shingleHashes(near));
+    expect(similarity).toBeGreaterThan(0.85);
+    expect(similarity).toBeLessThan(0.95);
+
+    const items = [
+      { id: 'base', text: base.join(' ') },
+      { id: 'near', text: near },
+      { id: 'far', text: far },
+    ];
+
+    const loose = findNearDuplicates(items, 0.85);
+    expect(loose.kept).toEqual(['base', 'far']);
+    expect(loose.clusters).toEqual([{ kept: 'base', dropped: [{ id: 'near', jaccard: expect.closeTo(similarity, 3) }] }]);
+
+    const strict = findNearDuplicates(items, 0.95);
+    expect(strict.kept).toEqual(['base', 'near', 'far']);
+    expect(strict.clusters).toEqual([]);
+  });
+
+  it('should not compare items across partitions', () => {
+    const text = randomWords(100, 7).join(' ');
+    const result = findNearDuplicates([
+      { id: 'a', text, partition: 'doc-1' },
+      { id: 'b', text, partition: 'doc-2' },
+      { id: 'c', text, partition: 'doc-1' },
+    ], 0.9);
+
+    expect(result.kept).toEqual(['a', 'b']);
+    expect(result.clusters).toEqual([{ kept: 'a', dropped: [{ id: 'c', jaccard: 1 }] }]);
+  });
+
+  it('should deduplicate large corpora without all-pairs comparison', () => {
+    const items: Array<{ id: string; text: string }> = [];
+    for (let i = 0; i < 10000; i++) {
+      const words = randomWords(120, i + 1);
+      items.push({ id: `c${i}`, text: words.join(' ') });
+      if (i % 100 === 0) items.push({ id: `d${i}`, text: variant(words, 2, i + 50000) });
+    }
+
+    const start = Date.now();
+    const result = findNearDuplicates(items, 0.9);
+
+    expect(result.clusters).toHaveLength(100);
+    expect(result.kept).toHaveLength(10000);
+    expect(result.candidates_checked).toBeLessThan(items.length);
+    expect(Date.now() - start).toBeLessThan(20000);
+  });
+});
+
+// ============================================================================
+// normalizeDedupe integration
+// ============================================================================
+
+describe('normalizeDedupe (minhash)', () => {
+  let baseDir: string;
+  let runDir: string;
+  const runId = uuidv4();
+
+  beforeAll(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-minhash-'));
+    const manager = initRunManager(baseDir);
+    ({ runDir } = await manager.ensureRun(runId));
+
+    const base = randomWords(150, 11);
+    const chunks = [
+      makeChunk('chunk-a', base.join(' ')),
+      makeChunk('chunk-b', variant(base, 3, 12)),
+      makeChunk('chunk-c', randomWords(150, 13).join(' ')),
+      makeChunk('chunk-d', base.join(' '), 'doc-2'),
+    ];
+    await fs.writeFile(
+      path.join(runDir, 'normalized', 'chunks.jsonl'),
+      chunks.map(c => JSON.stringify(c)).join('\n') + '\n'
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should drop near duplicates globally and report clusters', async () => {
+    const result = await normalizeDedupe({
+      run_id: runId,
+      chunks_path: 'normalized/chunks.jsonl',
+      method: 'minhash',
+      similarity_threshold: 0.9,
+      scope: 'global',
+      force: false,
+    });
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.stats).toEqual({
+      input_chunks: 4,
+      output_chunks: 2,
+      duplicates_removed: 2,
+      duplicate_groups: 1,
+    });
+
+    const report = JSON.parse(await fs.readFile(path.join(runDir, result.dedupe_report_path), 'utf-8'));
+    expect(report.method).toBe('minhash');
+    expect(report.lsh).toMatchObject({ num_perm: 128, shingle_size: 3 });
+    expect(report.groups).toHaveLength(1);
+    expect(report.groups[0].kept).toBe('chunk-a');
+    expect(report.groups[0].removed).toEqual(['chunk-b', 'chunk-d']);
+    expect(report.groups[0].similarities[1]).toBe(1);
+    expect(report.groups[0].similarities[0]).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('should only compare chunks within a document for per_document scope', async () => {
+    const result = await normalizeDedupe({
+      run_id: runId,
+      chunks_path: 'normalized/chunks.jsonl',
+      method: 'minhash',
+      similarity_threshold: 0.9,
+      scope: 'per_document',
+      force: false,
+    });
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.stats.output_chunks).toBe(3);
+    expect(result.stats.duplicates_removed).toBe(1);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * MMR Diversification Tests
+ *
+ * These tests define the contract for Maximal Marginal Relevance result
+ * diversification.
+ *
+ * Feature Requirements:
+ * - mmrSelect trades relevance against similarity to already-picked results
+ * - Similarity uses stored embeddings, falling back to token overlap
+ * - lambda = 1 keeps relevance order; scores are never rewritten
+ * - projectQuery, serveQuery and the chat search helpers accept an mmr option
+ * - The exported server's /search, /chat and search tool share the same code
+ *
+ * Integration Points:
+ * - src/tools/mmr.ts - mmrSelect
+ * - src/tools/projects.ts - projectQuery, searchHybridForChat, generated server
+ * - src/tools/serve.ts - serveQuery
+ * - src/schemas.ts / src/schemas-projects.ts - mmr option schemas
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import ts from 'typescript';
+
+import { mmrSelect, mmrPoolSize } from '../src/tools/mmr.js';
+import { tokenizeBm25 } from '../src/tools/bm25.js';
+import { cosineSimilarity } from '../src/utils.js';
+import { initRunManager } from '../src/run-manager.js';
+import { ServeQueryInputSchema, ServeStartInputSchema } from '../src/schemas.js';
+import { serveStart, serveStop, serveQuery } from '../src/tools/serve.js';
+import {
+  initProjectManager,
+  projectCreate,
+  projectAddSource,
+  projectBuild,
+  projectQuery,
+  searchHybridForChat,
+  generateMcpServerSourceForTest,
+} from '../src/tools/projects.js';
+import { ProjectQuerySchema } from '../src/schemas-projects.js';
+import { loadExportedSearch } from './helpers/exported-server.js';
+
+// Three versions of the same install page and one different page
+const VERSIONED = [
+  { id: 'v1', text: 'Version 1. Install the agent: run npm install agent, then agent install --service.', vector: [1, 0, 0] },
+  { id: 'v2', text: 'Version 2. Install the agent: run npm install agent, then agent install --service.', vector: [0.99, 0.1, 0] },
+  { id: 'v3', text: 'Version 3. Install the agent: run npm install agent, then agent install --service.', vector: [0.98, 0.15, 0] },
+  { id: 'trouble', text: 'Troubleshooting: if install fails, check the agent log and proxy settings.', vector: [0.5, 0, 0.85] },
+];
+
+const byScore = (scores: number[]) => VERSIONED.map((d, i) => ({ ...d, score: scores[i] }));
+
+/** Build the VERSIONED pages as project "versioned" in a new base directory */
+async function buildVersionedProject(): Promise<string> {
+  const tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-project-mmr-'));
+  initProjectManager(tempDir);
+
+  const created = await projectCreate({
+    project_id: 'versioned',
+    name: 'Versioned docs',
+    embedding_model: { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' },
+    chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+  });
+  if ('isError' in created) throw new Error(created.message);
+
+  const dir = path.join(tempDir, 'docs');
+  await fs.mkdir(dir, { recursive: true });
+  for (const doc of VERSIONED) {
+    await fs.writeFile(path.join(dir, `${doc.id}.md`), doc.text);
+  }
+  const added = await projectAddSource({ project_id: 'versioned', folder_path: dir, source_name: 'docs' });
+  if ('isError' in added) throw new Error(added.message);
+
+  const built = await projectBuild({ project_id: 'versioned', force: false, dry_run: false });
+  if ('isError' in built) throw new Error(built.message);
+  return tempDir;
+}
+
+// ============================================================================
+// mmrSelect
+// ============================================================================
+
+describe('mmrSelect', () => {
+  const candidates = byScore([0.95, 0.94, 0.93, 0.7]);
+
+  it('should skip near-duplicates of results already picked', () => {
+    const picked = mmrSelect(candidates, 2, 0.5, c => ({ vector: c.vector, text: c.text }));
+    expect(picked.map(c => c.id)).toEqual(['v1', 'trouble']);
+  });
+
+  it('should keep relevance order at lambda 1 and original scores always', () => {
+    expect(mmrSelect(candidates, 3, 1, c => ({ vector: c.vector, text: c.text })).map(c => c.id)).toEqual(['v1', 'v2', 'v3']);
+
+    const picked = mmrSelect(candidates, 4, 0.3, c => ({ vector: c.vector, text: c.text }));
+    expect(picked).toHaveLength(4);
+    for (const c of picked) {
+      expect(c.score).toBe(candidates.find(o => o.id === c.id)!.score);
+    }
+  });
+
+  it('should compare text when candidates have no embeddings', () => {
+    const picked = mmrSelect(candidates, 2, 0.5, c => ({ text: c.text }));
+    expect(picked.map(c => c.id)).toEqual(['v1', 'trouble']);
+  });
+
+  it('should handle empty and short candidate lists', () => {
+    expect(mmrSelect([], 5, 0.5, () => ({ text: '' }))).toEqual([]);
+    expect(mmrSelect(candidates.slice(0, 2), 5, 0.5, c => ({ text: c.text }))).toHaveLength(2);
+    expect(mmrPoolSize(10)).toBeGreaterThan(10);
+  });
+});
+
+// ============================================================================
+// project_query
+// ============================================================================
+
+describe('projectQuery mmr', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await buildVersionedProject();
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should replace repeated versions with a different page', async () => {
+    const plain = await projectQuery(ProjectQuerySchema.parse({ project_id: 'versioned', query: 'install agent', mode: 'hybrid', top_k: 2 }));
+    const diverse = await projectQuery(ProjectQuerySchema.parse({
+      project_id: 'versioned', query: 'install agent', mode: 'hybrid', top_k: 2, mmr: {},
+    }));
+    if ('isError' in plain || 'isError' in diverse) throw new Error('query failed');
+
+    expect(plain.results.every(r => r.text.startsWith('Version'))).toBe(true);
+    expect(plain.mmr_lambda).toBeUndefined();
+
+    expect(diverse.mmr_lambda).toBe(0.5);
+    expect(diverse.results).toHaveLength(2);
+    expect(diverse.results[0].text).toBe(plain.results[0].text);
+    expect(diverse.results[1].text).toBe(VERSIONED[3].text);
+  });
+
+  it('should validate lambda', () => {
+    expect(ProjectQuerySchema.safeParse({ project_id: 'versioned', query: 'x', mmr: { lambda: 1.5 } }).success).toBe(false);
+    expect(ServeQueryInputSchema.safeParse({ run_id: uuidv4(), query: 'x', mmr: { lambda: -0.1 } }).success).toBe(false);
+  });
+});
+
+// ============================================================================
+// Chat search
+// ============================================================================
+
+describe('searchHybridForChat mmr', () => {
+  const chunks = VERSIONED.map((d, i) => ({
+    chunk_id: d.id,
+    source_id: 'src',
+    text: d.text,
+    position: { index: i, start_char: 0, end_char: d.text.length },
+    metadata: {},
+    created_at: '2024-01-01T00:00:00Z',
+  }));
+  const vectors = VERSIONED.map(d => ({ chunk_id: d.id, embedding: d.vector, model: 'test' }));
+
+  it('should diversify the fused context', () => {
+    const plain = searchHybridForChat({ query: 'install agent', chunks, vectors, topK: 2 });
+    const diverse = searchHybridForChat({ query: 'install agent', chunks, vectors, topK: 2, mmr: { lambda: 0.5 } });
+
+    expect(plain.map(r => r.chunk_id)).not.toContain('trouble');
+    expect(diverse.map(r => r.chunk_id)).toContain('trouble');
+  });
+
+  it('should diversify keyword-only context by text', () => {
+    const diverse = searchHybridForChat({ query: 'install agent', chunks, vectors: [], topK: 2, mmr: { lambda: 0.5 } });
+    expect(diverse.map(r => r.chunk_id)).toContain('trouble');
+  });
+});
+
+// ============================================================================
+// Run server
+// ============================================================================
+
+describe('serveQuery mmr', () => {
+  let baseDir: string;
+  let runId: string;
+
+  beforeAll(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-run-mmr-'));
+    runId = uuidv4();
+    const { runDir } = await initRunManager(baseDir).ensureRun(runId);
+
+    await fs.writeFile(path.join(runDir, 'normalized', 'chunks.jsonl'), VERSIONED.map((d, i) => JSON.stringify({
+      chunk_id: d.id,
+      doc_id: d.id,
+      chunk_index: i,
+      content: { text: d.text },
+      metadata: {},
+    })).join('\n') + '\n');
+    await fs.writeFile(path.join(runDir, 'indexed', 'local.vectors.json'), JSON.stringify({
+      collection: 'local',
+      vectors: VERSIONED.map(d => ({ id: d.id, vector: d.vector, metadata: {}, text: d.text })),
+    }));
+
+    const started = await serveStart(ServeStartInputSchema.parse({ run_id: runId, port: 20000 + Math.floor(Math.random() * 20000) }));
+    if ('isError' in started) throw new Error(started.message);
+  });
+
+  afterAll(async () => {
+    await serveStop({ run_id: runId });
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should diversify semantic results with the stored vectors', async () => {
+    const plain = await serveQuery(ServeQueryInputSchema.parse({ run_id: runId, mode: 'semantic', query_vector: [1, 0, 0], top_k: 2 }));
+    const diverse = await serveQuery(ServeQueryInputSchema.parse({
+      run_id: runId, mode: 'semantic', query_vector: [1, 0, 0], top_k: 2, mmr: { lambda: 0.3 },
+    }));
+    if ('isError' in plain || 'isError' in diverse) throw new Error('query failed');
+
+    expect(plain.results.map(r => r.chunk_id)).toEqual(['v1', 'v2']);
+    expect(diverse.results.map(r => r.chunk_id)).toEqual(['v1', 'trouble']);
+    expect(diverse.mmr_lambda).toBe(0.3);
+  });
+
+  it('should diversify keyword results', async () => {
+    const diverse = await serveQuery(ServeQueryInputSchema.parse({
+      run_id: runId, mode: 'keyword', query: 'install agent', top_k: 2, mmr: { lambda: 0.3 },
+    }));
+    if ('isError' in diverse) throw new Error(diverse.message);
+    expect(diverse.results.map(r => r.chunk_id)).toContain('trouble');
+  });
+});
+
+// ============================================================================
+// Exported server
+// ============================================================================
+
+describe('exported server mmr', () => {
+  const source = generateMcpServerSourceForTest('Test', 'Test server', 8080, true);
+
+  function loadServerFunction(pattern: RegExp, name: string) {
+    const match = source.match(pattern);
+    expect(match).not.toBeNull();
+    const js = ts.transpileModule(match![0], { compilerOptions: { target: ts.ScriptTarget.ES2022 } }).outputText;
+    return new Function('bm25Tokenize', 'cosineSimilarity', `${js}; return ${name};`)(tokenizeBm25, cosineSimilarity);
+  }
+
+  it('should select identically to mmrSelect', () => {
+    const serverSelect = loadServerFunction(/function mmrSelect<[\s\S]*?\n\}\n/, 'mmrSelect') as typeof mmrSelect;
+    const candidates = byScore([0.95, 0.94, 0.93, 0.7]);
+
+    for (const lambda of [0, 0.3, 0.5, 0.8, 1]) {
+      const withVectors = (c: typeof candidates[number]) => ({ vector: c.vector, text: c.text });
+      const withText = (c: typeof candidates[number]) => ({ text: c.text });
+      expect(serverSelect(candidates, 3, lambda, withVectors)).toEqual(mmrSelect(candidates, 3, lambda, withVectors));
+      expect(serverSelect(candidates, 3, lambda, withText)).toEqual(mmrSelect(candidates, 3, lambda, withText));
+    }
+  });
+
+  it('should validate the mmr request option', () => {
+    const parseMmr = loadServerFunction(/function parseMmr\([\s\S]*?\n\}\n/, 'parseMmr') as (value: unknown) => unknown;
+
+    expect(parseMmr(undefined)).toBeUndefined();
+    expect(parseMmr({})).toEqual({ lambda: 0.5 });
+    expect(parseMmr({ lambda: 0.2 })).toEqual({ lambda: 0.2 });
+    expect(typeof parseMmr({ lambda: 2 })).toBe('string');
+    expect(typeof parseMmr('yes')).toBe('string');
+  });
+
+  it('should diversify search and chat context over a built project', async () => {
+    const tempDir = await buildVersionedProject();
+    try {
+      const search = loadExportedSearch(path.join(tempDir, 'projects', 'versioned'));
+      const mmr = { lambda: 0.5 };
+      const texts = (results: Array<{ chunk: { text: string } }>) => results.map(r => r.chunk.text);
+
+      // /search and the search tool: pool, then diversify
+      const plain = search.diversify(search.searchKeyword('install agent', search.mmrPoolSize(2, undefined)), 2, undefined);
+      const diverse = search.diversify(search.searchKeyword('install agent', search.mmrPoolSize(2, mmr)), 2, mmr);
+      expect(texts(plain).every(t => t.startsWith('Version'))).toBe(true);
+      expect(texts(diverse)).toEqual([texts(plain)[0], VERSIONED[3].text]);
+
+      // /chat
+      expect(texts(await search.searchHybrid('install agent', 2))).not.toContain(VERSIONED[3].text);
+      const context = search.diversify(await search.searchHybrid('install agent', search.mmrPoolSize(2, mmr)), 2, mmr);
+      expect(texts(context)).toContain(VERSIONED[3].text);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Pipeline Orchestration Tests
+ *
+ * These tests define the contract for indexfoundry_pipeline_run, which runs
+ * connect → extract → normalize → index → serve in a single call.
+ *
+ * Feature Requirements:
+ * - Each phase's outputs feed the next phase
+ * - Every phase is recorded in the run manifest via startPhase/completePhase
+ * - A PipelineResult is returned, including partial results on failure
+ * - stop_on_error halts after the first failed phase
+ * - Exceptions thrown inside a phase are recorded with that phase's error
+ *   code (EMBED_ERROR, DB_ERROR, ...), not CONFIG_INVALID
+ *
+ * Integration Points:
+ * - src/tools/pipeline.ts - pipelineRun orchestration
+ * - src/schemas.ts - PipelineRunInputSchema
+ * - src/run-manager.ts - phase bookkeeping
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+
+import * as indexTools from '../src/tools/index.js';
+import { initRunManager } from '../src/run-manager.js';
+import { PipelineRunInputSchema } from '../src/schemas.js';
+import { pipelineRun } from '../src/tools/pipeline.js';
+import type { PipelineResult, RunManifest } from '../src/types.js';
+
+// Exceptions to throw from the index tools, set per test
+const thrown = vi.hoisted(() => ({ embed: null as Error | null, upsert: null as Error | null }));
+
+vi.mock('../src/tools/index.js', async importOriginal => {
+  const actual = await importOriginal<typeof indexTools>();
+  return {
+    ...actual,
+    indexEmbed: (...args: Parameters<typeof actual.indexEmbed>) =>
+      thrown.embed ? Promise.reject(thrown.embed) : actual.indexEmbed(...args),
+    indexUpsert: (...args: Parameters<typeof actual.indexUpsert>) =>
+      thrown.upsert ? Promise.reject(thrown.upsert) : actual.indexUpsert(...args),
+  };
+});
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+let baseDir: string;
+let docsDir: string;
+
+function buildInput(overrides: Record<string, unknown> = {}) {
+  return PipelineRunInputSchema.parse({
+    connect: { sources: [{ type: 'folder', path: docsDir, glob: '**/*.md' }] },
+    normalize: { max_chars: 400, overlap_chars: 40, detect_language: false },
+    index: {
+      embedding_model: 'local-test',
+      embedding_provider: 'local',
+      vector_db: { provider: 'local', collection: 'docs' },
+    },
+    ...overrides,
+  });
+}
+
+function expectResult(result: unknown): PipelineResult {
+  expect(result).not.toHaveProperty('isError');
+  return result as PipelineResult;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('pipelineRun', () => {
+  beforeAll(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-pipeline-'));
+    docsDir = path.join(baseDir, 'docs');
+    await fs.mkdir(docsDir, { recursive: true });
+    await fs.writeFile(
+      path.join(docsDir, 'install.md'),
+      '# Installation\n\n' + 'Install the package with npm and configure the server. '.repeat(20)
+    );
+    await fs.writeFile(
+      path.join(docsDir, 'usage.md'),
+      '# Usage\n\n' + 'Query the index through the search endpoint with a text query. '.repeat(20)
+    );
+    initRunManager(baseDir);
+  });
+
+  afterAll(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    thrown.embed = null;
+    thrown.upsert = null;
+  });
+
+  it('should run every phase and feed outputs forward', async () => {
+    const result = expectResult(await pipelineRun(buildInput()));
+
+    expect(result.status).toBe('completed');
+    expect(result.phases.connect.status).toBe('completed');
+    expect(result.phases.extract.status).toBe('completed');
+    expect(result.phases.normalize.status).toBe('completed');
+    expect(result.phases.index.status).toBe('completed');
+    expect(result.phases.serve).toBeUndefined();
+
+    expect(result.summary.sources_fetched).toBe(2);
+    expect(result.phases.extract.artifacts_created).toBe(2);
+    expect(result.summary.chunks_indexed).toBeGreaterThan(0);
+    expect(result.summary.chunks_indexed).toBe(result.phases.normalize.artifacts_created);
+
+    const runDir = path.dirname(result.manifest_path);
+    const vectors = JSON.parse(await fs.readFile(path.join(runDir, 'indexed', 'docs.vectors.json'), 'utf-8'));
+    expect(vectors.vectors.length).toBe(result.summary.chunks_indexed);
+  });
+
+  it('should record each phase in the run manifest', async () => {
+    const result = expectResult(await pipelineRun(buildInput()));
+    const manifest = JSON.parse(await fs.readFile(result.manifest_path, 'utf-8')) as RunManifest;
+
+    expect(manifest.status).toBe('completed');
+    for (const phase of ['connect', 'extract', 'normalize', 'index'] as const) {
+      expect(manifest.phases[phase]?.status).toBe('completed');
+      expect(manifest.phases[phase]?.completed_at).toBeDefined();
+    }
+    expect(manifest.totals.sources_fetched).toBe(2);
+    expect(manifest.totals.vectors_indexed).toBe(result.summary.chunks_indexed);
+  });
+
+  it('should skip remaining phases after a failure when stop_on_error is true', async () => {
+    const result = expectResult(await pipelineRun(buildInput({
+      connect: {
+        sources: [
+          { type: 'folder', path: docsDir, glob: '**/*.md' },
+          { type: 'pdf', source: path.join(baseDir, 'missing.pdf') },
+        ],
+      },
+      stop_on_error: true,
+    })));
+
+    expect(result.phases.connect.status).toBe('failed');
+    expect(result.phases.connect.errors.length).toBeGreaterThan(0);
+    expect(result.phases.extract.status).toBe('skipped');
+    expect(result.phases.index.status).toBe('skipped');
+    expect(result.status).toBe('failed');
+  });
+
+  it('should return a partial result when continuing past errors', async () => {
+    const result = expectResult(await pipelineRun(buildInput({
+      connect: {
+        sources: [
+          { type: 'folder', path: docsDir, glob: '**/*.md' },
+          { type: 'pdf', source: path.join(baseDir, 'missing.pdf') },
+        ],
+      },
+      stop_on_error: false,
+    })));
+
+    expect(result.phases.connect.status).toBe('failed');
+    expect(result.phases.index.status).toBe('completed');
+    expect(result.summary.chunks_indexed).toBeGreaterThan(0);
+    expect(result.summary.errors).toBeGreaterThan(0);
+    expect(result.status).toBe('partial');
+
+    const manifest = JSON.parse(await fs.readFile(result.manifest_path, 'utf-8')) as RunManifest;
+    expect(manifest.status).toBe('partial');
+    expect(manifest.phases.connect?.errors.length).toBeGreaterThan(0);
+  });
+
+  it('should record exceptions with the failing step\'s error code', async () => {
+    thrown.embed = new Error('embedding service unreachable');
+    const embedFailed = expectResult(await pipelineRun(buildInput()));
+    const embedManifest = JSON.parse(await fs.readFile(embedFailed.manifest_path, 'utf-8')) as RunManifest;
+    expect(embedManifest.phases.index?.errors).toMatchObject([{ code: 'EMBED_ERROR', message: 'embedding service unreachable' }]);
+
+    thrown.embed = null;
+    thrown.upsert = new Error('vector store rejected the batch');
+    const upsertFailed = expectResult(await pipelineRun(buildInput()));
+    const upsertManifest = JSON.parse(await fs.readFile(upsertFailed.manifest_path, 'utf-8')) as RunManifest;
+    expect(upsertManifest.phases.index?.errors).toMatchObject([{ code: 'DB_ERROR', message: 'vector store rejected the batch' }]);
+    expect(upsertFailed.status).toBe('failed');
+  });
+});
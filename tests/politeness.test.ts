@@ -0,0 +1,299 @@
+/**
+ * Polite Fetching Tests
+ *
+ * These tests define the contract for robots.txt compliance and per-host
+ * politeness in the fetchers.
+ *
+ * Feature Requirements:
+ * - robots.txt fetched and cached per origin; rules evaluated for the
+ *   configured user_agent's product token (falling back to `*`)
+ * - Longest match wins, allow wins ties, `*` and `$` wildcards
+ * - Crawl-delay and host_delay_ms space requests to one host
+ * - 429/503 retried with exponential backoff, honoring Retry-After
+ * - Disallowed URLs reported by connect_url, connect_sitemap and connect_crawl
+ * - Project builds fetch with the configured connect defaults and report
+ *   disallowed sitemap pages in the build result and source stats
+ *
+ * Integration Points:
+ * - src/tools/politeness.ts - robots parsing, PoliteFetcher
+ * - src/tools/connect.ts - connectUrl, connectSitemap, connectCrawl
+ * - src/tools/projects.ts - sitemap sources in projectBuild
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+  parseRobotsTxt,
+  isAllowedByRobots,
+  parseRetryAfter,
+  productToken,
+  politeFetcher,
+  PoliteFetcher,
+  type PolitenessOptions,
+} from '../src/tools/politeness.js';
+import { initRunManager } from '../src/run-manager.js';
+import { connectUrl, connectSitemap, connectCrawl } from '../src/tools/connect.js';
+import { initProjectManager, projectCreate, projectAddSource, projectBuild } from '../src/tools/projects.js';
+import { ConnectUrlInputSchema, ConnectSitemapInputSchema, ConnectCrawlInputSchema } from '../src/schemas.js';
+
+const ROBOTS = `
+# Everyone
+User-agent: *
+Disallow: /private
+Allow: /private/open
+Disallow: /*.pdf$
+
+User-agent: OtherBot
+User-agent: IndexFoundry
+Disallow: /drafts/
+Crawl-delay: 0.2
+`;
+
+const OPTIONS: PolitenessOptions = {
+  user_agent: 'IndexFoundry/1.0',
+  respect_robots_txt: true,
+  host_delay_ms: 0,
+  max_retries: 3,
+  retry_base_ms: 10,
+  max_retry_wait_ms: 1000,
+};
+
+// ============================================================================
+// robots.txt Rules
+// ============================================================================
+
+describe('parseRobotsTxt / isAllowedByRobots', () => {
+  it('should select the group naming our product token', () => {
+    const rules = parseRobotsTxt(ROBOTS, 'IndexFoundry/1.0 (RAG indexing bot)');
+
+    expect(productToken('IndexFoundry/1.0 (RAG indexing bot)')).toBe('indexfoundry');
+    expect(rules.crawl_delay_ms).toBe(200);
+    expect(isAllowedByRobots(rules, 'https://example.com/drafts/a')).toBe(false);
+    expect(isAllowedByRobots(rules, 'https://example.com/private')).toBe(true);
+  });
+
+  it('should fall back to * with longest match and wildcards', () => {
+    const rules = parseRobotsTxt(ROBOTS, 'SomeCrawler/2.0');
+
+    expect(rules.crawl_delay_ms).toBeUndefined();
+    expect(isAllowedByRobots(rules, 'https://example.com/private/notes')).toBe(false);
+    expect(isAllowedByRobots(rules, 'https://example.com/private/open/page')).toBe(true);
+    expect(isAllowedByRobots(rules, 'https://example.com/docs/manual.pdf')).toBe(false);
+    expect(isAllowedByRobots(rules, 'https://example.com/docs/manual.pdf?v=2')).toBe(true);
+    expect(isAllowedByRobots(rules, 'https://example.com/robots.txt')).toBe(true);
+  });
+
+  it('should allow everything without matching groups', () => {
+    expect(isAllowedByRobots(parseRobotsTxt('User-agent: Other\nDisallow: /', 'IndexFoundry'), 'https://example.com/x')).toBe(true);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should read delta seconds and HTTP dates', () => {
+    const nowMs = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('2', nowMs)).toBe(2000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', nowMs)).toBe(5000);
+    expect(parseRetryAfter('soon', nowMs)).toBeNull();
+    expect(parseRetryAfter(null, nowMs)).toBeNull();
+  });
+});
+
+// ============================================================================
+// PoliteFetcher and Connectors
+// ============================================================================
+
+interface Site {
+  origin: string;
+  requests: Array<{ url: string; at: number; agent?: string }>;
+  close(): Promise<void>;
+}
+
+async function startSite(handler: (url: string, res: http.ServerResponse) => void): Promise<Site> {
+  const requests: Site['requests'] = [];
+  const server = http.createServer((req, res) => {
+    requests.push({ url: req.url!, at: Date.now(), agent: req.headers['user-agent'] });
+    handler(req.url!, res);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+function html(res: http.ServerResponse, body: string): void {
+  res.writeHead(200, { 'Content-Type': 'text/html' });
+  res.end(`<html><body>${body}</body></html>`);
+}
+
+describe('PoliteFetcher', () => {
+  let site: Site;
+  let attempts = 0;
+
+  beforeAll(async () => {
+    site = await startSite((url, res) => {
+      if (url === '/robots.txt') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('User-agent: *\nDisallow: /private\nCrawl-delay: 0.1');
+      } else if (url === '/busy') {
+        attempts++;
+        if (attempts < 3) {
+          res.writeHead(attempts === 1 ? 429 : 503, { 'Retry-After': '0' });
+          res.end();
+        } else {
+          html(res, 'ok');
+        }
+      } else if (url === '/overloaded') {
+        res.writeHead(503, { 'Retry-After': '3600' });
+        res.end();
+      } else {
+        html(res, url);
+      }
+    });
+  });
+
+  afterAll(async () => {
+    await site.close();
+  });
+
+  it('should fetch robots.txt once and refuse disallowed URLs', async () => {
+    const fetcher = new PoliteFetcher();
+
+    await expect(fetcher.fetch(`${site.origin}/private/x`, {}, OPTIONS)).rejects.toThrow('Disallowed by');
+    const response = await fetcher.fetch(`${site.origin}/public`, {}, OPTIONS);
+    expect(response.status).toBe(200);
+    expect(site.requests.filter(r => r.url === '/robots.txt')).toHaveLength(1);
+    expect(site.requests.at(-1)?.agent).toBe('IndexFoundry/1.0');
+  });
+
+  it('should space requests to a host by Crawl-delay', async () => {
+    const fetcher = new PoliteFetcher();
+    site.requests.length = 0;
+
+    await Promise.all(['/a', '/b', '/c'].map(p => fetcher.fetch(`${site.origin}${p}`, {}, OPTIONS)));
+
+    const pages = site.requests.filter(r => r.url !== '/robots.txt').map(r => r.at);
+    expect(pages).toHaveLength(3);
+    expect(pages[2] - pages[0]).toBeGreaterThanOrEqual(190);
+  });
+
+  it('should retry 429/503 and give up on long Retry-After', async () => {
+    const fetcher = new PoliteFetcher();
+
+    const busy = await fetcher.fetch(`${site.origin}/busy`, {}, OPTIONS);
+    expect(busy.status).toBe(200);
+    expect(attempts).toBe(3);
+
+    site.requests.length = 0;
+    const overloaded = await fetcher.fetch(`${site.origin}/overloaded`, {}, OPTIONS);
+    expect(overloaded.status).toBe(503);
+    expect(site.requests.filter(r => r.url === '/overloaded')).toHaveLength(1);
+  });
+
+  it('should disallow everything when robots.txt returns a server error', async () => {
+    const broken = await startSite((url, res) => {
+      res.writeHead(url === '/robots.txt' ? 500 : 200);
+      res.end();
+    });
+    try {
+      const fetcher = new PoliteFetcher();
+      expect(await fetcher.isAllowed(`${broken.origin}/anything`, OPTIONS)).toBe(false);
+      expect(await fetcher.isAllowed(`${broken.origin}/anything`, { ...OPTIONS, respect_robots_txt: false })).toBe(true);
+    } finally {
+      await broken.close();
+    }
+  });
+});
+
+describe('connectors and robots.txt', () => {
+  let baseDir: string;
+  let site: Site;
+
+  beforeAll(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-politeness-'));
+    const { security, defaults } = initRunManager(baseDir).getConfig();
+    initRunManager(baseDir, {
+      security: { ...security, blocked_domains: [] },
+      defaults: { ...defaults, connect: { ...defaults.connect, host_delay_ms: 0, retry_base_ms: 10 } },
+    });
+
+    site = await startSite((url, res) => {
+      if (url === '/robots.txt') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('User-agent: IndexFoundry\nDisallow: /private\n\nUser-agent: ProjectBot\nDisallow: /docs\n');
+      } else if (url === '/sitemap.xml') {
+        res.writeHead(200, { 'Content-Type': 'application/xml' });
+        res.end(`<urlset><url><loc>${site.origin}/docs</loc></url><url><loc>${site.origin}/private/a</loc></url></urlset>`);
+      } else if (url === '/') {
+        html(res, '<a href="/docs">Docs</a> <a href="/private/b">Private</a>');
+      } else {
+        html(res, `<article><h1>Page ${url}</h1><p>${'Polite crawlers read robots.txt before fetching anything else. '.repeat(3)}</p></article>`);
+      }
+    });
+  });
+
+  beforeEach(() => {
+    politeFetcher.clear();
+  });
+
+  afterAll(async () => {
+    await site.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should return ROBOTS_DISALLOWED from connectUrl', async () => {
+    const result = await connectUrl(ConnectUrlInputSchema.parse({ run_id: uuidv4(), url: `${site.origin}/private/a` }));
+
+    expect(result).toMatchObject({ isError: true, code: 'ROBOTS_DISALLOWED' });
+    expect(site.requests.some(r => r.url === '/private/a')).toBe(false);
+  });
+
+  it('should report disallowed sitemap and crawl URLs', async () => {
+    const sitemap = await connectSitemap(ConnectSitemapInputSchema.parse({
+      run_id: uuidv4(), sitemap_url: `${site.origin}/sitemap.xml`,
+    }));
+    if ('isError' in sitemap) throw new Error(sitemap.message);
+    expect(sitemap).toMatchObject({ urls_fetched: 1, urls_failed: 0, urls_disallowed: 1, disallowed_urls: [`${site.origin}/private/a`] });
+
+    const crawl = await connectCrawl(ConnectCrawlInputSchema.parse({ run_id: uuidv4(), start_url: `${site.origin}/` }));
+    if ('isError' in crawl) throw new Error(crawl.message);
+    expect(crawl).toMatchObject({ urls_fetched: 2, urls_disallowed: 1, disallowed_urls: [`${site.origin}/private/b`] });
+    expect(site.requests.some(r => r.url.startsWith('/private'))).toBe(false);
+  });
+
+  it('should build sitemap sources with the configured user agent and report disallowed pages', async () => {
+    const { security, defaults } = initRunManager(baseDir).getConfig();
+    initRunManager(baseDir, {
+      security: { ...security, blocked_domains: [] },
+      defaults: { ...defaults, connect: { ...defaults.connect, user_agent: 'ProjectBot/1.0', host_delay_ms: 0, retry_base_ms: 10 } },
+    });
+    initProjectManager(baseDir);
+    site.requests.length = 0;
+
+    const created = await projectCreate({
+      project_id: 'robots',
+      name: 'Robots',
+      embedding_model: { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' },
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    if ('isError' in created) throw new Error(created.message);
+    const added = await projectAddSource({ project_id: 'robots', sitemap_url: `${site.origin}/sitemap.xml`, max_pages: 100, tags: [] });
+    if ('isError' in added) throw new Error(added.message);
+    const built = await projectBuild({ project_id: 'robots', force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+
+    const source = JSON.parse(await fs.readFile(path.join(baseDir, 'projects', 'robots', 'sources.jsonl'), 'utf-8'));
+    expect(built.disallowed_urls).toEqual([{ source_id: source.source_id, url: `${site.origin}/docs` }]);
+    expect(source.stats).toMatchObject({ files_fetched: 1, files_disallowed: 1 });
+    expect(site.requests.some(r => r.url === '/docs')).toBe(false);
+    expect(site.requests.every(r => r.agent === 'ProjectBot/1.0')).toBe(true);
+  }, 20000);
+});
@@ -0,0 +1,167 @@
+/**
+ * Project Debug Query Tests
+ *
+ * These tests define the contract for debugging project queries.
+ *
+ * Feature Requirements:
+ * - Trace load, filter, embed, search and fuse steps over data/chunks.jsonl
+ *   and data/vectors.jsonl
+ * - Report keyword and semantic ranks separately for each result
+ * - Rank like project_query for the same mode and filters
+ * - Compare expected vs actual and explain where missing chunks went
+ * - Export the report inside the project
+ *
+ * Integration Points:
+ * - src/tools/projects.ts - projectDebugQuery
+ * - src/tools/debug.ts - DebugQueryResult and shared helpers
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+
+import {
+  initProjectManager,
+  projectCreate,
+  projectAddSource,
+  projectBuild,
+  projectQuery,
+  projectDebugQuery,
+} from '../src/tools/projects.js';
+import { ProjectQuerySchema, ProjectDebugQuerySchema } from '../src/schemas-projects.js';
+import type { DebugQueryResult } from '../src/tools/debug.js';
+
+const DOCS = [
+  'Room D40 holds the binding circle. Wardens renew the circle every winter.',
+  'The library stores scrolls about binding spells and warding glyphs.',
+  'Candles line the chapel walls; the chapel candles burn all night.',
+  'The kitchen feeds the wardens twice a day with bread and stew.',
+];
+
+describe('projectDebugQuery', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-project-debug-'));
+    initProjectManager(tempDir);
+
+    const created = await projectCreate({
+      project_id: 'debug',
+      name: 'Debug',
+      embedding_model: { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' },
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    if ('isError' in created) throw new Error(created.message);
+
+    const dir = path.join(tempDir, 'docs');
+    await fs.mkdir(dir, { recursive: true });
+    for (const [i, text] of DOCS.entries()) {
+      await fs.writeFile(path.join(dir, `doc-${i}.md`), text);
+    }
+    const added = await projectAddSource({ project_id: 'debug', folder_path: dir, source_name: 'docs', tags: ['lore'] });
+    if ('isError' in added) throw new Error(added.message);
+
+    const built = await projectBuild({ project_id: 'debug', force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function debug(input: Record<string, unknown>): Promise<DebugQueryResult> {
+    const result = await projectDebugQuery(ProjectDebugQuerySchema.parse({ project_id: 'debug', ...input }));
+    if ('isError' in result) throw new Error(result.message);
+    return result;
+  }
+
+  async function chunkIdOf(text: string): Promise<string> {
+    const chunks = (await fs.readFile(path.join(tempDir, 'projects', 'debug', 'data', 'chunks.jsonl'), 'utf-8'))
+      .trim().split('\n').map(line => JSON.parse(line));
+    return chunks.find(c => c.text === text).chunk_id;
+  }
+
+  it('should trace load, filter, embed, search and fuse in order', async () => {
+    const result = await debug({ query: 'binding wardens' });
+
+    expect(result.trace.map(s => s.step)).toEqual(['load', 'filter', 'embed', 'search', 'fuse']);
+    expect(result.trace[0].details).toMatchObject({ chunks_loaded: DOCS.length, vectors_loaded: DOCS.length });
+    expect(result.trace[4].details).toMatchObject({ mode: 'hybrid', fusion_method: 'rrf', alpha: 0.7 });
+
+    const minimal = await debug({ query: 'binding wardens', options: { trace_level: 'minimal' } });
+    expect(minimal.trace.map(s => s.step)).toEqual(['embed', 'search', 'fuse']);
+  });
+
+  it('should rank like project_query in every mode', async () => {
+    for (const mode of ['semantic', 'keyword', 'hybrid'] as const) {
+      const query = 'D40 binding wardens';
+      const expected = await projectQuery(ProjectQuerySchema.parse({ project_id: 'debug', query, mode, top_k: 4 }));
+      if ('isError' in expected) throw new Error(expected.message);
+      const result = await debug({ query, mode, options: { top_k: 4 } });
+
+      expect(result.results.map(r => r.chunk_id)).toEqual(expected.results.map(r => r.chunk_id));
+      result.results.forEach((r, i) => expect(r.score).toBeCloseTo(expected.results[i].score, 10));
+    }
+  });
+
+  it('should report keyword and semantic ranks separately', async () => {
+    const result = await debug({ query: 'candles chapel', options: { top_k: 4 } });
+
+    const candles = result.results.find(r => r.text_preview === DOCS[2])!;
+    expect(candles.keyword_rank).toBe(1);
+    expect(candles.semantic_rank).toBeGreaterThanOrEqual(1);
+    expect(candles.semantic_score).toBeGreaterThan(0);
+
+    // Chunks without a keyword match have no keyword rank
+    const kitchen = result.results.find(r => r.text_preview === DOCS[3])!;
+    expect(kitchen.keyword_rank).toBeUndefined();
+    expect(kitchen.semantic_rank).toBeDefined();
+    expect(kitchen.doc_id).toBe(candles.doc_id);
+  });
+
+  it('should explain why expected chunks are missing', async () => {
+    const kitchen = await chunkIdOf(DOCS[3]);
+    const result = await debug({
+      query: 'candles chapel',
+      expected: { chunk_ids: [kitchen, 'not-a-chunk'] },
+      options: { top_k: 1 },
+    });
+
+    expect(result.comparison?.expected_missing).toEqual([kitchen, 'not-a-chunk']);
+    expect(result.comparison?.recall).toBe(0);
+    expect(result.diagnostics.suggestions).toContain('Expected chunk not-a-chunk is not in the project; rebuild or check the chunk ID');
+    expect(result.diagnostics.suggestions.some(s => /^Expected chunk \S+ ranks #\d+ \(keyword unranked, semantic #\d+\)$/.test(s))).toBe(true);
+
+    const filtered = await debug({
+      query: 'candles chapel',
+      filter_tags: ['other'],
+      expected: { chunk_ids: [kitchen] },
+    });
+    expect(filtered.results).toEqual([]);
+    expect(filtered.trace.find(s => s.step === 'filter')?.details).toMatchObject({ candidates_before: DOCS.length, candidates_after: 0 });
+    expect(filtered.diagnostics.issue).toBe('No results returned');
+    expect(filtered.diagnostics.suggestions).toContain(`Expected chunk ${kitchen} is excluded by the query filters`);
+  });
+
+  it('should export the report inside the project', async () => {
+    const result = await debug({ query: 'binding', options: { export_report: true, include_embeddings: true } });
+
+    expect(result.query_embedding).toHaveLength(256);
+    expect(path.dirname(result.report_path!)).toBe(path.join(tempDir, 'projects', 'debug', 'debug'));
+    const report = JSON.parse(await fs.readFile(result.report_path!, 'utf-8'));
+    expect(report.results).toEqual(result.results);
+  });
+
+  it('should reject unknown projects and invalid filters', async () => {
+    const missing = await projectDebugQuery(ProjectDebugQuerySchema.parse({ project_id: 'missing', query: 'x' }));
+    expect(missing).toMatchObject({ isError: true, code: 'NOT_FOUND' });
+
+    const invalid = await projectDebugQuery(ProjectDebugQuerySchema.parse({
+      project_id: 'debug', query: 'x', filters: { 'position.index': { near: 1 } },
+    }));
+    expect(invalid).toMatchObject({ isError: true, code: 'FILTER_INVALID' });
+
+    expect(ProjectDebugQuerySchema.safeParse({ project_id: 'debug', query: 'x', rerank: {} }).success).toBe(false);
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * Qdrant Provider Tests
+ *
+ * These tests define the contract for the qdrant provider of indexUpsert
+ * and for searching it through serveQuery.
+ *
+ * Feature Requirements:
+ * - The collection is created with the embedding dimension and distance
+ * - Points are upserted in batches with metadata_fields as payload
+ * - upsert_mode: insert skips existing points, upsert overwrites them,
+ *   replace clears the collection (or only the namespace) first
+ * - Namespaces are isolated within a collection
+ * - serveStart/serveQuery run semantic search through Qdrant
+ * - mmr diversifies Qdrant results by text (no vectors are held locally)
+ *
+ * Integration Points:
+ * - src/tools/qdrant.ts - REST client
+ * - src/tools/index.ts - indexUpsert qdrant branch
+ * - src/tools/serve.ts - Qdrant-backed semantic search
+ *
+ * A small in-process HTTP server stands in for Qdrant and implements the
+ * endpoints used by the client.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+import { initRunManager } from '../src/run-manager.js';
+import { IndexUpsertInputSchema } from '../src/schemas.js';
+import { indexUpsert } from '../src/tools/index.js';
+import { serveStart, serveStop, serveQuery } from '../src/tools/serve.js';
+import { qdrantBaseUrl, qdrantPointId } from '../src/tools/qdrant.js';
+import { writeRunData } from './helpers/run-data.js';
+
+// ============================================================================
+// Qdrant Stand-in
+// ============================================================================
+
+interface StoredPoint {
+  id: string;
+  vector: number[];
+  payload: Record<string, unknown>;
+}
+
+interface StoredCollection {
+  size: number;
+  distance: string;
+  points: Map<string, StoredPoint>;
+}
+
+type Condition = { key: string; match: { value?: unknown; any?: unknown[] } };
+
+/** Request body fields the Qdrant client sends */
+interface QdrantBody {
+  vectors?: { size: number; distance: string };
+  points?: StoredPoint[];
+  vector?: number[];
+  filter?: { must: Condition[] };
+  limit?: number;
+  ids?: string[];
+}
+
+interface FakeQdrant {
+  url: string;
+  collections: Map<string, StoredCollection>;
+  requests: Array<{ method: string; path: string; headers: http.IncomingHttpHeaders; body: QdrantBody }>;
+  close(): Promise<void>;
+}
+
+function matches(point: StoredPoint, filter?: { must: Condition[] }): boolean {
+  return (filter?.must ?? []).every(c =>
+    c.match.any ? c.match.any.includes(point.payload[c.key]) : point.payload[c.key] === c.match.value
+  );
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(na) * Math.sqrt(nb) || 1);
+}
+
+async function startFakeQdrant(): Promise<FakeQdrant> {
+  const collections = new Map<string, StoredCollection>();
+  const requests: FakeQdrant['requests'] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body: QdrantBody = raw ? JSON.parse(raw) : {};
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push({ method: req.method!, path: url.pathname, headers: req.headers, body });
+
+      const send = (status: number, data: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+
+      const match = url.pathname.match(/^\/collections\/([^/]+)(\/points(?:\/(search|delete))?)?$/);
+      if (!match) return send(404, { status: { error: 'Not found' } });
+
+      const name = decodeURIComponent(match[1]);
+      const collection = collections.get(name);
+
+      if (!match[2]) {
+        if (req.method === 'GET') {
+          if (!collection) return send(404, { status: { error: `Collection \`${name}\` doesn't exist!` } });
+          return send(200, {
+            result: {
+              status: 'green',
+              points_count: collection.points.size,
+              config: { params: { vectors: { size: collection.size, distance: collection.distance } } },
+            },
+            status: 'ok',
+          });
+        }
+        if (req.method === 'PUT') {
+          if (collection) return send(409, { status: { error: 'Collection already exists' } });
+          collections.set(name, { size: body.vectors!.size, distance: body.vectors!.distance, points: new Map() });
+          return send(200, { result: true, status: 'ok' });
+        }
+        if (req.method === 'DELETE') {
+          collections.delete(name);
+          return send(200, { result: true, status: 'ok' });
+        }
+      }
+
+      if (!collection) return send(404, { status: { error: `Collection \`${name}\` doesn't exist!` } });
+
+      if (match[3] === 'search') {
+        const results = [...collection.points.values()]
+          .filter(p => matches(p, body.filter))
+          .map(p => ({ id: p.id, version: 0, score: cosine(body.vector!, p.vector), payload: p.payload }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, body.limit);
+        return send(200, { result: results, status: 'ok' });
+      }
+
+      if (match[3] === 'delete') {
+        for (const [id, point] of collection.points) {
+          if (matches(point, body.filter)) collection.points.delete(id);
+        }
+        return send(200, { result: { status: 'completed' }, status: 'ok' });
+      }
+
+      if (req.method === 'PUT') {
+        for (const point of body.points!) {
+          if (point.vector.length !== collection.size) {
+            return send(400, { status: { error: 'Wrong input: Vector dimension error' } });
+          }
+          collection.points.set(point.id, point);
+        }
+        return send(200, { result: { status: 'completed' }, status: 'ok' });
+      }
+
+      // POST /points: retrieve by ids
+      const found = body.ids!.filter(id => collection.points.has(id)).map(id => ({ id }));
+      return send(200, { result: found, status: 'ok' });
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    collections,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('qdrantBaseUrl', () => {
+  it('should accept bare hosts and full URLs', () => {
+    expect(qdrantBaseUrl({})).toBe('http://localhost:6333');
+    expect(qdrantBaseUrl({ host: 'qdrant.internal', port: 7000 })).toBe('http://qdrant.internal:7000');
+    expect(qdrantBaseUrl({ host: 'https://xyz.cloud.qdrant.io' })).toBe('https://xyz.cloud.qdrant.io');
+  });
+});
+
+describe('indexUpsert (qdrant)', () => {
+  let baseDir: string;
+  let runDir: string;
+  let qdrant: FakeQdrant;
+  const runId = uuidv4();
+
+  const upsert = (overrides: Record<string, unknown> = {}, connection: Record<string, unknown> = {}) => {
+    const url = new URL(qdrant.url);
+    return indexUpsert(IndexUpsertInputSchema.parse({
+      run_id: runId,
+      provider: 'qdrant',
+      connection: { host: url.hostname, port: Number(url.port), collection: 'energy', ...connection },
+      batch_size: 4,
+      ...overrides,
+    }));
+  };
+
+  beforeAll(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-qdrant-'));
+    const manager = initRunManager(baseDir);
+    ({ runDir } = await manager.ensureRun(runId));
+    await writeRunData(runDir, 10);
+  });
+
+  beforeEach(async () => {
+    qdrant = await startFakeQdrant();
+  });
+
+  afterAll(async () => {
+    await qdrant?.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should create the collection and batch-upsert points with payload', async () => {
+    const result = await upsert({ distance: 'dot' });
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.success).toBe(true);
+    expect(result.stats).toMatchObject({ vectors_sent: 10, vectors_inserted: 10, vectors_updated: 0, vectors_failed: 0 });
+    expect(result.vector_manifest).toMatchObject({ provider: 'qdrant', collection: 'energy', dimensions: 4 });
+
+    const collection = qdrant.collections.get('energy')!;
+    expect(collection.size).toBe(4);
+    expect(collection.distance).toBe('Dot');
+    expect(collection.points.size).toBe(10);
+
+    const upserts = qdrant.requests.filter(r => r.method === 'PUT' && r.path.endsWith('/points'));
+    expect(upserts.map(r => r.body.points!.length)).toEqual([4, 4, 2]);
+
+    const point = collection.points.get(qdrantPointId('chunk-1'))!;
+    expect(point.payload).toEqual({
+      source_uri: 'file://doc-1.md',
+      source_type: 'markdown',
+      metadata_language: 'en',
+      position_page: 2,
+      chunk_id: 'chunk-1',
+      text: 'Chunk 1 discusses wind turbines in detail.',
+    });
+
+    await qdrant.close();
+  });
+
+  it('should count updates in upsert mode and skip existing points in insert mode', async () => {
+    await upsert();
+    const again = await upsert();
+    if ('isError' in again) throw new Error(again.message);
+    expect(again.stats).toMatchObject({ vectors_inserted: 0, vectors_updated: 10 });
+
+    const collection = qdrant.collections.get('energy')!;
+    collection.points.delete(qdrantPointId('chunk-0'));
+    const writesBefore = qdrant.requests.filter(r => r.method === 'PUT' && r.path.endsWith('/points')).length;
+
+    const inserted = await upsert({ upsert_mode: 'insert' });
+    if ('isError' in inserted) throw new Error(inserted.message);
+    expect(inserted.stats).toMatchObject({ vectors_inserted: 1, vectors_updated: 0, vectors_skipped: 9 });
+
+    const writes = qdrant.requests.filter(r => r.method === 'PUT' && r.path.endsWith('/points')).slice(writesBefore);
+    expect(writes.flatMap(r => r.body.points!.map(p => p.payload.chunk_id))).toEqual(['chunk-0']);
+
+    await qdrant.close();
+  });
+
+  it('should isolate namespaces and replace only the target namespace', async () => {
+    await upsert({}, { namespace: 'tenant-a' });
+    await upsert({}, { namespace: 'tenant-b' });
+    const collection = qdrant.collections.get('energy')!;
+    expect(collection.points.size).toBe(20);
+
+    // Stale point in tenant-a that replace should clear
+    collection.points.set('stale', { id: 'stale', vector: [0, 0, 0, 1], payload: { namespace: 'tenant-a', chunk_id: 'old' } });
+
+    const replaced = await upsert({ upsert_mode: 'replace' }, { namespace: 'tenant-a' });
+    if ('isError' in replaced) throw new Error(replaced.message);
+
+    expect(replaced.stats.vectors_inserted).toBe(10);
+    expect(collection.points.has('stale')).toBe(false);
+    expect([...collection.points.values()].filter(p => p.payload.namespace === 'tenant-b')).toHaveLength(10);
+
+    await qdrant.close();
+  });
+
+  it('should recreate the collection on replace without a namespace', async () => {
+    qdrant.collections.set('energy', { size: 8, distance: 'Cosine', points: new Map() });
+
+    const mismatch = await upsert();
+    expect(mismatch).toHaveProperty('isError', true);
+    if ('isError' in mismatch) expect(mismatch.message).toContain('dimension 8');
+
+    const replaced = await upsert({ upsert_mode: 'replace' });
+    if ('isError' in replaced) throw new Error(replaced.message);
+    expect(qdrant.collections.get('energy')!.size).toBe(4);
+
+    await qdrant.close();
+  });
+
+  it('should send the API key header from api_key_env', async () => {
+    process.env.TEST_QDRANT_KEY = 'secret-key';
+    try {
+      await upsert({}, { api_key_env: 'TEST_QDRANT_KEY' });
+      expect(qdrant.requests.every(r => r.headers['api-key'] === 'secret-key')).toBe(true);
+
+      const manifest = JSON.parse(await fs.readFile(path.join(runDir, 'indexed', 'vector_manifest.json'), 'utf-8'));
+      expect(JSON.stringify(manifest)).not.toContain('secret-key');
+    } finally {
+      delete process.env.TEST_QDRANT_KEY;
+      await qdrant.close();
+    }
+  });
+
+  it('should return DB_ERROR when Qdrant is unreachable', async () => {
+    await qdrant.close();
+    const result = await upsert();
+    expect(result).toHaveProperty('isError', true);
+  });
+});
+
+describe('serveQuery (qdrant)', () => {
+  let baseDir: string;
+  let qdrant: FakeQdrant;
+  const runId = uuidv4();
+
+  beforeAll(async () => {
+    qdrant = await startFakeQdrant();
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-qdrant-serve-'));
+    const manager = initRunManager(baseDir);
+    const { runDir } = await manager.ensureRun(runId);
+    await writeRunData(runDir, 9);
+
+    const url = new URL(qdrant.url);
+    const upserted = await indexUpsert(IndexUpsertInputSchema.parse({
+      run_id: runId,
+      provider: 'qdrant',
+      connection: { host: url.hostname, port: Number(url.port), collection: 'served', namespace: 'prod' },
+      store_text: false,
+    }));
+    if ('isError' in upserted) throw new Error(upserted.message);
+
+    const started = await serveStart({
+      run_id: runId,
+      host: '127.0.0.1',
+      port: 20000 + Math.floor(Math.random() * 20000),
+      log_requests: false,
+    });
+    if ('isError' in started) throw new Error(started.message);
+  });
+
+  afterAll(async () => {
+    await serveStop({ run_id: runId });
+    await qdrant.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should run semantic search through Qdrant', async () => {
+    const result = await serveQuery({
+      run_id: runId,
+      mode: 'semantic',
+      query_vector: [0, 1, 0, 0],
+      top_k: 3,
+      include_text: true,
+    });
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.results.map(r => r.chunk_id).sort()).toEqual(['chunk-1', 'chunk-4', 'chunk-7']);
+    // Text was not stored in Qdrant, so it comes from the local chunks
+    expect(result.results[0].text).toContain('wind turbines');
+    expect(result.results[0].metadata).toMatchObject({ source_type: 'markdown' });
+    expect(result.results[0].metadata).not.toHaveProperty('namespace');
+
+    const search = qdrant.requests.find(r => r.path.endsWith('/points/search'))!;
+    expect(search.body.filter!.must).toContainEqual({ key: 'namespace', match: { value: 'prod' } });
+  });
+
+  it('should pass metadata filters to Qdrant', async () => {
+    const result = await serveQuery({
+      run_id: runId,
+      mode: 'semantic',
+      query_vector: [0, 1, 0, 0],
+      top_k: 3,
+      filters: { source_uri: 'file://doc-0.md' },
+      include_text: true,
+    });
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.results[0].chunk_id).toBe('chunk-4');
+    expect(result.results.every(r => r.metadata.source_uri === 'file://doc-0.md')).toBe(true);
+  });
+
+  it('should combine Qdrant and local keyword results in hybrid mode', async () => {
+    const result = await serveQuery({
+      run_id: runId,
+      mode: 'hybrid',
+      query: 'battery storage',
+      query_vector: [0, 0, 1, 0],
+      top_k: 3,
+      include_text: true,
+    });
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.mode).toBe('hybrid');
+    expect(result.results.map(r => r.chunk_id).sort()).toEqual(['chunk-2', 'chunk-5', 'chunk-8']);
+  });
+
+  it('should diversify Qdrant results by text with mmr', async () => {
+    // chunk-1, chunk-4 and chunk-7 share a vector and differ by one word
+    const result = await serveQuery({
+      run_id: runId,
+      mode: 'semantic',
+      query_vector: [0, 1, 0, 0],
+      top_k: 3,
+      include_text: true,
+      mmr: { lambda: 0.1 },
+    });
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.results).toHaveLength(3);
+    expect(result.results[0].text).toContain('wind turbines');
+    expect(result.results.filter(r => r.text?.includes('wind turbines')).length).toBeLessThan(3);
+  });
+});
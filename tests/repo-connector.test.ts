@@ -0,0 +1,264 @@
+/**
+ * Git Repository Connector Tests
+ *
+ * These tests define the contract for ingesting git repositories.
+ *
+ * Feature Requirements:
+ * - connect_repo reads a local path or file:// clone at a branch, tag or commit
+ * - Path globs and exclude patterns select files
+ * - Raw manifest entries record the commit SHA and per-file blob hashes
+ * - Re-running at a new commit only writes changed files
+ * - Chunks cite path@commit (normalize_chunk source.uri, project chunk metadata)
+ * - Project repo sources rebuild only changed files and drop deleted ones
+ *
+ * Integration Points:
+ * - src/tools/git-repo.ts - ref resolution, tree listing, glob selection
+ * - src/tools/connect.ts - connectRepo
+ * - src/tools/normalize.ts - repo provenance from the raw manifest
+ * - src/tools/projects.ts - repo sources in projectAddSource / projectBuild
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { pathToFileURL } from 'url';
+import { v4 as uuidv4 } from 'uuid';
+import { glob } from 'glob';
+
+import { initRunManager } from '../src/run-manager.js';
+import { connectRepo } from '../src/tools/connect.js';
+import { extractDocument } from '../src/tools/extract.js';
+import { normalizeChunk } from '../src/tools/normalize.js';
+import { selectRepoFiles } from '../src/tools/git-repo.js';
+import { initProjectManager, projectCreate, projectAddSource, projectBuild } from '../src/tools/projects.js';
+import { ConnectRepoInputSchema, ExtractDocumentInputSchema, NormalizeChunkInputSchema } from '../src/schemas.js';
+import type { ChunkRecord, SourceRecord } from '../src/schemas-projects.js';
+import type { DocumentChunk, RawArtifact } from '../src/types.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.email=test@example.com', '-c', 'user.name=Test', ...args], {
+    cwd,
+    encoding: 'utf-8',
+  }).trim();
+}
+
+async function commitFiles(repo: string, files: Record<string, string | null>, message: string): Promise<string> {
+  for (const [file, content] of Object.entries(files)) {
+    const full = path.join(repo, file);
+    if (content === null) {
+      await fs.rm(full);
+    } else {
+      await fs.mkdir(path.dirname(full), { recursive: true });
+      await fs.writeFile(full, content);
+    }
+  }
+  git(repo, 'add', '-A');
+  git(repo, 'commit', '-q', '-m', message);
+  return git(repo, 'rev-parse', 'HEAD');
+}
+
+async function readJsonl<T>(file: string): Promise<T[]> {
+  const raw = await fs.readFile(file, 'utf-8');
+  return raw.trim().split('\n').filter(Boolean).map(line => JSON.parse(line) as T);
+}
+
+describe('selectRepoFiles', () => {
+  const paths = ['README.md', '.github/ci.md', 'docs/a.txt', 'docs/sub/a.md', 'docs/.draft.md', 'src/a.ts', 'src/ab.ts', 'src/b.test.ts', 'notes{.md'];
+  const select = (glob: string) =>
+    selectRepoFiles(paths.map(p => ({ path: p, blob_sha: 'x', size_bytes: 1 })), { glob }).map(f => f.path).sort();
+
+  it('should select the same files as the glob used for folder sources', async () => {
+    const dir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-repo-glob-'));
+    try {
+      for (const p of paths) {
+        await fs.mkdir(path.dirname(path.join(dir, p)), { recursive: true });
+        await fs.writeFile(path.join(dir, p), '');
+      }
+      for (const pattern of ['**/*', '**/*.md', 'docs/*.{md,txt}', 'src/?.ts', 'src/+(a|ab).ts', 'src/!(*.test).ts', 'docs/**', 'notes{.md']) {
+        const folder = (await glob(pattern, { cwd: dir, nodir: true })).map(f => f.split(path.sep).join('/')).sort();
+        expect(select(pattern), pattern).toEqual(folder);
+      }
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should match directories, segments and alternatives', () => {
+    expect(select('**/*.md')).toEqual(['README.md', 'docs/sub/a.md', 'notes{.md']);
+    expect(select('docs/*.{md,txt}')).toEqual(['docs/a.txt']);
+    expect(select('src/!(*.test).ts')).toEqual(['src/a.ts', 'src/ab.ts']);
+    expect(select('notes{.md')).toEqual(['notes{.md']);
+  });
+});
+
+describe('connectRepo', () => {
+  let tempDir: string;
+  let repo: string;
+  let first: string;
+  let second: string;
+  const runId = uuidv4();
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-repo-'));
+    initRunManager(tempDir);
+
+    repo = path.join(tempDir, 'repo');
+    await fs.mkdir(repo);
+    git(repo, 'init', '-q', '-b', 'main');
+    first = await commitFiles(repo, {
+      'README.md': '# Service\n\nThe service exposes a health endpoint.',
+      'docs/deploy.md': '# Deploy\n\nDeploys run from the main branch.',
+      'docs/old.md': '# Old\n\nThis page is retired.',
+      'src/index.ts': 'export const x = 1;',
+    }, 'first');
+    git(repo, 'tag', 'v1');
+    second = await commitFiles(repo, {
+      'docs/deploy.md': '# Deploy\n\nDeploys run from release tags.',
+      'docs/old.md': null,
+    }, 'second');
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should read a tag with globs and record commit and blob hashes', async () => {
+    const result = await connectRepo(ConnectRepoInputSchema.parse({
+      run_id: runId, repo: pathToFileURL(repo).href, ref: 'v1', glob: '**/*.md', exclude_patterns: ['^docs/old'],
+    }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.commit).toBe(first);
+    expect(result.previous_commit).toBeUndefined();
+    expect(result.artifacts.map(a => a.repo_path)).toEqual(['README.md', 'docs/deploy.md']);
+    expect(result.files_changed).toBe(2);
+
+    const manifest = await readJsonl<RawArtifact>(path.join(tempDir, 'runs', runId, 'raw', 'raw_manifest.jsonl'));
+    expect(manifest).toHaveLength(2);
+    expect(manifest[0].repo).toEqual({
+      root: repo, ref: 'v1', commit: first, path: 'README.md', blob_sha: git(repo, 'rev-parse', 'v1:README.md'),
+    });
+  });
+
+  it('should only write changed files at a new commit', async () => {
+    const result = await connectRepo(ConnectRepoInputSchema.parse({ run_id: runId, repo, ref: 'main', glob: '**/*.md' }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result).toMatchObject({ commit: second, previous_commit: first, files_changed: 1, files_unchanged: 1 });
+    expect(result.artifacts.find(a => a.repo_path === 'README.md')?.changed).toBe(false);
+    expect(result.artifacts.find(a => a.repo_path === 'docs/deploy.md')?.changed).toBe(true);
+    expect(result.removed_paths).toEqual([]);
+
+    const manifest = await readJsonl<RawArtifact>(path.join(tempDir, 'runs', runId, 'raw', 'raw_manifest.jsonl'));
+    expect(manifest.slice(2).map(a => [a.repo?.path, a.repo?.commit])).toEqual([
+      ['README.md', second],
+      ['docs/deploy.md', second],
+    ]);
+  });
+
+  it('should cite path@commit on normalized chunks', async () => {
+    const result = await connectRepo(ConnectRepoInputSchema.parse({ run_id: runId, repo, ref: second, glob: 'docs/**' }));
+    if ('isError' in result) throw new Error(result.message);
+    const deploy = result.artifacts.find(a => a.repo_path === 'docs/deploy.md')!;
+
+    const extracted = await extractDocument(ExtractDocumentInputSchema.parse({ run_id: runId, doc_path: deploy.path }));
+    if ('isError' in extracted) throw new Error(extracted.message);
+    const chunked = await normalizeChunk(NormalizeChunkInputSchema.parse({
+      run_id: runId, input_paths: [extracted.artifacts.text_file],
+    }));
+    if ('isError' in chunked) throw new Error(chunked.message);
+
+    const chunks = await readJsonl<DocumentChunk>(path.join(tempDir, 'runs', runId, chunked.output_path));
+    expect(chunks[0].source).toMatchObject({ type: 'repo', uri: `docs/deploy.md@${second}` });
+    expect(chunks[0].metadata.custom).toMatchObject({ repo_path: 'docs/deploy.md', commit: second, blob_sha: deploy.blob_sha });
+  });
+
+  it('should reject remote URLs and unknown refs', async () => {
+    expect(await connectRepo(ConnectRepoInputSchema.parse({ run_id: runId, repo: 'https://example.com/x.git' })))
+      .toMatchObject({ isError: true, code: 'FETCH_FAILED' });
+    expect(await connectRepo(ConnectRepoInputSchema.parse({ run_id: runId, repo, ref: 'no-such-branch' })))
+      .toMatchObject({ isError: true, code: 'FETCH_FAILED' });
+    expect(() => ConnectRepoInputSchema.parse({ run_id: runId, repo, ref: '--output=x' })).toThrow();
+  });
+});
+
+describe('repo sources in project builds', () => {
+  let tempDir: string;
+  let repo: string;
+  let projectDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-repo-project-'));
+    initProjectManager(tempDir);
+    projectDir = path.join(tempDir, 'projects', 'code');
+
+    repo = path.join(tempDir, 'repo');
+    await fs.mkdir(repo);
+    git(repo, 'init', '-q', '-b', 'main');
+    await commitFiles(repo, {
+      'README.md': '# Service\n\nThe service exposes a health endpoint.',
+      'docs/deploy.md': '# Deploy\n\nDeploys run from the main branch.',
+      'docs/old.md': '# Old\n\nThis page is retired.',
+      'logo.png': '\0PNG',
+    }, 'first');
+
+    const created = await projectCreate({
+      project_id: 'code',
+      name: 'Code',
+      embedding_model: { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' },
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    if ('isError' in created) throw new Error(created.message);
+    const added = await projectAddSource({
+      project_id: 'code', repo_path: repo, ref: 'main', glob: '**/*', max_pages: 100, tags: [],
+    });
+    if ('isError' in added) throw new Error(added.message);
+    const built = await projectBuild({ project_id: 'code', force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should index repo files with path, commit and blob on each chunk', async () => {
+    const head = git(repo, 'rev-parse', 'HEAD');
+    const chunks = await readJsonl<ChunkRecord>(path.join(projectDir, 'data', 'chunks.jsonl'));
+    const sources = await readJsonl<SourceRecord>(path.join(projectDir, 'sources.jsonl'));
+
+    expect(sources[0]).toMatchObject({ type: 'repo', uri: repo, ref: 'main', commit: head, status: 'completed' });
+    expect(chunks.map(c => c.metadata.file_path).sort()).toEqual(['README.md', 'docs/deploy.md', 'docs/old.md']);
+    const readme = chunks.find(c => c.metadata.file_path === 'README.md')!;
+    expect(readme.metadata).toMatchObject({
+      commit: head, blob_sha: git(repo, 'rev-parse', 'HEAD:README.md'), citation: `README.md@${head}`,
+    });
+  });
+
+  it('should re-extract only changed files when rebuilt at a new commit', async () => {
+    const before = await readJsonl<ChunkRecord>(path.join(projectDir, 'data', 'chunks.jsonl'));
+    const head = await commitFiles(repo, {
+      'docs/deploy.md': '# Deploy\n\nDeploys run from release tags.',
+      'docs/old.md': null,
+    }, 'second');
+
+    const built = await projectBuild({ project_id: 'code', force: true, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+    expect(built.chunks_added).toBe(1);
+
+    const chunks = await readJsonl<ChunkRecord>(path.join(projectDir, 'data', 'chunks.jsonl'));
+    const vectors = await readJsonl<{ chunk_id: string }>(path.join(projectDir, 'data', 'vectors.jsonl'));
+    expect(chunks.map(c => c.metadata.file_path).sort()).toEqual(['README.md', 'docs/deploy.md']);
+    expect(chunks.every(c => c.metadata.citation === `${c.metadata.file_path}@${head}`)).toBe(true);
+    expect(chunks.find(c => c.metadata.file_path === 'docs/deploy.md')!.text).toContain('release tags');
+    expect(vectors.map(v => v.chunk_id).sort()).toEqual(chunks.map(c => c.chunk_id).sort());
+    expect(new Set(chunks.map(c => c.chunk_id)).size).toBe(chunks.length);
+
+    const readme = (rows: ChunkRecord[]) => rows.find(c => c.metadata.file_path === 'README.md')!.chunk_id;
+    expect(readme(chunks)).toBe(readme(before));
+
+    const manifest = JSON.parse(await fs.readFile(path.join(projectDir, 'project.json'), 'utf-8'));
+    expect(manifest.stats.chunks_count).toBe(2);
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * Reranker Tests
+ *
+ * These tests define the contract for the second-stage rerank step.
+ *
+ * Feature Requirements:
+ * - A lexical reranker scores term coverage, proximity and phrases offline
+ * - A cross-encoder reranker calls a configurable HTTP rerank endpoint
+ * - The run profile's retrieval_config.reranker drives serveQuery and the
+ *   run HTTP server; projectQuery accepts a per-query rerank option
+ * - Only the first top_k_to_rerank candidates are reranked
+ * - A failing rerank endpoint falls back to first-stage order
+ * - debugQuery records a rerank trace step listing rank changes
+ *
+ * Integration Points:
+ * - src/tools/rerank.ts - rerankers and rerankCandidates
+ * - src/tools/serve.ts - serveQuery and /search/* routes
+ * - src/tools/projects.ts - projectQuery
+ * - src/tools/debug.ts - debugQuery trace
+ *
+ * A small in-process HTTP server stands in for the cross-encoder endpoint.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+  lexicalRerankScore,
+  LexicalReranker,
+  CrossEncoderReranker,
+  createReranker,
+  rerankCandidates,
+  rerankTraceStep,
+} from '../src/tools/rerank.js';
+import { initRunManager } from '../src/run-manager.js';
+import { ServeQueryInputSchema, ServeStartInputSchema, IndexBuildProfileInputSchema } from '../src/schemas.js';
+import { serveStart, serveStop, serveQuery } from '../src/tools/serve.js';
+import { indexBuildProfile } from '../src/tools/index.js';
+import { debugQuery } from '../src/tools/debug.js';
+import {
+  initProjectManager,
+  projectCreate,
+  projectAddSource,
+  projectBuild,
+  projectQuery,
+} from '../src/tools/projects.js';
+import { ProjectQuerySchema } from '../src/schemas-projects.js';
+
+// ============================================================================
+// Cross-Encoder Stand-in
+// ============================================================================
+
+interface FakeCrossEncoder {
+  url: string;
+  requests: Array<{ headers: http.IncomingHttpHeaders; body: { model?: string; query: string; documents: string[] } }>;
+  close(): Promise<void>;
+}
+
+/**
+ * Scores documents by how often they mention "battery". `style` selects
+ * Cohere/Jina ({ results }) or text-embeddings-inference (array) responses.
+ */
+async function startCrossEncoder(style: 'results' | 'array' | 'error' = 'results'): Promise<FakeCrossEncoder> {
+  const requests: FakeCrossEncoder['requests'] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      requests.push({ headers: req.headers, body });
+
+      if (style === 'error') {
+        res.writeHead(503, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'model loading' }));
+        return;
+      }
+
+      const scored = body.documents.map((doc: string, index: number) => ({
+        index,
+        score: (doc.match(/battery/gi) || []).length / 10,
+      }));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(style === 'array'
+        ? scored
+        : { results: scored.map((s: { index: number; score: number }) => ({ index: s.index, relevance_score: s.score })) }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/rerank`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+// ============================================================================
+// Rerankers
+// ============================================================================
+
+describe('lexicalRerankScore', () => {
+  it('should favour full coverage, close terms and exact phrases', () => {
+    const query = 'solar inverter';
+
+    const phrase = lexicalRerankScore(query, 'A solar inverter converts power.');
+    const near = lexicalRerankScore(query, 'The inverter for solar arrays.');
+    const far = lexicalRerankScore(query, 'Solar panels on the roof feed a large central inverter.');
+    const partial = lexicalRerankScore(query, 'Solar solar solar panels.');
+
+    expect(phrase).toBeCloseTo(1, 5);
+    expect(phrase).toBeGreaterThan(near);
+    expect(near).toBeGreaterThan(far);
+    expect(far).toBeGreaterThan(partial);
+    expect(lexicalRerankScore(query, 'Wind turbines.')).toBe(0);
+  });
+});
+
+describe('rerankCandidates', () => {
+  const candidates = [
+    { id: 'a', score: 0.9, text: 'solar solar solar panels' },
+    { id: 'b', score: 0.8, text: 'the inverter for solar arrays' },
+    { id: 'c', score: 0.7, text: 'a solar inverter' },
+  ];
+  const describeHit = (c: typeof candidates[number]) => ({ id: c.id, text: c.text });
+
+  it('should reorder the window and report rank changes', async () => {
+    const outcome = await rerankCandidates('solar inverter', candidates, new LexicalReranker(), 10, describeHit);
+
+    expect(outcome.results.map(r => r.id)).toEqual(['c', 'b', 'a']);
+    expect(outcome.reranked).toBe(3);
+    expect(outcome.changes[0]).toMatchObject({ id: 'c', from_rank: 3, to_rank: 1, first_stage_score: 0.7 });
+
+    const step = rerankTraceStep(outcome);
+    expect(step.step).toBe('rerank');
+    expect(step.details).toMatchObject({ reranker: 'lexical', candidates_reranked: 3, rank_changes: 2 });
+    expect((step.details.changes as Array<{ id: string }>).map(c => c.id)).toEqual(['c', 'a']);
+  });
+
+  it('should leave candidates beyond top_k_to_rerank in place', async () => {
+    const outcome = await rerankCandidates('solar inverter', candidates, new LexicalReranker(), 2, describeHit);
+
+    expect(outcome.results.map(r => r.id)).toEqual(['b', 'a', 'c']);
+    expect(outcome.results[2].score).toBe(0.7);
+  });
+
+  it('should keep first-stage order when the reranker fails', async () => {
+    const encoder = await startCrossEncoder('error');
+    try {
+      const outcome = await rerankCandidates('solar', candidates, new CrossEncoderReranker(encoder.url), 10, describeHit);
+
+      expect(outcome.results).toEqual(candidates);
+      expect(outcome.error).toContain('503');
+      expect(rerankTraceStep(outcome).details).toMatchObject({ fallback: 'first_stage_order', scores_adjusted: false });
+    } finally {
+      await encoder.close();
+    }
+  });
+});
+
+describe('CrossEncoderReranker', () => {
+  it.each(['results', 'array'] as const)('should read %s responses in input order', async style => {
+    const encoder = await startCrossEncoder(style);
+    process.env.RERANK_TEST_KEY = 'secret';
+    try {
+      const reranker = createReranker({
+        enabled: true,
+        provider: 'cross_encoder',
+        model: 'bge-reranker-base',
+        endpoint: encoder.url,
+        api_key_env: 'RERANK_TEST_KEY',
+        top_k_to_rerank: 10,
+      });
+      if ('isError' in reranker) throw new Error(reranker.message);
+
+      expect(reranker.name).toBe('cross_encoder:bge-reranker-base');
+      expect(await reranker.score('storage', ['solar', 'battery battery', 'battery'])).toEqual([0, 0.2, 0.1]);
+      expect(encoder.requests[0].body).toMatchObject({ model: 'bge-reranker-base', query: 'storage', documents: ['solar', 'battery battery', 'battery'] });
+      expect(encoder.requests[0].headers.authorization).toBe('Bearer secret');
+    } finally {
+      delete process.env.RERANK_TEST_KEY;
+      await encoder.close();
+    }
+  });
+
+  it('should require an endpoint', () => {
+    const result = createReranker({ enabled: true, provider: 'cross_encoder', top_k_to_rerank: 10 });
+    expect(result).toMatchObject({ isError: true, code: 'CONFIG_INVALID' });
+  });
+});
+
+// ============================================================================
+// Run server
+// ============================================================================
+
+const RUN_CHUNKS = [
+  { id: 'c1', text: 'solar solar solar panels', vector: [1, 0] },
+  { id: 'c2', text: 'the inverter for solar arrays', vector: [0.9, 0.1] },
+  { id: 'c3', text: 'battery storage for solar battery banks', vector: [0.5, 0.5] },
+];
+
+async function startRunWithReranker(baseDir: string, reranker: Record<string, unknown>): Promise<{ runId: string; endpoint: string }> {
+  const runId = uuidv4();
+  const manager = initRunManager(baseDir);
+  const { runDir } = await manager.ensureRun(runId);
+
+  await fs.writeFile(path.join(runDir, 'normalized', 'chunks.jsonl'), RUN_CHUNKS.map((c, i) => JSON.stringify({
+    chunk_id: c.id,
+    doc_id: 'd1',
+    chunk_index: i,
+    content: { text: c.text },
+    metadata: {},
+  })).join('\n') + '\n');
+  await fs.writeFile(path.join(runDir, 'indexed', 'local.vectors.json'), JSON.stringify({
+    collection: 'local',
+    vectors: RUN_CHUNKS.map(c => ({ id: c.id, vector: c.vector, metadata: {}, text: c.text })),
+  }));
+
+  const profile = await indexBuildProfile(IndexBuildProfileInputSchema.parse({
+    run_id: runId,
+    retrieval_config: { default_top_k: 2, search_modes: ['keyword', 'semantic'], reranker: { enabled: true, ...reranker } },
+  }));
+  if ('isError' in profile) throw new Error(profile.message);
+
+  const started = await serveStart(ServeStartInputSchema.parse({ run_id: runId, port: 20000 + Math.floor(Math.random() * 20000) }));
+  if ('isError' in started) throw new Error(started.message);
+  return { runId, endpoint: started.endpoint };
+}
+
+describe('run server reranking', () => {
+  let baseDir: string;
+  let encoder: FakeCrossEncoder;
+  let lexicalRun: { runId: string; endpoint: string };
+  let crossEncoderRun: { runId: string; endpoint: string };
+
+  beforeAll(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-rerank-'));
+    encoder = await startCrossEncoder();
+    lexicalRun = await startRunWithReranker(baseDir, { provider: 'lexical' });
+    crossEncoderRun = await startRunWithReranker(baseDir, { provider: 'cross_encoder', endpoint: encoder.url, top_k_to_rerank: 3 });
+  });
+
+  afterAll(async () => {
+    await serveStop({ run_id: lexicalRun.runId });
+    await serveStop({ run_id: crossEncoderRun.runId });
+    await encoder.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should rerank serveQuery keyword results with the lexical reranker', async () => {
+    const result = await serveQuery(ServeQueryInputSchema.parse({ run_id: lexicalRun.runId, mode: 'keyword', query: 'solar inverter', top_k: 1 }));
+    if ('isError' in result) throw new Error(result.message);
+
+    // First-stage term frequency puts c1 first; c2 has both terms close together
+    expect(result.reranker).toBe('lexical');
+    expect(result.results.map(r => r.chunk_id)).toEqual(['c2']);
+  });
+
+  it('should rerank semantic results when a text query is given', async () => {
+    const withText = await serveQuery(ServeQueryInputSchema.parse({
+      run_id: crossEncoderRun.runId, mode: 'semantic', query: 'storage', query_vector: [1, 0], top_k: 1,
+    }));
+    if ('isError' in withText) throw new Error(withText.message);
+    expect(withText.results[0].chunk_id).toBe('c3');
+    expect(withText.reranker).toBe('cross_encoder');
+    expect(encoder.requests.at(-1)!.body.documents).toHaveLength(3);
+
+    const vectorOnly = await serveQuery(ServeQueryInputSchema.parse({
+      run_id: crossEncoderRun.runId, mode: 'semantic', query_vector: [1, 0], top_k: 1,
+    }));
+    if ('isError' in vectorOnly) throw new Error(vectorOnly.message);
+    expect(vectorOnly.results[0].chunk_id).toBe('c1');
+    expect(vectorOnly.reranker).toBeUndefined();
+  });
+
+  it('should rerank HTTP search routes', async () => {
+    const res = await fetch(`${crossEncoderRun.endpoint}/search/keyword`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'solar', top_k: 1 }),
+    });
+    const body = await res.json() as { results: Array<{ chunk_id: string }>; reranker?: string };
+
+    expect(res.status).toBe(200);
+    expect(body.reranker).toBe('cross_encoder');
+    expect(body.results.map(r => r.chunk_id)).toEqual(['c3']);
+  });
+});
+
+// ============================================================================
+// project_query
+// ============================================================================
+
+describe('projectQuery rerank', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-project-rerank-'));
+    initProjectManager(tempDir);
+
+    const created = await projectCreate({
+      project_id: 'reranked',
+      name: 'Reranked',
+      embedding_model: { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' },
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    if ('isError' in created) throw new Error(created.message);
+
+    const dir = path.join(tempDir, 'docs');
+    await fs.mkdir(dir, { recursive: true });
+    for (const [i, c] of RUN_CHUNKS.entries()) {
+      await fs.writeFile(path.join(dir, `doc-${i}.md`), c.text);
+    }
+    const added = await projectAddSource({ project_id: 'reranked', folder_path: dir, source_name: 'docs' });
+    if ('isError' in added) throw new Error(added.message);
+
+    const built = await projectBuild({ project_id: 'reranked', force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should rerank when the rerank option is given', async () => {
+    const plain = await projectQuery(ProjectQuerySchema.parse({ project_id: 'reranked', query: 'solar inverter', mode: 'keyword', top_k: 3 }));
+    const reranked = await projectQuery(ProjectQuerySchema.parse({
+      project_id: 'reranked', query: 'solar inverter', mode: 'keyword', top_k: 1, rerank: { provider: 'lexical' },
+    }));
+    if ('isError' in plain || 'isError' in reranked) throw new Error('query failed');
+
+    expect(plain.reranker).toBeUndefined();
+    expect(reranked.reranker).toBe('lexical');
+    expect(reranked.results[0].text).toBe('the inverter for solar arrays');
+    expect(reranked.results[0].score).toBeCloseTo(lexicalRerankScore('solar inverter', 'the inverter for solar arrays'), 10);
+  });
+
+  it('should reject a cross-encoder without an endpoint', async () => {
+    const result = await projectQuery(ProjectQuerySchema.parse({
+      project_id: 'reranked', query: 'solar', rerank: { provider: 'cross_encoder' },
+    }));
+    expect(result).toMatchObject({ isError: true, code: 'CONFIG_INVALID' });
+  });
+});
+
+// ============================================================================
+// debug_query
+// ============================================================================
+
+describe('debugQuery rerank step', () => {
+  const runId = uuidv4();
+  const runsDir = path.join(process.cwd(), '.indexfoundry', 'runs', runId);
+
+  beforeAll(async () => {
+    await fs.mkdir(path.join(runsDir, 'normalized'), { recursive: true });
+    await fs.mkdir(path.join(runsDir, 'indexed'), { recursive: true });
+
+    const texts = ['unrelated text about wind', 'solar panels', 'a solar inverter'];
+    await fs.writeFile(path.join(runsDir, 'normalized', 'chunks.jsonl'), texts.map((text, i) => JSON.stringify({
+      chunk_id: `chunk-${i}`,
+      doc_id: 'doc',
+      chunk_index: i,
+      source: { type: 'markdown', uri: 'test://doc.md', retrieved_at: '2024-01-01T00:00:00Z', content_hash: 'h' },
+      content: { text, text_hash: `t${i}`, char_count: text.length, token_count_approx: 4 },
+      position: { byte_start: 0, byte_end: text.length },
+      metadata: { content_type: 'text/markdown' },
+    })).join('\n'));
+    await fs.writeFile(path.join(runsDir, 'indexed', 'embeddings.jsonl'), texts.map((_, i) => JSON.stringify({
+      chunk_id: `chunk-${i}`,
+      embedding: Array.from({ length: 8 }, (_, d) => (d === i ? 1 : 0.1)),
+    })).join('\n'));
+    await fs.writeFile(path.join(runsDir, 'indexed', 'retrieval_profile.json'), JSON.stringify({
+      retrieval: { default_top_k: 3, search_modes: ['semantic'], reranker: { enabled: true, provider: 'lexical', top_k_to_rerank: 3 } },
+    }));
+  });
+
+  afterAll(async () => {
+    await fs.rm(runsDir, { recursive: true, force: true });
+  });
+
+  it('should trace the profile reranker with rank changes', async () => {
+    const result = await debugQuery({ run_id: runId, query: 'solar inverter', options: { top_k: 3 } } as Parameters<typeof debugQuery>[0]);
+
+    const step = result.trace.find(t => t.step === 'rerank');
+    expect(step?.details).toMatchObject({ reranker: 'lexical', candidates_reranked: 3, scores_adjusted: true });
+    expect(result.results[0].chunk_id).toBe('chunk-2');
+    expect(result.results[2].chunk_id).toBe('chunk-0');
+
+    const changes = step!.details.changes as Array<{ id: string; from_rank: number; to_rank: number }>;
+    for (const change of changes) {
+      expect(change.from_rank).not.toBe(change.to_rank);
+      expect(result.results[change.to_rank - 1].chunk_id).toBe(change.id);
+    }
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Retrieval Evaluation Tests
+ *
+ * These tests define the contract for retrieval evaluation suites.
+ *
+ * Feature Requirements:
+ * - Named query sets stored per project or run
+ * - precision@k, recall@k, MRR and nDCG@k per query and in aggregate
+ * - Queries run through project_query (projects) and serve_query (runs)
+ * - Timestamped reports compared to the previous evaluation of the same set
+ *
+ * Integration Points:
+ * - src/tools/eval.ts - evalSetSave, evalRun, evalList, scoreRanking
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+  evalSetSave,
+  evalRun,
+  evalList,
+  scoreRanking,
+  EvalSetSaveSchema,
+  EvalRunSchema,
+  EvalListSchema,
+  type EvalRunResult,
+} from '../src/tools/eval.js';
+import {
+  initProjectManager,
+  projectCreate,
+  projectAddSource,
+  projectBuild,
+} from '../src/tools/projects.js';
+import { initRunManager } from '../src/run-manager.js';
+import { serveStart, serveStop } from '../src/tools/serve.js';
+import { ServeStartInputSchema } from '../src/schemas.js';
+
+// ============================================================================
+// scoreRanking
+// ============================================================================
+
+describe('scoreRanking', () => {
+  const ranking = ['a', 'b', 'c', 'd'].map(id => ({ chunk_id: id, doc_id: `doc-${id}` }));
+
+  it('should score a ranking against expected chunks', () => {
+    const score = scoreRanking(ranking, { chunk_ids: ['b', 'd', 'z'] }, 4);
+
+    expect(score.precision_at_k).toBe(2 / 4);
+    expect(score.recall_at_k).toBe(2 / 3);
+    expect(score.mrr).toBe(1 / 2);
+    expect(score.first_relevant_rank).toBe(2);
+    const dcg = 1 / Math.log2(3) + 1 / Math.log2(5);
+    const idcg = 1 + 1 / Math.log2(3) + 1 / Math.log2(4);
+    expect(score.ndcg_at_k).toBeCloseTo(dcg / idcg, 10);
+    expect(score.expected_found).toEqual(['b', 'd']);
+    expect(score.expected_missing).toEqual(['z']);
+  });
+
+  it('should ignore results past k', () => {
+    const score = scoreRanking(ranking, { chunk_ids: ['d'] }, 3);
+
+    expect(score).toMatchObject({ precision_at_k: 0, recall_at_k: 0, mrr: 0, ndcg_at_k: 0, first_relevant_rank: null });
+  });
+
+  it('should credit each expected document once', () => {
+    const sameDoc = [
+      { chunk_id: 'a1', doc_id: 'a' },
+      { chunk_id: 'a2', doc_id: 'a' },
+      { chunk_id: 'b1', doc_id: 'b' },
+    ];
+    const score = scoreRanking(sameDoc, { doc_ids: ['a', 'b'] }, 3);
+
+    expect(score.recall_at_k).toBe(1);
+    expect(score.precision_at_k).toBe(2 / 3);
+    expect(score.expected_found).toEqual(['a', 'b']);
+    expect(score.ndcg_at_k).toBeLessThan(1);
+  });
+
+  it('should give a perfect ranking a score of 1', () => {
+    const score = scoreRanking(ranking, { chunk_ids: ['a'], doc_ids: ['doc-b'] }, 2);
+
+    expect(score).toMatchObject({ precision_at_k: 1, recall_at_k: 1, mrr: 1, ndcg_at_k: 1 });
+  });
+});
+
+// ============================================================================
+// Project evaluation
+// ============================================================================
+
+const DOCS = [
+  'Room D40 holds the binding circle. Wardens renew the circle every winter.',
+  'The library stores scrolls about binding spells and warding glyphs.',
+  'Candles line the chapel walls; the chapel candles burn all night.',
+  'The kitchen feeds the wardens twice a day with bread and stew.',
+];
+
+describe('project evaluation', () => {
+  let tempDir: string;
+  let chunkIds: string[];
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-eval-'));
+    initProjectManager(tempDir);
+
+    const created = await projectCreate({
+      project_id: 'evals',
+      name: 'Evals',
+      embedding_model: { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' },
+      chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+    });
+    if ('isError' in created) throw new Error(created.message);
+
+    const dir = path.join(tempDir, 'docs');
+    await fs.mkdir(dir, { recursive: true });
+    for (const [i, text] of DOCS.entries()) {
+      await fs.writeFile(path.join(dir, `doc-${i}.md`), text);
+    }
+    const added = await projectAddSource({ project_id: 'evals', folder_path: dir, source_name: 'docs' });
+    if ('isError' in added) throw new Error(added.message);
+    const built = await projectBuild({ project_id: 'evals', force: false, dry_run: false });
+    if ('isError' in built) throw new Error(built.message);
+
+    const chunks = (await fs.readFile(path.join(tempDir, 'projects', 'evals', 'data', 'chunks.jsonl'), 'utf-8'))
+      .trim().split('\n').map(line => JSON.parse(line));
+    chunkIds = DOCS.map(text => chunks.find(c => c.text === text).chunk_id);
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function save(queries: unknown[]) {
+    const saved = await evalSetSave(EvalSetSaveSchema.parse({ project_id: 'evals', name: 'golden', queries }));
+    if ('isError' in saved) throw new Error(saved.message);
+    return saved;
+  }
+
+  async function run(): Promise<EvalRunResult> {
+    const result = await evalRun(EvalRunSchema.parse({ project_id: 'evals', name: 'golden', k: 2, mode: 'keyword' }));
+    if ('isError' in result) throw new Error(result.message);
+    return result;
+  }
+
+  it('should store a query set inside the project', async () => {
+    const saved = await save([
+      { query: 'chapel candles', expected: { chunk_ids: [chunkIds[2]] } },
+      { id: 'kitchen', query: 'bread and stew', expected: { chunk_ids: [chunkIds[3]] } },
+    ]);
+
+    expect(saved).toMatchObject({ name: 'golden', queries: 2, created: true });
+    expect(saved.path).toBe(path.join(tempDir, 'projects', 'evals', 'evals', 'sets', 'golden.json'));
+    const set = JSON.parse(await fs.readFile(saved.path, 'utf-8'));
+    expect(set.queries.map((q: { id: string }) => q.id)).toEqual(['q1', 'kitchen']);
+  });
+
+  it('should score queries through project_query and save a report', async () => {
+    const result = await run();
+
+    expect(result.queries.map(q => q.retrieved[0])).toEqual([chunkIds[2], chunkIds[3]]);
+    expect(result.aggregate).toEqual({ precision_at_k: 0.5, recall_at_k: 1, mrr: 1, ndcg_at_k: 1 });
+    expect(result.previous).toBeUndefined();
+    expect(result.regressions).toEqual([]);
+
+    const report = JSON.parse(await fs.readFile(result.report_path, 'utf-8'));
+    expect(report.aggregate).toEqual(result.aggregate);
+    expect(path.dirname(result.report_path)).toBe(path.join(tempDir, 'projects', 'evals', 'evals', 'results', 'golden'));
+  });
+
+  it('should report regressions against the previous evaluation', async () => {
+    // The kitchen query now expects a chunk it does not retrieve
+    await save([
+      { query: 'chapel candles', expected: { chunk_ids: [chunkIds[2]] } },
+      { id: 'kitchen', query: 'bread and stew', expected: { chunk_ids: [chunkIds[0]] } },
+    ]);
+    const result = await run();
+
+    expect(result.previous?.aggregate.recall_at_k).toBe(1);
+    expect(result.delta?.recall_at_k).toBe(-0.5);
+    expect(result.regressions).toContainEqual({ id: 'kitchen', metric: 'recall_at_k', before: 1, after: 0 });
+    expect(result.regressions.every(r => r.id === 'kitchen')).toBe(true);
+  });
+
+  it('should list sets with their history, newest first', async () => {
+    const listed = await evalList(EvalListSchema.parse({ project_id: 'evals' }));
+    if ('isError' in listed) throw new Error(listed.message);
+
+    expect(listed.sets).toHaveLength(1);
+    expect(listed.sets[0]).toMatchObject({ name: 'golden', queries: 2 });
+    expect(listed.sets[0].history.map(h => h.aggregate.recall_at_k)).toEqual([0.5, 1]);
+    expect(listed.sets[0].history[0].regressions).toBeGreaterThan(0);
+  });
+
+  it('should reject missing targets, sets and duplicate ids', async () => {
+    expect(await evalRun(EvalRunSchema.parse({ project_id: 'evals', name: 'missing' })))
+      .toMatchObject({ isError: true, code: 'EVAL_NOT_FOUND' });
+    expect(await evalRun(EvalRunSchema.parse({ project_id: 'nope', name: 'golden' })))
+      .toMatchObject({ isError: true, code: 'NOT_FOUND' });
+    expect(await evalList(EvalListSchema.parse({})))
+      .toMatchObject({ isError: true, code: 'INVALID_INPUT' });
+    expect(await evalSetSave(EvalSetSaveSchema.parse({
+      project_id: 'evals', name: 'dupes', queries: [
+        { id: 'x', query: 'a', expected: { chunk_ids: ['a'] } },
+        { id: 'x', query: 'b', expected: { chunk_ids: ['b'] } },
+      ],
+    }))).toMatchObject({ isError: true, code: 'INVALID_INPUT' });
+    expect(EvalSetSaveSchema.safeParse({ project_id: 'evals', name: 'empty', queries: [{ query: 'a', expected: {} }] }).success)
+      .toBe(false);
+  });
+});
+
+// ============================================================================
+// Run evaluation
+// ============================================================================
+
+describe('run evaluation', () => {
+  let baseDir: string;
+  let runId: string;
+
+  beforeAll(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-run-eval-'));
+    runId = uuidv4();
+    const { runDir } = await initRunManager(baseDir).ensureRun(runId);
+
+    const docs = [
+      { id: 'c1', doc: 'manual', text: 'Install the agent with the setup script.', vector: [1, 0, 0] },
+      { id: 'c2', doc: 'manual', text: 'Configure the agent port in agent.yaml.', vector: [0.8, 0.6, 0] },
+      { id: 'c3', doc: 'faq', text: 'Billing questions go to the finance team.', vector: [0, 0, 1] },
+    ];
+    await fs.writeFile(path.join(runDir, 'normalized', 'chunks.jsonl'), docs.map((d, i) => JSON.stringify({
+      chunk_id: d.id,
+      doc_id: d.doc,
+      chunk_index: i,
+      content: { text: d.text },
+      metadata: {},
+    })).join('\n') + '\n');
+    await fs.writeFile(path.join(runDir, 'indexed', 'local.vectors.json'), JSON.stringify({
+      collection: 'local',
+      vectors: docs.map(d => ({ id: d.id, vector: d.vector, metadata: {}, text: d.text })),
+    }));
+
+    const started = await serveStart(ServeStartInputSchema.parse({ run_id: runId, port: 20000 + Math.floor(Math.random() * 20000) }));
+    if ('isError' in started) throw new Error(started.message);
+  });
+
+  afterAll(async () => {
+    await serveStop({ run_id: runId });
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should score queries through serve_query with run doc_ids', async () => {
+    const saved = await evalSetSave(EvalSetSaveSchema.parse({
+      run_id: runId,
+      name: 'smoke',
+      queries: [
+        { id: 'install', query: 'install agent', query_vector: [1, 0, 0], expected: { doc_ids: ['manual'] } },
+        { id: 'billing', query: 'billing finance', query_vector: [0, 0, 1], expected: { chunk_ids: ['c3'] } },
+      ],
+    }));
+    if ('isError' in saved) throw new Error(saved.message);
+    expect(path.dirname(path.dirname(saved.path))).toBe(path.join(baseDir, 'runs', runId, 'evals'));
+
+    const result = await evalRun(EvalRunSchema.parse({ run_id: runId, name: 'smoke', k: 2, mode: 'semantic' }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.target).toEqual({ run_id: runId });
+    expect(result.queries[0]).toMatchObject({ retrieved: ['c1', 'c2'], expected_found: ['manual'], mrr: 1 });
+    expect(result.queries[1]).toMatchObject({ expected_found: ['c3'], recall_at_k: 1 });
+  });
+});
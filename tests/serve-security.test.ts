@@ -0,0 +1,271 @@
+/**
+ * Serve Security Tests
+ *
+ * These tests define the contract for the access controls that serve_start
+ * applies to its HTTP API.
+ *
+ * Feature Requirements:
+ * - rate_limit is a per-client token bucket; excess requests get 429 with
+ *   a Retry-After header
+ * - cors_origins is an allowlist: listed origins are echoed back, other
+ *   origins get 403; without it any origin is allowed
+ * - security.require_auth in the retrieval profile requires an API key
+ *   (Authorization: Bearer or X-API-Key) on everything except /health
+ * - serve_start refuses to start when auth is required but no key is set
+ * - Rejected requests are written to the run's logs/events.ndjson
+ *
+ * Integration Points:
+ * - src/tools/serve-guard.ts - TokenBucketLimiter, CORS and key helpers
+ * - src/tools/serve.ts - createSearchServer, serveStart
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+import { initRunManager } from '../src/run-manager.js';
+import { ServeStartInputSchema } from '../src/schemas.js';
+import { serveStart, serveStop } from '../src/tools/serve.js';
+import {
+  TokenBucketLimiter,
+  resolveCorsOrigin,
+  presentedApiKey,
+  isValidApiKey,
+} from '../src/tools/serve-guard.js';
+import type { EventLogEntry } from '../src/types.js';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const API_KEY_ENV = 'SERVE_SECURITY_TEST_KEYS';
+
+interface StartedRun {
+  runId: string;
+  runDir: string;
+  baseUrl: string;
+}
+
+/** Create a run with one locally indexed chunk and start its server */
+async function startRun(
+  baseDir: string,
+  options: Record<string, unknown>,
+  security?: Record<string, unknown>
+): Promise<StartedRun | { error: string }> {
+  const runId = uuidv4();
+  const manager = initRunManager(baseDir);
+  const { runDir } = await manager.ensureRun(runId);
+
+  await fs.writeFile(path.join(runDir, 'normalized', 'chunks.jsonl'), JSON.stringify({
+    chunk_id: 'c1',
+    doc_id: 'd1',
+    chunk_index: 0,
+    content: { text: 'solar panels' },
+    metadata: {},
+  }) + '\n');
+  await fs.writeFile(path.join(runDir, 'indexed', 'local.vectors.json'), JSON.stringify({
+    collection: 'local',
+    vectors: [{ id: 'c1', vector: [1, 0], metadata: {}, text: 'solar panels' }],
+  }));
+  if (security) {
+    await fs.writeFile(path.join(runDir, 'indexed', 'retrieval_profile.json'), JSON.stringify({
+      retrieval: { default_top_k: 5, search_modes: ['keyword'] },
+      security,
+    }));
+  }
+
+  const port = 20000 + Math.floor(Math.random() * 20000);
+  const started = await serveStart(ServeStartInputSchema.parse({ run_id: runId, port, ...options }));
+  if ('isError' in started) return { error: started.message };
+  return { runId, runDir, baseUrl: started.endpoint };
+}
+
+function expectStarted(run: StartedRun | { error: string }): StartedRun {
+  if ('error' in run) throw new Error(run.error);
+  return run;
+}
+
+async function readEvents(runDir: string): Promise<EventLogEntry[]> {
+  // Rejections are logged without blocking the response
+  await new Promise(resolve => setTimeout(resolve, 50));
+  const text = await fs.readFile(path.join(runDir, 'logs', 'events.ndjson'), 'utf-8').catch(() => '');
+  return text.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+let baseDir: string;
+const started: string[] = [];
+
+beforeAll(async () => {
+  baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-serve-security-'));
+});
+
+afterAll(async () => {
+  for (const runId of started) {
+    await serveStop({ run_id: runId });
+  }
+  delete process.env[API_KEY_ENV];
+  await fs.rm(baseDir, { recursive: true, force: true });
+});
+
+// ============================================================================
+// Guard helpers
+// ============================================================================
+
+describe('TokenBucketLimiter', () => {
+  it('should allow a burst then refill at the per-minute rate', () => {
+    const limiter = new TokenBucketLimiter({ requests_per_minute: 60, burst: 2 });
+
+    expect(limiter.take('a', 0).allowed).toBe(true);
+    expect(limiter.take('a', 0).allowed).toBe(true);
+    const denied = limiter.take('a', 0);
+    expect(denied.allowed).toBe(false);
+    expect(denied.retry_after_s).toBe(1);
+
+    expect(limiter.take('a', 1000).allowed).toBe(true);
+    expect(limiter.take('a', 1000).allowed).toBe(false);
+  });
+
+  it('should keep separate buckets per client', () => {
+    const limiter = new TokenBucketLimiter({ requests_per_minute: 1, burst: 1 });
+
+    expect(limiter.take('a', 0).allowed).toBe(true);
+    expect(limiter.take('b', 0).allowed).toBe(true);
+    expect(limiter.take('a', 0)).toMatchObject({ allowed: false, retry_after_s: 60 });
+  });
+});
+
+describe('resolveCorsOrigin', () => {
+  it('should allow any origin without an allowlist', () => {
+    expect(resolveCorsOrigin('https://a.example', undefined)).toBe('*');
+  });
+
+  it('should echo listed origins and reject others', () => {
+    const allowed = ['https://a.example/'];
+    expect(resolveCorsOrigin('https://a.example', allowed)).toBe('https://a.example');
+    expect(resolveCorsOrigin('https://evil.example', allowed)).toBeNull();
+    expect(resolveCorsOrigin(undefined, allowed)).toBeUndefined();
+  });
+});
+
+describe('API keys', () => {
+  it('should read bearer and X-API-Key headers', () => {
+    expect(presentedApiKey({ authorization: 'Bearer k1' })).toBe('k1');
+    expect(presentedApiKey({ 'x-api-key': 'k2' })).toBe('k2');
+    expect(presentedApiKey({ authorization: 'Basic abc' })).toBeUndefined();
+  });
+
+  it('should accept any configured key', () => {
+    expect(isValidApiKey('k2', ['k1', 'k2'])).toBe(true);
+    expect(isValidApiKey('k3', ['k1', 'k2'])).toBe(false);
+    expect(isValidApiKey(undefined, ['k1'])).toBe(false);
+  });
+});
+
+// ============================================================================
+// serve_start
+// ============================================================================
+
+describe('serve_start rate_limit', () => {
+  let run: StartedRun;
+
+  beforeAll(async () => {
+    run = expectStarted(await startRun(baseDir, { rate_limit: { requests_per_minute: 1, burst: 2 } }));
+    started.push(run.runId);
+  });
+
+  it('should return 429 with Retry-After once the burst is spent', async () => {
+    expect((await fetch(`${run.baseUrl}/health`)).status).toBe(200);
+    expect((await fetch(`${run.baseUrl}/health`)).status).toBe(200);
+
+    const limited = await fetch(`${run.baseUrl}/health`);
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThanOrEqual(1);
+    expect(await limited.json()).toMatchObject({ reason: 'rate_limited' });
+
+    const events = await readEvents(run.runDir);
+    const rejection = events.find(e => (e.data as { reason?: string })?.reason === 'rate_limited');
+    expect(rejection).toMatchObject({ level: 'warn', tool: 'serve_start', data: { status: 429, path: '/health' } });
+  });
+});
+
+describe('serve_start cors_origins', () => {
+  let run: StartedRun;
+
+  beforeAll(async () => {
+    run = expectStarted(await startRun(baseDir, { cors_origins: ['https://docs.example'] }));
+    started.push(run.runId);
+  });
+
+  it('should echo an allowed origin', async () => {
+    const res = await fetch(`${run.baseUrl}/health`, { headers: { Origin: 'https://docs.example' } });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('access-control-allow-origin')).toBe('https://docs.example');
+    expect(res.headers.get('vary')).toBe('Origin');
+  });
+
+  it('should reject other origins, including preflight', async () => {
+    const res = await fetch(`${run.baseUrl}/stats`, { headers: { Origin: 'https://evil.example' } });
+    expect(res.status).toBe(403);
+    expect(res.headers.get('access-control-allow-origin')).toBeNull();
+
+    const preflight = await fetch(`${run.baseUrl}/search/keyword`, {
+      method: 'OPTIONS',
+      headers: { Origin: 'https://evil.example' },
+    });
+    expect(preflight.status).toBe(403);
+
+    const events = await readEvents(run.runDir);
+    expect(events.filter(e => (e.data as { reason?: string })?.reason === 'origin_not_allowed')).toHaveLength(2);
+  });
+
+  it('should allow requests without an Origin header', async () => {
+    const res = await fetch(`${run.baseUrl}/stats`);
+    expect(res.status).toBe(200);
+    expect((await res.json()).requests_rejected).toBe(2);
+  });
+});
+
+describe('serve_start require_auth', () => {
+  let run: StartedRun;
+
+  beforeAll(async () => {
+    process.env[API_KEY_ENV] = 'key-one, key-two';
+    run = expectStarted(await startRun(baseDir, {}, { require_auth: true, api_key_env: API_KEY_ENV }));
+    started.push(run.runId);
+  });
+
+  it('should reject requests without a valid key', async () => {
+    const missing = await fetch(`${run.baseUrl}/stats`);
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+
+    const wrong = await fetch(`${run.baseUrl}/stats`, { headers: { 'X-API-Key': 'key-three' } });
+    expect(wrong.status).toBe(401);
+
+    const events = await readEvents(run.runDir);
+    expect(events.filter(e => (e.data as { reason?: string })?.reason === 'unauthorized')).toHaveLength(2);
+  });
+
+  it('should accept any configured key', async () => {
+    const bearer = await fetch(`${run.baseUrl}/stats`, { headers: { Authorization: 'Bearer key-one' } });
+    expect(bearer.status).toBe(200);
+
+    const header = await fetch(`${run.baseUrl}/search/keyword`, {
+      method: 'POST',
+      headers: { 'X-API-Key': 'key-two', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'solar' }),
+    });
+    expect(header.status).toBe(200);
+  });
+
+  it('should leave /health open', async () => {
+    expect((await fetch(`${run.baseUrl}/health`)).status).toBe(200);
+  });
+
+  it('should refuse to start when no key is configured', async () => {
+    const result = await startRun(baseDir, {}, { require_auth: true, api_key_env: 'SERVE_SECURITY_UNSET_KEYS' });
+    expect(result).toEqual({ error: expect.stringContaining('SERVE_SECURITY_UNSET_KEYS') });
+  });
+});
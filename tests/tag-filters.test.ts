@@ -0,0 +1,234 @@
+/**
+ * Tag Filter Tests
+ *
+ * These tests define the contract for filter_tags in project_query and
+ * in the exported server's search.
+ *
+ * Feature Requirements:
+ * - Every chunk carries its source's tags in metadata.tags
+ * - filter_tags supports any-of (default) and all-of matching
+ * - Filters apply before top_k truncation, so top_k is filled whenever
+ *   enough matching chunks exist
+ * - Chunks built before tags were recorded fall back to source tags
+ * - The exported server's /search and search tool accept the same filter
+ *
+ * Integration Points:
+ * - src/schemas-projects.ts - ProjectQuerySchema.filter_tags_mode
+ * - src/tools/projects.ts - chunkContent, projectQuery, generated server
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import { mkdtemp, rm, mkdir, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import ts from 'typescript';
+
+import {
+  initProjectManager,
+  projectCreate,
+  projectAddSource,
+  projectBuild,
+  projectQuery,
+  generateMcpServerSourceForTest,
+} from '../src/tools/projects.js';
+import { ProjectQuerySchema } from '../src/schemas-projects.js';
+import type { ChunkRecord } from '../src/schemas-projects.js';
+import { readJsonl, writeJsonl } from '../src/utils.js';
+import { embedLocal } from '../src/tools/local-embedding.js';
+import { loadExportedSearch } from './helpers/exported-server.js';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const PROJECT_ID = 'tagged-kb';
+
+/** Each folder becomes one source; each file one chunk */
+const FOLDERS: Record<string, { tags: string[]; files: Record<string, string> }> = {
+  solar: {
+    tags: ['energy', 'solar'],
+    files: {
+      'panels.md': 'Solar panels convert sunlight into electricity with photovoltaic cells.',
+      'inverters.md': 'Solar inverters turn direct current from panels into alternating current.',
+    },
+  },
+  wind: {
+    tags: ['energy', 'wind'],
+    files: {
+      'turbines.md': 'Wind turbines spin a generator when the wind blows across the blades.',
+    },
+  },
+  baking: {
+    tags: ['kitchen'],
+    files: {
+      'bread.md': 'Bread recipe: flour, water, salt and yeast. Bake the bread recipe at 220 degrees.',
+      'cake.md': 'Cake recipe: flour, sugar, butter and eggs. The cake recipe needs 40 minutes.',
+      'cookies.md': 'Cookie recipe: flour, sugar and chocolate. The cookie recipe bakes quickly.',
+    },
+  },
+};
+
+let tempDir: string;
+
+async function buildProject(): Promise<void> {
+  const created = await projectCreate({
+    project_id: PROJECT_ID,
+    name: 'Tagged KB',
+    embedding_model: { provider: 'local', model_name: 'hash', dimensions: 256, api_key_env: 'OPENAI_API_KEY' },
+    chunk_config: { strategy: 'recursive', max_chars: 1500, overlap_chars: 0 },
+  });
+  expect(created).not.toHaveProperty('isError');
+
+  for (const [folder, { tags, files }] of Object.entries(FOLDERS)) {
+    const dir = path.join(tempDir, 'docs', folder);
+    await mkdir(dir, { recursive: true });
+    for (const [name, text] of Object.entries(files)) {
+      await writeFile(path.join(dir, name), text);
+    }
+    const added = await projectAddSource({ project_id: PROJECT_ID, folder_path: dir, source_name: folder, tags });
+    expect(added).not.toHaveProperty('isError');
+  }
+
+  const built = await projectBuild({ project_id: PROJECT_ID, force: false, dry_run: false });
+  if ('isError' in built) throw new Error(built.message);
+}
+
+function chunksPath(): string {
+  return path.join(tempDir, 'projects', PROJECT_ID, 'data', 'chunks.jsonl');
+}
+
+async function query(input: Record<string, unknown>) {
+  const result = await projectQuery(ProjectQuerySchema.parse({ project_id: PROJECT_ID, ...input }));
+  if ('isError' in result) throw new Error(result.message);
+  return result;
+}
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(path.join(tmpdir(), 'indexfoundry-tags-'));
+  initProjectManager(tempDir);
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+// ============================================================================
+// Build
+// ============================================================================
+
+describe('chunk tags', () => {
+  it('should copy source tags into chunk metadata', async () => {
+    await buildProject();
+
+    const chunks = await readJsonl<ChunkRecord>(chunksPath());
+    const tagsByText = new Map(chunks.map(c => [c.text.split(' ')[0], c.metadata.tags]));
+
+    expect(chunks).toHaveLength(6);
+    expect(tagsByText.get('Wind')).toEqual(['energy', 'wind']);
+    expect(tagsByText.get('Cake')).toEqual(['kitchen']);
+  });
+});
+
+// ============================================================================
+// project_query
+// ============================================================================
+
+describe('projectQuery filter_tags', () => {
+  beforeEach(buildProject);
+
+  it('should fill top_k from matching chunks when others score higher', async () => {
+    // The query favours the baking chunks, which the filter excludes
+    const result = await query({ query: 'recipe flour', mode: 'semantic', top_k: 3, filter_tags: ['energy'] });
+
+    expect(result.results).toHaveLength(3);
+    expect(result.total).toBe(3);
+    for (const r of result.results) {
+      expect(r.metadata.tags).toContain('energy');
+    }
+  });
+
+  it('should match any of the tags by default', async () => {
+    const result = await query({ query: 'recipe', mode: 'semantic', top_k: 10, filter_tags: ['wind', 'kitchen'] });
+
+    expect(result.results).toHaveLength(4);
+    expect(result.results.some(r => r.text.startsWith('Wind'))).toBe(true);
+    expect(result.results.some(r => r.text.startsWith('Solar'))).toBe(false);
+  });
+
+  it('should require every tag in all mode', async () => {
+    const result = await query({
+      query: 'electricity',
+      mode: 'hybrid',
+      top_k: 10,
+      filter_tags: ['energy', 'solar'],
+      filter_tags_mode: 'all',
+    });
+
+    expect(result.results).toHaveLength(2);
+    expect(result.results.every(r => r.text.startsWith('Solar'))).toBe(true);
+  });
+
+  it('should combine tag and source filters', async () => {
+    const all = await query({ query: 'wind', mode: 'keyword', top_k: 10 });
+    const windSource = all.results.find(r => r.text.startsWith('Wind'))!.source_id;
+
+    const result = await query({ query: 'electricity', mode: 'semantic', top_k: 10, filter_tags: ['energy'], filter_sources: [windSource] });
+
+    expect(result.results).toHaveLength(1);
+    expect(result.results[0].source_id).toBe(windSource);
+  });
+
+  it('should fall back to source tags for chunks built without them', async () => {
+    const chunks = await readJsonl<ChunkRecord>(chunksPath());
+    await writeJsonl(chunksPath(), chunks.map(c => ({ ...c, metadata: { content_hash: c.metadata.content_hash } })));
+
+    const result = await query({ query: 'recipe', mode: 'keyword', top_k: 10, filter_tags: ['kitchen'] });
+
+    expect(result.results).toHaveLength(3);
+    expect(result.results.every(r => r.metadata.tags === undefined)).toBe(true);
+  });
+});
+
+// ============================================================================
+// Exported server
+// ============================================================================
+
+describe('exported server filter_tags', () => {
+  const source = generateMcpServerSourceForTest('Test', 'Test server', 8080, true);
+
+  it('should apply filter_tags before top_k in every search mode', async () => {
+    await buildProject();
+    const search = loadExportedSearch(path.join(tempDir, 'projects', PROJECT_ID));
+    const wind = search.buildTagFilter(['wind'], undefined);
+    const textOf = (r: { chunk: { text: string } }) => r.chunk.text.split(' ')[0];
+
+    const query = 'solar panels electricity blades';
+    const vector = embedLocal(query, 256);
+    expect(textOf(search.searchKeyword(query, 1)[0])).toBe('Solar');
+    expect(search.searchKeyword(query, 1, wind).map(textOf)).toEqual(['Wind']);
+    expect(search.searchSemantic(vector, 1, wind).map(s => s.chunk_id))
+      .toEqual(search.searchKeyword(query, 1, wind).map(r => r.chunk.chunk_id));
+    expect(search.rankHybrid(query, vector, wind).map(textOf)).toEqual(['Wind']);
+
+    const energy = search.buildTagFilter(['energy', 'solar'], 'all');
+    expect(search.rankKeyword(query, energy).map(textOf)).toEqual(['Solar', 'Solar']);
+  });
+
+  it('should filter chunks by any or all tags with a source fallback', () => {
+    const match = source.match(/function buildTagFilter\([\s\S]*?\n\}\n/);
+    expect(match).not.toBeNull();
+
+    const js = ts.transpileModule(match![0], { compilerOptions: { target: ts.ScriptTarget.ES2022 } }).outputText;
+    const sourceMap = new Map([['s-old', { tags: ['energy'] }]]);
+    const buildTagFilter = new Function('sourceMap', `${js}; return buildTagFilter;`)(sourceMap);
+
+    const solar = { source_id: 's1', metadata: { tags: ['energy', 'solar'] } };
+    const legacy = { source_id: 's-old', metadata: {} };
+
+    expect(buildTagFilter(undefined, undefined)).toBeUndefined();
+    expect(buildTagFilter(['solar', 'wind'], 'any')(solar)).toBe(true);
+    expect(buildTagFilter(['solar', 'wind'], 'all')(solar)).toBe(false);
+    expect(buildTagFilter(['energy'], undefined)(legacy)).toBe(true);
+    expect(buildTagFilter(['kitchen'], undefined)(legacy)).toBe(false);
+  });
+});
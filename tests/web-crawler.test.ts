@@ -0,0 +1,143 @@
+/**
+ * Web Crawler Tests
+ *
+ * These tests define the contract for the link-following crawl connector.
+ *
+ * Feature Requirements:
+ * - Breadth-first crawl from a start URL, bounded by max_depth and max_pages
+ * - Same-origin scope by default, allowed_domains when given
+ * - Include/exclude regexes over discovered URLs
+ * - URL normalization: fragments and tracking parameters dropped,
+ *   <link rel=canonical> honored so a page is kept once
+ * - Parent → child link graph saved to raw/crawl_graph.json
+ * - Duplicate pages stay out of the results and raw_manifest.jsonl
+ *
+ * Integration Points:
+ * - src/tools/connect.ts - connectCrawl, canonicalizeUrl (fetches via connectUrl)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+import { initRunManager } from '../src/run-manager.js';
+import { connectCrawl, canonicalizeUrl } from '../src/tools/connect.js';
+import { ConnectCrawlInputSchema } from '../src/schemas.js';
+import type { CrawlGraph, RawArtifact } from '../src/types.js';
+
+function page(body: string, head = ''): string {
+  return `<html><head>${head}</head><body>${body}</body></html>`;
+}
+
+const SITE: Record<string, string> = {
+  '/': page('<a href="/guide?utm_source=home#intro">Guide</a> <a href="/copy">Copy</a> <a href="/admin/panel">Admin</a> <a href="https://elsewhere.example/">Out</a> <a href="mailto:team@example.com">Mail</a>'),
+  '/guide': page('<a href="/guide/install">Install</a> <a href="/">Home</a>', '<link rel="canonical" href="/guide">'),
+  '/copy': page('Same guide, printable. <a href="/hidden">Hidden</a>', '<link rel="canonical" href="/guide">'),
+  '/guide/install': page('<a href="/guide/install/deep">Deeper</a>'),
+  '/guide/install/deep': page('Too deep.'),
+  '/admin/panel': page('Admin.'),
+  '/hidden': page('Only linked from a duplicate.'),
+};
+
+describe('canonicalizeUrl', () => {
+  it('should drop fragments and tracking parameters and sort the query', () => {
+    expect(canonicalizeUrl('https://Docs.Example.com/a?utm_medium=x&b=2&gclid=1&a=1#top'))
+      .toBe('https://docs.example.com/a?a=1&b=2');
+    expect(canonicalizeUrl('../b?utm_source=x', 'https://example.com/docs/a/')).toBe('https://example.com/docs/b');
+    expect(canonicalizeUrl('javascript:void(0)', 'https://example.com/')).toBeNull();
+  });
+});
+
+describe('connectCrawl', () => {
+  let baseDir: string;
+  let server: http.Server;
+  let origin: string;
+  const requests: string[] = [];
+
+  beforeAll(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'indexfoundry-crawl-'));
+    const { security, defaults } = initRunManager(baseDir).getConfig();
+    initRunManager(baseDir, {
+      security: { ...security, blocked_domains: [] },
+      defaults: { ...defaults, connect: { ...defaults.connect, host_delay_ms: 0 } },
+    });
+
+    server = http.createServer((req, res) => {
+      requests.push(req.url!);
+      const body = SITE[new URL(req.url!, 'http://x').pathname];
+      if (body === undefined) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should follow in-scope links to max_depth and keep canonical pages once', async () => {
+    const runId = uuidv4();
+    const result = await connectCrawl(ConnectCrawlInputSchema.parse({
+      run_id: runId, start_url: `${origin}/`, max_depth: 2, exclude_patterns: ['/admin/'],
+    }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.artifacts.map(a => [new URL(a.url).pathname, a.depth])).toEqual([
+      ['/', 0], ['/guide', 1], ['/guide/install', 2],
+    ]);
+    expect(result).toMatchObject({ urls_fetched: 3, urls_duplicate: 1, urls_failed: 0, max_depth_reached: 2 });
+    expect(requests.filter(r => r.startsWith('/guide')).sort()).toEqual(['/guide', '/guide/install']);
+    expect(requests).not.toContain('/admin/panel');
+    expect(requests).not.toContain('/hidden');
+    expect(requests).not.toContain('/guide/install/deep');
+
+    const graph = JSON.parse(await fs.readFile(path.join(baseDir, 'runs', runId, result.graph_path), 'utf-8')) as CrawlGraph;
+    const copy = graph.nodes.find(n => n.url === `${origin}/copy`)!;
+    expect(copy).toMatchObject({ status: 'duplicate', canonical_url: `${origin}/guide`, duplicate_of: `${origin}/guide` });
+    expect(graph.edges).toContainEqual({ from: `${origin}/`, to: `${origin}/guide` });
+    expect(graph.edges).toContainEqual({ from: `${origin}/guide`, to: `${origin}/` });
+    expect(graph.edges.some(e => e.to.includes('elsewhere.example'))).toBe(false);
+    expect(graph.edges.some(e => e.from === `${origin}/copy`)).toBe(false);
+
+    // Only kept pages reach the raw manifest that extraction reads
+    const manifest = (await fs.readFile(path.join(baseDir, 'runs', runId, 'raw', 'raw_manifest.jsonl'), 'utf-8'))
+      .trim().split('\n').map(line => JSON.parse(line) as RawArtifact);
+    expect(manifest.map(a => a.uri)).toEqual(result.artifacts.map(a => a.url));
+    expect(manifest.map(a => a.local_path)).toEqual(result.artifacts.map(a => a.path));
+  });
+
+  it('should stop at max_pages and apply include patterns', async () => {
+    const limited = await connectCrawl(ConnectCrawlInputSchema.parse({
+      run_id: uuidv4(), start_url: `${origin}/`, max_pages: 2, concurrency: 1,
+    }));
+    if ('isError' in limited) throw new Error(limited.message);
+    expect(limited.urls_fetched + limited.urls_duplicate).toBe(2);
+
+    const included = await connectCrawl(ConnectCrawlInputSchema.parse({
+      run_id: uuidv4(), start_url: `${origin}/`, max_depth: 3, include_patterns: ['/guide'],
+    }));
+    if ('isError' in included) throw new Error(included.message);
+    expect(included.artifacts.map(a => new URL(a.url).pathname)).toEqual(['/', '/guide', '/guide/install', '/guide/install/deep']);
+  });
+
+  it('should crawl only allowed domains when given', async () => {
+    const result = await connectCrawl(ConnectCrawlInputSchema.parse({
+      run_id: uuidv4(), start_url: `${origin}/`, allowed_domains: ['docs.example.com'],
+    }));
+    if ('isError' in result) throw new Error(result.message);
+
+    expect(result.urls_failed).toBe(1);
+    expect(result.errors[0].error).toContain('not in allowlist');
+  });
+});